@@ -0,0 +1,104 @@
+#!/usr/bin/env tsx
+/*
+ * Tiny stdio MCP server
+ * Speaks just enough of the protocol to try out the MCP client and the
+ * Settings tab without installing a real server. Offers two tools: `echo`
+ * returns its text, `add` sums two numbers.
+ *
+ * Usage: add a stdio server with command `npx` and arguments
+ *        `tsx scripts/mcpEchoServer.ts`, run from the backend folder
+ *        (`npm run mcp:echo` starts it by hand)
+ */
+
+import { createInterface } from 'readline';
+
+interface JsonRpcRequest {
+  jsonrpc: '2.0';
+  id?: number | string;
+  method: string;
+  params?: Record<string, unknown>;
+}
+
+const tools = [
+  {
+    name: 'echo',
+    description: 'Returns the given text unchanged',
+    inputSchema: {
+      type: 'object',
+      properties: { text: { type: 'string' } },
+      required: ['text'],
+    },
+  },
+  {
+    name: 'add',
+    description: 'Adds two numbers',
+    inputSchema: {
+      type: 'object',
+      properties: { a: { type: 'number' }, b: { type: 'number' } },
+      required: ['a', 'b'],
+    },
+  },
+];
+
+const send = (message: Record<string, unknown>): void => {
+  process.stdout.write(JSON.stringify({ jsonrpc: '2.0', ...message }) + '\n');
+};
+
+const callTool = (name: unknown, args: Record<string, unknown> = {}) => {
+  if (name === 'echo') {
+    return { content: [{ type: 'text', text: String(args.text ?? '') }] };
+  }
+  if (name === 'add') {
+    const sum = Number(args.a) + Number(args.b);
+    return { content: [{ type: 'text', text: String(sum) }] };
+  }
+  return {
+    content: [{ type: 'text', text: `Unknown tool: ${name}` }],
+    isError: true,
+  };
+};
+
+const handle = (request: JsonRpcRequest): void => {
+  // Notifications need no reply
+  if (request.id === undefined) return;
+  const { id, params } = request;
+
+  switch (request.method) {
+    case 'initialize':
+      send({
+        id,
+        result: {
+          protocolVersion: params?.protocolVersion ?? '2025-06-18',
+          capabilities: { tools: {} },
+          serverInfo: { name: 'mcp-echo-server', version: '1.0.0' },
+        },
+      });
+      return;
+    case 'ping':
+      send({ id, result: {} });
+      return;
+    case 'tools/list':
+      send({ id, result: { tools } });
+      return;
+    case 'tools/call':
+      send({
+        id,
+        result: callTool(
+          params?.name,
+          params?.arguments as Record<string, unknown> | undefined
+        ),
+      });
+      return;
+    default:
+      send({ id, error: { code: -32601, message: 'Method not found' } });
+  }
+};
+
+createInterface({ input: process.stdin }).on('line', line => {
+  if (!line.trim()) return;
+  try {
+    handle(JSON.parse(line));
+  } catch {
+    send({ id: null, error: { code: -32700, message: 'Parse error' } });
+  }
+});
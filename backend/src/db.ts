@@ -140,6 +140,12 @@ function initializeTables(): void {
       title TEXT NOT NULL,
       model TEXT NOT NULL,
       persona_id TEXT, -- Reference to persona used for this session
+      active_message_id TEXT, -- Last message of the selected branch
+      summary TEXT, -- Encrypted JSON running summary of evicted turns
+      folder_id TEXT, -- Folder in the sidebar; NULL for the top level
+      tags TEXT, -- Encrypted JSON array of tag names
+      pinned INTEGER NOT NULL DEFAULT 0,
+      archived INTEGER NOT NULL DEFAULT 0,
       created_at INTEGER NOT NULL,
       updated_at INTEGER NOT NULL,
       FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
@@ -147,6 +153,19 @@ function initializeTables(): void {
     )
   `);
 
+  // Folders that organize sessions in the sidebar; folders can be nested
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS chat_folders (
+      id TEXT PRIMARY KEY,
+      user_id TEXT DEFAULT 'default',
+      name TEXT NOT NULL, -- Encrypted
+      parent_id TEXT, -- NULL for top-level folders
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL,
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+    )
+  `);
+
   // Session messages table - normalized from sessions.json
   db.exec(`
     CREATE TABLE IF NOT EXISTS session_messages (
@@ -160,6 +179,12 @@ function initializeTables(): void {
       images TEXT, -- JSON array of base64 images (for multimodal support)
       statistics TEXT, -- JSON object with generation statistics
       artifacts TEXT, -- JSON array of artifacts
+      tool_calls TEXT, -- JSON array of tool calls requested by the assistant
+      tool_name TEXT, -- Tool that produced a 'tool' role message
+      thinking TEXT, -- Reasoning output from thinking models
+      parent_id TEXT, -- Previous message in the conversation tree
+      sibling_index INTEGER DEFAULT 0, -- Position among messages with the same parent
+      citations TEXT, -- JSON array of the document passages a reply cites
       FOREIGN KEY (session_id) REFERENCES sessions(id) ON DELETE CASCADE
     )
   `);
@@ -189,6 +214,8 @@ function initializeTables(): void {
       content TEXT NOT NULL,
       start_char INTEGER,
       end_char INTEGER,
+      page_number INTEGER,
+      section_path TEXT, -- JSON array of headings
       embedding TEXT, -- JSON string for embedding vector
       created_at INTEGER NOT NULL,
       FOREIGN KEY (document_id) REFERENCES documents(id) ON DELETE CASCADE
@@ -226,20 +253,125 @@ function initializeTables(): void {
     )
   `);
 
+  // MCP servers table - per-user tool server connections
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS mcp_servers (
+      id TEXT PRIMARY KEY,
+      user_id TEXT DEFAULT 'default',
+      name TEXT NOT NULL,
+      transport TEXT NOT NULL, -- 'stdio' or 'http'
+      config TEXT NOT NULL, -- Encrypted JSON with command/args/env or url/headers
+      enabled INTEGER NOT NULL DEFAULT 1,
+      disabled_tools TEXT, -- JSON array of tool names turned off by the user
+      tools TEXT, -- JSON array of tools from the last successful connection
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL,
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+      UNIQUE(user_id, name)
+    )
+  `);
+
+  // Full-text search over messages. Message content is encrypted, so the
+  // index holds keyed hashes of the words rather than the words themselves.
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS message_search_docs (
+      id INTEGER PRIMARY KEY, -- rowid of the matching message_search row
+      message_id TEXT NOT NULL UNIQUE,
+      session_id TEXT NOT NULL,
+      user_id TEXT NOT NULL,
+      content_hash TEXT NOT NULL -- Skips re-indexing unchanged messages
+    )
+  `);
+
+  db.exec(`
+    CREATE VIRTUAL TABLE IF NOT EXISTS message_search USING fts5(
+      tokens,
+      tokenize = 'ascii'
+    )
+  `);
+
+  db.exec(`
+    CREATE TRIGGER IF NOT EXISTS message_search_docs_delete
+    AFTER DELETE ON message_search_docs
+    BEGIN
+      DELETE FROM message_search WHERE rowid = old.id;
+    END
+  `);
+
+  // Keyword search over document chunks, hashed the same way as messages
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS document_chunk_search_docs (
+      id INTEGER PRIMARY KEY, -- rowid of the matching document_chunk_search row
+      chunk_id TEXT NOT NULL UNIQUE,
+      document_id TEXT NOT NULL
+    )
+  `);
+
+  db.exec(`
+    CREATE VIRTUAL TABLE IF NOT EXISTS document_chunk_search USING fts5(
+      tokens,
+      tokenize = 'ascii'
+    )
+  `);
+
+  db.exec(`
+    CREATE TRIGGER IF NOT EXISTS document_chunk_search_docs_delete
+    AFTER DELETE ON document_chunk_search_docs
+    BEGIN
+      DELETE FROM document_chunk_search WHERE rowid = old.id;
+    END
+  `);
+
+  // Read-only snapshots of sessions shared by link. No foreign key to
+  // sessions: saving a session replaces its row, which would cascade here.
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS session_shares (
+      token TEXT PRIMARY KEY,
+      session_id TEXT NOT NULL,
+      user_id TEXT NOT NULL,
+      title TEXT NOT NULL, -- Encrypted
+      snapshot TEXT NOT NULL, -- Encrypted JSON of the shared messages
+      created_at INTEGER NOT NULL,
+      expires_at INTEGER, -- NULL for links that never expire
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+    )
+  `);
+
+  // Keys for the OpenAI-compatible API. Only a hash of each key is kept;
+  // the key itself is shown once when it is created.
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS api_keys (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL,
+      name TEXT NOT NULL,
+      key_hash TEXT NOT NULL UNIQUE, -- SHA-256 of the key
+      prefix TEXT NOT NULL, -- First characters, to tell keys apart
+      created_at INTEGER NOT NULL,
+      last_used_at INTEGER,
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+    )
+  `);
+
   // Create indexes for better performance
   db.exec(`
     CREATE INDEX IF NOT EXISTS idx_sessions_user_id ON sessions(user_id);
     CREATE INDEX IF NOT EXISTS idx_sessions_updated_at ON sessions(updated_at);
     CREATE INDEX IF NOT EXISTS idx_session_messages_session_id ON session_messages(session_id);
     CREATE INDEX IF NOT EXISTS idx_session_messages_timestamp ON session_messages(timestamp);
+    CREATE INDEX IF NOT EXISTS idx_message_search_docs_session_id ON message_search_docs(session_id);
+    CREATE INDEX IF NOT EXISTS idx_session_shares_session_id ON session_shares(session_id);
+    CREATE INDEX IF NOT EXISTS idx_api_keys_user_id ON api_keys(user_id);
+    CREATE INDEX IF NOT EXISTS idx_chat_folders_user_id ON chat_folders(user_id);
     CREATE INDEX IF NOT EXISTS idx_documents_user_id ON documents(user_id);
     CREATE INDEX IF NOT EXISTS idx_documents_uploaded_at ON documents(uploaded_at);
     CREATE INDEX IF NOT EXISTS idx_document_chunks_document_id ON document_chunks(document_id);
     CREATE INDEX IF NOT EXISTS idx_document_chunks_index ON document_chunks(chunk_index);
+    CREATE INDEX IF NOT EXISTS idx_document_chunk_search_docs_document_id ON document_chunk_search_docs(document_id);
     CREATE INDEX IF NOT EXISTS idx_user_preferences_user_id ON user_preferences(user_id);
     CREATE INDEX IF NOT EXISTS idx_user_preferences_key ON user_preferences(key);
     CREATE INDEX IF NOT EXISTS idx_personas_user_id ON personas(user_id);
     CREATE INDEX IF NOT EXISTS idx_personas_name ON personas(name);
+    CREATE INDEX IF NOT EXISTS idx_mcp_servers_user_id ON mcp_servers(user_id);
   `);
 
   console.log('Database tables initialized successfully');
@@ -305,6 +437,12 @@ function runMigrations(): void {
       { name: 'images', type: 'TEXT' },
       { name: 'statistics', type: 'TEXT' },
       { name: 'artifacts', type: 'TEXT' },
+      { name: 'tool_calls', type: 'TEXT' },
+      { name: 'tool_name', type: 'TEXT' },
+      { name: 'thinking', type: 'TEXT' },
+      { name: 'parent_id', type: 'TEXT' },
+      { name: 'sibling_index', type: 'INTEGER DEFAULT 0' },
+      { name: 'citations', type: 'TEXT' },
     ];
 
     for (const column of newSessionMessagesColumns) {
@@ -342,6 +480,50 @@ function runMigrations(): void {
       );
     }
 
+    if (!existingSessionsColumns.includes('active_message_id')) {
+      console.log('Adding active_message_id column to sessions table');
+      db.exec('ALTER TABLE sessions ADD COLUMN active_message_id TEXT');
+    }
+
+    if (!existingSessionsColumns.includes('summary')) {
+      console.log('Adding summary column to sessions table');
+      db.exec('ALTER TABLE sessions ADD COLUMN summary TEXT');
+    }
+
+    const newSessionsColumns = [
+      { name: 'folder_id', type: 'TEXT' },
+      { name: 'tags', type: 'TEXT' },
+      { name: 'pinned', type: 'INTEGER NOT NULL DEFAULT 0' },
+      { name: 'archived', type: 'INTEGER NOT NULL DEFAULT 0' },
+    ];
+    for (const column of newSessionsColumns) {
+      if (!existingSessionsColumns.includes(column.name)) {
+        console.log(`Adding ${column.name} column to sessions table`);
+        db.exec(
+          `ALTER TABLE sessions ADD COLUMN ${column.name} ${column.type}`
+        );
+      }
+    }
+
+    const documentChunksTableInfo = db
+      .prepare('PRAGMA table_info(document_chunks)')
+      .all() as Array<{ name: string }>;
+    const existingDocumentChunksColumns = documentChunksTableInfo.map(
+      col => col.name
+    );
+    const newDocumentChunksColumns = [
+      { name: 'page_number', type: 'INTEGER' },
+      { name: 'section_path', type: 'TEXT' },
+    ];
+    for (const column of newDocumentChunksColumns) {
+      if (!existingDocumentChunksColumns.includes(column.name)) {
+        console.log(`Adding ${column.name} column to document_chunks table`);
+        db.exec(
+          `ALTER TABLE document_chunks ADD COLUMN ${column.name} ${column.type}`
+        );
+      }
+    }
+
     // Check if we need to add embedding_model and advanced features columns to personas table
     const personasTableInfo = db
       .prepare('PRAGMA table_info(personas)')
@@ -42,6 +42,7 @@ import helmet from 'helmet';
 import morgan from 'morgan';
 import { createServer } from 'http';
 import { WebSocketServer } from 'ws';
+import { v4 as uuidv4 } from 'uuid';
 
 import {
   errorHandler,
@@ -57,21 +58,34 @@ import documentRoutes from './routes/documents.js';
 import authRoutes from './routes/auth.js';
 import usersRoutes from './routes/users.js';
 import personaRoutes from './routes/personas.js';
+import mcpRoutes from './routes/mcp.js';
+import sharesRoutes from './routes/shares.js';
+import generationRoutes from './routes/generation.js';
+import apiKeyRoutes from './routes/apiKeys.js';
+import openaiRoutes from './routes/openai.js';
 import ollamaService from './services/ollamaService.js';
 import chatService from './services/chatService.js';
 import { GitHubOAuthService } from './services/simpleGitHubOAuth.js';
 import { HuggingFaceOAuthService } from './services/simpleHuggingFaceOAuth.js';
-import pluginService from './services/pluginService.js';
 import preferencesService from './services/preferencesService.js';
 import documentService from './services/documentService.js';
+import { personaService } from './services/personaService.js';
 import { encryptionService as _encryptionService } from './services/encryptionService.js';
 import { mergeGenerationOptions } from './utils/generationUtils.js';
 import { verifyToken } from './utils/jwt.js';
+import { completionService } from './services/completionService.js';
+import { findUserAncestor } from './utils/messageTree.js';
+import { estimateTokens } from './utils/tokenUtils.js';
+import { contextService } from './services/contextService.js';
+import { summaryService } from './services/summaryService.js';
+import { titleService } from './services/titleService.js';
+import { flushVectorIndexes } from './services/vectorIndexService.js';
 import {
-  OllamaChatRequest,
-  OllamaChatMessage,
-  GenerationStatistics,
-} from './types/index.js';
+  generationService,
+  GenerationFrame,
+  GenerationJob,
+} from './services/generationService.js';
+import { ChatMessage, GenerationStatistics } from './types/index.js';
 
 const app = express();
 const port = process.env.PORT || 3001;
@@ -322,6 +336,13 @@ app.use(
 app.use('/api/plugins', pluginRoutes);
 app.use('/api/documents', documentsRateLimiter, documentRoutes);
 app.use('/api/personas', personasRateLimiter, optionalAuth, personaRoutes);
+app.use('/api/mcp', optionalAuth, mcpRoutes);
+app.use('/api/generation', optionalAuth, generationRoutes);
+app.use('/api/api-keys', optionalAuth, apiKeyRoutes);
+// Public: share links open without logging in
+app.use('/api/shares', sharesRoutes);
+// OpenAI-compatible API, authenticated with API keys
+app.use('/v1', openaiRoutes);
 
 // API-only backend - no static file serving
 
@@ -343,6 +364,7 @@ wss.on('connection', (ws, req) => {
 
   // Extract and verify auth token from query parameters
   let userId = 'default';
+  let isAdmin = false;
   try {
     const url = new URL(req.url || '', `http://${req.headers.host}`);
     const token = url.searchParams.get('token');
@@ -351,6 +373,7 @@ wss.on('connection', (ws, req) => {
       // Verify JWT token using the same logic as the auth middleware
       const decoded = verifyToken(token);
       userId = decoded.userId;
+      isAdmin = decoded.role === 'admin';
       console.log('WebSocket authenticated for user:', userId);
     } else {
       console.log(
@@ -362,10 +385,75 @@ wss.on('connection', (ws, req) => {
     // Continue with default user for backward compatibility
   }
 
+  // Generations this connection follows. Closing the socket only detaches
+  // it: the generation keeps running and a new connection can resume it.
+  const followed = new Set<() => void>();
+  const sendFrame = (frame: GenerationFrame) => {
+    if (ws.readyState === ws.OPEN) {
+      ws.send(JSON.stringify(frame));
+    }
+  };
+
+  // Name a new chat after its first reply and let the client know
+  const announceGeneratedTitle = (job: GenerationJob, model: string) => {
+    titleService
+      .generateTitle(job.sessionId, userId, model)
+      .then(session => {
+        if (session) {
+          generationService.emit(job, 'session_updated', {
+            sessionId: job.sessionId,
+            title: session.title,
+            updatedAt: session.updatedAt,
+          });
+        }
+      })
+      .catch(error => {
+        console.error('[WebSocket] Failed to announce generated title:', error);
+      });
+  };
+
   ws.on('message', async data => {
+    let job: GenerationJob | undefined;
     try {
       const message = JSON.parse(data.toString());
 
+      // Stop a reply that is still generating; the partial reply is saved
+      // and reported through the usual assistant_complete message
+      if (message.type === 'chat_cancel') {
+        const { messageId } = message.data || {};
+        if (typeof messageId === 'string') {
+          generationService.cancel(messageId, userId);
+        }
+        return;
+      }
+
+      // A reconnected client catching up on a reply it was following
+      if (message.type === 'chat_resume') {
+        const { messageId, lastOffset } = message.data || {};
+        const detach =
+          typeof messageId === 'string'
+            ? generationService.resume(
+                messageId,
+                userId,
+                Number(lastOffset) || 0,
+                sendFrame
+              )
+            : undefined;
+
+        if (detach) {
+          followed.add(detach);
+        } else {
+          // Too late to resume: the client reloads the saved session
+          ws.send(
+            JSON.stringify({
+              type: 'resume_unavailable',
+              data: { messageId },
+            })
+          );
+        }
+        return;
+      }
+
       if (message.type === 'chat_stream') {
         const {
           sessionId,
@@ -374,6 +462,10 @@ wss.on('connection', (ws, req) => {
           format,
           options,
           assistantMessageId,
+          think,
+          userMessageId,
+          parentId,
+          regenerate,
         } = message.data;
 
         console.log(
@@ -410,272 +502,86 @@ wss.on('connection', (ws, req) => {
           return;
         }
 
-        // Add user message with images if provided
-        const userMessage = chatService.addMessage(
+        // Register before any slow work so the reply can be cancelled
+        // while documents are searched or the model loads
+        const currentJob = generationService.start(
+          assistantMessageId || uuidv4(),
           sessionId,
-          {
-            role: 'user',
-            content,
-            images: images || undefined,
-          },
           userId
         );
+        job = currentJob;
+        followed.add(generationService.subscribe(currentJob, sendFrame));
+        const { signal } = currentJob.controller;
+        const emit = (type: string, payload: object) =>
+          generationService.emit(currentJob, type, payload);
+
+        let userMessage: ChatMessage | undefined;
+        if (regenerate) {
+          // Answer an existing user message again on a new branch
+          userMessage = parentId
+            ? findUserAncestor(session.messages, parentId)
+            : undefined;
+          if (userMessage) {
+            chatService.setActiveMessage(sessionId, userMessage.id, userId);
+          }
+        } else {
+          // Add user message with images if provided; a parentId branches
+          // off an earlier point in the conversation (null for the root)
+          userMessage = chatService.addMessage(
+            sessionId,
+            {
+              id: userMessageId,
+              role: 'user',
+              content,
+              images: images || undefined,
+              parentId,
+            },
+            userId
+          );
+        }
 
         if (!userMessage) {
-          ws.send(
-            JSON.stringify({
-              type: 'error',
-              data: { error: 'Failed to add user message' },
-            })
-          );
+          emit('error', {
+            error: regenerate
+              ? 'No user message to regenerate a reply for'
+              : 'Failed to add user message',
+          });
           return;
         }
 
         // Send user message confirmation
-        ws.send(
-          JSON.stringify({
-            type: 'user_message',
-            data: userMessage,
-          })
-        );
+        emit('user_message', userMessage);
 
         // RAG: Get relevant document context for the user's query
-        const relevantContext = await documentService.getRelevantContext(
-          content,
+        const prompt = userMessage.content;
+        const documentPrompt = await documentService.addDocumentContext(
+          prompt,
           sessionId
         );
-        let enhancedContent = content;
-
-        if (relevantContext.length > 0) {
-          console.log(
-            `Found ${relevantContext.length} relevant document chunks for query`
-          );
-
-          // Inject document context into the user message
-          const contextString = relevantContext.join('\n\n---\n\n');
-          enhancedContent = `Context from uploaded documents:\n\n${contextString}\n\n---\n\nUser question: ${content}`;
-
-          // Update the user message with enhanced content that includes document context
-          // We'll create a new message with the enhanced content for the AI model
-          console.log('Enhanced user message with document context');
-        }
-
-        // Use the modern chat completion API instead of legacy generate API
-        // This supports multimodal input and structured outputs
-        const contextMessages = chatService.getMessagesForContext(sessionId);
-
-        // Convert our messages to Ollama format
-        const ollamaMessages: OllamaChatMessage[] = contextMessages.map(
-          (msg, index) => {
-            const ollamaMessage: OllamaChatMessage = {
-              role: msg.role as OllamaChatMessage['role'],
-              content: msg.content,
-            };
-
-            // Debug: Log what we're sending to Ollama
-            if (msg.role === 'system') {
-              console.log(
-                `🚀 [DEBUG] Sending to Ollama - System message: "${msg.content.substring(0, 150)}${msg.content.length > 150 ? '...' : ''}"`
-              );
-            }
-
-            // Use enhanced content for the last user message if we have document context
-            if (
-              msg.role === 'user' &&
-              index === contextMessages.length - 1 &&
-              relevantContext.length > 0
-            ) {
-              ollamaMessage.content = enhancedContent;
-            }
-
-            // Process images: strip data URL prefix if present
-            if (msg.images && msg.images.length > 0) {
-              ollamaMessage.images = msg.images.map(img => {
-                // Strip data URL prefix if present (e.g., "data:image/png;base64,")
-                if (typeof img === 'string' && img.includes(',')) {
-                  const base64Index = img.indexOf(',');
-                  if (base64Index !== -1) {
-                    return img.substring(base64Index + 1);
-                  }
-                }
-                return img;
-              });
-            }
-
-            return ollamaMessage;
-          }
-        );
-
-        let assistantContent = '';
-        let finalStatistics: GenerationStatistics | undefined = undefined;
-
-        console.log('Backend: Using assistantMessageId:', assistantMessageId);
+        const enhancedContent = documentPrompt?.prompt ?? prompt;
+        const citations = documentPrompt?.citations;
 
         // Resolve the actual model name (handles persona IDs)
         let actualModelName = session.model;
-        if (session.model.startsWith('persona:')) {
-          try {
-            const personaId = session.model.replace('persona:', '');
-            console.log(
-              `[WebSocket] DEBUG: Resolving persona ${personaId} for user ${userId}`
-            );
-            const { personaService } = await import(
-              './services/personaService.js'
-            );
-
-            // Try to get persona for the current user first, then fallback to 'default'
-            let persona = await personaService.getPersonaById(
-              personaId,
-              userId
-            );
-            if (!persona && userId !== 'default') {
-              console.log(
-                `[WebSocket] DEBUG: Persona not found for user ${userId}, trying default user`
-              );
-              persona = await personaService.getPersonaById(
-                personaId,
-                'default'
-              );
-            }
-
-            console.log(
-              `[WebSocket] DEBUG: Persona lookup result:`,
-              persona
-                ? `Found persona with model: ${persona.model}`
-                : 'Persona not found'
-            );
-            if (persona && persona.model) {
-              actualModelName = persona.model;
-              console.log(
-                `[WebSocket] Resolved persona ${personaId} to model: ${actualModelName}`
-              );
-            } else {
-              console.warn(
-                `[WebSocket] Persona ${personaId} not found, using original model: ${session.model}`
-              );
-            }
-          } catch (error) {
-            console.error(`[WebSocket] Error resolving persona model:`, error);
-          }
-        }
-
-        // Check if there's an active plugin for this model
-        console.log(
-          `[WebSocket] Looking for plugin for model: ${actualModelName}`
-        );
-        const activePlugin =
-          pluginService.getActivePluginForModel(actualModelName);
-        console.log(
-          `[WebSocket] Found plugin:`,
-          activePlugin ? activePlugin.id : 'none'
-        );
-
-        if (activePlugin) {
-          console.log(
-            `[WebSocket] Using plugin ${activePlugin.id} for model ${actualModelName}`
+        try {
+          const persona = await personaService.resolveModelPersona(
+            session.model,
+            userId
           );
-          try {
-            // Get user's preferred generation options
-            const userGenerationOptions =
-              preferencesService.getGenerationOptions();
-
-            // Merge user preferences with request options
-            const mergedOptions = mergeGenerationOptions(
-              userGenerationOptions,
-              options
-            );
-
-            // Get messages for context
-            const contextMessages =
-              chatService.getMessagesForContext(sessionId);
-
-            // Use plugin for generation (non-streaming for now)
-            const pluginResponse = await pluginService.executePluginRequest(
-              actualModelName,
-              contextMessages.concat([userMessage]),
-              mergedOptions
+          if (persona?.model) {
+            actualModelName = persona.model;
+            console.log(
+              `[WebSocket] Resolved persona ${persona.id} to model: ${actualModelName}`
             );
-
-            // Get the content from plugin response
-            assistantContent =
-              pluginResponse.choices[0]?.message?.content || '';
-
-            // Send the complete response as chunks to simulate streaming
-            const words = assistantContent.split(' ');
-            const BATCH_SIZE = 3; // Send 3 words at a time to reduce message frequency
-
-            for (let i = 0; i < words.length; i += BATCH_SIZE) {
-              const batch = words.slice(i, i + BATCH_SIZE);
-              const chunk = words.slice(0, i + batch.length).join(' ');
-              const isLast = i + BATCH_SIZE >= words.length;
-
-              ws.send(
-                JSON.stringify({
-                  type: 'assistant_chunk',
-                  data: {
-                    content: batch.join(' ') + (isLast ? '' : ' '),
-                    total: chunk,
-                    done: isLast,
-                    messageId: assistantMessageId,
-                  },
-                })
-              );
-
-              // Small delay to simulate streaming but with better batching
-              if (!isLast) {
-                await new Promise(resolve => setTimeout(resolve, 100));
-              }
-            }
-
-            // Save the complete assistant message
-            if (assistantContent && assistantMessageId) {
-              console.log(
-                'Backend: Saving complete assistant message with ID:',
-                assistantMessageId
-              );
-
-              const assistantMessage = chatService.addMessage(
-                sessionId,
-                {
-                  role: 'assistant',
-                  content: assistantContent,
-                  model: session.model,
-                  id: assistantMessageId,
-                },
-                userId
-              );
-
-              console.log(
-                'Backend: Assistant message saved:',
-                !!assistantMessage
-              );
-
-              // Send completion signal
-              ws.send(
-                JSON.stringify({
-                  type: 'assistant_complete',
-                  data: assistantMessage,
-                })
-              );
-            }
-            return; // Exit early since we handled the request via plugin
-          } catch (pluginError) {
-            console.error(
-              'Plugin failed, falling back to Ollama:',
-              pluginError
+          } else if (session.model.startsWith('persona:')) {
+            console.warn(
+              `[WebSocket] Persona ${session.model} not found, using original model`
             );
-            // Continue to Ollama fallback below
           }
+        } catch (error) {
+          console.error(`[WebSocket] Error resolving persona model:`, error);
         }
 
-        console.log(
-          `[WebSocket] No plugin found or plugin failed, using Ollama for model: ${actualModelName}`
-        );
-
-        // Reuse the actualModelName variable that was already resolved above
-        // If we're here, it means either there was no plugin or plugin failed
-        // The actualModelName was already resolved in the earlier code block
-
         // Get user's preferred generation options
         const userGenerationOptions = preferencesService.getGenerationOptions();
 
@@ -685,127 +591,194 @@ wss.on('connection', (ws, req) => {
           options
         );
 
-        // Create chat request with advanced features
-        const chatRequest: OllamaChatRequest = {
-          model: actualModelName,
-          messages: ollamaMessages,
-          stream: true,
-          options: mergedOptions as Record<string, unknown>,
-        };
-
-        // Add structured output format if specified
-        if (format) {
-          chatRequest.format = format;
-        }
+        // Use the modern chat completion API instead of legacy generate API
+        // This supports multimodal input and structured outputs.
+        // Fit as much of the conversation as the model's context allows,
+        // leaving room for the document context added to the prompt.
+        const contextBudget = await contextService.getBudget(
+          actualModelName,
+          mergedOptions
+        );
+        const { messages: contextMessages, usage: contextUsage } =
+          chatService.getMessagesForContext(
+            sessionId,
+            contextBudget,
+            estimateTokens(enhancedContent) - estimateTokens(prompt)
+          );
 
-        // Stream response from Ollama using chat completion
-        await ollamaService.generateChatStreamResponse(
-          chatRequest,
-          chunk => {
-            if (chunk.message?.content) {
-              assistantContent += chunk.message.content;
-
-              // Send streaming chunk with the provided message ID
-              ws.send(
-                JSON.stringify({
-                  type: 'assistant_chunk',
-                  data: {
-                    content: chunk.message.content,
-                    total: assistantContent,
-                    done: chunk.done,
-                    messageId: assistantMessageId,
-                  },
-                })
-              );
-            }
-
-            // Capture final statistics when streaming is done
-            if (chunk.done) {
-              finalStatistics = {
-                total_duration: chunk.total_duration,
-                load_duration: chunk.load_duration,
-                prompt_eval_count: chunk.prompt_eval_count,
-                prompt_eval_duration: chunk.prompt_eval_duration,
-                eval_count: chunk.eval_count,
-                eval_duration: chunk.eval_duration,
-                created_at: chunk.created_at,
-                model: chunk.model,
-              };
-
-              // Calculate tokens per second if we have the necessary data
-              if (chunk.eval_count && chunk.eval_duration) {
-                finalStatistics.tokens_per_second =
-                  Math.round(
-                    (chunk.eval_count / (chunk.eval_duration / 1e9)) * 100
-                  ) / 100;
-              }
-            }
-          },
-          error => {
-            ws.send(
-              JSON.stringify({
-                type: 'error',
-                data: { error: error.message },
-              })
-            );
-          },
-          () => {
-            // Save the complete assistant message with the provided ID
-            if (assistantContent && assistantMessageId) {
-              console.log(
-                'Backend: Saving complete assistant message with ID:',
-                assistantMessageId
-              );
+        emit('context_usage', { sessionId, ...contextUsage });
 
-              const assistantMessage = chatService.addMessage(
-                sessionId,
-                {
-                  role: 'assistant',
-                  content: assistantContent,
-                  model: session.model,
-                  id: assistantMessageId,
-                  statistics: finalStatistics,
-                },
-                userId
+        // The last user message carries the document context
+        const generationMessages =
+          documentPrompt === undefined
+            ? contextMessages
+            : contextMessages.map((msg, index) =>
+                msg.role === 'user' && index === contextMessages.length - 1
+                  ? { ...msg, content: enhancedContent }
+                  : msg
               );
 
-              console.log(
-                'Backend: Assistant message saved:',
-                !!assistantMessage
-              );
+        console.log('Backend: Using assistantMessageId:', assistantMessageId);
+
+        // Wait for a free slot so concurrent users share the backend fairly
+        await generationService.waitForSlot(currentJob, isAdmin ? 1 : 0);
+
+        // Cancelled before it got a slot, so there is nothing to save
+        if (signal.aborted) {
+          emit('assistant_complete', {
+            content: '',
+            role: 'assistant',
+            timestamp: Date.now(),
+            messageId: assistantMessageId,
+            statistics: { done_reason: 'cancelled' },
+          });
+          return;
+        }
 
-              // Send completion signal with statistics
-              ws.send(
-                JSON.stringify({
-                  type: 'assistant_complete',
-                  data: {
-                    content: assistantContent,
+        // Plugin or Ollama, with tools when the model supports them; tool
+        // turns are stored ahead of the final answer as they happen
+        const result = await completionService.complete(
+          {
+            model: actualModelName,
+            messages: generationMessages,
+            options: mergedOptions,
+            format,
+            think,
+            tools: {
+              context: { userId, sessionId, personaId: session.personaId },
+              onToolCalls: turn => {
+                const toolCallMessage = chatService.addMessage(
+                  sessionId,
+                  {
                     role: 'assistant',
-                    timestamp: Date.now(),
-                    messageId: assistantMessageId,
-                    statistics: finalStatistics,
+                    content: turn.content,
+                    model: session.model,
+                    toolCalls: turn.toolCalls,
+                    thinking: turn.thinking || undefined,
                   },
-                })
-              );
-            }
-          }
+                  userId
+                );
+                emit('tool_message', {
+                  message: toolCallMessage,
+                  beforeMessageId: assistantMessageId,
+                });
+              },
+              onToolResult: (toolName, output) => {
+                const toolMessage = chatService.addMessage(
+                  sessionId,
+                  { role: 'tool', content: output, toolName },
+                  userId
+                );
+                emit('tool_message', {
+                  message: toolMessage,
+                  beforeMessageId: assistantMessageId,
+                });
+              },
+            },
+          },
+          {
+            onChunk: (content, total) =>
+              emit('assistant_chunk', {
+                content,
+                total,
+                done: false,
+                messageId: assistantMessageId,
+              }),
+            onThinking: (content, total) =>
+              emit('assistant_thinking_chunk', {
+                content,
+                total,
+                messageId: assistantMessageId,
+              }),
+          },
+          signal
         );
+
+        // Cancelled replies end without the model's final statistics
+        const cancelled = signal.aborted || result.finishReason === 'cancelled';
+        const finalStatistics: GenerationStatistics | undefined = cancelled
+          ? { ...(result.statistics || {}), done_reason: 'cancelled' }
+          : result.statistics;
+        const thinking = result.thinking || undefined;
+
+        // Save the complete (or, when cancelled, partial) assistant message
+        if (
+          (result.content || (cancelled && result.thinking)) &&
+          assistantMessageId
+        ) {
+          console.log(
+            'Backend: Saving complete assistant message with ID:',
+            assistantMessageId
+          );
+
+          const assistantMessage = chatService.addMessage(
+            sessionId,
+            {
+              role: 'assistant',
+              content: result.content,
+              model: session.model,
+              id: assistantMessageId,
+              statistics: finalStatistics,
+              thinking,
+              citations,
+            },
+            userId
+          );
+
+          console.log('Backend: Assistant message saved:', !!assistantMessage);
+
+          // Send completion signal with statistics
+          emit('assistant_complete', {
+            content: result.content,
+            role: 'assistant',
+            timestamp: Date.now(),
+            messageId: assistantMessageId,
+            statistics: finalStatistics,
+            thinking,
+            citations,
+          });
+
+          // Fold turns that fell out of the context window into the summary
+          summaryService.scheduleUpdate(
+            sessionId,
+            userId,
+            actualModelName,
+            mergedOptions
+          );
+          announceGeneratedTitle(currentJob, actualModelName);
+        } else if (cancelled) {
+          emit('assistant_complete', {
+            content: '',
+            role: 'assistant',
+            timestamp: Date.now(),
+            messageId: assistantMessageId,
+            statistics: finalStatistics,
+          });
+        }
       }
     } catch (error: unknown) {
       console.error('WebSocket error:', error);
       const errorMessage =
         error instanceof Error ? error.message : String(error);
-      ws.send(
-        JSON.stringify({
-          type: 'error',
-          data: { error: errorMessage },
-        })
-      );
+      if (job) {
+        generationService.emit(job, 'error', { error: errorMessage });
+      } else {
+        ws.send(
+          JSON.stringify({
+            type: 'error',
+            data: { error: errorMessage },
+          })
+        );
+      }
+    } finally {
+      if (job) generationService.finish(job);
     }
   });
 
   ws.on('close', () => {
     console.log('WebSocket client disconnected');
+    followed.forEach(detach => detach());
+    followed.clear();
   });
 
   ws.on('error', error => {
@@ -861,6 +834,7 @@ server.listen({ port, host: '0.0.0.0' }, () => {
 // Graceful shutdown
 process.on('SIGTERM', () => {
   console.log('SIGTERM signal received: closing HTTP server');
+  flushVectorIndexes();
   server.close(() => {
     console.log('HTTP server closed');
   });
@@ -868,6 +842,7 @@ process.on('SIGTERM', () => {
 
 process.on('SIGINT', () => {
   console.log('SIGINT signal received: closing HTTP server');
+  flushVectorIndexes();
   server.close(() => {
     console.log('HTTP server closed');
   });
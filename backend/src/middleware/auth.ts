@@ -17,6 +17,7 @@
 
 import { Request, Response, NextFunction } from 'express';
 import { authService, AuthTokenPayload } from '../services/authService.js';
+import { apiKeyService } from '../services/apiKeyService.js';
 
 // Extend Request interface to include user
 export interface AuthenticatedRequest extends Request {
@@ -82,6 +83,38 @@ export const requireAdmin = async (
   next();
 };
 
+/**
+ * API key authentication for the OpenAI-compatible endpoints. Errors use
+ * OpenAI's error format so client libraries can report them.
+ */
+export const authenticateApiKey = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const authHeader = req.headers.authorization;
+  const key = authHeader?.startsWith('Bearer ')
+    ? authHeader.substring(7).trim()
+    : '';
+  const user = key ? apiKeyService.authenticate(key) : undefined;
+
+  if (!user) {
+    res.status(401).json({
+      error: {
+        message: key
+          ? 'Invalid API key'
+          : 'No API key provided. Send it as "Authorization: Bearer <key>".',
+        type: 'invalid_request_error',
+        code: 'invalid_api_key',
+      },
+    });
+    return;
+  }
+
+  req.user = user;
+  next();
+};
+
 /**
  * Optional authentication middleware - doesn't block if no token
  */
@@ -0,0 +1,145 @@
+/*
+ * Libre WebUI
+ * Copyright (C) 2025 Kroonen AI, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at:
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import express, { Response } from 'express';
+import rateLimit from 'express-rate-limit';
+import { AuthenticatedRequest } from '../middleware/auth.js';
+import { authService } from '../services/authService.js';
+import { apiKeyService } from '../services/apiKeyService.js';
+import {
+  ApiKey,
+  ApiKeyCreated,
+  ApiResponse,
+  getErrorMessage,
+} from '../types/index.js';
+
+const router = express.Router();
+
+// Rate limiting for API key management
+const apiKeysRateLimit = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 100, // Limit each IP to 100 requests per windowMs
+  message: {
+    success: false,
+    error: 'Too many API key requests from this IP, please try again later.',
+  },
+});
+
+router.use(apiKeysRateLimit);
+
+// Keys act for a user, so creating one needs a logged-in user or the
+// implicit owner of a single-user install
+const canManageKeys = (req: AuthenticatedRequest): boolean =>
+  !!req.user || authService.getSystemInfo().singleUserMode;
+
+// List the current user's API keys
+router.get(
+  '/',
+  async (
+    req: AuthenticatedRequest,
+    res: Response<ApiResponse<ApiKey[]>>
+  ): Promise<void> => {
+    try {
+      const userId = req.user?.userId || 'default';
+      if (!apiKeyService.isAvailable() || !canManageKeys(req)) {
+        res.json({ success: true, data: [] });
+        return;
+      }
+      res.json({ success: true, data: apiKeyService.listKeys(userId) });
+    } catch (error: unknown) {
+      res.status(500).json({
+        success: false,
+        error: getErrorMessage(error, 'Failed to load API keys'),
+      });
+    }
+  }
+);
+
+// Create a key; the key itself is only returned in this response
+router.post(
+  '/',
+  async (
+    req: AuthenticatedRequest,
+    res: Response<ApiResponse<ApiKeyCreated>>
+  ): Promise<void> => {
+    try {
+      const userId = req.user?.userId || 'default';
+      const { name } = req.body || {};
+
+      if (!canManageKeys(req)) {
+        res.status(401).json({
+          success: false,
+          error: 'Log in to create API keys',
+        });
+        return;
+      }
+      if (!apiKeyService.isAvailable()) {
+        res.status(503).json({
+          success: false,
+          error: 'API keys require the SQLite database',
+        });
+        return;
+      }
+      if (typeof name !== 'string') {
+        res.status(400).json({
+          success: false,
+          error: 'API key name is required',
+        });
+        return;
+      }
+
+      const apiKey = apiKeyService.createKey(userId, name);
+      res.status(201).json({ success: true, data: apiKey });
+    } catch (error: unknown) {
+      res.status(400).json({
+        success: false,
+        error: getErrorMessage(error, 'Failed to create API key'),
+      });
+    }
+  }
+);
+
+// Revoke a key
+router.delete(
+  '/:id',
+  async (
+    req: AuthenticatedRequest,
+    res: Response<ApiResponse>
+  ): Promise<void> => {
+    try {
+      const userId = req.user?.userId || 'default';
+      if (
+        !apiKeyService.isAvailable() ||
+        !canManageKeys(req) ||
+        !apiKeyService.revokeKey(req.params.id, userId)
+      ) {
+        res.status(404).json({
+          success: false,
+          error: 'API key not found',
+        });
+        return;
+      }
+      res.json({ success: true, message: 'API key revoked' });
+    } catch (error: unknown) {
+      res.status(500).json({
+        success: false,
+        error: getErrorMessage(error, 'Failed to revoke API key'),
+      });
+    }
+  }
+);
+
+export default router;
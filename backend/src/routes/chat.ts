@@ -15,9 +15,11 @@
  * limitations under the License.
  */
 
-import express, { Response } from 'express';
+import express, { NextFunction, Response } from 'express';
 import rateLimit from 'express-rate-limit';
-import chatService from '../services/chatService.js';
+import multer from 'multer';
+import { v4 as uuidv4 } from 'uuid';
+import chatService, { SUMMARY_MESSAGE_ID } from '../services/chatService.js';
 import ollamaService from '../services/ollamaService.js';
 import pluginService from '../services/pluginService.js';
 import preferencesService from '../services/preferencesService.js';
@@ -28,11 +30,35 @@ import {
   mergeGenerationOptions,
   extractStatistics,
 } from '../utils/generationUtils.js';
+import { findUserAncestor } from '../utils/messageTree.js';
+import { estimateTokens } from '../utils/tokenUtils.js';
+import { contextService } from '../services/contextService.js';
+import { summaryService } from '../services/summaryService.js';
+import { titleService } from '../services/titleService.js';
+import { exportService } from '../services/exportService.js';
+import { importService } from '../services/importService.js';
+import { shareService } from '../services/shareService.js';
+import { folderService } from '../services/folderService.js';
+import {
+  generationService,
+  GenerationJob,
+} from '../services/generationService.js';
 import {
   ApiResponse,
+  ChatFolder,
   ChatSession,
   ChatMessage,
+  ChatImportResult,
+  ChatSearchResult,
+  ContextUsage,
+  ConversationSummary,
+  GenerationOptions,
+  MessageCitation,
+  OllamaChatRequest,
   OllamaChatResponse,
+  SessionExportFormat,
+  SessionOrganization,
+  SessionShare,
   getErrorMessage,
 } from '../types/index.js';
 
@@ -62,36 +88,213 @@ async function resolveActualModelName(
   sessionModel: string,
   userId: string = 'default'
 ): Promise<string> {
-  if (sessionModel.startsWith('persona:')) {
-    try {
-      const personaId = sessionModel.replace('persona:', '');
+  try {
+    const persona = await personaService.resolveModelPersona(
+      sessionModel,
+      userId
+    );
+    if (persona?.model) {
+      console.log(
+        `[DEBUG] Resolved persona ${persona.id} to model: ${persona.model}`
+      );
+      return persona.model;
+    }
+    if (sessionModel.startsWith('persona:')) {
+      console.warn(
+        `[DEBUG] Persona ${sessionModel} not found, falling back to session model`
+      );
+    }
+  } catch (error) {
+    console.error(`[DEBUG] Error resolving persona model:`, error);
+  }
+  return sessionModel;
+}
 
-      // Try to get persona for the current user first, then fallback to 'default'
-      let persona = await personaService.getPersonaById(personaId, userId);
-      if (!persona && userId !== 'default') {
-        console.log(
-          `[DEBUG] Persona not found for user ${userId}, trying default user`
-        );
-        persona = await personaService.getPersonaById(personaId, 'default');
-      }
+// Numbered passages from the session's documents to put before the
+// question, with the citations they back; undefined when nothing matches
+async function findDocumentContext(
+  query: string,
+  sessionId: string
+): Promise<{ prompt: string; citations: MessageCitation[] } | undefined> {
+  try {
+    return await documentService.addDocumentContext(query, sessionId);
+  } catch (error) {
+    console.error('[DEBUG] Error during document search:', error);
+    // Continue without document context if search fails
+    return undefined;
+  }
+}
 
-      if (persona && persona.model) {
-        console.log(
-          `[DEBUG] Resolved persona ${personaId} to model: ${persona.model}`
+// The messages with the last one, the question, swapped for the prompt
+// carrying the document context
+function withDocumentPrompt<T extends { role: string; content: string }>(
+  messages: T[],
+  documentPrompt?: { prompt: string }
+): T[] {
+  return messages.map((msg, index) =>
+    documentPrompt && msg.role === 'user' && index === messages.length - 1
+      ? { ...msg, content: documentPrompt.prompt }
+      : msg
+  );
+}
+
+// Generate and store an assistant reply continuing the session's active
+// branch, which must end with the user message being answered
+async function generateAssistantReply(
+  session: ChatSession,
+  userId: string,
+  query: string,
+  options: Partial<GenerationOptions>,
+  think?: boolean
+): Promise<ChatMessage | undefined> {
+  const documentPrompt = await findDocumentContext(query, session.id);
+
+  let response: OllamaChatResponse;
+  let assistantContent: string;
+
+  // Get user's preferred generation options
+  const userGenerationOptions = preferencesService.getGenerationOptions();
+
+  // Merge user preferences with request options (request options take precedence)
+  const mergedOptions = mergeGenerationOptions(userGenerationOptions, options);
+
+  // Resolve the actual model name (handles persona IDs)
+  const actualModelName = await resolveActualModelName(session.model, userId);
+  console.log(
+    `[DEBUG] Resolved model from "${session.model}" to "${actualModelName}"`
+  );
+
+  // Fit as much of the active branch as the model's context allows
+  const budget = await contextService.getBudget(actualModelName, mergedOptions);
+  const { messages: branch } = chatService.getMessagesForContext(
+    session.id,
+    budget,
+    documentPrompt
+      ? estimateTokens(documentPrompt.prompt) - estimateTokens(query)
+      : 0
+  );
+
+  // Convert the branch to Ollama format and handle persona system prompts
+  let ollamaMessages = branch.map((msg: ChatMessage) => ({
+    role: msg.role,
+    content: msg.content,
+  }));
+
+  // Inject persona instructions if session has a persona
+  if (session.personaId) {
+    try {
+      const persona = await personaService.getPersonaById(
+        session.personaId,
+        userId
+      );
+      if (persona && persona.parameters.system_prompt) {
+        // Replace existing system messages with the persona's system
+        // prompt, keeping the conversation summary
+        ollamaMessages = ollamaMessages.filter(
+          (msg, index) =>
+            msg.role !== 'system' || branch[index].id === SUMMARY_MESSAGE_ID
         );
-        return persona.model;
-      } else {
-        console.warn(
-          `[DEBUG] Persona ${personaId} not found, falling back to session model`
+        ollamaMessages.unshift({
+          role: 'system',
+          content: persona.parameters.system_prompt,
+        });
+        console.log(
+          `[DEBUG] Replaced system messages with persona instructions for: ${persona.name}`
         );
-        return sessionModel;
       }
     } catch (error) {
-      console.error(`[DEBUG] Error resolving persona model:`, error);
-      return sessionModel;
+      console.error('[DEBUG] Error loading persona:', error);
+      // Continue without persona if loading fails
     }
   }
-  return sessionModel;
+
+  // The branch ends with the user message; add document context if available
+  ollamaMessages = withDocumentPrompt(ollamaMessages, documentPrompt);
+
+  // Prepare common chat request for Ollama (used in both fallback and direct cases)
+  const chatRequest: OllamaChatRequest = {
+    model: actualModelName,
+    messages: ollamaMessages,
+    stream: false,
+    options: mergedOptions as Record<string, unknown>,
+  };
+
+  const capabilities =
+    await ollamaService.getModelCapabilities(actualModelName);
+  if (capabilities.includes('thinking')) {
+    chatRequest.think = think === true;
+  }
+
+  // Check if there's an active plugin for this model
+  console.log(`[DEBUG] Looking for plugin for model: ${actualModelName}`);
+  const activePlugin = pluginService.getActivePluginForModel(actualModelName);
+  console.log(`[DEBUG] Found plugin:`, activePlugin ? activePlugin.id : 'none');
+
+  if (activePlugin) {
+    console.log(
+      `[DEBUG] Using plugin ${activePlugin.id} for model ${actualModelName}`
+    );
+    try {
+      // Use plugin for generation; the branch already ends with the
+      // user message
+      const pluginResponse = await pluginService.executePluginRequest(
+        actualModelName,
+        withDocumentPrompt(branch, documentPrompt),
+        options
+      );
+
+      // Convert plugin response to our format
+      assistantContent = pluginResponse.choices[0]?.message?.content || '';
+
+      // Create a mock response in Ollama format
+      response = {
+        model: actualModelName,
+        created_at: new Date().toISOString(),
+        message: {
+          role: 'assistant',
+          content: assistantContent,
+        },
+        done: true,
+      } as OllamaChatResponse;
+    } catch (pluginError) {
+      console.error('Plugin failed, falling back to Ollama:', pluginError);
+
+      // Fallback to Ollama
+      response = await ollamaService.generateChatResponse(chatRequest);
+      assistantContent = response.message.content;
+    }
+  } else {
+    console.log(
+      `[DEBUG] No plugin found, using Ollama for model: ${actualModelName}`
+    );
+    // Use Ollama directly
+    response = await ollamaService.generateChatResponse(chatRequest);
+    assistantContent = response.message.content;
+  }
+
+  // Add assistant response to session with statistics
+  const statistics = extractStatistics(response);
+  const assistantMessage = chatService.addMessage(
+    session.id,
+    {
+      role: 'assistant',
+      content: assistantContent,
+      model: session.model,
+      statistics,
+      thinking: response.message.thinking || undefined,
+      citations: documentPrompt?.citations,
+    },
+    userId
+  );
+
+  summaryService.scheduleUpdate(
+    session.id,
+    userId,
+    actualModelName,
+    mergedOptions
+  );
+  titleService.generateTitle(session.id, userId, actualModelName);
+  return assistantMessage;
 }
 
 // Get all chat sessions
@@ -117,6 +320,173 @@ router.get(
   }
 );
 
+// Search message content across all of the user's sessions
+router.get(
+  '/search',
+  (
+    req: AuthenticatedRequest,
+    res: Response<ApiResponse<ChatSearchResult[]>>
+  ): void => {
+    try {
+      const userId = req.user?.userId || 'default';
+      const query = typeof req.query.q === 'string' ? req.query.q : '';
+      const limit = Math.min(parseInt(String(req.query.limit), 10) || 20, 100);
+
+      if (!query.trim()) {
+        res.status(400).json({
+          success: false,
+          error: 'Search query is required',
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: chatService.searchMessages(query, userId, limit),
+      });
+    } catch (error: unknown) {
+      res.status(500).json({
+        success: false,
+        error: getErrorMessage(error, 'Failed to search messages'),
+      });
+    }
+  }
+);
+
+// Exports can be large JSON files, so they come in as uploads rather than
+// bodies. The whole file is held and parsed in memory, several times its
+// size, hence the limit.
+const MAX_IMPORT_SIZE = 64 * 1024 * 1024; // 64MB
+const importUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: MAX_IMPORT_SIZE,
+  },
+});
+
+const rejectLargeImport = (res: Response): void => {
+  res.status(413).json({
+    success: false,
+    error: `Import file is too large (max ${MAX_IMPORT_SIZE / 1024 / 1024}MB)`,
+  });
+};
+
+// Turns away oversized uploads by their declared length before reading
+// them, and otherwise once multer has seen too much
+const receiveImportFile = (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): void => {
+  // Leave room for the multipart boundaries and fields
+  if (Number(req.headers['content-length']) > MAX_IMPORT_SIZE + 64 * 1024) {
+    rejectLargeImport(res);
+    return;
+  }
+  importUpload.single('file')(req, res, (error: unknown) => {
+    if (
+      error instanceof multer.MulterError &&
+      error.code === 'LIMIT_FILE_SIZE'
+    ) {
+      rejectLargeImport(res);
+      return;
+    }
+    next(error);
+  });
+};
+
+const EXPORT_FORMATS: SessionExportFormat[] = ['md', 'json', 'html'];
+
+const parseExportFormat = (value: unknown): SessionExportFormat | undefined => {
+  const format = value === undefined ? 'json' : String(value);
+  return EXPORT_FORMATS.find(f => f === format);
+};
+
+// Export all of the user's sessions as a zip archive
+router.get('/export', (req: AuthenticatedRequest, res: Response): void => {
+  try {
+    const format = parseExportFormat(req.query.format);
+    if (!format) {
+      res.status(400).json({
+        success: false,
+        error: `Format must be one of: ${EXPORT_FORMATS.join(', ')}`,
+      });
+      return;
+    }
+
+    const userId = req.user?.userId || 'default';
+    const sessions = chatService.getAllSessions(userId);
+    const date = new Date().toISOString().split('T')[0];
+
+    res.setHeader('Content-Type', 'application/zip');
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="libre-webui-chats-${date}.zip"`
+    );
+    res.send(exportService.renderZip(sessions, format));
+  } catch (error: unknown) {
+    res.status(500).json({
+      success: false,
+      error: getErrorMessage(error, 'Failed to export sessions'),
+    });
+  }
+});
+
+// Import conversations from a Libre WebUI, ChatGPT, Claude.ai or Open WebUI
+// export, uploaded as a file or sent as the body. ?dryRun=true only previews.
+router.post(
+  '/import',
+  receiveImportFile,
+  (
+    req: AuthenticatedRequest,
+    res: Response<ApiResponse<ChatImportResult>>
+  ): void => {
+    try {
+      const userId = req.user?.userId || 'default';
+      const dryRun = req.query.dryRun === 'true';
+      const flattenBranches = req.query.branches === 'flatten';
+
+      let data: unknown = req.body;
+      if (req.file) {
+        try {
+          data = JSON.parse(req.file.buffer.toString('utf-8'));
+        } catch {
+          res.status(400).json({
+            success: false,
+            error: 'Import file is not valid JSON',
+          });
+          return;
+        }
+      }
+
+      if (!importService.detectSource(data)) {
+        res.status(400).json({
+          success: false,
+          error:
+            'Unrecognized export. Use a Libre WebUI, ChatGPT, Claude.ai or Open WebUI conversation export.',
+        });
+        return;
+      }
+
+      const result = importService.importData(data, userId, {
+        dryRun,
+        flattenBranches,
+      });
+      const count = result.sessions.length;
+      res.json({
+        success: true,
+        data: result,
+        message: `${dryRun ? 'Found' : 'Imported'} ${count} session${count === 1 ? '' : 's'}`,
+      });
+    } catch (error: unknown) {
+      res.status(500).json({
+        success: false,
+        error: getErrorMessage(error, 'Failed to import sessions'),
+      });
+    }
+  }
+);
+
 // Create a new chat session
 router.post(
   '/sessions',
@@ -198,6 +568,47 @@ router.get(
   }
 );
 
+// Export a session as Markdown, JSON or standalone HTML
+router.get(
+  '/sessions/:sessionId/export',
+  (req: AuthenticatedRequest, res: Response): void => {
+    try {
+      const { sessionId } = req.params;
+      const userId = req.user?.userId || 'default';
+      const format = parseExportFormat(req.query.format);
+
+      if (!format) {
+        res.status(400).json({
+          success: false,
+          error: `Format must be one of: ${EXPORT_FORMATS.join(', ')}`,
+        });
+        return;
+      }
+
+      const session = chatService.getSession(sessionId, userId);
+      if (!session) {
+        res.status(404).json({
+          success: false,
+          error: 'Session not found',
+        });
+        return;
+      }
+
+      res.setHeader('Content-Type', exportService.contentType(format));
+      res.setHeader(
+        'Content-Disposition',
+        `attachment; filename="${exportService.fileName(session, format)}"`
+      );
+      res.send(exportService.render(session, format));
+    } catch (error: unknown) {
+      res.status(500).json({
+        success: false,
+        error: getErrorMessage(error, 'Failed to export session'),
+      });
+    }
+  }
+);
+
 // Update a chat session
 router.put(
   '/sessions/:sessionId',
@@ -237,6 +648,210 @@ router.put(
   }
 );
 
+const MAX_TAGS = 20;
+const MAX_TAG_LENGTH = 32;
+
+/**
+ * Checks a request body of sidebar organization fields. Returns the
+ * updates to apply or an error message for the client.
+ */
+function parseOrganization(
+  body: Record<string, unknown>,
+  userId: string
+): SessionOrganization | string {
+  const updates: SessionOrganization = {};
+  const { folderId, tags, pinned, archived } = body;
+
+  if (folderId !== undefined) {
+    if (folderId !== null && typeof folderId !== 'string') {
+      return 'folderId must be a string or null';
+    }
+    if (folderId && !folderService.folderExists(folderId, userId)) {
+      return 'Folder not found';
+    }
+    updates.folderId = folderId || '';
+  }
+
+  if (tags !== undefined) {
+    if (!Array.isArray(tags) || tags.some(tag => typeof tag !== 'string')) {
+      return 'tags must be an array of strings';
+    }
+    const normalized = Array.from(
+      new Set(
+        (tags as string[])
+          .map(tag => tag.trim().replace(/\s+/g, ' '))
+          .filter(Boolean)
+      )
+    );
+    if (normalized.length > MAX_TAGS) {
+      return `A chat can have at most ${MAX_TAGS} tags`;
+    }
+    if (normalized.some(tag => tag.length > MAX_TAG_LENGTH)) {
+      return `Tags must be at most ${MAX_TAG_LENGTH} characters`;
+    }
+    updates.tags = normalized;
+  }
+
+  for (const [key, value] of Object.entries({ pinned, archived })) {
+    if (value === undefined) continue;
+    if (typeof value !== 'boolean') {
+      return `${key} must be a boolean`;
+    }
+    updates[key as 'pinned' | 'archived'] = value;
+  }
+
+  return updates;
+}
+
+// Move a session to a folder, set its tags, or pin or archive it
+router.patch(
+  '/sessions/:sessionId/organization',
+  (
+    req: AuthenticatedRequest,
+    res: Response<ApiResponse<ChatSession>>
+  ): void => {
+    try {
+      const { sessionId } = req.params;
+      const userId = req.user?.userId || 'default';
+
+      const updates = parseOrganization(req.body || {}, userId);
+      if (typeof updates === 'string') {
+        res.status(400).json({
+          success: false,
+          error: updates,
+        });
+        return;
+      }
+
+      const session = chatService.organizeSession(sessionId, updates, userId);
+      if (!session) {
+        res.status(404).json({
+          success: false,
+          error: 'Session not found',
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: session,
+      });
+    } catch (error: unknown) {
+      res.status(500).json({
+        success: false,
+        error: getErrorMessage(error, 'Failed to organize session'),
+      });
+    }
+  }
+);
+
+// Get the folders that organize the user's sessions
+router.get(
+  '/folders',
+  (
+    req: AuthenticatedRequest,
+    res: Response<ApiResponse<ChatFolder[]>>
+  ): void => {
+    try {
+      const userId = req.user?.userId || 'default';
+      res.json({
+        success: true,
+        data: folderService.getFolders(userId),
+      });
+    } catch (error: unknown) {
+      res.status(500).json({
+        success: false,
+        error: getErrorMessage(error, 'Failed to load folders'),
+      });
+    }
+  }
+);
+
+// Create a folder, optionally inside another one
+router.post(
+  '/folders',
+  (req: AuthenticatedRequest, res: Response<ApiResponse<ChatFolder>>): void => {
+    try {
+      const { name, parentId } = req.body || {};
+      const userId = req.user?.userId || 'default';
+      const folder = folderService.createFolder(name, parentId, userId);
+      res.status(201).json({
+        success: true,
+        data: folder,
+      });
+    } catch (error: unknown) {
+      res.status(400).json({
+        success: false,
+        error: getErrorMessage(error, 'Failed to create folder'),
+      });
+    }
+  }
+);
+
+// Rename a folder or move it; parentId null moves it to the top level
+router.put(
+  '/folders/:folderId',
+  (req: AuthenticatedRequest, res: Response<ApiResponse<ChatFolder>>): void => {
+    try {
+      const { folderId } = req.params;
+      const { name, parentId } = req.body || {};
+      const userId = req.user?.userId || 'default';
+      const folder = folderService.updateFolder(
+        folderId,
+        { name, parentId },
+        userId
+      );
+
+      if (!folder) {
+        res.status(404).json({
+          success: false,
+          error: 'Folder not found',
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: folder,
+      });
+    } catch (error: unknown) {
+      res.status(400).json({
+        success: false,
+        error: getErrorMessage(error, 'Failed to update folder'),
+      });
+    }
+  }
+);
+
+// Delete a folder; its chats and subfolders move up one level
+router.delete(
+  '/folders/:folderId',
+  (req: AuthenticatedRequest, res: Response<ApiResponse>): void => {
+    try {
+      const { folderId } = req.params;
+      const userId = req.user?.userId || 'default';
+
+      if (!folderService.deleteFolder(folderId, userId)) {
+        res.status(404).json({
+          success: false,
+          error: 'Folder not found',
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: 'Folder deleted',
+      });
+    } catch (error: unknown) {
+      res.status(500).json({
+        success: false,
+        error: getErrorMessage(error, 'Failed to delete folder'),
+      });
+    }
+  }
+);
+
 // Update a message in a chat session
 router.put(
   '/sessions/:sessionId/messages/:messageId',
@@ -403,7 +1018,7 @@ router.post(
   ): Promise<void> => {
     try {
       const { sessionId } = req.params;
-      const { message, options = {} } = req.body;
+      const { message, options = {}, think } = req.body;
 
       if (!message) {
         res.status(400).json({
@@ -441,192 +1056,501 @@ router.post(
         return;
       }
 
-      // Check if document search is available and enabled
-      let documentContext = '';
-      try {
-        const preferences = preferencesService.getPreferences();
-        if (preferences.embeddingSettings?.enabled) {
-          console.log(
-            `[DEBUG] Embeddings enabled, searching documents for: "${message}"`
-          );
-          const relevantDocuments = await documentService.searchDocuments(
-            message,
-            sessionId
-          );
-          console.log(
-            `[DEBUG] Found ${relevantDocuments.length} relevant document chunks`
-          );
+      const assistantMessage = await generateAssistantReply(
+        session,
+        userId,
+        message,
+        options,
+        think
+      );
 
-          if (relevantDocuments.length > 0) {
-            // Get document info for each chunk
-            const documentsMap = new Map();
-            for (const chunk of relevantDocuments) {
-              if (!documentsMap.has(chunk.documentId)) {
-                const doc = documentService.getDocument(chunk.documentId);
-                documentsMap.set(chunk.documentId, doc);
-              }
-            }
-
-            documentContext =
-              '\n\n--- RELEVANT DOCUMENTS ---\n' +
-              relevantDocuments
-                .map((chunk, index) => {
-                  const doc = documentsMap.get(chunk.documentId);
-                  const docTitle = doc ? doc.filename : 'Unknown Document';
-                  return `Document ${index + 1}: ${docTitle} (chunk ${chunk.chunkIndex + 1})\n${chunk.content}\n`;
-                })
-                .join('\n---\n') +
-              '\n--- END DOCUMENTS ---\n\n';
-            console.log(
-              `[DEBUG] Added ${documentContext.length} characters of document context`
-            );
-          } else {
-            console.log(
-              `[DEBUG] No relevant documents found for query: "${message}"`
-            );
-          }
-        } else {
-          console.log(`[DEBUG] Embeddings disabled, skipping document search`);
-        }
-      } catch (error) {
-        console.error('[DEBUG] Error during document search:', error);
-        // Continue without document context if search fails
+      if (!assistantMessage) {
+        res.status(500).json({
+          success: false,
+          error: 'Failed to add assistant message',
+        });
+        return;
       }
 
-      // Convert chat messages to Ollama format and handle persona system prompts
-      let ollamaMessages = session.messages.map((msg: ChatMessage) => ({
-        role: msg.role,
-        content: msg.content,
-      }));
+      res.json({
+        success: true,
+        data: assistantMessage,
+      });
+    } catch (error: unknown) {
+      res.status(500).json({
+        success: false,
+        error: getErrorMessage(error, 'Failed to generate response'),
+      });
+    }
+  }
+);
 
-      // Inject persona instructions if session has a persona
-      if (session.personaId) {
-        try {
-          const persona = await personaService.getPersonaById(
-            session.personaId,
-            userId
-          );
-          if (persona && persona.parameters.system_prompt) {
-            // Remove any existing system messages and replace with persona's system prompt
-            ollamaMessages = ollamaMessages.filter(
-              msg => msg.role !== 'system'
-            );
-            ollamaMessages.unshift({
-              role: 'system',
-              content: persona.parameters.system_prompt,
-            });
-            console.log(
-              `[DEBUG] Replaced system messages with persona instructions for: ${persona.name}`
-            );
-          }
-        } catch (error) {
-          console.error('[DEBUG] Error loading persona:', error);
-          // Continue without persona if loading fails
-        }
+// Estimate how much of the model's context window the conversation fills
+router.get(
+  '/sessions/:sessionId/context',
+  async (
+    req: AuthenticatedRequest,
+    res: Response<ApiResponse<ContextUsage>>
+  ): Promise<void> => {
+    try {
+      const { sessionId } = req.params;
+      const userId = req.user?.userId || 'default';
+      const session = chatService.getSession(sessionId, userId);
+      if (!session) {
+        res.status(404).json({
+          success: false,
+          error: 'Session not found',
+        });
+        return;
+      }
+
+      const actualModelName = await resolveActualModelName(
+        session.model,
+        userId
+      );
+      const budget = await contextService.getBudget(
+        actualModelName,
+        preferencesService.getGenerationOptions()
+      );
+      const { usage } = chatService.getMessagesForContext(sessionId, budget);
+
+      res.json({
+        success: true,
+        data: usage,
+      });
+    } catch (error: unknown) {
+      res.status(500).json({
+        success: false,
+        error: getErrorMessage(error, 'Failed to estimate context usage'),
+      });
+    }
+  }
+);
+
+// Get the running summary of turns that no longer fit the context window
+router.get(
+  '/sessions/:sessionId/summary',
+  (
+    req: AuthenticatedRequest,
+    res: Response<ApiResponse<ConversationSummary | null>>
+  ): void => {
+    try {
+      const { sessionId } = req.params;
+      const userId = req.user?.userId || 'default';
+      const session = chatService.getSession(sessionId, userId);
+      if (!session) {
+        res.status(404).json({
+          success: false,
+          error: 'Session not found',
+        });
+        return;
       }
 
-      // Add the new user message with document context if available
-      const userMessageContent = documentContext
-        ? `${documentContext}User question: ${message}`
-        : message;
+      res.json({
+        success: true,
+        data: chatService.getValidSummary(session) || null,
+      });
+    } catch (error: unknown) {
+      res.status(500).json({
+        success: false,
+        error: getErrorMessage(error, 'Failed to get summary'),
+      });
+    }
+  }
+);
 
-      ollamaMessages.push({
-        role: 'user',
-        content: userMessageContent,
+// Replace the summary with the user's own text
+router.put(
+  '/sessions/:sessionId/summary',
+  (
+    req: AuthenticatedRequest,
+    res: Response<ApiResponse<ConversationSummary>>
+  ): void => {
+    try {
+      const { sessionId } = req.params;
+      const { content } = req.body;
+      const userId = req.user?.userId || 'default';
+
+      if (typeof content !== 'string' || !content.trim()) {
+        res.status(400).json({
+          success: false,
+          error: 'Summary content is required',
+        });
+        return;
+      }
+
+      const session = chatService.getSession(sessionId, userId);
+      if (!session) {
+        res.status(404).json({
+          success: false,
+          error: 'Session not found',
+        });
+        return;
+      }
+
+      // Keep the covered point so the edit still replaces the same turns
+      const summary: ConversationSummary = {
+        content: content.trim(),
+        coveredMessageId:
+          chatService.getValidSummary(session)?.coveredMessageId,
+        edited: true,
+        updatedAt: Date.now(),
+      };
+      chatService.setSummary(sessionId, summary, userId);
+
+      res.json({
+        success: true,
+        data: summary,
+      });
+    } catch (error: unknown) {
+      res.status(500).json({
+        success: false,
+        error: getErrorMessage(error, 'Failed to update summary'),
+      });
+    }
+  }
+);
+
+// Discard the summary; evicted turns are folded in again on the next reply
+router.delete(
+  '/sessions/:sessionId/summary',
+  (req: AuthenticatedRequest, res: Response<ApiResponse>): void => {
+    try {
+      const { sessionId } = req.params;
+      const userId = req.user?.userId || 'default';
+
+      if (!chatService.setSummary(sessionId, undefined, userId)) {
+        res.status(404).json({
+          success: false,
+          error: 'Session not found',
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: 'Summary cleared',
+      });
+    } catch (error: unknown) {
+      res.status(500).json({
+        success: false,
+        error: getErrorMessage(error, 'Failed to clear summary'),
+      });
+    }
+  }
+);
+
+// Rebuild the summary from the turns of the active branch
+router.post(
+  '/sessions/:sessionId/summary/regenerate',
+  async (
+    req: AuthenticatedRequest,
+    res: Response<ApiResponse<ConversationSummary | null>>
+  ): Promise<void> => {
+    try {
+      const { sessionId } = req.params;
+      const userId = req.user?.userId || 'default';
+      const session = chatService.getSession(sessionId, userId);
+      if (!session) {
+        res.status(404).json({
+          success: false,
+          error: 'Session not found',
+        });
+        return;
+      }
+
+      const summary = await summaryService.updateSummary(
+        sessionId,
+        userId,
+        await resolveActualModelName(session.model, userId),
+        preferencesService.getGenerationOptions(),
+        true
+      );
+
+      res.json({
+        success: true,
+        data: summary || null,
+      });
+    } catch (error: unknown) {
+      res.status(500).json({
+        success: false,
+        error: getErrorMessage(error, 'Failed to regenerate summary'),
+      });
+    }
+  }
+);
+
+// Share links of a session, newest first
+router.get(
+  '/sessions/:sessionId/share',
+  (
+    req: AuthenticatedRequest,
+    res: Response<ApiResponse<SessionShare[]>>
+  ): void => {
+    try {
+      const { sessionId } = req.params;
+      const userId = req.user?.userId || 'default';
+
+      if (!shareService.isAvailable()) {
+        res.json({ success: true, data: [] });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: shareService.listShares(sessionId, userId),
+      });
+    } catch (error: unknown) {
+      res.status(500).json({
+        success: false,
+        error: getErrorMessage(error, 'Failed to load share links'),
+      });
+    }
+  }
+);
+
+// Create a read-only link to the branch currently shown
+router.post(
+  '/sessions/:sessionId/share',
+  (
+    req: AuthenticatedRequest,
+    res: Response<ApiResponse<SessionShare>>
+  ): void => {
+    try {
+      const { sessionId } = req.params;
+      const { expiresInDays } = req.body || {};
+      const userId = req.user?.userId || 'default';
+
+      if (!shareService.isAvailable()) {
+        res.status(503).json({
+          success: false,
+          error: 'Sharing requires the SQLite database',
+        });
+        return;
+      }
+
+      if (
+        expiresInDays !== undefined &&
+        expiresInDays !== null &&
+        !(typeof expiresInDays === 'number' && expiresInDays > 0)
+      ) {
+        res.status(400).json({
+          success: false,
+          error: 'expiresInDays must be a positive number',
+        });
+        return;
+      }
+
+      const session = chatService.getSession(sessionId, userId);
+      if (!session) {
+        res.status(404).json({
+          success: false,
+          error: 'Session not found',
+        });
+        return;
+      }
+
+      const expiresAt = expiresInDays
+        ? Date.now() + expiresInDays * 24 * 60 * 60 * 1000
+        : undefined;
+      res.json({
+        success: true,
+        data: shareService.createShare(session, userId, expiresAt),
+      });
+    } catch (error: unknown) {
+      res.status(500).json({
+        success: false,
+        error: getErrorMessage(error, 'Failed to create share link'),
+      });
+    }
+  }
+);
+
+// Revoke one share link of a session
+router.delete(
+  '/sessions/:sessionId/share/:token',
+  (req: AuthenticatedRequest, res: Response<ApiResponse>): void => {
+    try {
+      const { sessionId, token } = req.params;
+      const userId = req.user?.userId || 'default';
+
+      if (
+        !shareService.isAvailable() ||
+        !shareService.revokeShare(token, sessionId, userId)
+      ) {
+        res.status(404).json({
+          success: false,
+          error: 'Share link not found',
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: 'Share link revoked',
+      });
+    } catch (error: unknown) {
+      res.status(500).json({
+        success: false,
+        error: getErrorMessage(error, 'Failed to revoke share link'),
+      });
+    }
+  }
+);
+
+// Revoke every share link of a session
+router.delete(
+  '/sessions/:sessionId/share',
+  (req: AuthenticatedRequest, res: Response<ApiResponse>): void => {
+    try {
+      const { sessionId } = req.params;
+      const userId = req.user?.userId || 'default';
+      const revoked = shareService.isAvailable()
+        ? shareService.revokeSessionShares(sessionId, userId)
+        : 0;
+
+      res.json({
+        success: true,
+        message: `Revoked ${revoked} share link${revoked === 1 ? '' : 's'}`,
+      });
+    } catch (error: unknown) {
+      res.status(500).json({
+        success: false,
+        error: getErrorMessage(error, 'Failed to revoke share links'),
       });
+    }
+  }
+);
 
-      let response: OllamaChatResponse;
-      let assistantContent: string;
+// Regenerate an assistant reply as a new branch next to the existing one
+router.post(
+  '/sessions/:sessionId/messages/:messageId/regenerate',
+  async (
+    req: AuthenticatedRequest,
+    res: Response<ApiResponse<ChatMessage>>
+  ): Promise<void> => {
+    try {
+      const { sessionId, messageId } = req.params;
+      const { options = {}, think } = req.body;
 
-      // Get user's preferred generation options
-      const userGenerationOptions = preferencesService.getGenerationOptions();
+      const userId = req.user?.userId || 'default';
+      const session = chatService.getSession(sessionId, userId);
+      if (!session) {
+        res.status(404).json({
+          success: false,
+          error: 'Session not found',
+        });
+        return;
+      }
 
-      // Merge user preferences with request options (request options take precedence)
-      const mergedOptions = mergeGenerationOptions(
-        userGenerationOptions,
-        options
-      );
+      // The reply hangs off the user message that prompted it
+      const userMessage = findUserAncestor(session.messages, messageId);
+      if (!userMessage) {
+        res.status(400).json({
+          success: false,
+          error: 'No user message to regenerate a reply for',
+        });
+        return;
+      }
 
-      // Resolve the actual model name (handles persona IDs)
-      const actualModelName = await resolveActualModelName(
-        session.model,
-        userId
-      );
-      console.log(
-        `[DEBUG] Resolved model from "${session.model}" to "${actualModelName}"`
+      chatService.setActiveMessage(sessionId, userMessage.id, userId);
+
+      const assistantMessage = await generateAssistantReply(
+        session,
+        userId,
+        userMessage.content,
+        options,
+        think
       );
 
-      // Prepare common chat request for Ollama (used in both fallback and direct cases)
-      const chatRequest = {
-        model: actualModelName,
-        messages: ollamaMessages,
-        stream: false,
-        options: mergedOptions as Record<string, unknown>,
-      };
+      if (!assistantMessage) {
+        res.status(500).json({
+          success: false,
+          error: 'Failed to add assistant message',
+        });
+        return;
+      }
 
-      // Check if there's an active plugin for this model
-      console.log(`[DEBUG] Looking for plugin for model: ${actualModelName}`);
-      const activePlugin =
-        pluginService.getActivePluginForModel(actualModelName);
-      console.log(
-        `[DEBUG] Found plugin:`,
-        activePlugin ? activePlugin.id : 'none'
-      );
+      res.json({
+        success: true,
+        data: assistantMessage,
+      });
+    } catch (error: unknown) {
+      res.status(500).json({
+        success: false,
+        error: getErrorMessage(error, 'Failed to regenerate response'),
+      });
+    }
+  }
+);
 
-      if (activePlugin) {
-        console.log(
-          `[DEBUG] Using plugin ${activePlugin.id} for model ${actualModelName}`
-        );
-        try {
-          // Use plugin for generation
-          const pluginResponse = await pluginService.executePluginRequest(
-            actualModelName,
-            session.messages.concat([userMessage]),
-            options
-          );
+// Edit a user message by branching off a new version and answering it
+router.post(
+  '/sessions/:sessionId/messages/:messageId/edit',
+  async (
+    req: AuthenticatedRequest,
+    res: Response<
+      ApiResponse<{ userMessage: ChatMessage; assistantMessage: ChatMessage }>
+    >
+  ): Promise<void> => {
+    try {
+      const { sessionId, messageId } = req.params;
+      const { content, options = {}, think } = req.body;
 
-          // Convert plugin response to our format
-          assistantContent = pluginResponse.choices[0]?.message?.content || '';
+      if (!content) {
+        res.status(400).json({
+          success: false,
+          error: 'Content is required',
+        });
+        return;
+      }
 
-          // Create a mock response in Ollama format
-          response = {
-            model: actualModelName,
-            created_at: new Date().toISOString(),
-            message: {
-              role: 'assistant',
-              content: assistantContent,
-            },
-            done: true,
-          } as OllamaChatResponse;
-        } catch (pluginError) {
-          console.error('Plugin failed, falling back to Ollama:', pluginError);
+      const userId = req.user?.userId || 'default';
+      const session = chatService.getSession(sessionId, userId);
+      if (!session) {
+        res.status(404).json({
+          success: false,
+          error: 'Session not found',
+        });
+        return;
+      }
 
-          // Fallback to Ollama
-          response = await ollamaService.generateChatResponse(chatRequest);
-          assistantContent = response.message.content;
-        }
-      } else {
-        console.log(
-          `[DEBUG] No plugin found, using Ollama for model: ${actualModelName}`
-        );
-        // Use Ollama directly
-        response = await ollamaService.generateChatResponse(chatRequest);
-        assistantContent = response.message.content;
+      const original = session.messages.find(msg => msg.id === messageId);
+      if (!original || original.role !== 'user') {
+        res.status(400).json({
+          success: false,
+          error: 'Only user messages can be edited',
+        });
+        return;
       }
 
-      // Add assistant response to session with statistics
-      const statistics = extractStatistics(response);
-      const assistantMessage = chatService.addMessage(
+      const userMessage = chatService.addMessage(
         sessionId,
         {
-          role: 'assistant',
-          content: assistantContent,
-          model: session.model,
-          statistics,
+          role: 'user',
+          content,
+          images: original.images,
+          parentId: original.parentId ?? null,
         },
         userId
       );
 
+      if (!userMessage) {
+        res.status(500).json({
+          success: false,
+          error: 'Failed to add user message',
+        });
+        return;
+      }
+
+      const assistantMessage = await generateAssistantReply(
+        session,
+        userId,
+        content,
+        options,
+        think
+      );
+
       if (!assistantMessage) {
         res.status(500).json({
           success: false,
@@ -637,24 +1561,67 @@ router.post(
 
       res.json({
         success: true,
-        data: assistantMessage,
+        data: { userMessage, assistantMessage },
       });
     } catch (error: unknown) {
       res.status(500).json({
         success: false,
-        error: getErrorMessage(error, 'Failed to generate response'),
+        error: getErrorMessage(error, 'Failed to edit message'),
+      });
+    }
+  }
+);
+
+// Switch the active branch to the one containing a message
+router.post(
+  '/sessions/:sessionId/messages/:messageId/select',
+  async (
+    req: AuthenticatedRequest,
+    res: Response<ApiResponse<ChatSession>>
+  ): Promise<void> => {
+    try {
+      const { sessionId, messageId } = req.params;
+      const userId = req.user?.userId || 'default';
+
+      const session = chatService.selectBranch(sessionId, messageId, userId);
+      if (!session) {
+        res.status(404).json({
+          success: false,
+          error: 'Session or message not found',
+        });
+        return;
+      }
+
+      // The summary describes the branch that was left; rebuild it
+      summaryService.scheduleUpdate(
+        sessionId,
+        userId,
+        await resolveActualModelName(session.model, userId),
+        preferencesService.getGenerationOptions()
+      );
+
+      res.json({
+        success: true,
+        data: session,
+      });
+    } catch (error: unknown) {
+      res.status(500).json({
+        success: false,
+        error: getErrorMessage(error, 'Failed to switch branch'),
       });
     }
   }
 );
 
-// Generate a chat response with streaming
+// Generate a chat response with streaming, from a plugin model or Ollama.
+// The reply can be cancelled by id and is saved as far as it got.
 router.post(
   '/sessions/:sessionId/generate/stream',
   async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    let job: GenerationJob | undefined;
     try {
       const { sessionId } = req.params;
-      const { message, options = {} } = req.body;
+      const { message, options = {}, think, assistantMessageId } = req.body;
 
       if (!message) {
         res.status(400).json({
@@ -680,6 +1647,23 @@ router.post(
       res.setHeader('Connection', 'keep-alive');
       res.setHeader('Access-Control-Allow-Origin', '*');
 
+      // The reply can be cancelled by id, and stops when the client leaves
+      const messageId: string = assistantMessageId || uuidv4();
+      const activeJob = generationService.start(messageId, sessionId, userId);
+      job = activeJob;
+      const { signal } = activeJob.controller;
+      res.on('close', () => {
+        if (!res.writableEnded) activeJob.controller.abort();
+      });
+      res.write(`data: ${JSON.stringify({ type: 'start', messageId })}\n\n`);
+      generationService.subscribe(activeJob, frame => {
+        if (frame.type === 'queued') {
+          res.write(
+            `data: ${JSON.stringify({ type: 'queued', position: frame.data.position })}\n\n`
+          );
+        }
+      });
+
       // Add user message to session
       const userMessage = chatService.addMessage(
         sessionId,
@@ -691,6 +1675,7 @@ router.post(
       );
 
       if (!userMessage) {
+        generationService.finish(activeJob);
         res.write(
           `data: ${JSON.stringify({ error: 'Failed to add user message' })}\n\n`
         );
@@ -698,8 +1683,41 @@ router.post(
         return;
       }
 
-      // Convert chat messages to Ollama format and handle persona system prompts
-      let ollamaMessages = session.messages.map((msg: ChatMessage) => ({
+      const documentPrompt = await findDocumentContext(message, sessionId);
+
+      // Get user's preferred generation options
+      const userGenerationOptions = preferencesService.getGenerationOptions();
+
+      // Merge user preferences with request options (request options take precedence)
+      const mergedOptions = mergeGenerationOptions(
+        userGenerationOptions,
+        options
+      );
+
+      // Resolve the actual model name (handles persona IDs)
+      const actualModelName = await resolveActualModelName(
+        session.model,
+        userId
+      );
+      console.log(
+        `[DEBUG] Streaming - Resolved model from "${session.model}" to "${actualModelName}"`
+      );
+
+      // Fit as much of the active branch as the model's context allows
+      const budget = await contextService.getBudget(
+        actualModelName,
+        mergedOptions
+      );
+      const { messages: contextMessages } = chatService.getMessagesForContext(
+        sessionId,
+        budget,
+        documentPrompt
+          ? estimateTokens(documentPrompt.prompt) - estimateTokens(message)
+          : 0
+      );
+
+      // Convert the branch to Ollama format and handle persona system prompts
+      let ollamaMessages = contextMessages.map((msg: ChatMessage) => ({
         role: msg.role,
         content: msg.content,
       }));
@@ -712,9 +1730,12 @@ router.post(
             userId
           );
           if (persona && persona.parameters.system_prompt) {
-            // Remove any existing system messages and replace with persona's system prompt
+            // Replace existing system messages with the persona's system
+            // prompt, keeping the conversation summary
             ollamaMessages = ollamaMessages.filter(
-              msg => msg.role !== 'system'
+              (msg, index) =>
+                msg.role !== 'system' ||
+                contextMessages[index].id === SUMMARY_MESSAGE_ID
             );
             ollamaMessages.unshift({
               role: 'system',
@@ -730,43 +1751,114 @@ router.post(
         }
       }
 
-      // Add the new user message
-      ollamaMessages.push({
-        role: 'user',
-        content: message,
-      });
-
-      // Get user's preferred generation options
-      const userGenerationOptions = preferencesService.getGenerationOptions();
-
-      // Merge user preferences with request options (request options take precedence)
-      const mergedOptions = mergeGenerationOptions(
-        userGenerationOptions,
-        options
-      );
-
-      // Resolve the actual model name (handles persona IDs)
-      const actualModelName = await resolveActualModelName(
-        session.model,
-        userId
-      );
-      console.log(
-        `[DEBUG] Streaming - Resolved model from "${session.model}" to "${actualModelName}"`
-      );
-
-      const chatRequest = {
+      const chatRequest: OllamaChatRequest = {
         model: actualModelName,
-        messages: ollamaMessages,
+        messages: withDocumentPrompt(ollamaMessages, documentPrompt),
         stream: true,
         options: mergedOptions as Record<string, unknown>,
       };
 
+      const capabilities =
+        await ollamaService.getModelCapabilities(actualModelName);
+      if (capabilities.includes('thinking')) {
+        chatRequest.think = think === true;
+      }
+
       let fullResponse = '';
+      let fullThinking = '';
+
+      // Saves the complete (or, when cancelled, partial) reply and ends the
+      // stream
+      const completeReply = () => {
+        generationService.finish(activeJob);
+        const doneReason = signal.aborted ? 'cancelled' : undefined;
+
+        if (fullResponse || (signal.aborted && fullThinking)) {
+          chatService.addMessage(
+            sessionId,
+            {
+              id: messageId,
+              role: 'assistant',
+              content: fullResponse,
+              model: session.model,
+              thinking: fullThinking || undefined,
+              statistics: doneReason ? { done_reason: doneReason } : undefined,
+              citations: documentPrompt?.citations,
+            },
+            userId
+          );
+          summaryService.scheduleUpdate(
+            sessionId,
+            userId,
+            actualModelName,
+            mergedOptions
+          );
+          titleService.generateTitle(sessionId, userId, actualModelName);
+        }
+
+        res.write(
+          `data: ${JSON.stringify({
+            type: 'done',
+            done_reason: doneReason,
+            citations: documentPrompt?.citations,
+          })}\n\n`
+        );
+        res.end();
+      };
+
+      await generationService.waitForSlot(
+        activeJob,
+        req.user?.role === 'admin' ? 1 : 0
+      );
+
+      // Cancelled before it got a slot, so there is nothing to save
+      if (signal.aborted) {
+        completeReply();
+        return;
+      }
+
+      // Plugin models stream from their provider and are cancelled through
+      // the same signal; Ollama takes over if the plugin fails up front
+      const activePlugin =
+        pluginService.getActivePluginForModel(actualModelName);
+      if (activePlugin) {
+        try {
+          await pluginService.executePluginStreamRequest(
+            actualModelName,
+            withDocumentPrompt(contextMessages, documentPrompt),
+            mergedOptions,
+            content => {
+              fullResponse += content;
+              res.write(
+                `data: ${JSON.stringify({ type: 'chunk', content, done: false })}\n\n`
+              );
+            },
+            signal
+          );
+          completeReply();
+          return;
+        } catch (pluginError) {
+          // Switching models now would splice two answers together
+          if (fullResponse) throw pluginError;
+          console.error('Plugin failed, falling back to Ollama:', pluginError);
+        }
+      }
 
       // Generate streaming response using Ollama
       await ollamaService.generateChatStreamResponse(
         chatRequest,
         chunk => {
+          // Reasoning is sent as its own event type
+          if (chunk.message.thinking) {
+            fullThinking += chunk.message.thinking;
+            res.write(
+              `data: ${JSON.stringify({
+                type: 'thinking',
+                content: chunk.message.thinking,
+              })}\n\n`
+            );
+          }
+
           // Send chunk to client
           res.write(
             `data: ${JSON.stringify({
@@ -782,30 +1874,17 @@ router.post(
           }
         },
         error => {
+          generationService.finish(activeJob);
           res.write(
             `data: ${JSON.stringify({ type: 'error', error: error.message })}\n\n`
           );
           res.end();
         },
-        () => {
-          // Add complete assistant response to session
-          if (fullResponse) {
-            chatService.addMessage(
-              sessionId,
-              {
-                role: 'assistant',
-                content: fullResponse,
-                model: session.model,
-              },
-              userId
-            );
-          }
-
-          res.write(`data: ${JSON.stringify({ type: 'done' })}\n\n`);
-          res.end();
-        }
+        completeReply,
+        signal
       );
     } catch (error: unknown) {
+      if (job) generationService.finish(job);
       res.write(
         `data: ${JSON.stringify({ type: 'error', error: getErrorMessage(error, 'Failed to generate stream response') })}\n\n`
       );
@@ -814,4 +1893,34 @@ router.post(
   }
 );
 
+// Cancel a reply started through the streaming endpoint (or the WebSocket)
+router.post(
+  '/sessions/:sessionId/generate/cancel',
+  (req: AuthenticatedRequest, res: Response<ApiResponse>): void => {
+    const userId = req.user?.userId || 'default';
+    const { messageId } = req.body || {};
+
+    if (typeof messageId !== 'string' || !messageId) {
+      res.status(400).json({
+        success: false,
+        error: 'messageId is required',
+      });
+      return;
+    }
+
+    if (!generationService.cancel(messageId, userId)) {
+      res.status(404).json({
+        success: false,
+        error: 'No generation in progress for this message',
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      message: 'Generation cancelled',
+    });
+  }
+);
+
 export default router;
@@ -18,6 +18,7 @@
 import express from 'express';
 import multer from 'multer';
 import documentService from '../services/documentService.js';
+import { getDocumentExtractor } from '../services/documentExtractors.js';
 import { ApiResponse } from '../types/index.js';
 
 const router = express.Router();
@@ -30,11 +31,10 @@ const upload = multer({
     fileSize: 10 * 1024 * 1024, // 10MB limit
   },
   fileFilter: (req, file, cb) => {
-    // Allow only PDF and TXT files
-    if (file.mimetype === 'application/pdf' || file.mimetype === 'text/plain') {
+    if (getDocumentExtractor(file.mimetype, file.originalname)) {
       cb(null, true);
     } else {
-      cb(new Error('Only PDF and TXT files are allowed'));
+      cb(new Error(`Unsupported file type: ${file.originalname}`));
     }
   },
 });
@@ -174,6 +174,33 @@ router.get('/:documentId', (req, res) => {
   }
 });
 
+// Get a single chunk, to show the passage a reply cites
+router.get('/:documentId/chunks/:chunkId', (req, res) => {
+  try {
+    const { documentId, chunkId } = req.params;
+    const chunk = documentService.getChunk(documentId, chunkId);
+
+    if (!chunk) {
+      res.status(404).json({
+        success: false,
+        error: 'Passage not found',
+      } as ApiResponse);
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: chunk,
+    } as ApiResponse);
+  } catch (error) {
+    console.error('Get document chunk error:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    } as ApiResponse);
+  }
+});
+
 // Search documents
 router.post('/search', async (req, res) => {
   try {
@@ -0,0 +1,105 @@
+/*
+ * Libre WebUI
+ * Copyright (C) 2025 Kroonen AI, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at:
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import express, { Response } from 'express';
+import rateLimit from 'express-rate-limit';
+import {
+  authenticate,
+  requireAdmin,
+  AuthenticatedRequest,
+} from '../middleware/auth.js';
+import { generationService } from '../services/generationService.js';
+import { userModel } from '../models/userModel.js';
+import {
+  ApiResponse,
+  GenerationJobInfo,
+  GenerationQueueStatus,
+  getErrorMessage,
+} from '../types/index.js';
+
+const router = express.Router();
+
+// The admin queue view polls, so allow a request every few seconds
+const generationRateLimiter = rateLimit({
+  windowMs: 1 * 60 * 1000, // 1 minute
+  max: 60, // limit each IP to 60 requests per minute
+  message: {
+    success: false,
+    error: 'Too many requests, please try again later.',
+  },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+router.use(generationRateLimiter);
+router.use(authenticate);
+router.use(requireAdmin);
+
+const withUsername = (job: GenerationJobInfo): GenerationJobInfo => ({
+  ...job,
+  username: userModel.getUserById(job.userId)?.username || job.userId,
+});
+
+// Running and waiting generations across all users (admin only)
+router.get(
+  '/queue',
+  (
+    _req: AuthenticatedRequest,
+    res: Response<ApiResponse<GenerationQueueStatus>>
+  ): void => {
+    try {
+      const status = generationService.getQueueStatus();
+      res.json({
+        success: true,
+        data: {
+          ...status,
+          active: status.active.map(withUsername),
+          waiting: status.waiting.map(withUsername),
+        },
+      });
+    } catch (error: unknown) {
+      res.status(500).json({
+        success: false,
+        error: getErrorMessage(error, 'Failed to load generation queue'),
+      });
+    }
+  }
+);
+
+// Stop any user's generation (admin only)
+router.post(
+  '/queue/:messageId/cancel',
+  (req: AuthenticatedRequest, res: Response<ApiResponse>): void => {
+    const { messageId } = req.params;
+    const { active, waiting } = generationService.getQueueStatus();
+    const job = [...active, ...waiting].find(j => j.messageId === messageId);
+
+    if (!job || !generationService.cancel(messageId, job.userId)) {
+      res.status(404).json({
+        success: false,
+        error: 'No generation in progress for this message',
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      message: 'Generation cancelled',
+    });
+  }
+);
+
+export default router;
@@ -0,0 +1,211 @@
+/*
+ * Libre WebUI
+ * Copyright (C) 2025 Kroonen AI, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at:
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import express, { Response } from 'express';
+import rateLimit from 'express-rate-limit';
+import { AuthenticatedRequest } from '../middleware/auth.js';
+import { authService } from '../services/authService.js';
+import { mcpService } from '../services/mcpService.js';
+import {
+  ApiResponse,
+  McpServer,
+  McpServerInput,
+  McpToolInfo,
+  getErrorMessage,
+} from '../types/index.js';
+
+const router = express.Router();
+
+// Rate limiting for MCP server management
+const mcpRateLimit = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 100, // Limit each IP to 100 requests per windowMs
+  message: {
+    success: false,
+    error: 'Too many MCP requests from this IP, please try again later.',
+  },
+});
+
+// Admins, or the implicit owner of a single-user install
+const isAdmin = (req: AuthenticatedRequest): boolean =>
+  req.user
+    ? req.user.role === 'admin'
+    : authService.getSystemInfo().singleUserMode;
+
+// List the current user's MCP servers
+router.get(
+  '/',
+  mcpRateLimit,
+  async (
+    req: AuthenticatedRequest,
+    res: Response<ApiResponse<McpServer[]>>
+  ): Promise<void> => {
+    try {
+      const userId = req.user?.userId || 'default';
+      const servers = mcpService.listServers(userId);
+      res.json({
+        success: true,
+        data: servers.map(server => mcpService.redact(server)),
+      });
+    } catch (error: unknown) {
+      res.status(500).json({
+        success: false,
+        error: getErrorMessage(error, 'Failed to load MCP servers'),
+      });
+    }
+  }
+);
+
+// Add a server
+router.post(
+  '/',
+  mcpRateLimit,
+  async (
+    req: AuthenticatedRequest,
+    res: Response<ApiResponse<McpServer>>
+  ): Promise<void> => {
+    try {
+      const userId = req.user?.userId || 'default';
+      const input = req.body as McpServerInput;
+
+      if (mcpService.requiresAdmin(input) && !isAdmin(req)) {
+        res.status(403).json({
+          success: false,
+          error: 'Only admins can add stdio servers or servers without HTTPS',
+        });
+        return;
+      }
+
+      const server = mcpService.addServer(userId, input);
+      res.status(201).json({
+        success: true,
+        data: mcpService.redact(server),
+      });
+    } catch (error: unknown) {
+      res.status(400).json({
+        success: false,
+        error: getErrorMessage(error, 'Failed to add MCP server'),
+      });
+    }
+  }
+);
+
+// Connect to a server and list its tools
+router.post(
+  '/:id/test',
+  mcpRateLimit,
+  async (
+    req: AuthenticatedRequest,
+    res: Response<ApiResponse<McpToolInfo[]>>
+  ): Promise<void> => {
+    try {
+      const userId = req.user?.userId || 'default';
+      if (!mcpService.getServer(req.params.id, userId)) {
+        res.status(404).json({
+          success: false,
+          error: 'MCP server not found',
+        });
+        return;
+      }
+
+      const tools = await mcpService.testServer(req.params.id, userId);
+      res.json({
+        success: true,
+        data: tools,
+        message: `Connected, found ${tools.length} tools`,
+      });
+    } catch (error: unknown) {
+      res.status(502).json({
+        success: false,
+        error: getErrorMessage(error, 'Failed to connect to MCP server'),
+      });
+    }
+  }
+);
+
+// Enable/disable a server or individual tools
+router.patch(
+  '/:id',
+  mcpRateLimit,
+  async (
+    req: AuthenticatedRequest,
+    res: Response<ApiResponse<McpServer>>
+  ): Promise<void> => {
+    try {
+      const userId = req.user?.userId || 'default';
+      const { enabled, disabled_tools } = req.body as {
+        enabled?: boolean;
+        disabled_tools?: string[];
+      };
+
+      const server = mcpService.updateServer(req.params.id, userId, {
+        enabled: typeof enabled === 'boolean' ? enabled : undefined,
+        disabled_tools,
+      });
+      if (!server) {
+        res.status(404).json({
+          success: false,
+          error: 'MCP server not found',
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: mcpService.redact(server),
+      });
+    } catch (error: unknown) {
+      res.status(500).json({
+        success: false,
+        error: getErrorMessage(error, 'Failed to update MCP server'),
+      });
+    }
+  }
+);
+
+// Remove a server
+router.delete(
+  '/:id',
+  mcpRateLimit,
+  async (
+    req: AuthenticatedRequest,
+    res: Response<ApiResponse<boolean>>
+  ): Promise<void> => {
+    try {
+      const userId = req.user?.userId || 'default';
+      if (!mcpService.removeServer(req.params.id, userId)) {
+        res.status(404).json({
+          success: false,
+          error: 'MCP server not found',
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: true,
+      });
+    } catch (error: unknown) {
+      res.status(500).json({
+        success: false,
+        error: getErrorMessage(error, 'Failed to remove MCP server'),
+      });
+    }
+  }
+);
+
+export default router;
@@ -17,29 +17,40 @@
 
 import express, { Request, Response } from 'express';
 import ollamaService from '../services/ollamaService.js';
-import { ApiResponse, OllamaModel, getErrorMessage } from '../types/index.js';
+import {
+  ApiResponse,
+  OllamaHostStatus,
+  OllamaModel,
+  getErrorMessage,
+} from '../types/index.js';
 
 const router = express.Router();
 
-// Health check
+// Health check. With several hosts configured the service is healthy while
+// any of them answers, and degraded when some don't.
 router.get(
   '/health',
   async (
     req: Request,
-    res: Response<ApiResponse<{ status: string }>>
+    res: Response<ApiResponse<{ status: string; hosts: OllamaHostStatus[] }>>
   ): Promise<void> => {
     try {
       const isHealthy = await ollamaService.isHealthy();
+      const hosts = ollamaService.getHostStatus();
 
       if (isHealthy) {
+        const degraded = hosts.some(host => !host.healthy);
         res.json({
           success: true,
-          data: { status: 'healthy' },
-          message: 'Ollama service is running',
+          data: { status: degraded ? 'degraded' : 'healthy', hosts },
+          message: degraded
+            ? 'Some Ollama hosts are not available'
+            : 'Ollama service is running',
         });
       } else {
         res.status(503).json({
           success: false,
+          data: { status: 'unavailable', hosts },
           error: 'Ollama service is not available',
         });
       }
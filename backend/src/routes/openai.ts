@@ -0,0 +1,536 @@
+/*
+ * Libre WebUI
+ * Copyright (C) 2025 Kroonen AI, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at:
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import express, { Response } from 'express';
+import rateLimit from 'express-rate-limit';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  AuthenticatedRequest,
+  authenticateApiKey,
+} from '../middleware/auth.js';
+import ollamaService from '../services/ollamaService.js';
+import pluginService from '../services/pluginService.js';
+import chatService from '../services/chatService.js';
+import documentService from '../services/documentService.js';
+import preferencesService from '../services/preferencesService.js';
+import { personaService } from '../services/personaService.js';
+import { completionService } from '../services/completionService.js';
+import { generationService } from '../services/generationService.js';
+import { mergeGenerationOptions } from '../utils/generationUtils.js';
+import { estimateTokens } from '../utils/tokenUtils.js';
+import {
+  ChatMessage,
+  GenerationOptions,
+  Persona,
+  getErrorMessage,
+} from '../types/index.js';
+
+// OpenAI-compatible API for scripts and editor extensions. Requests are
+// resolved like chat messages (personas, plugins, document context) and
+// authenticated with per-user API keys. Requests and responses follow
+// OpenAI's formats, including for errors.
+
+const router = express.Router();
+
+const openaiRateLimiter = rateLimit({
+  windowMs: 60 * 1000, // 1 minute
+  max: 120, // limit each IP to 120 requests per minute
+  message: {
+    error: {
+      message: 'Too many requests, please try again later.',
+      type: 'rate_limit_error',
+      code: 'rate_limit_exceeded',
+    },
+  },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+router.use(openaiRateLimiter);
+router.use(authenticateApiKey);
+
+// Generations without a chat are queued under this session id
+const API_SESSION_ID = 'api';
+
+type OpenAIContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } };
+
+interface OpenAIChatMessage {
+  role: string;
+  content?: string | OpenAIContentPart[] | null;
+}
+
+interface OpenAIChatRequest {
+  model?: unknown;
+  messages?: unknown;
+  stream?: boolean;
+  stream_options?: { include_usage?: boolean };
+  temperature?: number;
+  top_p?: number;
+  max_tokens?: number;
+  max_completion_tokens?: number;
+  stop?: string | string[];
+  seed?: number;
+  presence_penalty?: number;
+  frequency_penalty?: number;
+  response_format?: {
+    type: 'text' | 'json_object' | 'json_schema';
+    json_schema?: { schema?: Record<string, unknown> };
+  };
+  // Libre WebUI extension: include context from this chat's documents
+  session_id?: string;
+}
+
+interface OpenAIModel {
+  id: string;
+  object: 'model';
+  created: number;
+  owned_by: string;
+}
+
+const sendError = (
+  res: Response,
+  status: number,
+  message: string,
+  type = 'invalid_request_error',
+  code: string | null = null
+): void => {
+  res.status(status).json({ error: { message, type, code } });
+};
+
+const ROLES: Record<string, ChatMessage['role']> = {
+  system: 'system',
+  developer: 'system',
+  user: 'user',
+  assistant: 'assistant',
+  tool: 'tool',
+};
+
+// Converts OpenAI messages, throwing on anything the models can't take
+const toChatMessages = (messages: unknown): ChatMessage[] => {
+  if (!Array.isArray(messages) || messages.length === 0) {
+    throw new Error('messages must be a non-empty array');
+  }
+
+  return (messages as OpenAIChatMessage[]).map((msg, index) => {
+    const role = msg && ROLES[msg.role];
+    if (!role) {
+      throw new Error(`messages[${index}].role is not supported`);
+    }
+
+    let content = '';
+    const images: string[] = [];
+    if (typeof msg.content === 'string') {
+      content = msg.content;
+    } else if (Array.isArray(msg.content)) {
+      const texts: string[] = [];
+      for (const part of msg.content) {
+        if (part.type === 'text') {
+          texts.push(part.text);
+        } else if (part.type === 'image_url') {
+          // Ollama takes base64 image data, so only data URLs work
+          const match = /^data:image\/[\w.+-]+;base64,(.+)$/.exec(
+            part.image_url?.url || ''
+          );
+          if (!match) {
+            throw new Error(
+              `messages[${index}]: images must be base64 data URLs`
+            );
+          }
+          images.push(match[1]);
+        }
+      }
+      content = texts.join('\n');
+    }
+
+    return {
+      id: uuidv4(),
+      role,
+      content,
+      timestamp: Date.now(),
+      images: images.length > 0 ? images : undefined,
+    };
+  });
+};
+
+// Sampling settings a persona carries, in Ollama's terms
+const personaOptions = (persona: Persona): Partial<GenerationOptions> => {
+  const { parameters } = persona;
+  const options: Partial<GenerationOptions> = {
+    temperature: parameters.temperature,
+    top_p: parameters.top_p,
+    top_k: parameters.top_k,
+    repeat_penalty: parameters.repeat_penalty,
+    presence_penalty: parameters.presence_penalty,
+    frequency_penalty: parameters.frequency_penalty,
+    num_ctx: parameters.context_window,
+    num_predict: parameters.max_tokens,
+  };
+  return Object.fromEntries(
+    Object.entries(options).filter(([, value]) => value !== undefined)
+  );
+};
+
+const requestOptions = (
+  body: OpenAIChatRequest
+): Partial<GenerationOptions> => {
+  const options: Partial<GenerationOptions> = {
+    temperature: body.temperature,
+    top_p: body.top_p,
+    num_predict: body.max_completion_tokens ?? body.max_tokens,
+    stop: typeof body.stop === 'string' ? [body.stop] : body.stop,
+    seed: body.seed,
+    presence_penalty: body.presence_penalty,
+    frequency_penalty: body.frequency_penalty,
+  };
+  return Object.fromEntries(
+    Object.entries(options).filter(([, value]) => value !== undefined)
+  );
+};
+
+// OpenAI has no 'cancelled'; a reply cut short by the client just stops
+const toFinishReason = (reason: string): string =>
+  reason === 'length' ? 'length' : 'stop';
+
+// List models: Ollama models, models of plugins with a key configured, and
+// the user's personas as `persona:<id>`
+router.get(
+  '/models',
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const userId = req.user?.userId || 'default';
+    const now = Math.floor(Date.now() / 1000);
+    const data: OpenAIModel[] = [];
+
+    try {
+      const models = await ollamaService.getModels();
+      for (const model of models) {
+        data.push({
+          id: model.name,
+          object: 'model',
+          created: Math.floor(Date.parse(model.modified_at) / 1000) || now,
+          owned_by: 'ollama',
+        });
+      }
+    } catch (error: unknown) {
+      // Plugin models and personas are still usable without Ollama
+      console.warn(
+        'Failed to list Ollama models for the API:',
+        getErrorMessage(error, 'Unknown error')
+      );
+    }
+
+    for (const plugin of pluginService.getActivePlugins()) {
+      if (!process.env[plugin.auth.key_env]) continue;
+      for (const id of plugin.model_map) {
+        data.push({ id, object: 'model', created: now, owned_by: plugin.id });
+      }
+    }
+
+    try {
+      const personas = await personaService.getPersonas(userId);
+      for (const persona of personas) {
+        data.push({
+          id: `persona:${persona.id}`,
+          object: 'model',
+          created: Math.floor(persona.created_at / 1000),
+          owned_by: 'persona',
+        });
+      }
+    } catch (error: unknown) {
+      console.warn('Failed to list personas for the API:', error);
+    }
+
+    res.json({ object: 'list', data });
+  }
+);
+
+// Chat completions, streamed as server-sent events when `stream` is set.
+// Besides the OpenAI fields the body may carry `session_id`, the id of one
+// of the caller's chats: the last user message then gets that chat's
+// document context, as it would in the chat itself. Unknown ids are a 404.
+router.post(
+  '/chat/completions',
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const userId = req.user?.userId || 'default';
+    const body = (req.body || {}) as OpenAIChatRequest;
+
+    if (typeof body.model !== 'string' || !body.model) {
+      sendError(res, 400, 'model is required');
+      return;
+    }
+    const requestedModel = body.model;
+
+    let messages: ChatMessage[];
+    try {
+      messages = toChatMessages(body.messages);
+    } catch (error: unknown) {
+      sendError(res, 400, getErrorMessage(error, 'Invalid messages'));
+      return;
+    }
+
+    const persona = await personaService
+      .resolveModelPersona(requestedModel, userId)
+      .catch(() => null);
+    if (requestedModel.startsWith('persona:') && !persona) {
+      sendError(
+        res,
+        404,
+        `The model '${requestedModel}' does not exist`,
+        'invalid_request_error',
+        'model_not_found'
+      );
+      return;
+    }
+    const model = persona?.model || requestedModel;
+
+    // The persona's instructions come before any the client sends
+    if (persona?.parameters.system_prompt) {
+      messages.unshift({
+        id: uuidv4(),
+        role: 'system',
+        content: persona.parameters.system_prompt,
+        timestamp: Date.now(),
+      });
+    }
+
+    // Document context from one of the user's chats, as in the chat itself
+    if (body.session_id !== undefined) {
+      if (
+        typeof body.session_id !== 'string' ||
+        !chatService.getSession(body.session_id, userId)
+      ) {
+        sendError(res, 404, 'Session not found', 'invalid_request_error');
+        return;
+      }
+      const lastUser = [...messages].reverse().find(msg => msg.role === 'user');
+      if (lastUser) {
+        const documentPrompt = await documentService.addDocumentContext(
+          lastUser.content,
+          body.session_id
+        );
+        if (documentPrompt) lastUser.content = documentPrompt.prompt;
+      }
+    }
+
+    const options = mergeGenerationOptions(
+      preferencesService.getGenerationOptions(),
+      {
+        ...(persona ? personaOptions(persona) : {}),
+        ...requestOptions(body),
+      }
+    );
+
+    let format: string | Record<string, unknown> | undefined;
+    if (body.response_format?.type === 'json_object') {
+      format = 'json';
+    } else if (body.response_format?.type === 'json_schema') {
+      format = body.response_format.json_schema?.schema || 'json';
+    }
+
+    const id = `chatcmpl-${uuidv4()}`;
+    const created = Math.floor(Date.now() / 1000);
+    const job = generationService.start(
+      uuidv4(),
+      body.session_id || API_SESSION_ID,
+      userId
+    );
+    const { signal } = job.controller;
+
+    // A client that hangs up stops the generation
+    res.on('close', () => {
+      if (!res.writableEnded) job.controller.abort();
+    });
+
+    const streaming = body.stream === true;
+    const writeChunk = (
+      delta: Record<string, unknown>,
+      finishReason: string | null = null
+    ) => {
+      res.write(
+        `data: ${JSON.stringify({
+          id,
+          object: 'chat.completion.chunk',
+          created,
+          model: requestedModel,
+          choices: [{ index: 0, delta, finish_reason: finishReason }],
+        })}\n\n`
+      );
+    };
+
+    try {
+      await generationService.waitForSlot(
+        job,
+        req.user?.role === 'admin' ? 1 : 0
+      );
+      if (signal.aborted) return;
+
+      if (streaming) {
+        res.setHeader('Content-Type', 'text/event-stream');
+        res.setHeader('Cache-Control', 'no-cache');
+        res.setHeader('Connection', 'keep-alive');
+        writeChunk({ role: 'assistant', content: '' });
+      }
+
+      const result = await completionService.complete(
+        { model, messages, options, format, think: false },
+        {
+          onChunk: content => {
+            if (streaming) writeChunk({ content });
+          },
+        },
+        signal
+      );
+      if (signal.aborted) return;
+
+      const promptTokens =
+        result.promptTokens ??
+        messages.reduce((sum, msg) => sum + estimateTokens(msg.content), 0);
+      const completionTokens =
+        result.completionTokens ?? estimateTokens(result.content);
+      const usage = {
+        prompt_tokens: promptTokens,
+        completion_tokens: completionTokens,
+        total_tokens: promptTokens + completionTokens,
+      };
+
+      if (streaming) {
+        writeChunk({}, toFinishReason(result.finishReason));
+        if (body.stream_options?.include_usage) {
+          res.write(
+            `data: ${JSON.stringify({
+              id,
+              object: 'chat.completion.chunk',
+              created,
+              model: requestedModel,
+              choices: [],
+              usage,
+            })}\n\n`
+          );
+        }
+        res.write('data: [DONE]\n\n');
+        res.end();
+        return;
+      }
+
+      res.json({
+        id,
+        object: 'chat.completion',
+        created,
+        model: requestedModel,
+        choices: [
+          {
+            index: 0,
+            message: { role: 'assistant', content: result.content },
+            finish_reason: toFinishReason(result.finishReason),
+          },
+        ],
+        usage,
+      });
+    } catch (error: unknown) {
+      const message = getErrorMessage(error, 'Failed to generate completion');
+      console.error('API chat completion failed:', error);
+      if (res.headersSent) {
+        res.write(
+          `data: ${JSON.stringify({ error: { message, type: 'server_error', code: null } })}\n\n`
+        );
+        res.end();
+      } else {
+        sendError(res, 500, message, 'server_error');
+      }
+    } finally {
+      generationService.finish(job);
+    }
+  }
+);
+
+// Embeddings from Ollama. A persona embeds with its embedding model, if it
+// has one.
+router.post(
+  '/embeddings',
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const userId = req.user?.userId || 'default';
+    const { model, input, encoding_format } = req.body || {};
+
+    if (typeof model !== 'string' || !model) {
+      sendError(res, 400, 'model is required');
+      return;
+    }
+    const inputs: unknown[] = Array.isArray(input) ? input : [input];
+    if (
+      inputs.length === 0 ||
+      !inputs.every(item => typeof item === 'string')
+    ) {
+      sendError(res, 400, 'input must be a string or an array of strings');
+      return;
+    }
+    if (encoding_format && !['float', 'base64'].includes(encoding_format)) {
+      sendError(res, 400, "encoding_format must be 'float' or 'base64'");
+      return;
+    }
+
+    try {
+      const persona = await personaService.resolveModelPersona(model, userId);
+      if (model.startsWith('persona:') && !persona) {
+        sendError(
+          res,
+          404,
+          `The model '${model}' does not exist`,
+          'invalid_request_error',
+          'model_not_found'
+        );
+        return;
+      }
+
+      const texts = inputs as string[];
+      const response = await ollamaService.generateEmbeddings({
+        model: persona?.embedding_model || persona?.model || model,
+        input: texts,
+      });
+
+      const promptTokens = texts.reduce(
+        (sum, text) => sum + estimateTokens(text),
+        0
+      );
+      res.json({
+        object: 'list',
+        data: response.embeddings.map((embedding, index) => ({
+          object: 'embedding',
+          index,
+          // base64 packs the vector as little-endian float32s
+          embedding:
+            encoding_format === 'base64'
+              ? Buffer.from(new Float32Array(embedding).buffer).toString(
+                  'base64'
+                )
+              : embedding,
+        })),
+        model,
+        usage: { prompt_tokens: promptTokens, total_tokens: promptTokens },
+      });
+    } catch (error: unknown) {
+      console.error('API embeddings failed:', error);
+      sendError(
+        res,
+        500,
+        getErrorMessage(error, 'Failed to generate embeddings'),
+        'server_error'
+      );
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,68 @@
+/*
+ * Libre WebUI
+ * Copyright (C) 2025 Kroonen AI, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at:
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import express, { Request, Response } from 'express';
+import rateLimit from 'express-rate-limit';
+import { shareService } from '../services/shareService.js';
+import { ApiResponse, SharedSession, getErrorMessage } from '../types/index.js';
+
+const router = express.Router();
+
+// Share links are public, so guessing tokens is kept slow
+const sharesRateLimiter = rateLimit({
+  windowMs: 1 * 60 * 1000, // 1 minute
+  max: 30, // limit each IP to 30 requests per minute
+  message: {
+    success: false,
+    error: 'Too many requests, please try again later.',
+  },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+router.use(sharesRateLimiter);
+
+// Read-only snapshot behind a share link; needs no login
+router.get(
+  '/:token',
+  (req: Request, res: Response<ApiResponse<SharedSession>>): void => {
+    try {
+      const shared = shareService.isAvailable()
+        ? shareService.getSharedSession(req.params.token)
+        : undefined;
+
+      if (!shared) {
+        res.status(404).json({
+          success: false,
+          error: 'This share link does not exist or has expired',
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: shared,
+      });
+    } catch (error: unknown) {
+      res.status(500).json({
+        success: false,
+        error: getErrorMessage(error, 'Failed to load shared chat'),
+      });
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,135 @@
+/*
+ * Libre WebUI
+ * Copyright (C) 2025 Kroonen AI, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at:
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import getDatabase, { isDatabaseInitialized } from '../db.js';
+import { userModel } from '../models/userModel.js';
+import { AuthTokenPayload } from './authService.js';
+import { ApiKey, ApiKeyCreated } from '../types/index.js';
+
+const KEY_PREFIX = 'lwui-';
+// Characters of the key kept in clear text for display
+const DISPLAY_PREFIX_LENGTH = KEY_PREFIX.length + 6;
+const MAX_KEYS_PER_USER = 20;
+
+interface ApiKeyRow {
+  id: string;
+  user_id: string;
+  name: string;
+  key_hash: string;
+  prefix: string;
+  created_at: number;
+  last_used_at: number | null;
+}
+
+const hashKey = (key: string): string =>
+  crypto.createHash('sha256').update(key).digest('hex');
+
+/**
+ * Per-user keys for the OpenAI-compatible API, so scripts and editor
+ * extensions can use Libre WebUI without a login session. Keys are stored
+ * hashed and act with the permissions of the user who created them.
+ */
+class ApiKeyService {
+  isAvailable(): boolean {
+    return isDatabaseInitialized();
+  }
+
+  createKey(userId: string, name: string): ApiKeyCreated {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      throw new Error('API key name is required');
+    }
+    if (trimmed.length > 100) {
+      throw new Error('API key name must be 100 characters or fewer');
+    }
+    if (this.listKeys(userId).length >= MAX_KEYS_PER_USER) {
+      throw new Error(`You can have at most ${MAX_KEYS_PER_USER} API keys`);
+    }
+
+    const key = KEY_PREFIX + crypto.randomBytes(32).toString('base64url');
+    const apiKey: ApiKey = {
+      id: uuidv4(),
+      name: trimmed,
+      prefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+      createdAt: Date.now(),
+    };
+
+    getDatabase()
+      .prepare(
+        `INSERT INTO api_keys (id, user_id, name, key_hash, prefix, created_at)
+         VALUES (?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        apiKey.id,
+        userId,
+        apiKey.name,
+        hashKey(key),
+        apiKey.prefix,
+        apiKey.createdAt
+      );
+
+    return { ...apiKey, key };
+  }
+
+  listKeys(userId: string): ApiKey[] {
+    const rows = getDatabase()
+      .prepare(
+        'SELECT * FROM api_keys WHERE user_id = ? ORDER BY created_at DESC'
+      )
+      .all(userId) as ApiKeyRow[];
+    return rows.map(row => ({
+      id: row.id,
+      name: row.name,
+      prefix: row.prefix,
+      createdAt: row.created_at,
+      lastUsedAt: row.last_used_at ?? undefined,
+    }));
+  }
+
+  revokeKey(id: string, userId: string): boolean {
+    const result = getDatabase()
+      .prepare('DELETE FROM api_keys WHERE id = ? AND user_id = ?')
+      .run(id, userId);
+    return result.changes > 0;
+  }
+
+  /**
+   * The user a key belongs to, or undefined when the key is unknown or its
+   * user no longer exists. Records when the key was last used.
+   */
+  authenticate(key: string): AuthTokenPayload | undefined {
+    if (!this.isAvailable() || !key.startsWith(KEY_PREFIX)) return undefined;
+
+    const db = getDatabase();
+    const row = db
+      .prepare('SELECT * FROM api_keys WHERE key_hash = ?')
+      .get(hashKey(key)) as ApiKeyRow | undefined;
+    if (!row) return undefined;
+
+    const user = userModel.getUserById(row.user_id);
+    if (!user) return undefined;
+
+    db.prepare('UPDATE api_keys SET last_used_at = ? WHERE id = ?').run(
+      Date.now(),
+      row.id
+    );
+    return { userId: user.id, username: user.username, role: user.role };
+  }
+}
+
+export const apiKeyService = new ApiKeyService();
@@ -18,8 +18,12 @@
 import {
   ChatSession,
   ChatMessage,
+  ChatSearchResult,
+  ContextUsage,
+  ConversationSummary,
   Persona,
   MemorySearchResult,
+  SessionOrganization,
 } from '../types/index.js';
 import { v4 as uuidv4 } from 'uuid';
 import storageService from '../storage.js';
@@ -27,9 +31,21 @@ import preferencesService from './preferencesService.js';
 import { personaService } from './personaService.js';
 import { memoryService } from './memoryService.js';
 import { mutationEngineService } from './mutationEngineService.js';
+import {
+  findLatestLeaf,
+  getActiveBranch,
+  linkLegacyMessages,
+} from '../utils/messageTree.js';
+import { estimateMessageTokens } from '../utils/tokenUtils.js';
+import { ContextBudget } from './contextService.js';
+import { buildSnippet, findWords, searchService } from './searchService.js';
+
+// Id of the synthetic system message that carries the running summary
+export const SUMMARY_MESSAGE_ID = 'conversation-summary';
 
 class ChatService {
   private sessions: Map<string, ChatSession> = new Map();
+  private searchIndexedUsers = new Set<string>();
 
   constructor() {
     this.loadSessions();
@@ -38,6 +54,7 @@ class ChatService {
   private loadSessions() {
     try {
       const sessionsArray = storageService.getAllSessions();
+      sessionsArray.forEach(linkLegacyMessages);
       this.sessions = new Map(
         sessionsArray.map(session => [session.id, session])
       );
@@ -176,6 +193,7 @@ class ChatService {
       session = storageService.getSession(sessionId, userId);
       console.log(`💾 Session in storage: ${session ? 'YES' : 'NO'}`);
       if (session) {
+        linkLegacyMessages(session);
         this.sessions.set(sessionId, session);
       }
     } else {
@@ -206,12 +224,44 @@ class ChatService {
     // Update memory cache with user-specific sessions
     // Note: We don't clear the entire cache since other users might be using it
     sessionsArray.forEach(session => {
+      linkLegacyMessages(session);
       this.sessions.set(session.id, session);
     });
 
     return sessionsArray;
   }
 
+  // Stores a fully built session, e.g. one read back from an export
+  importSession(session: ChatSession, userId: string = 'default'): ChatSession {
+    linkLegacyMessages(session);
+    this.sessions.set(session.id, session);
+    storageService.saveSession(session, userId);
+    return session;
+  }
+
+  /**
+   * Moves, tags, pins or archives a session. Keeps updatedAt so
+   * organizing chats does not reorder them by recent activity.
+   */
+  organizeSession(
+    sessionId: string,
+    updates: SessionOrganization,
+    userId: string = 'default'
+  ): ChatSession | undefined {
+    const session = this.getSession(sessionId, userId);
+    if (!session) return undefined;
+
+    const organized: ChatSession = { ...session };
+    (Object.keys(updates) as (keyof SessionOrganization)[]).forEach(key => {
+      if (updates[key] === undefined) return;
+      Object.assign(organized, { [key]: updates[key] || undefined });
+    });
+
+    this.sessions.set(sessionId, organized);
+    storageService.saveSession(organized, userId);
+    return organized;
+  }
+
   async updateSession(
     sessionId: string,
     updates: Partial<ChatSession>,
@@ -261,16 +311,28 @@ class ChatService {
     return updatedSession;
   }
 
+  /**
+   * Add a message to the session tree. Without a parentId the message
+   * continues the active branch; null starts a new root.
+   */
   addMessage(
     sessionId: string,
-    message: Omit<ChatMessage, 'id' | 'timestamp'> & { id?: string },
+    message: Omit<ChatMessage, 'id' | 'timestamp' | 'parentId'> & {
+      id?: string;
+      parentId?: string | null;
+    },
     userId: string = 'default'
   ): ChatMessage | undefined {
     // First verify the session belongs to the user
     const session = this.getSession(sessionId, userId);
     if (!session) return undefined;
 
-    const messageId = message.id || uuidv4();
+    // Ids sent by clients are kept only when no other session uses them;
+    // message ids are unique across the whole database
+    const messageId =
+      message.id && !storageService.isMessageIdTaken(message.id, sessionId)
+        ? message.id
+        : uuidv4();
 
     // Check if message with this ID already exists to prevent duplicates
     const existingMessage = session.messages.find(msg => msg.id === messageId);
@@ -282,13 +344,24 @@ class ChatService {
       return existingMessage;
     }
 
+    const branch = getActiveBranch(session);
+    const parentId =
+      message.parentId === undefined
+        ? branch[branch.length - 1]?.id
+        : message.parentId || undefined;
+
     const newMessage: ChatMessage = {
       ...message,
       id: messageId,
       timestamp: Date.now(),
+      parentId,
+      siblingIndex: session.messages.filter(
+        msg => msg.parentId === parentId && msg.role !== 'system'
+      ).length,
     };
 
     session.messages.push(newMessage);
+    session.activeMessageId = messageId;
     session.updatedAt = Date.now();
 
     // Process advanced persona features if applicable
@@ -311,7 +384,7 @@ class ChatService {
         ).catch((error: unknown) =>
           console.error('Advanced persona processing error:', error)
         );
-      } else if (message.role === 'assistant') {
+      } else if (message.role === 'assistant' && !message.toolCalls?.length) {
         console.log(
           `[DEBUG] addMessage: Starting advanced assistant response processing for persona ${session.personaId}`
         );
@@ -384,6 +457,131 @@ class ChatService {
     return updatedMessage;
   }
 
+  // Make the given message the end of the active branch
+  setActiveMessage(
+    sessionId: string,
+    messageId: string,
+    userId: string = 'default'
+  ): ChatSession | undefined {
+    const session = this.getSession(sessionId, userId);
+    if (!session || !session.messages.some(msg => msg.id === messageId)) {
+      return undefined;
+    }
+
+    session.activeMessageId = messageId;
+    this.sessions.set(sessionId, session);
+    storageService.saveSession(session, userId);
+    return session;
+  }
+
+  // Switch to the branch containing the given message, following its
+  // most recent continuation
+  selectBranch(
+    sessionId: string,
+    messageId: string,
+    userId: string = 'default'
+  ): ChatSession | undefined {
+    const session = this.getSession(sessionId, userId);
+    if (!session || !session.messages.some(msg => msg.id === messageId)) {
+      return undefined;
+    }
+
+    return this.setActiveMessage(
+      sessionId,
+      findLatestLeaf(session.messages, messageId),
+      userId
+    );
+  }
+
+  // Replace or clear the running summary of evicted turns
+  setSummary(
+    sessionId: string,
+    summary: ConversationSummary | undefined,
+    userId: string = 'default'
+  ): ChatSession | undefined {
+    const session = this.getSession(sessionId, userId);
+    if (!session) return undefined;
+
+    session.summary = summary;
+    this.sessions.set(sessionId, session);
+    storageService.saveSession(session, userId);
+    return session;
+  }
+
+  /**
+   * The session summary if it still describes the active branch. A summary
+   * without a covered message was written by hand and always applies.
+   */
+  getValidSummary(
+    session: ChatSession,
+    branch: ChatMessage[] = getActiveBranch(session)
+  ): ConversationSummary | undefined {
+    const { summary } = session;
+    if (!summary || !summary.content.trim()) return undefined;
+    if (
+      summary.coveredMessageId &&
+      !branch.some(msg => msg.id === summary.coveredMessageId)
+    ) {
+      return undefined;
+    }
+    return summary;
+  }
+
+  /**
+   * Messages across all of the user's sessions that contain every word of
+   * the query, with a highlighted snippet of each
+   */
+  searchMessages(
+    query: string,
+    userId: string = 'default',
+    limit = 20
+  ): ChatSearchResult[] {
+    const queryWords = Array.from(
+      new Set(findWords(query).map(match => match.word))
+    );
+    if (queryWords.length === 0) return [];
+
+    let hits: { sessionId: string; messageId: string }[];
+    if (searchService.isAvailable()) {
+      // Sessions saved before the index existed are indexed on first search
+      if (!this.searchIndexedUsers.has(userId)) {
+        searchService.indexSessions(this.getAllSessions(userId), userId);
+        this.searchIndexedUsers.add(userId);
+      }
+      hits = searchService.search(userId, queryWords, limit);
+    } else {
+      hits = [];
+      for (const session of this.getAllSessions(userId)) {
+        for (const msg of session.messages) {
+          if (msg.role !== 'user' && msg.role !== 'assistant') continue;
+          const words = new Set(findWords(msg.content).map(m => m.word));
+          if (queryWords.every(word => words.has(word))) {
+            hits.push({ sessionId: session.id, messageId: msg.id });
+          }
+        }
+      }
+      hits = hits.slice(0, limit);
+    }
+
+    const wordSet = new Set(queryWords);
+    const results: ChatSearchResult[] = [];
+    for (const hit of hits) {
+      const session = this.getSession(hit.sessionId, userId);
+      const message = session?.messages.find(msg => msg.id === hit.messageId);
+      if (!session || !message) continue;
+
+      results.push({
+        sessionId: session.id,
+        sessionTitle: session.title,
+        messageId: message.id,
+        role: message.role,
+        timestamp: message.timestamp,
+        ...buildSnippet(message.content, wordSet),
+      });
+    }
+    return results;
+  }
+
   deleteSession(sessionId: string, userId: string = 'default'): boolean {
     // First verify the session belongs to the user
     const session = this.getSession(sessionId, userId);
@@ -411,7 +609,7 @@ class ChatService {
     });
   }
 
-  private generateTitle(content: string): string {
+  generateTitle(content: string): string {
     // Generate a concise title from the first message
     const words = content.trim().split(/\s+/).slice(0, 6);
     let title = words.join(' ');
@@ -423,23 +621,74 @@ class ChatService {
     return title || 'New Chat';
   }
 
-  getMessagesForContext(sessionId: string, maxMessages = 10): ChatMessage[] {
+  /**
+   * Pack the active branch into the prompt budget: system messages and
+   * the latest message always go in, then as much earlier history as
+   * fits. extraTokens covers content added on top of the stored messages,
+   * such as retrieved document context. Turns already folded into the
+   * running summary are replaced by it; older turns that no longer fit
+   * are returned as evicted so the summarizer can fold them in.
+   */
+  getMessagesForContext(
+    sessionId: string,
+    budget: ContextBudget,
+    extraTokens = 0
+  ): {
+    messages: ChatMessage[];
+    usage: ContextUsage;
+    evicted: ChatMessage[];
+  } {
     const session = this.sessions.get(sessionId);
-    if (!session) return [];
+    const branch = session ? getActiveBranch(session) : [];
 
-    // Separate system messages from conversation messages
-    const systemMessages = session.messages.filter(
-      msg => msg.role === 'system'
-    );
-    const conversationMessages = session.messages.filter(
-      msg => msg.role !== 'system'
-    );
+    // System messages (persona prompt and recalled memories) apply to every branch
+    const systemMessages = branch.filter(msg => msg.role === 'system');
+    const branchConversation = branch.filter(msg => msg.role !== 'system');
+    let conversationMessages = branchConversation;
 
-    // Take the last N conversation messages, but always include all system messages first
-    const recentConversation = conversationMessages.slice(-maxMessages);
+    const summary = session ? this.getValidSummary(session, branch) : undefined;
+    if (summary) {
+      const coveredIndex = conversationMessages.findIndex(
+        msg => msg.id === summary.coveredMessageId
+      );
+      conversationMessages = conversationMessages.slice(coveredIndex + 1);
+      systemMessages.push({
+        id: SUMMARY_MESSAGE_ID,
+        role: 'system',
+        content: `Summary of the earlier conversation:\n${summary.content}`,
+        timestamp: summary.updatedAt,
+      });
+    }
+
+    let usedTokens =
+      extraTokens +
+      systemMessages.reduce((sum, msg) => sum + estimateMessageTokens(msg), 0);
+
+    const recentConversation: ChatMessage[] = [];
+    for (let i = conversationMessages.length - 1; i >= 0; i--) {
+      const tokens = estimateMessageTokens(conversationMessages[i]);
+      if (
+        recentConversation.length > 0 &&
+        usedTokens + tokens > budget.promptBudget
+      ) {
+        break;
+      }
+      usedTokens += tokens;
+      recentConversation.unshift(conversationMessages[i]);
+    }
+
+    // Tool results are meaningless once the call that produced them is cut
+    while (
+      recentConversation.length > 1 &&
+      recentConversation[0].role === 'tool'
+    ) {
+      usedTokens -= estimateMessageTokens(recentConversation.shift()!);
+    }
 
-    // Return system messages first, then conversation messages
-    const contextMessages = [...systemMessages, ...recentConversation];
+    const evicted = conversationMessages.slice(
+      0,
+      conversationMessages.length - recentConversation.length
+    );
 
     // Debug: Log the system messages being sent
     if (systemMessages.length > 0) {
@@ -451,7 +700,20 @@ class ChatService {
       });
     }
 
-    return contextMessages;
+    return {
+      messages: [...systemMessages, ...recentConversation],
+      usage: {
+        usedTokens,
+        promptBudget: budget.promptBudget,
+        contextWindow: budget.contextWindow,
+        includedMessages: recentConversation.length,
+        totalMessages: branchConversation.length,
+        summarizedMessages:
+          branchConversation.length - conversationMessages.length,
+        truncated: evicted.length > 0,
+      },
+      evicted,
+    };
   }
 
   private async updateSystemMessageForPersona(
@@ -0,0 +1,291 @@
+/*
+ * Libre WebUI
+ * Copyright (C) 2025 Kroonen AI, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at:
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import ollamaService from './ollamaService.js';
+import pluginService from './pluginService.js';
+import toolService, { MAX_TOOL_STEPS, ToolContext } from './toolService.js';
+import {
+  ChatMessage,
+  GenerationOptions,
+  GenerationStatistics,
+  OllamaChatMessage,
+  OllamaChatRequest,
+  ToolCall,
+} from '../types/index.js';
+
+// Lets a model call tools. The turns it takes are handed back so the
+// caller can store and show them.
+export interface CompletionTools {
+  context: ToolContext;
+  onToolCalls: (turn: {
+    content: string;
+    thinking: string;
+    toolCalls: ToolCall[];
+  }) => void;
+  onToolResult: (toolName: string, result: string) => void;
+}
+
+export interface CompletionRequest {
+  model: string; // Actual model name; personas are resolved by the caller
+  messages: ChatMessage[]; // Document context already in place
+  options: GenerationOptions;
+  format?: string | Record<string, unknown>;
+  think?: boolean;
+  tools?: CompletionTools;
+}
+
+// Streamed text with the running total of the current turn
+export interface CompletionHandlers {
+  onChunk: (content: string, total: string) => void;
+  onThinking?: (content: string, total: string) => void;
+}
+
+export interface CompletionResult {
+  content: string;
+  thinking: string;
+  finishReason: string; // 'stop', 'length' or 'cancelled'
+  promptTokens?: number;
+  completionTokens?: number;
+  statistics?: GenerationStatistics; // Ollama's, for the final turn
+}
+
+// Ollama wants bare base64, without the data URL prefix
+const stripDataUrl = (image: string): string =>
+  image.includes(',') ? image.substring(image.indexOf(',') + 1) : image;
+
+const toOllamaMessage = (msg: ChatMessage): OllamaChatMessage => {
+  const ollamaMessage: OllamaChatMessage = {
+    role: msg.role,
+    content: msg.content,
+  };
+  // Carry earlier tool calls and results so the model keeps them
+  if (msg.toolCalls && msg.toolCalls.length > 0) {
+    ollamaMessage.tool_calls = msg.toolCalls as unknown as Record<
+      string,
+      unknown
+    >[];
+  }
+  if (msg.toolName) {
+    ollamaMessage.tool_name = msg.toolName;
+  }
+  if (msg.images && msg.images.length > 0) {
+    ollamaMessage.images = msg.images.map(stripDataUrl);
+  }
+  return ollamaMessage;
+};
+
+/**
+ * Generates a reply to a list of messages, for the chat socket and the
+ * OpenAI-compatible API alike. A model served by a plugin goes to its
+ * provider and falls back to Ollama when the provider fails before sending
+ * anything. Ollama models can call tools when the request allows it.
+ */
+class CompletionService {
+  async complete(
+    request: CompletionRequest,
+    handlers: CompletionHandlers,
+    signal?: AbortSignal
+  ): Promise<CompletionResult> {
+    const plugin = pluginService.getActivePluginForModel(request.model);
+    if (plugin) {
+      let streamed = '';
+      try {
+        const response = await pluginService.executePluginStreamRequest(
+          request.model,
+          request.messages,
+          request.options,
+          content => {
+            streamed += content;
+            handlers.onChunk(content, streamed);
+          },
+          signal
+        );
+        const choice = response.choices[0];
+        return {
+          content: choice?.message.content || streamed,
+          thinking: '',
+          finishReason: choice?.finish_reason || 'stop',
+          promptTokens: response.usage?.prompt_tokens,
+          completionTokens: response.usage?.completion_tokens,
+        };
+      } catch (error) {
+        // Switching models mid-reply would splice two answers together
+        if (streamed) throw error;
+        console.error(
+          `Plugin ${plugin.id} failed, falling back to Ollama:`,
+          error
+        );
+      }
+    }
+
+    return this.completeWithOllama(request, handlers, signal);
+  }
+
+  private async completeWithOllama(
+    request: CompletionRequest,
+    handlers: CompletionHandlers,
+    signal?: AbortSignal
+  ): Promise<CompletionResult> {
+    const chatRequest: OllamaChatRequest = {
+      model: request.model,
+      messages: request.messages.map(toOllamaMessage),
+      stream: true,
+      options: request.options as Record<string, unknown>,
+    };
+    if (request.format) {
+      chatRequest.format = request.format;
+    }
+
+    // Reasoning models think unless told otherwise
+    const capabilities = await ollamaService.getModelCapabilities(
+      request.model
+    );
+    if (capabilities.includes('thinking')) {
+      chatRequest.think = request.think === true;
+    }
+
+    // Offer tools when the model supports function calling
+    const { tools } = request;
+    if (tools && (await toolService.modelSupportsTools(request.model))) {
+      chatRequest.tools = await toolService.getToolSchemas(tools.context);
+    }
+
+    // Call/execute/respond loop: each turn streams the model's reply, and
+    // if it asked for tools their results are fed into the next turn
+    for (let step = 0; ; step++) {
+      // Force a final answer once the step budget is spent
+      if (step >= MAX_TOOL_STEPS) {
+        delete chatRequest.tools;
+      }
+
+      const { result, toolCalls } = await this.streamTurn(
+        chatRequest,
+        handlers,
+        signal
+      );
+
+      // A cancelled turn keeps its partial text; requested tools are not run
+      if (signal?.aborted) {
+        return { ...result, finishReason: 'cancelled' };
+      }
+      if (!tools || toolCalls.length === 0) {
+        return result;
+      }
+
+      tools.onToolCalls({
+        content: result.content,
+        thinking: result.thinking,
+        toolCalls,
+      });
+      chatRequest.messages.push({
+        role: 'assistant',
+        content: result.content,
+        tool_calls: toolCalls as unknown as Record<string, unknown>[],
+      });
+
+      for (const call of toolCalls) {
+        if (signal?.aborted) break;
+        console.log(`[Completion] Running tool ${call.function.name}`);
+        const output = await toolService.executeToolCall(call, tools.context);
+        tools.onToolResult(call.function.name, output);
+        chatRequest.messages.push({
+          role: 'tool',
+          content: output,
+          tool_name: call.function.name,
+        });
+      }
+    }
+  }
+
+  // One streamed reply from Ollama, with the tools it asked for
+  private streamTurn(
+    chatRequest: OllamaChatRequest,
+    handlers: CompletionHandlers,
+    signal?: AbortSignal
+  ): Promise<{ result: CompletionResult; toolCalls: ToolCall[] }> {
+    const result: CompletionResult = {
+      content: '',
+      thinking: '',
+      finishReason: 'stop',
+    };
+    const toolCalls: ToolCall[] = [];
+    let thinkingStartedAt: number | undefined;
+    let thinkingDuration: number | undefined;
+
+    return new Promise((resolve, reject) => {
+      ollamaService.generateChatStreamResponse(
+        chatRequest,
+        chunk => {
+          if (chunk.message?.tool_calls) {
+            toolCalls.push(
+              ...(chunk.message.tool_calls as unknown as ToolCall[])
+            );
+          }
+
+          if (chunk.message?.thinking) {
+            thinkingStartedAt ??= Date.now();
+            result.thinking += chunk.message.thinking;
+            handlers.onThinking?.(chunk.message.thinking, result.thinking);
+          }
+
+          // Reasoning ends when the answer starts
+          if (
+            thinkingStartedAt !== undefined &&
+            thinkingDuration === undefined &&
+            (chunk.message?.content || chunk.done)
+          ) {
+            thinkingDuration = Date.now() - thinkingStartedAt;
+          }
+
+          if (chunk.message?.content) {
+            result.content += chunk.message.content;
+            handlers.onChunk(chunk.message.content, result.content);
+          }
+
+          if (chunk.done) {
+            result.finishReason =
+              chunk.done_reason === 'length' ? 'length' : 'stop';
+            result.promptTokens = chunk.prompt_eval_count;
+            result.completionTokens = chunk.eval_count;
+            result.statistics = {
+              total_duration: chunk.total_duration,
+              load_duration: chunk.load_duration,
+              prompt_eval_count: chunk.prompt_eval_count,
+              prompt_eval_duration: chunk.prompt_eval_duration,
+              eval_count: chunk.eval_count,
+              eval_duration: chunk.eval_duration,
+              created_at: chunk.created_at,
+              model: chunk.model,
+              thinking_duration: thinkingDuration,
+              done_reason: chunk.done_reason,
+            };
+            if (chunk.eval_count && chunk.eval_duration) {
+              result.statistics.tokens_per_second =
+                Math.round(
+                  (chunk.eval_count / (chunk.eval_duration / 1e9)) * 100
+                ) / 100;
+            }
+          }
+        },
+        reject,
+        () => resolve({ result, toolCalls }),
+        signal
+      );
+    });
+  }
+}
+
+export const completionService = new CompletionService();
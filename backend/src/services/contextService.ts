@@ -0,0 +1,74 @@
+/*
+ * Libre WebUI
+ * Copyright (C) 2025 Kroonen AI, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at:
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { GenerationOptions } from '../types/index.js';
+import ollamaService from './ollamaService.js';
+import pluginService from './pluginService.js';
+
+// Ollama's context size when num_ctx is not set
+const DEFAULT_OLLAMA_CONTEXT = 2048;
+// Used for plugin models without a context_lengths entry
+const DEFAULT_PLUGIN_CONTEXT = 8192;
+// Room kept free for the reply when num_predict is not set
+const DEFAULT_RESPONSE_TOKENS = 512;
+
+export interface ContextBudget {
+  contextWindow: number;
+  promptBudget: number;
+}
+
+class ContextService {
+  /**
+   * Context window a request will actually get: the plugin's declared
+   * length, or num_ctx capped at what the Ollama model supports
+   */
+  async getContextWindow(
+    model: string,
+    options: Partial<GenerationOptions> = {}
+  ): Promise<number> {
+    const plugin = pluginService.getActivePluginForModel(model);
+    if (plugin) {
+      return plugin.context_lengths?.[model] || DEFAULT_PLUGIN_CONTEXT;
+    }
+
+    const requested = options.num_ctx || DEFAULT_OLLAMA_CONTEXT;
+    const modelLength = await ollamaService.getModelContextLength(model);
+    return modelLength ? Math.min(requested, modelLength) : requested;
+  }
+
+  /**
+   * Splits the context window between the prompt and the response
+   */
+  async getBudget(
+    model: string,
+    options: Partial<GenerationOptions> = {}
+  ): Promise<ContextBudget> {
+    const contextWindow = await this.getContextWindow(model, options);
+    const responseTokens =
+      options.num_predict && options.num_predict > 0
+        ? options.num_predict
+        : DEFAULT_RESPONSE_TOKENS;
+
+    return {
+      contextWindow,
+      promptBudget:
+        contextWindow - Math.min(responseTokens, Math.floor(contextWindow / 4)),
+    };
+  }
+}
+
+export const contextService = new ContextService();
@@ -0,0 +1,440 @@
+/*
+ * Libre WebUI
+ * Copyright (C) 2025 Kroonen AI, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at:
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { v4 as uuidv4 } from 'uuid';
+import {
+  ChunkingStrategy,
+  DocumentChunk,
+  DocumentFileType,
+  EmbeddingSettings,
+} from '../types/index.js';
+import { estimateTokens } from '../utils/tokenUtils.js';
+
+// Separates pages in text extracted from PDFs
+export const PAGE_BREAK = '\n\f\n';
+
+// A span of the document's content that is never split unless it alone
+// exceeds the chunk size
+interface Block {
+  start: number;
+  end: number;
+  sectionPath?: string[];
+}
+
+// Blocks that may be packed together; chunks never cross sections
+interface Section {
+  blocks: Block[];
+  pageNumber?: number;
+}
+
+interface ChunkingOptions {
+  size: number;
+  overlap: number;
+  measure: (text: string) => number;
+}
+
+const HEADING_PATTERN = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+const FENCE_PATTERN = /^\s*(```|~~~)/;
+// Names the first declaration in a piece of code, in most C-like languages,
+// Python, Ruby, Go and Rust
+const DECLARATION_PATTERN =
+  /\b(?:function\*?|class|interface|type|enum|struct|trait|impl|def|fn|func|module|const|let|var)\s+([A-Za-z_$][\w$]*)/;
+// Separators tried in turn when a single block is too big for one chunk
+const SPLIT_PATTERNS = [/\n[ \t]*\n/g, /\n/g, /(?<=[.!?])\s+/g, /\s+/g];
+
+type ResolvedStrategy = Exclude<ChunkingStrategy, 'auto'>;
+
+const AUTO_STRATEGIES: Partial<Record<DocumentFileType, ResolvedStrategy>> = {
+  pdf: 'page',
+  md: 'heading',
+  html: 'heading',
+  docx: 'heading',
+  xlsx: 'heading',
+  epub: 'heading',
+  code: 'code',
+};
+
+interface Line {
+  text: string;
+  start: number;
+  end: number;
+}
+
+const getLines = (content: string, start: number, end: number): Line[] => {
+  const lines: Line[] = [];
+  let position = start;
+  while (position < end) {
+    const newline = content.indexOf('\n', position);
+    const lineEnd = newline === -1 || newline > end ? end : newline;
+    lines.push({
+      text: content.slice(position, lineEnd),
+      start: position,
+      end: lineEnd,
+    });
+    position = lineEnd + 1;
+  }
+  return lines;
+};
+
+// Trims whitespace off both ends of a span
+const trimSpan = (
+  content: string,
+  start: number,
+  end: number
+): Block | undefined => {
+  while (start < end && /\s/.test(content[start])) start++;
+  while (end > start && /\s/.test(content[end - 1])) end--;
+  return start < end ? { start, end } : undefined;
+};
+
+/**
+ * Splits a span into paragraphs at blank lines, keeping fenced code blocks
+ * whole even when they contain blank lines.
+ */
+const getParagraphs = (
+  content: string,
+  start: number,
+  end: number,
+  sectionPath?: string[]
+): Block[] => {
+  const blocks: Block[] = [];
+  let blockStart = start;
+  let inFence = false;
+
+  const flush = (blockEnd: number) => {
+    const block = trimSpan(content, blockStart, blockEnd);
+    if (block) blocks.push({ ...block, sectionPath });
+  };
+
+  for (const line of getLines(content, start, end)) {
+    if (FENCE_PATTERN.test(line.text)) {
+      inFence = !inFence;
+    } else if (!inFence && !line.text.trim()) {
+      flush(line.start);
+      blockStart = line.end;
+    }
+  }
+  flush(end);
+  return blocks;
+};
+
+// Keeps the last lines of a chunk, or its last words when a single line is
+// longer than the overlap, to repeat at the start of the next chunk
+const getOverlap = (text: string, options: ChunkingOptions): string => {
+  if (options.overlap <= 0) return '';
+
+  const lines = text.split('\n');
+  let overlap = '';
+  for (let i = lines.length - 1; i >= 0; i--) {
+    const candidate = overlap ? `${lines[i]}\n${overlap}` : lines[i];
+    if (options.measure(candidate) > options.overlap) break;
+    overlap = candidate;
+  }
+  if (overlap.trim()) return overlap.trim();
+
+  const words = text.split(/\s+/);
+  for (let i = words.length - 1; i >= 0; i--) {
+    const candidate = overlap ? `${words[i]} ${overlap}` : words[i];
+    if (options.measure(candidate) > options.overlap) break;
+    overlap = candidate;
+  }
+  return overlap.trim();
+};
+
+/**
+ * Splits a block that does not fit in one chunk at the coarsest separator
+ * that works: blank lines, then lines, sentences and finally words.
+ */
+const splitBlock = (
+  content: string,
+  block: Block,
+  options: ChunkingOptions,
+  depth = 0
+): Block[] => {
+  const text = content.slice(block.start, block.end);
+  if (options.measure(text) <= options.size) return [block];
+
+  if (depth >= SPLIT_PATTERNS.length) {
+    // A single word longer than a chunk; cut it where it overflows
+    const pieces: Block[] = [];
+    let start = block.start;
+    while (start < block.end) {
+      let end = start + 1;
+      while (
+        end < block.end &&
+        options.measure(content.slice(start, end + 1)) <= options.size
+      ) {
+        end++;
+      }
+      pieces.push({ ...block, start, end });
+      start = end;
+    }
+    return pieces;
+  }
+
+  const parts: Block[] = [];
+  let partStart = block.start;
+  for (const match of text.matchAll(SPLIT_PATTERNS[depth])) {
+    const separator = block.start + (match.index ?? 0);
+    const part = trimSpan(content, partStart, separator);
+    if (part) parts.push({ ...block, ...part });
+    partStart = separator + match[0].length;
+  }
+  const last = trimSpan(content, partStart, block.end);
+  if (last) parts.push({ ...block, ...last });
+
+  return packBlocks(
+    content,
+    parts.flatMap(part => splitBlock(content, part, options, depth + 1)),
+    options
+  );
+};
+
+// Greedily merges neighbouring blocks into spans that fit the chunk size
+const packBlocks = (
+  content: string,
+  blocks: Block[],
+  options: ChunkingOptions
+): Block[] => {
+  const packed: Block[] = [];
+  for (const block of blocks) {
+    const current = packed[packed.length - 1];
+    if (
+      current &&
+      options.measure(content.slice(current.start, block.end)) <= options.size
+    ) {
+      current.end = block.end;
+    } else {
+      packed.push({ ...block });
+    }
+  }
+  return packed;
+};
+
+const paragraphSections = (content: string): Section[] => [
+  { blocks: getParagraphs(content, 0, content.length) },
+];
+
+const pageSections = (content: string): Section[] => {
+  const sections: Section[] = [];
+  let start = 0;
+  content.split(PAGE_BREAK).forEach((page, index) => {
+    sections.push({
+      blocks: getParagraphs(content, start, start + page.length),
+      pageNumber: index + 1,
+    });
+    start += page.length + PAGE_BREAK.length;
+  });
+  return sections;
+};
+
+interface HeadingNode {
+  title: string;
+  level: number;
+  start: number;
+  // Where the text under this heading gives way to its first subheading
+  bodyEnd: number;
+  end: number;
+  children: HeadingNode[];
+}
+
+/**
+ * Splits Markdown-style text along its heading hierarchy. A heading and
+ * everything under it form one chunk when they fit; otherwise the text
+ * before its first subheading is chunked on its own and each subheading
+ * is handled the same way.
+ */
+const headingSections = (
+  content: string,
+  options: ChunkingOptions
+): Section[] => {
+  const root: HeadingNode = {
+    title: '',
+    level: 0,
+    start: 0,
+    bodyEnd: content.length,
+    end: content.length,
+    children: [],
+  };
+  const stack = [root];
+  let inFence = false;
+
+  for (const line of getLines(content, 0, content.length)) {
+    if (FENCE_PATTERN.test(line.text)) inFence = !inFence;
+    const heading = !inFence && line.text.match(HEADING_PATTERN);
+    if (!heading) continue;
+
+    const level = heading[1].length;
+    while (stack[stack.length - 1].level >= level) {
+      stack.pop()!.end = line.start;
+    }
+    const parent = stack[stack.length - 1];
+    if (parent.children.length === 0) parent.bodyEnd = line.start;
+
+    const node: HeadingNode = {
+      title: heading[2],
+      level,
+      start: line.start,
+      bodyEnd: content.length,
+      end: content.length,
+      children: [],
+    };
+    parent.children.push(node);
+    stack.push(node);
+  }
+
+  const sections: Section[] = [];
+  const visit = (node: HeadingNode, path: string[]) => {
+    const whole = trimSpan(content, node.start, node.end);
+    if (!whole) return;
+    if (
+      options.measure(content.slice(whole.start, whole.end)) <= options.size
+    ) {
+      sections.push({ blocks: [{ ...whole, sectionPath: path }] });
+      return;
+    }
+    sections.push({
+      blocks: getParagraphs(content, node.start, node.bodyEnd, path),
+    });
+    node.children.forEach(child => visit(child, [...path, child.title]));
+  };
+  visit(root, []);
+  return sections;
+};
+
+/**
+ * Splits source code into top-level declarations: a new one starts at an
+ * unindented line after a blank line, so comments and decorators stay with
+ * the code below them and blank lines inside bodies don't split them.
+ */
+const codeSections = (content: string): Section[] => {
+  const blocks: Block[] = [];
+  let blockStart = 0;
+  let afterBlank = false;
+
+  const flush = (end: number) => {
+    const block = trimSpan(content, blockStart, end);
+    if (!block) return;
+    const name = content
+      .slice(block.start, block.end)
+      .match(DECLARATION_PATTERN)?.[1];
+    blocks.push({ ...block, sectionPath: name ? [name] : undefined });
+  };
+
+  for (const line of getLines(content, 0, content.length)) {
+    if (!line.text.trim()) {
+      afterBlank = true;
+      continue;
+    }
+    if (afterBlank && /^[^\s})\]]/.test(line.text)) {
+      flush(line.start);
+      blockStart = line.start;
+    }
+    afterBlank = false;
+  }
+  flush(content.length);
+  return [{ blocks }];
+};
+
+export const resolveChunkingStrategy = (
+  fileType: DocumentFileType | undefined,
+  strategy: ChunkingStrategy = 'auto'
+): ResolvedStrategy => {
+  if (strategy !== 'auto') return strategy;
+  return (fileType && AUTO_STRATEGIES[fileType]) || 'paragraph';
+};
+
+/**
+ * Splits a document's text into chunks for retrieval with the strategy
+ * chosen in the embedding settings. Chunk size and overlap are measured in
+ * characters or estimated tokens, and chunks record the page and heading
+ * path they came from.
+ */
+export const chunkDocument = (
+  document: { id: string; content?: string; fileType?: DocumentFileType },
+  settings: EmbeddingSettings
+): DocumentChunk[] => {
+  const content = document.content || '';
+  const options: ChunkingOptions = {
+    size: Math.max(1, settings.chunkSize || 1000),
+    overlap: Math.max(0, settings.chunkOverlap || 0),
+    measure:
+      settings.chunkSizeUnit === 'tokens'
+        ? estimateTokens
+        : (text: string) => text.length,
+  };
+
+  let sections: Section[];
+  switch (
+    resolveChunkingStrategy(document.fileType, settings.chunkingStrategy)
+  ) {
+    case 'heading':
+      sections = headingSections(content, options);
+      break;
+    case 'page':
+      sections = pageSections(content);
+      break;
+    case 'code':
+      sections = codeSections(content);
+      break;
+    default:
+      sections = paragraphSections(content);
+  }
+
+  const chunks: DocumentChunk[] = [];
+  for (const section of sections) {
+    const spans = packBlocks(
+      content,
+      section.blocks.flatMap(block => splitBlock(content, block, options)),
+      options
+    );
+
+    let previous = '';
+    for (const span of spans) {
+      const text = content.slice(span.start, span.end).replace(/\f/g, '');
+      const overlap = getOverlap(previous, options);
+      chunks.push({
+        id: uuidv4(),
+        documentId: document.id,
+        content: overlap ? `${overlap}\n\n${text}` : text,
+        chunkIndex: chunks.length,
+        startChar: span.start,
+        endChar: span.end,
+        pageNumber: section.pageNumber,
+        sectionPath: span.sectionPath?.length ? span.sectionPath : undefined,
+      });
+      previous = text;
+    }
+  }
+  return chunks;
+};
+
+/**
+ * Where a chunk came from, for citing it in prompts: the file name, the
+ * heading path and the page, e.g. "report.pdf › Results, page 4".
+ */
+export const formatChunkSource = (
+  chunk: DocumentChunk & { filename?: string }
+): string => {
+  let source = chunk.filename || 'Unknown';
+  if (chunk.sectionPath?.length) {
+    source += ` › ${chunk.sectionPath.join(' › ')}`;
+  }
+  if (chunk.pageNumber) {
+    source += `, page ${chunk.pageNumber}`;
+  }
+  return source;
+};
@@ -0,0 +1,633 @@
+/*
+ * Libre WebUI
+ * Copyright (C) 2025 Kroonen AI, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at:
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import path from 'path';
+import {
+  parse as parseHtml,
+  HTMLElement,
+  Node,
+  NodeType,
+  TextNode,
+} from 'node-html-parser';
+import { DocumentFileType } from '../types/index.js';
+import { readZip } from '../utils/zip.js';
+import { PAGE_BREAK } from './documentChunkers.js';
+
+export interface DocumentExtractor {
+  fileType: DocumentFileType;
+  // Shown in parse errors, e.g. "Failed to parse Word document: ..."
+  label: string;
+  // Lower-case, without the dot
+  extensions: string[];
+  mimeTypes: string[];
+  extract(buffer: Buffer, fileName: string): Promise<string>;
+}
+
+// Lazy load pdfjs-dist legacy build for Node.js
+let pdfjsLib: typeof import('pdfjs-dist/legacy/build/pdf.mjs') | null = null;
+const getPdfjsLib = async () => {
+  if (!pdfjsLib) {
+    try {
+      // Use the legacy build for Node.js compatibility
+      const pdfjs = await import('pdfjs-dist/legacy/build/pdf.mjs');
+      pdfjsLib = pdfjs;
+      console.log('Successfully loaded pdfjs-dist legacy build');
+    } catch (error) {
+      console.error('Failed to load pdfjs-dist legacy:', error);
+      throw new Error('PDF parsing is not available');
+    }
+  }
+  return pdfjsLib;
+};
+
+const decodeText = (buffer: Buffer): string =>
+  buffer
+    .toString('utf-8')
+    .replace(/^\uFEFF/, '')
+    .replace(/\r\n?/g, '\n');
+
+const decodeXmlEntities = (text: string): string =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (_, entity) => {
+    const named: Record<string, string> = {
+      amp: '&',
+      lt: '<',
+      gt: '>',
+      quot: '"',
+      apos: "'",
+    };
+    if (entity[0] !== '#') return named[entity.toLowerCase()];
+    const code =
+      entity[1].toLowerCase() === 'x'
+        ? parseInt(entity.slice(2), 16)
+        : parseInt(entity.slice(1), 10);
+    return String.fromCodePoint(code);
+  });
+
+const getXmlAttribute = (tag: string, name: string): string | undefined => {
+  const match = tag.match(new RegExp(`\\s${name}="([^"]*)"`));
+  return match ? decodeXmlEntities(match[1]) : undefined;
+};
+
+// Tags whose content is never part of the readable text
+const HIDDEN_TAGS = new Set([
+  'head',
+  'script',
+  'style',
+  'noscript',
+  'template',
+  'svg',
+  'iframe',
+  'canvas',
+  'form',
+  'button',
+  'select',
+]);
+
+// Page chrome: navigation, sidebars and site headers and footers
+const BOILERPLATE_SELECTOR = [
+  'nav',
+  'aside',
+  '[role="navigation"]',
+  '[role="banner"]',
+  '[role="contentinfo"]',
+  '[role="complementary"]',
+  '[aria-hidden="true"]',
+].join(', ');
+
+const BLOCK_TAGS = new Set([
+  'address',
+  'article',
+  'blockquote',
+  'dd',
+  'div',
+  'dl',
+  'dt',
+  'figcaption',
+  'figure',
+  'footer',
+  'header',
+  'hr',
+  'main',
+  'ol',
+  'p',
+  'pre',
+  'section',
+  'table',
+  'ul',
+]);
+
+const renderHtmlNode = (node: Node, out: string[], inPre: boolean): void => {
+  if (node.nodeType === NodeType.TEXT_NODE) {
+    let text = (node as TextNode).text;
+    if (!inPre) {
+      text = text.replace(/\s+/g, ' ');
+      const last = out[out.length - 1] || '\n';
+      if (last.endsWith('\n') || last.endsWith(' ')) {
+        text = text.trimStart();
+      }
+    }
+    if (text) out.push(text);
+    return;
+  }
+  if (node.nodeType !== NodeType.ELEMENT_NODE) return;
+
+  const element = node as HTMLElement;
+  const tag = element.tagName?.toLowerCase() || '';
+  if (HIDDEN_TAGS.has(tag)) return;
+
+  const renderChildren = (pre = inPre) =>
+    element.childNodes.forEach(child => renderHtmlNode(child, out, pre));
+
+  const heading = tag.match(/^h([1-6])$/);
+  if (heading) {
+    out.push(`\n\n${'#'.repeat(Number(heading[1]))} `);
+    renderChildren();
+    out.push('\n\n');
+  } else if (tag === 'li' || tag === 'tr') {
+    // Items and rows stay together as one paragraph
+    out.push(tag === 'li' ? '\n- ' : '\n');
+    renderChildren();
+  } else if (tag === 'td' || tag === 'th') {
+    renderChildren();
+    out.push(' | ');
+  } else if (tag === 'br') {
+    out.push('\n');
+  } else if (BLOCK_TAGS.has(tag)) {
+    out.push('\n\n');
+    renderChildren(inPre || tag === 'pre');
+    out.push('\n\n');
+  } else {
+    renderChildren();
+  }
+};
+
+/**
+ * The readable text of an HTML page as Markdown-ish plain text. Scripts,
+ * styles, navigation and sidebars are dropped, and when the page marks up
+ * its main content only that part is kept.
+ */
+export const htmlToText = (html: string): string => {
+  const root = parseHtml(html, {
+    comment: false,
+    blockTextElements: { script: true, noscript: true, style: true },
+  });
+  root.querySelectorAll(BOILERPLATE_SELECTOR).forEach(node => node.remove());
+
+  let content =
+    root.querySelector('main, [role="main"]') || root.querySelector('article');
+  if (!content) {
+    content = root.querySelector('body') || root;
+    // Without a marked-up main part, site headers and footers are chrome
+    content
+      .querySelectorAll('header, footer')
+      .filter(node => !node.closest('article, section'))
+      .forEach(node => node.remove());
+  }
+
+  const out: string[] = [];
+  renderHtmlNode(content, out, false);
+  return out
+    .join('')
+    .replace(/ \| (?=\n)/g, '')
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+};
+
+// Picks the separator used most on the first line, outside quotes
+const detectDelimiter = (text: string): string => {
+  const firstLine = text.split('\n', 1)[0].replace(/"[^"]*"/g, '');
+  let best = ',';
+  let bestCount = 0;
+  for (const delimiter of [',', ';', '\t', '|']) {
+    const count = firstLine.split(delimiter).length - 1;
+    if (count > bestCount) {
+      best = delimiter;
+      bestCount = count;
+    }
+  }
+  return best;
+};
+
+// RFC 4180 parsing: quoted fields may contain delimiters, quotes and newlines
+const parseDelimited = (text: string, delimiter: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n') {
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(cells => cells.some(cell => cell.trim()));
+};
+
+/**
+ * Renders a table one row per paragraph, each value labelled with its
+ * column header, so a chunk never separates a value from its column or
+ * cuts a row in half.
+ */
+const formatRows = (rows: string[][]): string => {
+  if (rows.length === 0) return '';
+  const [header, ...body] = rows;
+  const columns = header.map(
+    (name, index) => name.trim() || `Column ${index + 1}`
+  );
+  if (body.length === 0) return columns.join(' | ');
+
+  return body
+    .map((cells, index) => {
+      const fields = cells
+        .map((value, column) =>
+          value.trim()
+            ? `${columns[column] || `Column ${column + 1}`}: ${value.trim()}`
+            : ''
+        )
+        .filter(Boolean);
+      return `Row ${index + 1}: ${fields.join('; ')}`;
+    })
+    .join('\n\n');
+};
+
+// Zero-based column index of a cell reference such as "AB12"
+const columnIndex = (reference: string): number => {
+  let index = 0;
+  for (const letter of reference.replace(/\d+$/, '')) {
+    index = index * 26 + (letter.charCodeAt(0) - 64);
+  }
+  return index - 1;
+};
+
+const readXlsxSheet = (xml: string, sharedStrings: string[]): string[][] => {
+  const rows: string[][] = [];
+  for (const rowMatch of xml.matchAll(/<row\b[^>]*>([\s\S]*?)<\/row>/g)) {
+    const cells: string[] = [];
+    const cellPattern = /<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g;
+    for (const [, attributes, body = ''] of rowMatch[1].matchAll(cellPattern)) {
+      const reference = getXmlAttribute(attributes, 'r');
+      const type = getXmlAttribute(attributes, 't');
+      const raw = body.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+      let value = '';
+      if (type === 's' && raw !== undefined) {
+        value = sharedStrings[Number(raw)] || '';
+      } else if (type === 'inlineStr') {
+        value = Array.from(body.matchAll(/<t\b[^>]*>([\s\S]*?)<\/t>/g), match =>
+          decodeXmlEntities(match[1])
+        ).join('');
+      } else if (type === 'b' && raw !== undefined) {
+        value = raw === '1' ? 'TRUE' : 'FALSE';
+      } else if (raw !== undefined) {
+        value = decodeXmlEntities(raw);
+      }
+      const index = reference ? columnIndex(reference) : cells.length;
+      while (cells.length < index) cells.push('');
+      cells[index] = value;
+    }
+    rows.push(cells);
+  }
+  return rows.filter(cells => cells.some(cell => cell.trim()));
+};
+
+const readZipText = (files: Map<string, Buffer>, name: string): string => {
+  const file = files.get(name);
+  if (!file) throw new Error(`Missing ${name}`);
+  return decodeText(file);
+};
+
+const pdfExtractor: DocumentExtractor = {
+  fileType: 'pdf',
+  label: 'PDF',
+  extensions: ['pdf'],
+  mimeTypes: ['application/pdf'],
+  async extract(buffer) {
+    const pdfLib = await getPdfjsLib();
+    // Convert Buffer to Uint8Array for pdfjs-dist compatibility
+    const uint8Array = new Uint8Array(buffer);
+    const pdfDocument = await pdfLib.getDocument({ data: uint8Array }).promise;
+    const pages: string[] = [];
+
+    for (let pageNum = 1; pageNum <= pdfDocument.numPages; pageNum++) {
+      const page = await pdfDocument.getPage(pageNum);
+      const pageText = await page.getTextContent();
+      pages.push(
+        pageText.items
+          .map(item =>
+            'str' in item ? item.str + (item.hasEOL ? '\n' : ' ') : ''
+          )
+          .join('')
+      );
+    }
+
+    // Page breaks let the page-aware chunker number its chunks
+    return pages.join(PAGE_BREAK);
+  },
+};
+
+const textExtractor: DocumentExtractor = {
+  fileType: 'txt',
+  label: 'text file',
+  extensions: ['txt', 'text', 'log', 'rst', 'adoc'],
+  mimeTypes: ['text/plain'],
+  async extract(buffer) {
+    return decodeText(buffer);
+  },
+};
+
+const markdownExtractor: DocumentExtractor = {
+  fileType: 'md',
+  label: 'Markdown file',
+  extensions: ['md', 'markdown', 'mdx'],
+  mimeTypes: ['text/markdown', 'text/x-markdown'],
+  async extract(buffer) {
+    // Headings and lists read fine as they are; only front matter goes
+    return decodeText(buffer).replace(/^---\n[\s\S]*?\n---\n/, '');
+  },
+};
+
+const htmlExtractor: DocumentExtractor = {
+  fileType: 'html',
+  label: 'HTML page',
+  extensions: ['html', 'htm', 'xhtml'],
+  mimeTypes: ['text/html', 'application/xhtml+xml'],
+  async extract(buffer) {
+    return htmlToText(decodeText(buffer));
+  },
+};
+
+const docxExtractor: DocumentExtractor = {
+  fileType: 'docx',
+  label: 'Word document',
+  extensions: ['docx'],
+  mimeTypes: [
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  ],
+  async extract(buffer) {
+    const { default: mammoth } = await import('mammoth');
+    // Going through HTML keeps headings, lists and tables
+    const result = await mammoth.convertToHtml({ buffer });
+    return htmlToText(result.value);
+  },
+};
+
+const csvExtractor: DocumentExtractor = {
+  fileType: 'csv',
+  label: 'CSV file',
+  extensions: ['csv', 'tsv'],
+  mimeTypes: ['text/csv', 'application/csv', 'text/tab-separated-values'],
+  async extract(buffer, fileName) {
+    const text = decodeText(buffer);
+    const delimiter = fileName.toLowerCase().endsWith('.tsv')
+      ? '\t'
+      : detectDelimiter(text);
+    return formatRows(parseDelimited(text, delimiter));
+  },
+};
+
+const xlsxExtractor: DocumentExtractor = {
+  fileType: 'xlsx',
+  label: 'Excel workbook',
+  extensions: ['xlsx'],
+  mimeTypes: [
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  ],
+  async extract(buffer) {
+    const files = readZip(buffer);
+    const sharedStrings = files.has('xl/sharedStrings.xml')
+      ? Array.from(
+          readZipText(files, 'xl/sharedStrings.xml').matchAll(
+            /<si>([\s\S]*?)<\/si>/g
+          ),
+          ([, item]) =>
+            Array.from(
+              // Phonetic guides repeat the text in another script
+              item
+                .replace(/<rPh\b[\s\S]*?<\/rPh>/g, '')
+                .matchAll(/<t\b[^>]*>([\s\S]*?)<\/t>/g),
+              ([, text]) => decodeXmlEntities(text)
+            ).join('')
+        )
+      : [];
+
+    const targets = new Map<string, string>();
+    const rels = readZipText(files, 'xl/_rels/workbook.xml.rels');
+    for (const [tag] of rels.matchAll(/<Relationship\b[^>]*>/g)) {
+      const id = getXmlAttribute(tag, 'Id');
+      const target = getXmlAttribute(tag, 'Target');
+      if (id && target) {
+        targets.set(
+          id,
+          target.startsWith('/')
+            ? target.slice(1)
+            : path.posix.join('xl', target)
+        );
+      }
+    }
+
+    const sheets: string[] = [];
+    const workbook = readZipText(files, 'xl/workbook.xml');
+    for (const [tag] of workbook.matchAll(/<sheet\b[^>]*>/g)) {
+      const name = getXmlAttribute(tag, 'name') || 'Sheet';
+      const target = targets.get(getXmlAttribute(tag, 'r:id') || '');
+      if (!target || !files.has(target)) continue;
+
+      const rows = readXlsxSheet(readZipText(files, target), sharedStrings);
+      if (rows.length > 0) {
+        sheets.push(`## Sheet: ${name}\n\n${formatRows(rows)}`);
+      }
+    }
+    return sheets.join('\n\n');
+  },
+};
+
+const epubExtractor: DocumentExtractor = {
+  fileType: 'epub',
+  label: 'EPUB book',
+  extensions: ['epub'],
+  mimeTypes: ['application/epub+zip'],
+  async extract(buffer) {
+    const files = readZip(buffer);
+    const container = readZipText(files, 'META-INF/container.xml');
+    const rootfile = container.match(/<rootfile\b[^>]*>/)?.[0];
+    const packagePath = rootfile && getXmlAttribute(rootfile, 'full-path');
+    if (!packagePath) throw new Error('Missing package document');
+
+    const opf = readZipText(files, packagePath);
+    const baseDir = path.posix.dirname(packagePath);
+    const manifest = new Map<string, string>();
+    for (const [tag] of opf.matchAll(/<item\b[^>]*>/g)) {
+      const id = getXmlAttribute(tag, 'id');
+      const href = getXmlAttribute(tag, 'href');
+      if (id && href) {
+        manifest.set(
+          id,
+          path.posix.join(baseDir, decodeURIComponent(href.split('#')[0]))
+        );
+      }
+    }
+
+    const parts: string[] = [];
+    const title = opf.match(/<dc:title\b[^>]*>([\s\S]*?)<\/dc:title>/)?.[1];
+    if (title) parts.push(`# ${decodeXmlEntities(title).trim()}`);
+
+    // Chapters in reading order
+    for (const [tag] of opf.matchAll(/<itemref\b[^>]*>/g)) {
+      const chapterPath = manifest.get(getXmlAttribute(tag, 'idref') || '');
+      const chapter = chapterPath && files.get(chapterPath);
+      if (!chapter) continue;
+      const text = htmlToText(decodeText(chapter));
+      if (text) parts.push(text);
+    }
+    return parts.join('\n\n');
+  },
+};
+
+const codeExtractor: DocumentExtractor = {
+  fileType: 'code',
+  label: 'source file',
+  extensions: [
+    'js',
+    'jsx',
+    'mjs',
+    'cjs',
+    'ts',
+    'tsx',
+    'py',
+    'rb',
+    'go',
+    'rs',
+    'java',
+    'kt',
+    'kts',
+    'scala',
+    'swift',
+    'c',
+    'h',
+    'cc',
+    'cpp',
+    'hpp',
+    'cs',
+    'php',
+    'lua',
+    'r',
+    'dart',
+    'sh',
+    'bash',
+    'zsh',
+    'ps1',
+    'sql',
+    'vue',
+    'svelte',
+    'css',
+    'scss',
+    'less',
+    'json',
+    'yaml',
+    'yml',
+    'toml',
+    'ini',
+    'xml',
+    'graphql',
+    'proto',
+  ],
+  mimeTypes: [
+    'text/javascript',
+    'application/javascript',
+    'application/x-javascript',
+    'application/typescript',
+    'text/x-python',
+    'text/x-java-source',
+    'text/x-c',
+    'text/x-c++',
+    'text/x-go',
+    'text/x-rust',
+    'text/x-sh',
+    'application/x-sh',
+    'application/sql',
+    'text/css',
+    'application/json',
+    'application/x-yaml',
+    'text/yaml',
+    'application/toml',
+    'application/xml',
+    'text/xml',
+  ],
+  async extract(buffer) {
+    return decodeText(buffer);
+  },
+};
+
+const extractors: DocumentExtractor[] = [];
+
+export const registerDocumentExtractor = (
+  extractor: DocumentExtractor
+): void => {
+  extractors.push(extractor);
+};
+
+[
+  pdfExtractor,
+  textExtractor,
+  markdownExtractor,
+  htmlExtractor,
+  docxExtractor,
+  csvExtractor,
+  xlsxExtractor,
+  epubExtractor,
+  codeExtractor,
+].forEach(registerDocumentExtractor);
+
+/**
+ * Finds the extractor for an uploaded file. The extension wins over the
+ * MIME type, since browsers guess the latter from the extension anyway and
+ * get some wrong (`.ts` is sent as an MPEG transport stream).
+ */
+export const getDocumentExtractor = (
+  mimeType: string,
+  fileName: string
+): DocumentExtractor | undefined => {
+  const extension = path.extname(fileName).slice(1).toLowerCase();
+  return (
+    extractors.find(extractor => extractor.extensions.includes(extension)) ||
+    extractors.find(extractor => extractor.mimeTypes.includes(mimeType))
+  );
+};
@@ -16,49 +16,41 @@
  */
 
 import { v4 as uuidv4 } from 'uuid';
-import { DocumentChunk } from '../types/index.js';
+import {
+  DocumentChunk,
+  DocumentSearchResult,
+  MessageCitation,
+} from '../types/index.js';
 import { Document } from '../storage.js';
 import storageService from '../storage.js';
 import ollamaService from './ollamaService.js';
 import preferencesService from './preferencesService.js';
-
-// Utility functions for vector operations
-const cosineSimilarity = (a: number[], b: number[]): number => {
-  if (a.length !== b.length) return 0;
-
-  let dotProduct = 0;
-  let normA = 0;
-  let normB = 0;
-
-  for (let i = 0; i < a.length; i++) {
-    dotProduct += a[i] * b[i];
-    normA += a[i] * a[i];
-    normB += b[i] * b[i];
-  }
-
-  return dotProduct / (Math.sqrt(normA) * Math.sqrt(normB));
-};
-
-// Lazy load pdfjs-dist legacy build for Node.js
-let pdfjsLib: typeof import('pdfjs-dist/legacy/build/pdf.mjs') | null = null;
-const getPdfjsLib = async () => {
-  if (!pdfjsLib) {
-    try {
-      // Use the legacy build for Node.js compatibility
-      const pdfjs = await import('pdfjs-dist/legacy/build/pdf.mjs');
-      pdfjsLib = pdfjs;
-      console.log('Successfully loaded pdfjs-dist legacy build');
-    } catch (error) {
-      console.error('Failed to load pdfjs-dist legacy:', error);
-      throw new Error('PDF parsing is not available');
-    }
-  }
-  return pdfjsLib;
-};
+import { getDocumentExtractor } from './documentExtractors.js';
+import { chunkDocument, formatChunkSource } from './documentChunkers.js';
+import { documentVectorIndex } from './vectorIndexService.js';
+import { findWords, searchService } from './searchService.js';
+import { rerankService } from './rerankService.js';
+import {
+  bm25Rank,
+  keywordTerms,
+  RankedItem,
+  reciprocalRankFusion,
+} from '../utils/rankFusion.js';
+
+const CITATION_INSTRUCTIONS =
+  'When you use a passage from the context, cite it with its number in square brackets, ' +
+  'like [1] or [1][3]. Only cite passages you actually used.';
+
+// Embeddings live in the vector index; chunks kept in memory drop them
+const withoutEmbedding = ({
+  embedding: _embedding,
+  ...chunk
+}: DocumentChunk): DocumentChunk => chunk;
 
 class DocumentService {
   private documents: Map<string, Document> = new Map();
   private chunks: Map<string, DocumentChunk[]> = new Map();
+  private keywordIndexChecked = false;
 
   constructor() {
     this.loadDocuments();
@@ -79,15 +71,25 @@ class DocumentService {
     try {
       // Load chunks for all documents
       const documentsArray = Array.from(this.documents.values());
+      const embeddings = new Map<string, number[]>();
+      const indexEntries: Array<{ id: string; group: string }> = [];
       for (const doc of documentsArray) {
         const chunks = storageService.getDocumentChunks(doc.id);
         if (chunks.length > 0) {
-          this.chunks.set(doc.id, chunks);
+          for (const chunk of chunks) {
+            if (!chunk.embedding) continue;
+            embeddings.set(chunk.id, chunk.embedding);
+            indexEntries.push({ id: chunk.id, group: doc.id });
+          }
+          this.chunks.set(doc.id, chunks.map(withoutEmbedding));
         }
       }
       console.log(
         `Loaded chunks for ${this.chunks.size} documents from storage`
       );
+
+      // Catch up on index changes lost when the server last stopped
+      documentVectorIndex.sync(indexEntries, () => embeddings);
     } catch (error) {
       console.error('Failed to load document chunks:', error);
     }
@@ -110,44 +112,27 @@ class DocumentService {
     sessionId?: string
   ): Promise<Document> {
     const documentId = uuidv4();
-    let content = '';
-    let fileType: 'pdf' | 'txt';
 
     try {
-      if (mimeType === 'application/pdf') {
-        try {
-          const pdfLib = await getPdfjsLib();
-          // Convert Buffer to Uint8Array for pdfjs-dist compatibility
-          const uint8Array = new Uint8Array(fileBuffer);
-          const pdfDocument = await pdfLib.getDocument({ data: uint8Array })
-            .promise;
-          const numPages = pdfDocument.numPages;
-          let textContent = '';
-
-          for (let pageNum = 1; pageNum <= numPages; pageNum++) {
-            const page = await pdfDocument.getPage(pageNum);
-            const pageText = await page.getTextContent();
-            const pageContent = pageText.items
-              .map(item => ('str' in item ? item.str : ''))
-              .join(' ');
-            textContent += pageContent + '\n\n';
-          }
-
-          content = textContent.trim();
-          fileType = 'pdf';
-        } catch (pdfError) {
-          console.error('PDF parsing error:', pdfError);
-          throw new Error(
-            `Failed to parse PDF: ${pdfError instanceof Error ? pdfError.message : 'Unknown PDF error'}`
-          );
-        }
-      } else if (mimeType === 'text/plain') {
-        content = fileBuffer.toString('utf-8');
-        fileType = 'txt';
-      } else {
+      const extractor = getDocumentExtractor(mimeType, fileName);
+      if (!extractor) {
         throw new Error(`Unsupported file type: ${mimeType}`);
       }
 
+      let content: string;
+      try {
+        content = (await extractor.extract(fileBuffer, fileName)).trim();
+      } catch (extractError) {
+        console.error(`${extractor.label} parsing error:`, extractError);
+        throw new Error(
+          `Failed to parse ${extractor.label}: ${extractError instanceof Error ? extractError.message : 'Unknown error'}`
+        );
+      }
+      if (!content) {
+        throw new Error(`No text found in ${extractor.label}`);
+      }
+      const { fileType } = extractor;
+
       const document: Document = {
         id: documentId,
         filename: fileName,
@@ -159,7 +144,10 @@ class DocumentService {
       };
 
       // Process the document into chunks
-      const chunks = this.chunkDocument(document);
+      const chunks = chunkDocument(
+        document,
+        preferencesService.getPreferences().embeddingSettings
+      );
 
       // Generate embeddings for chunks if enabled
       const chunksWithEmbeddings =
@@ -167,7 +155,7 @@ class DocumentService {
 
       // Store document and chunks
       this.documents.set(documentId, document);
-      this.chunks.set(documentId, chunksWithEmbeddings);
+      this.chunks.set(documentId, chunksWithEmbeddings.map(withoutEmbedding));
 
       storageService.saveDocument(document);
       storageService.saveDocumentChunks(documentId, chunksWithEmbeddings);
@@ -184,87 +172,6 @@ class DocumentService {
     }
   }
 
-  private chunkDocument(document: Document): DocumentChunk[] {
-    const chunks: DocumentChunk[] = [];
-    const preferences = preferencesService.getPreferences();
-    const chunkSize = preferences.embeddingSettings?.chunkSize || 1000; // characters per chunk
-    const overlap = preferences.embeddingSettings?.chunkOverlap || 200; // character overlap between chunks
-
-    const text = document.content?.trim();
-    if (!text) return chunks;
-
-    // Helper function to calculate overlap word count based on character overlap
-    const calculateOverlapWordCount = (
-      overlapChars: number,
-      averageWordLength: number = 5
-    ): number => {
-      return Math.floor(overlapChars / averageWordLength);
-    };
-
-    // Split by paragraphs first, then by sentences if needed
-    const paragraphs = text.split(/\n\s*\n/).filter((p: string) => p.trim());
-
-    let currentChunk = '';
-    let chunkIndex = 0;
-    let currentOffset = 0; // Track character position in original text
-
-    for (const paragraph of paragraphs) {
-      const paragraphText = paragraph.trim();
-
-      // If adding this paragraph would exceed chunk size, save current chunk
-      if (
-        currentChunk &&
-        currentChunk.length + paragraphText.length > chunkSize
-      ) {
-        if (currentChunk.trim()) {
-          const chunkStart = currentOffset - currentChunk.length;
-          const chunkEnd = currentOffset;
-
-          chunks.push({
-            id: uuidv4(),
-            documentId: document.id,
-            content: currentChunk.trim(),
-            chunkIndex: chunkIndex++,
-            startChar: Math.max(0, chunkStart),
-            endChar: chunkEnd,
-          });
-        }
-
-        // Start new chunk with overlap from previous chunk
-        const words = currentChunk.split(' ');
-        const overlapWords = words.slice(-calculateOverlapWordCount(overlap));
-        currentChunk = overlapWords.join(' ') + '\n\n' + paragraphText;
-        currentOffset += paragraphText.length + 2; // +2 for \n\n
-      } else {
-        // Add paragraph to current chunk
-        if (currentChunk) {
-          currentChunk += '\n\n' + paragraphText;
-          currentOffset += paragraphText.length + 2; // +2 for \n\n
-        } else {
-          currentChunk = paragraphText;
-          currentOffset += paragraphText.length;
-        }
-      }
-    }
-
-    // Add the final chunk
-    if (currentChunk.trim()) {
-      const chunkStart = currentOffset - currentChunk.length;
-      const chunkEnd = currentOffset;
-
-      chunks.push({
-        id: uuidv4(),
-        documentId: document.id,
-        content: currentChunk.trim(),
-        chunkIndex: chunkIndex,
-        startChar: Math.max(0, chunkStart),
-        endChar: chunkEnd,
-      });
-    }
-
-    return chunks;
-  }
-
   private async generateEmbeddingForText(
     text: string
   ): Promise<number[] | null> {
@@ -327,11 +234,11 @@ class DocumentService {
       totalChunks += chunks.length;
       const chunksWithEmbeddings =
         await this.generateEmbeddingsForChunks(chunks);
-      this.chunks.set(documentId, chunksWithEmbeddings);
+      storageService.saveDocumentChunks(documentId, chunksWithEmbeddings);
+      this.chunks.set(documentId, chunksWithEmbeddings.map(withoutEmbedding));
       processedChunks += chunksWithEmbeddings.filter(c => c.embedding).length;
     }
 
-    this.saveChunks();
     console.log(
       `Regenerated embeddings for ${processedChunks}/${totalChunks} chunks`
     );
@@ -350,7 +257,9 @@ class DocumentService {
 
     for (const chunks of this.chunks.values()) {
       totalChunks += chunks.length;
-      chunksWithEmbeddings += chunks.filter(c => c.embedding).length;
+      chunksWithEmbeddings += chunks.filter(c =>
+        documentVectorIndex.has(c.id)
+      ).length;
     }
 
     return {
@@ -389,144 +298,258 @@ class DocumentService {
     return deleted;
   }
 
-  // Enhanced search with semantic similarity using embeddings
+  /**
+   * Hybrid search: chunks ranked by BM25 over their words and by embedding
+   * similarity, merged with reciprocal rank fusion and, when enabled,
+   * reordered by a rerank model. Each result carries the scores behind its
+   * place.
+   */
   async searchDocuments(
     query: string,
     sessionId?: string,
     limit = 5
-  ): Promise<DocumentChunk[]> {
+  ): Promise<DocumentSearchResult[]> {
     const preferences = preferencesService.getPreferences();
+    const settings = preferences.embeddingSettings;
+
+    const candidates = new Map<
+      string,
+      { chunk: DocumentChunk; document: Document }
+    >();
+    for (const document of this.documents.values()) {
+      // Filter by session if specified
+      if (sessionId && document.sessionId !== sessionId) continue;
+      for (const chunk of this.chunks.get(document.id) || []) {
+        candidates.set(chunk.id, { chunk, document });
+      }
+    }
+    if (candidates.size === 0) return [];
+
+    // Rank deeper than the limit so fusion and reranking can reorder
+    const rerankCount = settings.rerankEnabled
+      ? Math.max(settings.rerankCandidates, limit)
+      : limit;
+    const depth = Math.max(limit * 4, rerankCount);
+    const documentIds = Array.from(
+      new Set(Array.from(candidates.values(), ({ document }) => document.id))
+    );
+
+    const keywordHits = this.keywordSearchDocuments(
+      query,
+      documentIds,
+      candidates,
+      depth
+    );
+    const semantic = settings.enabled
+      ? await this.semanticSearchDocuments(
+          query,
+          documentIds,
+          depth,
+          keywordHits.map(hit => hit.id)
+        )
+      : undefined;
+    const semanticHits = semantic?.hits || [];
+    const similarity = semantic?.similarity || new Map<string, number>();
+
+    // The similarity threshold holds for keyword hits too, so sharing a
+    // word is not enough to reach the context. Chunks without an embedding
+    // cannot be judged and keep their place.
+    const keywordIds = keywordHits
+      .map(hit => hit.id)
+      .filter(id => {
+        const score = similarity.get(id);
+        return score === undefined || score >= settings.similarityThreshold;
+      });
+
+    // Without embeddings the keyword ranking stands alone, whatever its weight
+    const fused = reciprocalRankFusion(
+      semanticHits.length === 0
+        ? [{ ids: keywordIds, weight: 1 }]
+        : [
+            {
+              ids: keywordIds,
+              weight: settings.keywordWeight,
+            },
+            {
+              ids: semanticHits.map(hit => hit.id),
+              weight: settings.semanticWeight,
+            },
+          ]
+    ).slice(0, rerankCount);
+
+    const keywordScores = new Map(keywordHits.map(hit => [hit.id, hit.score]));
+    const semanticScores = new Map([
+      ...similarity,
+      ...semanticHits.map(hit => [hit.id, hit.score] as const),
+    ]);
+    let results: DocumentSearchResult[] = fused.flatMap(({ id, score }) => {
+      const candidate = candidates.get(id);
+      if (!candidate) return [];
+      return [
+        {
+          ...candidate.chunk,
+          filename: candidate.document.filename, // Add filename for context
+          scores: {
+            keyword: keywordScores.get(id),
+            semantic: semanticScores.get(id),
+            fusion: score,
+          },
+        },
+      ];
+    });
+
+    if (settings.rerankEnabled && results.length > 1) {
+      results = await this.rerankResults(
+        query,
+        results,
+        settings.rerankModel || preferences.defaultModel
+      );
+    }
+
+    return results.slice(0, limit);
+  }
 
-    // Use semantic search if embeddings are enabled
-    if (preferences.embeddingSettings.enabled) {
-      return this.semanticSearchDocuments(query, sessionId, limit);
+  private keywordSearchDocuments(
+    query: string,
+    documentIds: string[],
+    candidates: Map<string, { chunk: DocumentChunk }>,
+    limit: number
+  ): RankedItem[] {
+    const queryWords = keywordTerms(findWords(query).map(match => match.word));
+    if (queryWords.length === 0) return [];
+
+    if (searchService.isAvailable()) {
+      // Chunks saved before the index existed are indexed on first search
+      if (!this.keywordIndexChecked) {
+        const indexed = searchService.getIndexedDocumentIds();
+        searchService.indexDocuments(
+          Array.from(this.chunks).filter(
+            ([documentId]) => !indexed.has(documentId)
+          )
+        );
+        this.keywordIndexChecked = true;
+      }
+      return searchService
+        .searchDocumentChunks(queryWords, documentIds, limit)
+        .map(hit => ({ id: hit.chunkId, score: hit.score }));
     }
 
-    // Fall back to keyword search
-    return this.keywordSearchDocuments(query, sessionId, limit);
+    return bm25Rank(
+      queryWords,
+      Array.from(candidates.values(), ({ chunk }) => ({
+        id: chunk.id,
+        words: findWords(chunk.content).map(match => match.word),
+      })),
+      limit
+    );
   }
 
+  // The closest chunks, plus the similarity of the keyword hits so they
+  // can be held to the same threshold
   private async semanticSearchDocuments(
     query: string,
-    sessionId?: string,
-    limit = 5
-  ): Promise<DocumentChunk[]> {
+    documentIds: string[],
+    limit: number,
+    keywordIds: string[]
+  ): Promise<
+    { hits: RankedItem[]; similarity: Map<string, number> } | undefined
+  > {
     try {
       // Generate embedding for the query
       const queryEmbedding = await this.generateEmbeddingForText(query);
       if (!queryEmbedding) {
         console.warn(
-          'Failed to generate query embedding, falling back to keyword search'
+          'Failed to generate query embedding, using keyword search only'
         );
-        return this.keywordSearchDocuments(query, sessionId, limit);
+        return undefined;
       }
 
       const preferences = preferencesService.getPreferences();
-      const results: {
-        chunk: DocumentChunk;
-        similarity: number;
-        document: Document;
-      }[] = [];
-
-      for (const [documentId, documentChunks] of this.chunks.entries()) {
-        const document = this.documents.get(documentId);
-        if (!document) continue;
-
-        // Filter by session if specified
-        if (sessionId && document.sessionId !== sessionId) continue;
-
-        for (const chunk of documentChunks) {
-          if (!chunk.embedding) continue;
-
-          const similarity = cosineSimilarity(queryEmbedding, chunk.embedding);
-
+      return {
+        hits: documentVectorIndex.search(queryEmbedding, limit, {
+          groups: documentIds,
           // Only include chunks above similarity threshold
-          if (similarity >= preferences.embeddingSettings.similarityThreshold) {
-            results.push({ chunk, similarity, document });
-          }
-        }
-      }
-
-      // Sort by similarity score and return top results
-      return results
-        .sort((a, b) => b.similarity - a.similarity)
-        .slice(0, limit)
-        .map(result => ({
-          ...result.chunk,
-          filename: result.document.filename, // Add filename for context
-        })) as DocumentChunk[];
+          minScore: preferences.embeddingSettings.similarityThreshold,
+        }),
+        similarity: documentVectorIndex.similarity(queryEmbedding, keywordIds),
+      };
     } catch (error) {
       console.error(
-        'Semantic search failed, falling back to keyword search:',
+        'Semantic search failed, using keyword search only:',
         error
       );
-      return this.keywordSearchDocuments(query, sessionId, limit);
+      return undefined;
     }
   }
 
-  private keywordSearchDocuments(
+  // Orders results by the rerank model's scores; results it could not
+  // score go after the rest, keeping their fused order
+  private async rerankResults(
     query: string,
-    sessionId?: string,
-    limit = 5
-  ): DocumentChunk[] {
-    const searchTerms = query
-      .toLowerCase()
-      .split(/\s+/)
-      .filter(term => term.length > 2);
-    const results: {
-      chunk: DocumentChunk;
-      score: number;
-      document: Document;
-    }[] = [];
-
-    for (const [documentId, documentChunks] of this.chunks.entries()) {
-      const document = this.documents.get(documentId);
-      if (!document) continue;
-
-      // Filter by session if specified
-      if (sessionId && document.sessionId !== sessionId) continue;
+    results: DocumentSearchResult[],
+    model: string
+  ): Promise<DocumentSearchResult[]> {
+    try {
+      const scores = await rerankService.rerank(query, results, model);
+      return results
+        .map(result => ({
+          ...result,
+          scores: { ...result.scores, rerank: scores.get(result.id) },
+        }))
+        .sort((a, b) => (b.scores.rerank ?? -1) - (a.scores.rerank ?? -1));
+    } catch (error) {
+      console.error('Reranking failed, keeping the fused order:', error);
+      return results;
+    }
+  }
 
-      for (const chunk of documentChunks) {
-        const chunkText = chunk.content.toLowerCase();
-        let score = 0;
-
-        // Simple scoring based on term frequency
-        for (const term of searchTerms) {
-          // Escape special regex characters to prevent injection
-          const escapedTerm = term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-          const matches = (chunkText.match(new RegExp(escapedTerm, 'gi')) || [])
-            .length;
-          score += matches;
-        }
+  /**
+   * The question with the session's most relevant document chunks placed
+   * before it, numbered so the model can cite them, and the citations
+   * those numbers stand for. Undefined when nothing matched.
+   */
+  async addDocumentContext(
+    prompt: string,
+    sessionId: string
+  ): Promise<{ prompt: string; citations: MessageCitation[] } | undefined> {
+    const relevantChunks = await this.searchDocuments(prompt, sessionId, 3);
+    if (relevantChunks.length === 0) return undefined;
 
-        if (score > 0) {
-          results.push({ chunk, score, document });
-        }
-      }
-    }
+    console.log(
+      `Found ${relevantChunks.length} relevant document chunks for query`
+    );
+    const contextString = relevantChunks
+      .map(
+        (chunk, index) =>
+          `[${index + 1}] ${formatChunkSource(chunk)}\n${chunk.content}`
+      )
+      .join('\n\n---\n\n');
+    const citations = relevantChunks.map((chunk, index) => ({
+      index: index + 1,
+      chunkId: chunk.id,
+      documentId: chunk.documentId,
+      filename: chunk.filename,
+      pageNumber: chunk.pageNumber,
+      sectionPath: chunk.sectionPath,
+    }));
 
-    // Sort by score and return top results
-    return results
-      .sort((a, b) => b.score - a.score)
-      .slice(0, limit)
-      .map(result => ({
-        ...result.chunk,
-        filename: result.document.filename, // Add filename for context
-      })) as DocumentChunk[];
+    return {
+      prompt: `Context from uploaded documents:\n\n${contextString}\n\n---\n\n${CITATION_INSTRUCTIONS}\n\nUser question: ${prompt}`,
+      citations,
+    };
   }
 
-  // Get relevant context for RAG
-  async getRelevantContext(
-    query: string,
-    sessionId?: string
-  ): Promise<string[]> {
-    const relevantChunks = await this.searchDocuments(query, sessionId, 3);
-    return relevantChunks.map(
-      (chunk: DocumentChunk & { filename?: string }) => {
-        const filename = chunk.filename || 'Unknown';
-        return `[From: ${filename}]\n${chunk.content}`;
-      }
-    );
+  // A chunk with the name of its document, for showing a cited passage
+  getChunk(
+    documentId: string,
+    chunkId: string
+  ): (DocumentChunk & { filename: string }) | undefined {
+    const document = this.documents.get(documentId);
+    const chunk = this.chunks
+      .get(documentId)
+      ?.find(candidate => candidate.id === chunkId);
+    if (!document || !chunk) return undefined;
+    return { ...chunk, filename: document.filename };
   }
 
   // Restore a document from import (used during data import)
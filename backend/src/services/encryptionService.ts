@@ -283,6 +283,50 @@ export class EncryptionService {
     }
   }
 
+  /**
+   * Keyed hash of a search term. Equal terms give equal hashes, so an index
+   * of hashes can be queried without storing the terms in plain text.
+   */
+  public blindIndex(term: string): string {
+    return crypto
+      .createHmac('sha256', this.encryptionKey)
+      .update(`search:${term}`)
+      .digest('hex')
+      .substring(0, 24);
+  }
+
+  /**
+   * Encrypt binary data, for files too large to hex-encode. The result is
+   * the IV, the auth tag and the ciphertext, concatenated.
+   */
+  public encryptBuffer(data: Buffer): Buffer {
+    const iv = crypto.randomBytes(16);
+    const cipher = crypto.createCipheriv(
+      this.algorithm,
+      this.encryptionKey,
+      iv
+    ) as crypto.CipherGCM;
+    const encrypted = Buffer.concat([cipher.update(data), cipher.final()]);
+    return Buffer.concat([iv, cipher.getAuthTag(), encrypted]);
+  }
+
+  /**
+   * Decrypt data from encryptBuffer. Throws when the data was tampered
+   * with or encrypted with another key.
+   */
+  public decryptBuffer(data: Buffer): Buffer {
+    const decipher = crypto.createDecipheriv(
+      this.algorithm,
+      this.encryptionKey,
+      data.subarray(0, 16)
+    ) as crypto.DecipherGCM;
+    decipher.setAuthTag(data.subarray(16, 32));
+    return Buffer.concat([
+      decipher.update(data.subarray(32)),
+      decipher.final(),
+    ]);
+  }
+
   /**
    * Encrypt JSON objects
    */
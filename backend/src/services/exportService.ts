@@ -0,0 +1,484 @@
+/*
+ * Libre WebUI
+ * Copyright (C) 2025 Kroonen AI, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at:
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { v4 as uuidv4 } from 'uuid';
+import {
+  Artifact,
+  ChatMessage,
+  ChatSession,
+  GenerationStatistics,
+  SessionExport,
+  SessionExportFormat,
+  ToolCall,
+} from '../types/index.js';
+import { getActiveBranch } from '../utils/messageTree.js';
+import { createZip } from '../utils/zip.js';
+
+export const SESSION_EXPORT_FORMAT = 'libre-webui-session';
+const SESSION_EXPORT_VERSION = 1;
+
+const ARTIFACT_TYPES: Artifact['type'][] = [
+  'html',
+  'react',
+  'svg',
+  'mermaid',
+  'chart',
+  'code',
+  'text',
+  'json',
+];
+const NUMERIC_STATISTICS = [
+  'total_duration',
+  'load_duration',
+  'prompt_eval_count',
+  'prompt_eval_duration',
+  'eval_count',
+  'eval_duration',
+  'tokens_per_second',
+  'thinking_duration',
+] as const;
+const TEXT_STATISTICS = ['created_at', 'model', 'done_reason'] as const;
+
+// Imported files are untrusted: each field is only kept with the right type
+type JsonObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const asString = (value: unknown): string | undefined =>
+  typeof value === 'string' ? value : undefined;
+
+const asNumber = (value: unknown): number | undefined =>
+  typeof value === 'number' && isFinite(value) ? value : undefined;
+
+const asStrings = (value: unknown): string[] | undefined =>
+  Array.isArray(value)
+    ? value.filter((item): item is string => typeof item === 'string')
+    : undefined;
+
+const asStatistics = (value: unknown): GenerationStatistics | undefined => {
+  if (!isObject(value)) return undefined;
+  const statistics: GenerationStatistics = {};
+  NUMERIC_STATISTICS.forEach(key => {
+    const number = asNumber(value[key]);
+    if (number !== undefined) statistics[key] = number;
+  });
+  TEXT_STATISTICS.forEach(key => {
+    const text = asString(value[key]);
+    if (text !== undefined) statistics[key] = text;
+  });
+  return statistics;
+};
+
+const asArtifacts = (value: unknown): Artifact[] | undefined =>
+  Array.isArray(value)
+    ? value.filter(isObject).flatMap(item => {
+        const type = ARTIFACT_TYPES.find(known => known === item.type);
+        const content = asString(item.content);
+        if (!type || content === undefined) return [];
+        const now = Date.now();
+        return [
+          {
+            id: asString(item.id) || uuidv4(),
+            type,
+            title: asString(item.title) || '',
+            content,
+            language: asString(item.language),
+            description: asString(item.description),
+            createdAt: asNumber(item.createdAt) ?? now,
+            updatedAt: asNumber(item.updatedAt) ?? now,
+          },
+        ];
+      })
+    : undefined;
+
+const asToolCalls = (value: unknown): ToolCall[] | undefined =>
+  Array.isArray(value)
+    ? value.filter(isObject).flatMap(item => {
+        const call = isObject(item.function) ? item.function : {};
+        const name = asString(call.name);
+        if (!name) return [];
+        return [
+          {
+            function: {
+              name,
+              arguments: isObject(call.arguments) ? call.arguments : {},
+            },
+          },
+        ];
+      })
+    : undefined;
+
+const ROLE_LABELS: Record<ChatMessage['role'], string> = {
+  user: '👤 User',
+  assistant: '🤖 Assistant',
+  system: '⚙️ System',
+  tool: '🔧 Tool',
+};
+
+const CONTENT_TYPES: Record<SessionExportFormat, string> = {
+  md: 'text/markdown; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+  html: 'text/html; charset=utf-8',
+};
+
+const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+// Stored images are bare base64 or data URLs
+const toDataUrl = (image: string): string =>
+  image.startsWith('data:') ? image : `data:image/png;base64,${image}`;
+
+const formatStatistics = (stats: GenerationStatistics): string => {
+  const parts: string[] = [];
+  if (stats.eval_count) parts.push(`${stats.eval_count} tokens`);
+  if (stats.tokens_per_second) {
+    parts.push(`${stats.tokens_per_second.toFixed(1)} tok/s`);
+  }
+  if (stats.total_duration) {
+    parts.push(`${(stats.total_duration / 1e9).toFixed(1)}s total`);
+  }
+  if (stats.thinking_duration) {
+    parts.push(`thought for ${Math.round(stats.thinking_duration / 1000)}s`);
+  }
+  return parts.join(' · ');
+};
+
+/**
+ * Just enough Markdown for readable HTML exports: fenced code, inline
+ * code, bold and line breaks. Everything else is shown as written.
+ */
+const markdownToHtml = (markdown: string): string =>
+  markdown
+    .split(/(```[\w+-]*\n[\s\S]*?```)/g)
+    .map(part => {
+      const fence = part.match(/^```([\w+-]*)\n([\s\S]*?)```$/);
+      if (fence) {
+        const language = fence[1]
+          ? ` class="language-${escapeHtml(fence[1])}"`
+          : '';
+        return `<pre><code${language}>${escapeHtml(fence[2])}</code></pre>`;
+      }
+      return escapeHtml(part)
+        .replace(/`([^`\n]+)`/g, '<code>$1</code>')
+        .replace(/\*\*([^*\n]+)\*\*/g, '<strong>$1</strong>')
+        .replace(/\n/g, '<br>\n');
+    })
+    .join('');
+
+const HTML_STYLES = `
+  body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; max-width: 820px; margin: 2rem auto; padding: 0 1rem; color: #1f2937; line-height: 1.6; }
+  header { border-bottom: 1px solid #e5e7eb; margin-bottom: 1.5rem; }
+  header p { color: #6b7280; font-size: 0.875rem; margin: 0.25rem 0 1rem; }
+  .message { margin: 0 0 1.25rem; padding: 0.75rem 1rem; border-radius: 0.75rem; break-inside: avoid; }
+  .message.user { background: #f3f4f6; }
+  .message.assistant { border: 1px solid #e5e7eb; }
+  .message.system, .message.tool { background: #fffbeb; font-size: 0.875rem; }
+  .role { font-weight: 600; font-size: 0.875rem; margin-bottom: 0.25rem; }
+  .role span, .stats { color: #6b7280; font-weight: 400; font-size: 0.75rem; }
+  pre { background: #111827; color: #f9fafb; padding: 0.75rem; border-radius: 0.5rem; overflow-x: auto; white-space: pre-wrap; }
+  code { font-family: ui-monospace, SFMono-Regular, Menlo, monospace; font-size: 0.85em; }
+  img { max-width: 100%; border-radius: 0.5rem; }
+  details { color: #4b5563; font-size: 0.875rem; margin-bottom: 0.5rem; }
+  @media print {
+    body { margin: 0; max-width: none; }
+    pre { white-space: pre-wrap; word-break: break-word; }
+  }
+`;
+
+class ExportService {
+  contentType(format: SessionExportFormat): string {
+    return CONTENT_TYPES[format];
+  }
+
+  // Readable file name that still tells same-titled chats apart
+  fileName(session: ChatSession, format: SessionExportFormat): string {
+    const title =
+      session.title
+        .replace(/[^a-zA-Z0-9 _-]/g, '')
+        .trim()
+        .replace(/\s+/g, '-')
+        .substring(0, 50) || 'chat';
+    return `${title}-${session.id.substring(0, 8)}.${format}`;
+  }
+
+  render(session: ChatSession, format: SessionExportFormat): string {
+    switch (format) {
+      case 'md':
+        return this.toMarkdown(session);
+      case 'html':
+        return this.toHtml(session);
+      default:
+        return JSON.stringify(this.toExport(session), null, 2);
+    }
+  }
+
+  // Every session of the user in one archive
+  renderZip(sessions: ChatSession[], format: SessionExportFormat): Buffer {
+    return createZip(
+      sessions.map(session => ({
+        name: this.fileName(session, format),
+        content: this.render(session, format),
+        modifiedAt: new Date(session.updatedAt),
+      }))
+    );
+  }
+
+  // The JSON export keeps the whole message tree, not just the active branch
+  toExport(session: ChatSession): SessionExport {
+    return {
+      format: SESSION_EXPORT_FORMAT,
+      version: SESSION_EXPORT_VERSION,
+      exportedAt: new Date().toISOString(),
+      session,
+    };
+  }
+
+  toMarkdown(session: ChatSession): string {
+    const lines: string[] = [
+      `# ${session.title}`,
+      '',
+      `- Model: ${session.model}`,
+      `- Created: ${new Date(session.createdAt).toISOString()}`,
+      `- Exported: ${new Date().toISOString()}`,
+      '',
+    ];
+
+    for (const message of getActiveBranch(session)) {
+      const label =
+        message.role === 'tool' && message.toolName
+          ? `${ROLE_LABELS.tool}: ${message.toolName}`
+          : ROLE_LABELS[message.role];
+      lines.push(
+        '---',
+        '',
+        `### ${label}${message.model ? ` (${message.model})` : ''}`,
+        ''
+      );
+
+      if (message.thinking) {
+        lines.push(
+          '<details><summary>Thinking</summary>',
+          '',
+          message.thinking,
+          '',
+          '</details>',
+          ''
+        );
+      }
+
+      lines.push(
+        message.role === 'tool'
+          ? `\`\`\`\n${message.content}\n\`\`\``
+          : message.content,
+        ''
+      );
+
+      message.images?.forEach((image, index) => {
+        lines.push(`![Image ${index + 1}](${toDataUrl(image)})`, '');
+      });
+
+      if (message.toolCalls && message.toolCalls.length > 0) {
+        lines.push(
+          '**Tool calls**',
+          '',
+          '```json',
+          JSON.stringify(message.toolCalls, null, 2),
+          '```',
+          ''
+        );
+      }
+
+      message.artifacts?.forEach(artifact => {
+        lines.push(
+          `#### Artifact: ${artifact.title} (${artifact.type})`,
+          '',
+          `\`\`\`${artifact.language || artifact.type}`,
+          artifact.content,
+          '```',
+          ''
+        );
+      });
+
+      if (message.statistics) {
+        const stats = formatStatistics(message.statistics);
+        if (stats) lines.push(`_${stats}_`, '');
+      }
+    }
+
+    return lines.join('\n');
+  }
+
+  toHtml(session: ChatSession): string {
+    const messages = getActiveBranch(session).map(message => {
+      const label =
+        message.role === 'tool' && message.toolName
+          ? `${ROLE_LABELS.tool}: ${message.toolName}`
+          : ROLE_LABELS[message.role];
+      const parts: string[] = [
+        `<div class="role">${escapeHtml(label)}${
+          message.model ? ` <span>${escapeHtml(message.model)}</span>` : ''
+        }</div>`,
+      ];
+
+      if (message.thinking) {
+        parts.push(
+          `<details><summary>Thinking</summary>${markdownToHtml(message.thinking)}</details>`
+        );
+      }
+      parts.push(
+        message.role === 'tool'
+          ? `<pre><code>${escapeHtml(message.content)}</code></pre>`
+          : `<div class="content">${markdownToHtml(message.content)}</div>`
+      );
+      message.images?.forEach((image, index) => {
+        parts.push(
+          `<img src="${escapeHtml(toDataUrl(image))}" alt="Image ${index + 1}">`
+        );
+      });
+      if (message.toolCalls && message.toolCalls.length > 0) {
+        parts.push(
+          `<pre><code class="language-json">${escapeHtml(
+            JSON.stringify(message.toolCalls, null, 2)
+          )}</code></pre>`
+        );
+      }
+      message.artifacts?.forEach(artifact => {
+        parts.push(
+          `<h4>${escapeHtml(`Artifact: ${artifact.title} (${artifact.type})`)}</h4>`,
+          `<pre><code>${escapeHtml(artifact.content)}</code></pre>`
+        );
+      });
+      if (message.statistics) {
+        const stats = formatStatistics(message.statistics);
+        if (stats) parts.push(`<div class="stats">${escapeHtml(stats)}</div>`);
+      }
+
+      return `<section class="message ${message.role}">\n${parts.join('\n')}\n</section>`;
+    });
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(session.title)}</title>
+<style>${HTML_STYLES}</style>
+</head>
+<body>
+<header>
+<h1>${escapeHtml(session.title)}</h1>
+<p>${escapeHtml(session.model)} · ${escapeHtml(new Date(session.createdAt).toLocaleString())}</p>
+</header>
+${messages.join('\n')}
+</body>
+</html>
+`;
+  }
+
+  isExport(data: unknown): data is SessionExport {
+    const item = data as Partial<SessionExport> | null;
+    return (
+      !!item &&
+      item.format === SESSION_EXPORT_FORMAT &&
+      typeof item.session?.title === 'string' &&
+      typeof item.session?.model === 'string' &&
+      Array.isArray(item.session?.messages) &&
+      item.session.messages.every(
+        msg =>
+          typeof msg?.content === 'string' &&
+          ['user', 'assistant', 'system', 'tool'].includes(msg?.role)
+      )
+    );
+  }
+
+  /**
+   * Session from a JSON export with fresh ids, so it can be imported next
+   * to the session it came from
+   */
+  fromExport(data: SessionExport): ChatSession {
+    return this.withNewIds(data.session);
+  }
+
+  // Copies only the fields a session and its messages have, checking
+  // their types, and gives everything new ids. Folders and citations are
+  // left out, as what they point to is not exported.
+  private withNewIds(session: ChatSession): ChatSession {
+    const source = session as unknown as JsonObject;
+    const messages = session.messages as unknown as JsonObject[];
+
+    const ids = new Map<string, string>();
+    messages.forEach(msg => {
+      const id = asString(msg.id);
+      if (id) ids.set(id, uuidv4());
+    });
+    const remap = (id: unknown) =>
+      typeof id === 'string' ? ids.get(id) : undefined;
+
+    const now = Date.now();
+    const summary = isObject(source.summary) ? source.summary : undefined;
+    const summaryContent = asString(summary?.content);
+    return {
+      id: uuidv4(),
+      title: session.title,
+      model: session.model,
+      createdAt: asNumber(source.createdAt) || now,
+      updatedAt: asNumber(source.updatedAt) || now,
+      personaId: asString(source.personaId),
+      activeMessageId: remap(source.activeMessageId),
+      summary:
+        summary && summaryContent !== undefined
+          ? {
+              content: summaryContent,
+              coveredMessageId: remap(summary.coveredMessageId),
+              edited: summary.edited === true || undefined,
+              updatedAt: asNumber(summary.updatedAt) || now,
+            }
+          : undefined,
+      tags: asStrings(source.tags),
+      pinned: source.pinned === true || undefined,
+      archived: source.archived === true || undefined,
+      messages: messages.map(msg => {
+        const siblingIndex = asNumber(msg.siblingIndex);
+        return {
+          id: remap(msg.id) || uuidv4(),
+          role: msg.role as ChatMessage['role'],
+          content: msg.content as string,
+          timestamp: asNumber(msg.timestamp) || now,
+          model: asString(msg.model),
+          images: asStrings(msg.images),
+          statistics: asStatistics(msg.statistics),
+          artifacts: asArtifacts(msg.artifacts),
+          toolCalls: asToolCalls(msg.toolCalls),
+          toolName: asString(msg.toolName),
+          thinking: asString(msg.thinking),
+          parentId: remap(msg.parentId),
+          siblingIndex:
+            siblingIndex !== undefined && siblingIndex >= 0
+              ? Math.floor(siblingIndex)
+              : undefined,
+        };
+      }),
+    };
+  }
+}
+
+export const exportService = new ExportService();
@@ -0,0 +1,157 @@
+/*
+ * Libre WebUI
+ * Copyright (C) 2025 Kroonen AI, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at:
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { v4 as uuidv4 } from 'uuid';
+import { ChatFolder } from '../types/index.js';
+import storageService from '../storage.js';
+import chatService from './chatService.js';
+
+const MAX_FOLDER_NAME_LENGTH = 100;
+
+/**
+ * Nested folders that organize sessions in the sidebar
+ */
+class FolderService {
+  getFolders(userId: string = 'default'): ChatFolder[] {
+    return storageService.getAllFolders(userId);
+  }
+
+  createFolder(
+    name: string,
+    parentId: string | undefined,
+    userId: string = 'default'
+  ): ChatFolder {
+    const folders = this.getFolders(userId);
+    if (parentId && !folders.some(f => f.id === parentId)) {
+      throw new Error('Parent folder not found');
+    }
+
+    const now = Date.now();
+    const folder: ChatFolder = {
+      id: uuidv4(),
+      name: this.validateName(name),
+      parentId: parentId || undefined,
+      createdAt: now,
+      updatedAt: now,
+    };
+    storageService.saveFolder(folder, userId);
+    return folder;
+  }
+
+  /**
+   * Renames or moves a folder. A parentId of null moves it to the top level.
+   */
+  updateFolder(
+    folderId: string,
+    updates: { name?: string; parentId?: string | null },
+    userId: string = 'default'
+  ): ChatFolder | undefined {
+    const folders = this.getFolders(userId);
+    const folder = folders.find(f => f.id === folderId);
+    if (!folder) return undefined;
+
+    const updated: ChatFolder = { ...folder, updatedAt: Date.now() };
+    if (updates.name !== undefined) {
+      updated.name = this.validateName(updates.name);
+    }
+
+    if (updates.parentId !== undefined) {
+      const parentId = updates.parentId || undefined;
+      if (parentId) {
+        if (!folders.some(f => f.id === parentId)) {
+          throw new Error('Parent folder not found');
+        }
+        if (this.getDescendantIds(folderId, folders).has(parentId)) {
+          throw new Error('A folder cannot be moved into itself');
+        }
+      }
+      updated.parentId = parentId;
+    }
+
+    storageService.saveFolder(updated, userId);
+    return updated;
+  }
+
+  /**
+   * Deletes a folder. Its sessions and subfolders move up to its parent,
+   * so nothing is lost.
+   */
+  deleteFolder(folderId: string, userId: string = 'default'): boolean {
+    const folders = this.getFolders(userId);
+    const folder = folders.find(f => f.id === folderId);
+    if (!folder) return false;
+
+    folders
+      .filter(f => f.parentId === folderId)
+      .forEach(child =>
+        storageService.saveFolder(
+          { ...child, parentId: folder.parentId, updatedAt: Date.now() },
+          userId
+        )
+      );
+
+    chatService
+      .getAllSessions(userId)
+      .filter(session => session.folderId === folderId)
+      .forEach(session =>
+        chatService.organizeSession(
+          session.id,
+          { folderId: folder.parentId || '' },
+          userId
+        )
+      );
+
+    return storageService.deleteFolder(folderId, userId);
+  }
+
+  folderExists(folderId: string, userId: string = 'default'): boolean {
+    return this.getFolders(userId).some(f => f.id === folderId);
+  }
+
+  private getDescendantIds(folderId: string, folders: ChatFolder[]) {
+    const ids = new Set<string>([folderId]);
+    let added = true;
+    while (added) {
+      added = false;
+      for (const folder of folders) {
+        if (
+          folder.parentId &&
+          ids.has(folder.parentId) &&
+          !ids.has(folder.id)
+        ) {
+          ids.add(folder.id);
+          added = true;
+        }
+      }
+    }
+    return ids;
+  }
+
+  private validateName(name: string): string {
+    const trimmed = typeof name === 'string' ? name.trim() : '';
+    if (!trimmed) {
+      throw new Error('Folder name is required');
+    }
+    if (trimmed.length > MAX_FOLDER_NAME_LENGTH) {
+      throw new Error(
+        `Folder name must be at most ${MAX_FOLDER_NAME_LENGTH} characters`
+      );
+    }
+    return trimmed;
+  }
+}
+
+export const folderService = new FolderService();
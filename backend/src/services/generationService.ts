@@ -0,0 +1,313 @@
+/*
+ * Libre WebUI
+ * Copyright (C) 2025 Kroonen AI, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at:
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  GenerationJobInfo,
+  GenerationJobStatus,
+  GenerationQueueStatus,
+} from '../types/index.js';
+
+// How long a finished job's log is kept for clients that reconnect late
+const RESUME_WINDOW_MS = 2 * 60 * 1000;
+
+// Generations allowed to run at once, across all users and per user
+const MAX_CONCURRENT = Math.max(
+  1,
+  parseInt(process.env.GENERATION_MAX_CONCURRENT || '4') || 4
+);
+const MAX_PER_USER = Math.max(
+  1,
+  parseInt(process.env.GENERATION_MAX_PER_USER || '2') || 2
+);
+
+// Message types whose `total` field repeats everything streamed so far
+const CHUNK_TYPES = ['assistant_chunk', 'assistant_thinking_chunk'];
+
+export interface GenerationFrame {
+  type: string;
+  data: Record<string, unknown>;
+  // Position in the job's log, echoed back by clients resuming the stream
+  stream: { messageId: string; offset: number };
+}
+
+export type GenerationListener = (frame: GenerationFrame) => void;
+
+export interface GenerationJob {
+  messageId: string;
+  sessionId: string;
+  userId: string;
+  controller: AbortController;
+  status: GenerationJobStatus;
+  // Higher runs first; admins get priority
+  priority: number;
+  createdAt: number;
+  queuedAt?: number;
+  startedAt?: number;
+  // Last queue position sent to the client
+  position?: number;
+  // Everything sent for this job, with chunk totals stripped to keep the
+  // log linear in the length of the reply
+  frames: Omit<GenerationFrame, 'stream'>[];
+  // Latest `total` per chunk type
+  totals: Record<string, string>;
+  listeners: Set<GenerationListener>;
+}
+
+class GenerationService {
+  // Generations keyed by their user and the id of the assistant message
+  // they fill; the id comes from the client, so one user's id never
+  // reaches another's job. They run independently of the socket that
+  // started them, so a client can reconnect and pick up where it left off.
+  private jobs = new Map<string, GenerationJob>();
+  // Jobs holding a slot, and jobs waiting for one in the order they run
+  private running = new Set<GenerationJob>();
+  private queue: GenerationJob[] = [];
+  private wakeups = new Map<GenerationJob, () => void>();
+
+  /**
+   * Registers a generation so it can be cancelled and resumed while it
+   * runs. The returned job's signal is aborted when the user cancels it.
+   */
+  start(messageId: string, sessionId: string, userId: string): GenerationJob {
+    const job: GenerationJob = {
+      messageId,
+      sessionId,
+      userId,
+      controller: new AbortController(),
+      status: 'pending',
+      priority: 0,
+      createdAt: Date.now(),
+      frames: [],
+      totals: {},
+      listeners: new Set(),
+    };
+    // A retried request with the same id replaces the stale one
+    const key = this.key(userId, messageId);
+    this.jobs.get(key)?.controller.abort();
+    this.jobs.set(key, job);
+    return job;
+  }
+
+  /**
+   * Waits for a free generation slot before the job talks to a model.
+   * Jobs wait while the server or their user is at the concurrency limit,
+   * and are told their position in the queue. Resolves early when the job
+   * is cancelled while waiting, and at once when it was cancelled before.
+   */
+  async waitForSlot(job: GenerationJob, priority = 0): Promise<void> {
+    // The abort listener below would never fire for a job cancelled while
+    // its documents were searched, leaving it to take a slot
+    if (job.status !== 'pending' || job.controller.signal.aborted) return;
+
+    job.priority = priority;
+    job.status = 'queued';
+    job.queuedAt = Date.now();
+    this.queue.push(job);
+    this.queue.sort(
+      (a, b) => b.priority - a.priority || (a.queuedAt || 0) - (b.queuedAt || 0)
+    );
+
+    const { signal } = job.controller;
+    const slot = new Promise<void>(resolve => {
+      this.wakeups.set(job, resolve);
+      signal.addEventListener(
+        'abort',
+        () => {
+          if (this.dequeue(job)) {
+            resolve();
+            this.schedule();
+          }
+        },
+        { once: true }
+      );
+    });
+
+    this.schedule();
+    await slot;
+  }
+
+  /**
+   * Appends a message to the job's log and sends it to every client
+   * following the job.
+   */
+  emit(job: GenerationJob, type: string, payload: object): void {
+    const data = payload as Record<string, unknown>;
+    const { total, ...delta } = data;
+    if (CHUNK_TYPES.includes(type) && typeof total === 'string') {
+      job.totals[type] = total;
+      job.frames.push({ type, data: delta });
+    } else {
+      job.frames.push({ type, data });
+    }
+
+    const frame: GenerationFrame = {
+      type,
+      data,
+      stream: { messageId: job.messageId, offset: job.frames.length - 1 },
+    };
+    job.listeners.forEach(listener => listener(frame));
+  }
+
+  subscribe(job: GenerationJob, listener: GenerationListener): () => void {
+    job.listeners.add(listener);
+    return () => job.listeners.delete(listener);
+  }
+
+  /**
+   * Replays what a client missed from `lastOffset` on and keeps it
+   * following the job. Chunks are collapsed into one message per type
+   * carrying the latest total. Returns an unsubscribe function, or
+   * undefined when the job is unknown or has expired.
+   */
+  resume(
+    messageId: string,
+    userId: string,
+    lastOffset: number,
+    listener: GenerationListener
+  ): (() => void) | undefined {
+    const job = this.jobs.get(this.key(userId, messageId));
+    if (!job) return undefined;
+
+    const from = Math.max(0, Math.min(lastOffset, job.frames.length));
+    const lastChunkOffsets = new Set<number>();
+    const seenTypes = new Set<string>();
+    for (let offset = job.frames.length - 1; offset >= from; offset--) {
+      const { type } = job.frames[offset];
+      if (CHUNK_TYPES.includes(type) && !seenTypes.has(type)) {
+        seenTypes.add(type);
+        lastChunkOffsets.add(offset);
+      }
+    }
+
+    job.frames.forEach((frame, offset) => {
+      if (offset < from) return;
+      if (CHUNK_TYPES.includes(frame.type)) {
+        if (!lastChunkOffsets.has(offset)) return;
+        listener({
+          type: frame.type,
+          data: { ...frame.data, total: job.totals[frame.type] },
+          stream: { messageId, offset },
+        });
+        return;
+      }
+      listener({ ...frame, stream: { messageId, offset } });
+    });
+
+    return this.subscribe(job, listener);
+  }
+
+  /**
+   * Aborts the generation filling the given message, whether it is still
+   * being prepared, waiting for a slot or running. Returns false when no
+   * such generation is open for this user.
+   */
+  cancel(messageId: string, userId: string): boolean {
+    const job = this.jobs.get(this.key(userId, messageId));
+    if (!job || job.status === 'done' || job.controller.signal.aborted) {
+      return false;
+    }
+
+    console.log(`[Generation] Cancelling reply ${messageId} (${job.status})`);
+    job.controller.abort();
+    // A job still being prepared never joins the queue; a queued one leaves
+    // it through the abort listener in waitForSlot
+    return true;
+  }
+
+  // Marks the job finished, hands its slot to the next job in line and
+  // drops its log once late reconnects are no longer expected
+  finish(job: GenerationJob): void {
+    job.status = 'done';
+    const wakeup = this.wakeups.get(job);
+    if (this.running.delete(job) || this.dequeue(job)) {
+      wakeup?.();
+      this.schedule();
+    }
+    setTimeout(() => {
+      const key = this.key(job.userId, job.messageId);
+      if (this.jobs.get(key) === job) this.jobs.delete(key);
+      job.listeners.clear();
+    }, RESUME_WINDOW_MS).unref();
+  }
+
+  getQueueStatus(): GenerationQueueStatus {
+    return {
+      maxConcurrent: MAX_CONCURRENT,
+      maxPerUser: MAX_PER_USER,
+      active: Array.from(this.running, job => this.toInfo(job)),
+      waiting: this.queue.map(job => this.toInfo(job)),
+    };
+  }
+
+  // Starts every waiting job that fits within the limits, then tells the
+  // rest where they stand
+  private schedule(): void {
+    for (const job of [...this.queue]) {
+      if (this.running.size >= MAX_CONCURRENT) break;
+      const userRunning = Array.from(this.running).filter(
+        other => other.userId === job.userId
+      ).length;
+      if (userRunning >= MAX_PER_USER) continue;
+
+      const wakeup = this.wakeups.get(job);
+      this.dequeue(job);
+      job.status = 'running';
+      job.startedAt = Date.now();
+      this.running.add(job);
+      this.emit(job, 'generation_started', { messageId: job.messageId });
+      wakeup?.();
+    }
+
+    this.queue.forEach((job, index) => {
+      if (job.position !== index + 1) {
+        job.position = index + 1;
+        this.emit(job, 'queued', {
+          messageId: job.messageId,
+          position: job.position,
+        });
+      }
+    });
+  }
+
+  private key(userId: string, messageId: string): string {
+    return `${userId}:${messageId}`;
+  }
+
+  private dequeue(job: GenerationJob): boolean {
+    this.wakeups.delete(job);
+    const index = this.queue.indexOf(job);
+    if (index === -1) return false;
+    this.queue.splice(index, 1);
+    return true;
+  }
+
+  private toInfo(job: GenerationJob): GenerationJobInfo {
+    return {
+      messageId: job.messageId,
+      sessionId: job.sessionId,
+      userId: job.userId,
+      status: job.status,
+      priority: job.priority,
+      createdAt: job.createdAt,
+      queuedAt: job.queuedAt,
+      startedAt: job.startedAt,
+      position: job.status === 'queued' ? job.position : undefined,
+    };
+  }
+}
+
+export const generationService = new GenerationService();
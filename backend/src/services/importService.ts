@@ -0,0 +1,465 @@
+/*
+ * Libre WebUI
+ * Copyright (C) 2025 Kroonen AI, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at:
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { v4 as uuidv4 } from 'uuid';
+import {
+  ChatImportPreview,
+  ChatImportResult,
+  ChatImportSource,
+  ChatMessage,
+  ChatSession,
+  SessionExport,
+} from '../types/index.js';
+import chatService from './chatService.js';
+import preferencesService from './preferencesService.js';
+import { exportService } from './exportService.js';
+import { getActiveBranch } from '../utils/messageTree.js';
+
+export interface ChatImportOptions {
+  dryRun?: boolean; // Convert and report without storing anything
+  flattenBranches?: boolean; // Keep only the branch each conversation was left on
+}
+
+type JsonObject = Record<string, unknown>;
+
+type ImportedMessage = Omit<ChatMessage, 'id' | 'parentId' | 'siblingIndex'>;
+
+// Message node as found in a third-party export, keyed by that export's ids
+interface SourceNode {
+  id: string;
+  parentId?: string;
+  message?: ImportedMessage; // Unset for nodes that carry nothing to import
+}
+
+interface SourceConversation {
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+  model?: string;
+  nodes: SourceNode[];
+  currentId?: string; // Node the conversation was last viewed at
+}
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const asString = (value: unknown): string | undefined =>
+  typeof value === 'string' ? value : undefined;
+
+const asObjects = (value: unknown): JsonObject[] =>
+  Array.isArray(value)
+    ? value.filter(isObject)
+    : isObject(value)
+      ? Object.values(value).filter(isObject)
+      : [];
+
+// Exports use Unix seconds, milliseconds or ISO strings
+const toMillis = (value: unknown, fallback: number): number => {
+  if (typeof value === 'number' && isFinite(value) && value > 0) {
+    return value < 1e12 ? Math.round(value * 1000) : value;
+  }
+  if (typeof value === 'string') {
+    const parsed = Date.parse(value);
+    if (!isNaN(parsed)) return parsed;
+  }
+  return fallback;
+};
+
+const DETECTORS: [ChatImportSource, (item: unknown) => boolean][] = [
+  ['libre-webui', item => exportService.isExport(item)],
+  ['chatgpt', item => isObject(item) && isObject(item.mapping)],
+  ['claude', item => isObject(item) && Array.isArray(item.chat_messages)],
+  [
+    'open-webui',
+    item => {
+      const chat = isObject(item) && isObject(item.chat) ? item.chat : item;
+      return (
+        isObject(chat) &&
+        (isObject(chat.history) || Array.isArray(chat.messages))
+      );
+    },
+  ],
+];
+
+/**
+ * Reads conversation exports from Libre WebUI, ChatGPT, Claude.ai and
+ * Open WebUI and stores them as sessions of the importing user.
+ */
+class ImportService {
+  detectSource(data: unknown): ChatImportSource | undefined {
+    const items = Array.isArray(data) ? data : [data];
+    const match = DETECTORS.find(([, detect]) => items.some(detect));
+    return match?.[0];
+  }
+
+  importData(
+    data: unknown,
+    userId: string,
+    options: ChatImportOptions = {}
+  ): ChatImportResult {
+    const source = this.detectSource(data);
+    if (!source) {
+      throw new Error('Unrecognized export format');
+    }
+
+    const detect = DETECTORS.find(([name]) => name === source)?.[1];
+    const allItems = Array.isArray(data) ? data : [data];
+    const items = allItems.filter(item => detect?.(item) ?? false);
+    const defaultModel = preferencesService.getDefaultModel(userId);
+
+    const sessions: ChatSession[] = [];
+    // Items of another format or that fail to convert are reported too
+    let skipped = allItems.length - items.length;
+    for (const item of items) {
+      let session: ChatSession | undefined;
+      try {
+        session = this.convert(source, item as JsonObject, defaultModel);
+      } catch (error) {
+        console.warn('Skipping conversation that could not be read:', error);
+      }
+      if (!session) {
+        skipped++;
+        continue;
+      }
+      sessions.push(options.flattenBranches ? this.flatten(session) : session);
+    }
+
+    if (!options.dryRun) {
+      sessions.forEach(session => chatService.importSession(session, userId));
+    }
+
+    return {
+      source,
+      dryRun: !!options.dryRun,
+      imported: options.dryRun ? 0 : sessions.length,
+      skipped,
+      sessions: sessions.map(session => this.preview(session, !options.dryRun)),
+    };
+  }
+
+  private convert(
+    source: ChatImportSource,
+    item: JsonObject,
+    defaultModel: string
+  ): ChatSession | undefined {
+    if (source === 'libre-webui') {
+      return exportService.fromExport(item as unknown as SessionExport);
+    }
+
+    const conversation =
+      source === 'chatgpt'
+        ? this.fromChatGpt(item)
+        : source === 'claude'
+          ? this.fromClaude(item)
+          : this.fromOpenWebUi(item);
+    return this.toSession(conversation, defaultModel);
+  }
+
+  private fromChatGpt(item: JsonObject): SourceConversation {
+    const createdAt = toMillis(item.create_time, Date.now());
+    const nodes = asObjects(item.mapping).map(node => ({
+      id: String(node.id),
+      parentId: asString(node.parent),
+      message: isObject(node.message)
+        ? this.chatGptMessage(node.message, createdAt)
+        : undefined,
+    }));
+
+    return {
+      title: asString(item.title) || 'Imported Chat',
+      createdAt,
+      updatedAt: toMillis(item.update_time, createdAt),
+      nodes,
+      currentId: asString(item.current_node),
+    };
+  }
+
+  private chatGptMessage(
+    message: JsonObject,
+    fallbackTime: number
+  ): ImportedMessage | undefined {
+    const author = isObject(message.author) ? message.author : {};
+    const metadata = isObject(message.metadata) ? message.metadata : {};
+    const content = isObject(message.content) ? message.content : {};
+    const role = asString(author.role);
+
+    // Custom instructions and tool plumbing are hidden in ChatGPT too
+    if (
+      metadata.is_visually_hidden_from_conversation ||
+      (role !== 'user' &&
+        role !== 'assistant' &&
+        role !== 'system' &&
+        role !== 'tool')
+    ) {
+      return undefined;
+    }
+
+    let text = '';
+    if (Array.isArray(content.parts)) {
+      text = content.parts
+        .map(part =>
+          typeof part === 'string'
+            ? part
+            : isObject(part) && part.content_type === 'image_asset_pointer'
+              ? '[image]'
+              : ''
+        )
+        .filter(Boolean)
+        .join('\n\n');
+    } else if (typeof content.text === 'string') {
+      text =
+        content.content_type === 'code'
+          ? `\`\`\`${asString(content.language) || ''}\n${content.text}\n\`\`\``
+          : content.text;
+    }
+    if (!text.trim()) {
+      return undefined;
+    }
+
+    return {
+      role,
+      content: text,
+      timestamp: toMillis(message.create_time, fallbackTime),
+      model: role === 'assistant' ? asString(metadata.model_slug) : undefined,
+      toolName: role === 'tool' ? asString(author.name) : undefined,
+    };
+  }
+
+  private fromClaude(item: JsonObject): SourceConversation {
+    const createdAt = toMillis(item.created_at, Date.now());
+    const messages = asObjects(item.chat_messages);
+    // Older exports have no parent links and are a single branch
+    const linked = messages.some(msg => asString(msg.parent_message_uuid));
+
+    let previousId: string | undefined;
+    const nodes = messages.map((msg, index) => {
+      const id = asString(msg.uuid) || `message-${index}`;
+      const parentId = linked ? asString(msg.parent_message_uuid) : previousId;
+      previousId = id;
+      return { id, parentId, message: this.claudeMessage(msg, createdAt) };
+    });
+
+    return {
+      title: asString(item.name) || 'Imported Chat',
+      createdAt,
+      updatedAt: toMillis(item.updated_at, createdAt),
+      nodes,
+    };
+  }
+
+  private claudeMessage(
+    message: JsonObject,
+    fallbackTime: number
+  ): ImportedMessage | undefined {
+    const sender = asString(message.sender);
+    const role =
+      sender === 'human' ? 'user' : sender === 'assistant' ? sender : undefined;
+    if (!role) {
+      return undefined;
+    }
+
+    const parts = [
+      asString(message.text) ||
+        asObjects(message.content)
+          .filter(block => block.type === 'text')
+          .map(block => asString(block.text) || '')
+          .join('\n\n'),
+    ];
+    // Text extracted from uploaded files is all the export keeps of them
+    asObjects(message.attachments).forEach(attachment => {
+      const extracted = asString(attachment.extracted_content);
+      if (extracted) {
+        parts.push(
+          `**${asString(attachment.file_name) || 'Attachment'}**\n\n\`\`\`\n${extracted}\n\`\`\``
+        );
+      }
+    });
+
+    const content = parts.filter(part => part.trim()).join('\n\n');
+    if (!content) {
+      return undefined;
+    }
+
+    return {
+      role,
+      content,
+      timestamp: toMillis(message.created_at, fallbackTime),
+    };
+  }
+
+  private fromOpenWebUi(item: JsonObject): SourceConversation {
+    const chat = isObject(item.chat) ? item.chat : item;
+    const createdAt = toMillis(item.created_at ?? chat.timestamp, Date.now());
+    const history = isObject(chat.history) ? chat.history : {};
+    const models = Array.isArray(chat.models) ? chat.models : [];
+
+    let nodes: SourceNode[];
+    if (isObject(history.messages)) {
+      nodes = asObjects(history.messages).map(msg => ({
+        id: String(msg.id),
+        parentId: asString(msg.parentId),
+        message: this.openWebUiMessage(msg, createdAt),
+      }));
+    } else {
+      let previousId: string | undefined;
+      nodes = asObjects(chat.messages).map((msg, index) => {
+        const id = asString(msg.id) || `message-${index}`;
+        const parentId = previousId;
+        previousId = id;
+        return { id, parentId, message: this.openWebUiMessage(msg, createdAt) };
+      });
+    }
+
+    return {
+      title: asString(item.title) || asString(chat.title) || 'Imported Chat',
+      createdAt,
+      updatedAt: toMillis(item.updated_at, createdAt),
+      model: asString(models[0]),
+      nodes,
+      currentId: asString(history.currentId),
+    };
+  }
+
+  private openWebUiMessage(
+    message: JsonObject,
+    fallbackTime: number
+  ): ImportedMessage | undefined {
+    const role = asString(message.role);
+    const content = asString(message.content) || '';
+    if (
+      (role !== 'user' && role !== 'assistant' && role !== 'system') ||
+      !content.trim()
+    ) {
+      return undefined;
+    }
+
+    const images = asObjects(message.files)
+      .filter(file => file.type === 'image')
+      .map(file => asString(file.url) || '')
+      .filter(url => url.startsWith('data:image/'));
+
+    return {
+      role,
+      content,
+      timestamp: toMillis(message.timestamp, fallbackTime),
+      model: role === 'assistant' ? asString(message.model) : undefined,
+      images: images.length > 0 ? images : undefined,
+    };
+  }
+
+  /**
+   * Builds the message tree with new ids. Nodes without a message are
+   * dropped and their children attached to the nearest kept ancestor.
+   */
+  private toSession(
+    conversation: SourceConversation,
+    defaultModel: string
+  ): ChatSession | undefined {
+    const nodes = new Map(conversation.nodes.map(node => [node.id, node]));
+    const ids = new Map<string, string>();
+    conversation.nodes.forEach(node => {
+      if (node.message) ids.set(node.id, uuidv4());
+    });
+    if (ids.size === 0) {
+      return undefined;
+    }
+
+    const keptAncestor = (parentId?: string): string | undefined => {
+      const seen = new Set<string>();
+      let current = parentId ? nodes.get(parentId) : undefined;
+      while (current && !current.message && !seen.has(current.id)) {
+        seen.add(current.id);
+        current = current.parentId ? nodes.get(current.parentId) : undefined;
+      }
+      return current ? ids.get(current.id) : undefined;
+    };
+
+    const messages: ChatMessage[] = conversation.nodes
+      .flatMap(node =>
+        node.message
+          ? [
+              {
+                ...node.message,
+                id: ids.get(node.id) as string,
+                parentId: keptAncestor(node.parentId),
+              },
+            ]
+          : []
+      )
+      .sort((a, b) => a.timestamp - b.timestamp);
+
+    const siblingCounts = new Map<string, number>();
+    messages.forEach(msg => {
+      const key = msg.parentId || '';
+      msg.siblingIndex = siblingCounts.get(key) || 0;
+      siblingCounts.set(key, msg.siblingIndex + 1);
+    });
+
+    const current = conversation.currentId
+      ? nodes.get(conversation.currentId)
+      : undefined;
+    const activeMessageId =
+      (current && (ids.get(current.id) || keptAncestor(current.parentId))) ||
+      messages[messages.length - 1].id;
+
+    // Imported chats continue on the user's default model where one is set
+    const lastModel = messages
+      .filter(msg => msg.role === 'assistant' && msg.model)
+      .map(msg => msg.model as string)
+      .pop();
+
+    return {
+      id: uuidv4(),
+      title: conversation.title,
+      messages,
+      model: defaultModel || lastModel || conversation.model || 'imported',
+      createdAt: conversation.createdAt,
+      updatedAt: Math.max(
+        conversation.updatedAt,
+        messages[messages.length - 1].timestamp
+      ),
+      activeMessageId,
+    };
+  }
+
+  private flatten(session: ChatSession): ChatSession {
+    const messages = getActiveBranch(session).map(msg => ({
+      ...msg,
+      siblingIndex: 0,
+    }));
+    return {
+      ...session,
+      messages,
+      activeMessageId: messages[messages.length - 1]?.id,
+    };
+  }
+
+  private preview(session: ChatSession, stored: boolean): ChatImportPreview {
+    const parents = new Set(session.messages.map(msg => msg.parentId));
+    return {
+      sessionId: stored ? session.id : undefined,
+      title: session.title,
+      model: session.model,
+      messageCount: session.messages.length,
+      branchCount: session.messages.filter(
+        msg => msg.role !== 'system' && !parents.has(msg.id)
+      ).length,
+      createdAt: session.createdAt,
+    };
+  }
+}
+
+export const importService = new ImportService();
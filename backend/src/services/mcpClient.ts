@@ -0,0 +1,389 @@
+/*
+ * Libre WebUI
+ * Copyright (C) 2025 Kroonen AI, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at:
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { spawn, ChildProcessWithoutNullStreams } from 'child_process';
+import axios from 'axios';
+import { McpServer, McpToolInfo } from '../types/index.js';
+
+const PROTOCOL_VERSION = '2025-06-18';
+const REQUEST_TIMEOUT = 30000;
+
+interface JsonRpcMessage {
+  jsonrpc: '2.0';
+  id?: number | string;
+  method?: string;
+  params?: Record<string, unknown>;
+  result?: unknown;
+  error?: { code: number; message: string };
+}
+
+// Minimal transport contract shared by stdio and HTTP connections
+interface McpTransportConnection {
+  request(method: string, params?: Record<string, unknown>): Promise<unknown>;
+  notify(method: string, params?: Record<string, unknown>): Promise<void>;
+  close(): Promise<void>;
+}
+
+const toRpcError = (message: JsonRpcMessage): Error =>
+  new Error(
+    `MCP error ${message.error?.code ?? ''}: ${message.error?.message ?? 'Unknown error'}`.trim()
+  );
+
+// Newline-delimited JSON-RPC over a child process's stdin/stdout
+class StdioConnection implements McpTransportConnection {
+  private process: ChildProcessWithoutNullStreams;
+  private nextId = 1;
+  private buffer = '';
+  private stderr = '';
+  // Why the connection stopped working, once it has
+  private failure?: Error;
+  private pending = new Map<
+    number,
+    {
+      resolve: (value: unknown) => void;
+      reject: (error: Error) => void;
+      timer: NodeJS.Timeout;
+    }
+  >();
+
+  constructor(command: string, args: string[], env: Record<string, string>) {
+    this.process = spawn(command, args, {
+      env: { ...process.env, ...env },
+      stdio: ['pipe', 'pipe', 'pipe'],
+    });
+
+    this.process.stdout.on('data', (chunk: Buffer) => {
+      this.buffer += chunk.toString();
+      const lines = this.buffer.split('\n');
+      this.buffer = lines.pop() || '';
+      for (const line of lines) {
+        if (line.trim()) this.handleLine(line);
+      }
+    });
+
+    // Keep the tail of stderr to explain start-up failures
+    this.process.stderr.on('data', (chunk: Buffer) => {
+      this.stderr = (this.stderr + chunk.toString()).slice(-2000);
+    });
+
+    // A command that cannot be started only reports here, and never exits
+    this.process.on('error', error => this.failAll(error));
+    // Writing to a server that has gone away fails with EPIPE
+    this.process.stdin.on('error', error => this.failAll(error));
+    this.process.on('exit', code => {
+      const detail = this.stderr.trim() ? `: ${this.stderr.trim()}` : '';
+      this.failAll(new Error(`MCP server exited with code ${code}${detail}`));
+    });
+  }
+
+  private handleLine(line: string): void {
+    let message: JsonRpcMessage;
+    try {
+      message = JSON.parse(line);
+    } catch {
+      console.warn('Ignoring non-JSON output from MCP server:', line);
+      return;
+    }
+
+    // Requests from the server to us; we only support ping
+    if (message.method && message.id !== undefined) {
+      this.write(
+        message.method === 'ping'
+          ? { jsonrpc: '2.0', id: message.id, result: {} }
+          : {
+              jsonrpc: '2.0',
+              id: message.id,
+              error: { code: -32601, message: 'Method not found' },
+            }
+      );
+      return;
+    }
+
+    if (typeof message.id !== 'number') return;
+    const pending = this.pending.get(message.id);
+    if (!pending) return;
+
+    this.pending.delete(message.id);
+    clearTimeout(pending.timer);
+    if (message.error) {
+      pending.reject(toRpcError(message));
+    } else {
+      pending.resolve(message.result);
+    }
+  }
+
+  private write(message: JsonRpcMessage): void {
+    this.process.stdin.write(JSON.stringify(message) + '\n');
+  }
+
+  private failAll(error: Error): void {
+    this.failure ??= error;
+    for (const [id, pending] of this.pending) {
+      clearTimeout(pending.timer);
+      pending.reject(error);
+      this.pending.delete(id);
+    }
+  }
+
+  request(method: string, params?: Record<string, unknown>): Promise<unknown> {
+    if (this.failure) {
+      return Promise.reject(
+        new Error(`MCP server is not running: ${this.failure.message}`)
+      );
+    }
+
+    const id = this.nextId++;
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id);
+        reject(new Error(`MCP request ${method} timed out`));
+      }, REQUEST_TIMEOUT);
+      this.pending.set(id, { resolve, reject, timer });
+      this.write({ jsonrpc: '2.0', id, method, params });
+    });
+  }
+
+  async notify(method: string, params?: Record<string, unknown>) {
+    if (this.failure) {
+      throw new Error(`MCP server is not running: ${this.failure.message}`);
+    }
+    this.write({ jsonrpc: '2.0', method, params });
+  }
+
+  async close(): Promise<void> {
+    this.failAll(new Error('MCP connection closed'));
+    if (this.process.exitCode === null) {
+      this.process.stdin.end();
+      this.process.kill();
+    }
+  }
+}
+
+// Streamable HTTP transport: each JSON-RPC message is POSTed and the reply
+// comes back either as JSON or as a short SSE stream
+class HttpConnection implements McpTransportConnection {
+  private nextId = 1;
+  private sessionId?: string;
+  private protocolVersion?: string;
+
+  constructor(
+    private url: string,
+    private headers: Record<string, string>
+  ) {}
+
+  setProtocolVersion(version: string): void {
+    this.protocolVersion = version;
+  }
+
+  private buildHeaders(): Record<string, string> {
+    const headers: Record<string, string> = {
+      ...this.headers,
+      'Content-Type': 'application/json',
+      Accept: 'application/json, text/event-stream',
+    };
+    if (this.sessionId) headers['Mcp-Session-Id'] = this.sessionId;
+    if (this.protocolVersion) {
+      headers['MCP-Protocol-Version'] = this.protocolVersion;
+    }
+    return headers;
+  }
+
+  private async post(message: JsonRpcMessage) {
+    const response = await axios.post(this.url, message, {
+      headers: this.buildHeaders(),
+      timeout: REQUEST_TIMEOUT,
+      responseType: 'text',
+      transformResponse: data => data,
+    });
+
+    const sessionId = response.headers['mcp-session-id'];
+    if (typeof sessionId === 'string') {
+      this.sessionId = sessionId;
+    }
+    return response;
+  }
+
+  async request(
+    method: string,
+    params?: Record<string, unknown>
+  ): Promise<unknown> {
+    const id = this.nextId++;
+    const response = await this.post({ jsonrpc: '2.0', id, method, params });
+    const body = typeof response.data === 'string' ? response.data : '';
+    const contentType = String(response.headers['content-type'] || '');
+
+    let messages: JsonRpcMessage[] = [];
+    if (contentType.includes('text/event-stream')) {
+      // Collect the data lines of every SSE event in the body
+      messages = body
+        .split(/\r?\n\r?\n/)
+        .map(event =>
+          event
+            .split(/\r?\n/)
+            .filter(line => line.startsWith('data:'))
+            .map(line => line.slice(5).trim())
+            .join('\n')
+        )
+        .filter(Boolean)
+        .map(data => JSON.parse(data) as JsonRpcMessage);
+    } else if (body.trim()) {
+      const parsed = JSON.parse(body);
+      messages = Array.isArray(parsed) ? parsed : [parsed];
+    }
+
+    const reply = messages.find(message => message.id === id);
+    if (!reply) {
+      throw new Error(`No response to MCP request ${method}`);
+    }
+    if (reply.error) {
+      throw toRpcError(reply);
+    }
+    return reply.result;
+  }
+
+  async notify(method: string, params?: Record<string, unknown>) {
+    await this.post({ jsonrpc: '2.0', method, params });
+  }
+
+  async close(): Promise<void> {
+    if (!this.sessionId) return;
+    try {
+      await axios.delete(this.url, {
+        headers: this.buildHeaders(),
+        timeout: 5000,
+      });
+    } catch {
+      // Servers may not support explicit session termination
+    }
+  }
+}
+
+/**
+ * Client for a single MCP server. Handles the initialize handshake and the
+ * tools/list and tools/call methods; other MCP features are not used.
+ */
+export class McpClient {
+  private connection: McpTransportConnection;
+  private initialized?: Promise<void>;
+
+  constructor(server: McpServer) {
+    if (server.transport === 'stdio') {
+      if (!server.command) {
+        throw new Error('stdio MCP server requires a command');
+      }
+      this.connection = new StdioConnection(
+        server.command,
+        server.args || [],
+        server.env || {}
+      );
+    } else {
+      if (!server.url) {
+        throw new Error('HTTP MCP server requires a url');
+      }
+      this.connection = new HttpConnection(server.url, server.headers || {});
+    }
+  }
+
+  private ensureInitialized(): Promise<void> {
+    if (!this.initialized) {
+      this.initialized = (async () => {
+        const result = (await this.connection.request('initialize', {
+          protocolVersion: PROTOCOL_VERSION,
+          capabilities: {},
+          clientInfo: { name: 'libre-webui', version: '1.0.0' },
+        })) as { protocolVersion?: string };
+
+        if (
+          this.connection instanceof HttpConnection &&
+          result?.protocolVersion
+        ) {
+          this.connection.setProtocolVersion(result.protocolVersion);
+        }
+        await this.connection.notify('notifications/initialized');
+      })();
+      // Allow a later call to retry after a failed handshake
+      this.initialized.catch(() => {
+        this.initialized = undefined;
+      });
+    }
+    return this.initialized;
+  }
+
+  async listTools(): Promise<McpToolInfo[]> {
+    await this.ensureInitialized();
+
+    const tools: McpToolInfo[] = [];
+    let cursor: string | undefined;
+    do {
+      const result = (await this.connection.request(
+        'tools/list',
+        cursor ? { cursor } : undefined
+      )) as { tools?: McpToolInfo[]; nextCursor?: string };
+
+      for (const tool of result?.tools || []) {
+        tools.push({
+          name: tool.name,
+          description: tool.description,
+          inputSchema: tool.inputSchema,
+        });
+      }
+      cursor = result?.nextCursor;
+    } while (cursor);
+
+    return tools;
+  }
+
+  // Call a tool and flatten its content blocks into text for the model
+  async callTool(name: string, args: Record<string, unknown>): Promise<string> {
+    await this.ensureInitialized();
+
+    const result = (await this.connection.request('tools/call', {
+      name,
+      arguments: args,
+    })) as {
+      content?: Array<Record<string, unknown>>;
+      structuredContent?: unknown;
+      isError?: boolean;
+    };
+
+    const parts = (result?.content || []).map(block => {
+      if (block.type === 'text' && typeof block.text === 'string') {
+        return block.text;
+      }
+      if (block.type === 'resource' && block.resource) {
+        const resource = block.resource as Record<string, unknown>;
+        return typeof resource.text === 'string'
+          ? resource.text
+          : `[resource ${resource.uri}]`;
+      }
+      if (block.type === 'resource_link') {
+        return `[resource ${block.uri}]`;
+      }
+      return `[${block.type} content]`;
+    });
+
+    let text = parts.join('\n');
+    if (!text && result?.structuredContent !== undefined) {
+      text = JSON.stringify(result.structuredContent);
+    }
+    return result?.isError ? `Error: ${text}` : text;
+  }
+
+  close(): Promise<void> {
+    return this.connection.close();
+  }
+}
@@ -0,0 +1,332 @@
+/*
+ * Libre WebUI
+ * Copyright (C) 2025 Kroonen AI, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at:
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { getDatabaseSafe } from '../db.js';
+import { encryptionService } from './encryptionService.js';
+import { McpClient } from './mcpClient.js';
+import {
+  McpServer,
+  McpServerInput,
+  McpToolInfo,
+  ToolCall,
+} from '../types/index.js';
+
+interface McpServerRow {
+  id: string;
+  user_id: string;
+  name: string;
+  transport: string;
+  config: string;
+  enabled: number;
+  disabled_tools: string | null;
+  tools: string | null;
+  created_at: number;
+  updated_at: number;
+}
+
+// Separates the server name from the tool name in names shown to models
+const TOOL_NAME_SEPARATOR = '__';
+const SERVER_NAME_PATTERN = /^[a-zA-Z0-9_-]{1,32}$/;
+
+export interface McpToolBinding {
+  server: McpServer;
+  tool: McpToolInfo;
+  // Name the model sees, e.g. "github__search_issues"
+  qualifiedName: string;
+}
+
+class McpService {
+  private db = getDatabaseSafe();
+  // Live connections keyed by server id, reused across chat turns
+  private clients = new Map<string, McpClient>();
+
+  private rowToServer(row: McpServerRow): McpServer {
+    const config = JSON.parse(encryptionService.decrypt(row.config));
+    return {
+      id: row.id,
+      user_id: row.user_id,
+      name: row.name,
+      transport: row.transport as McpServer['transport'],
+      command: config.command,
+      args: config.args,
+      env: config.env,
+      url: config.url,
+      headers: config.headers,
+      enabled: row.enabled === 1,
+      disabled_tools: row.disabled_tools ? JSON.parse(row.disabled_tools) : [],
+      tools: row.tools ? JSON.parse(row.tools) : undefined,
+      created_at: row.created_at,
+      updated_at: row.updated_at,
+    };
+  }
+
+  private requireDb() {
+    if (!this.db) {
+      throw new Error('MCP servers require the SQLite database');
+    }
+    return this.db;
+  }
+
+  /**
+   * Spawning processes or reaching plain-HTTP endpoints on the host is
+   * reserved for admins; everyone else may connect to HTTPS servers.
+   */
+  requiresAdmin(input: Pick<McpServerInput, 'transport' | 'url'>): boolean {
+    if (input.transport === 'stdio') return true;
+    try {
+      return new URL(input.url || '').protocol !== 'https:';
+    } catch {
+      return true;
+    }
+  }
+
+  // Hide secret env/header values when returning servers to clients
+  redact(server: McpServer): McpServer {
+    const mask = (values?: Record<string, string>) =>
+      values
+        ? Object.fromEntries(Object.keys(values).map(key => [key, '********']))
+        : undefined;
+    return { ...server, env: mask(server.env), headers: mask(server.headers) };
+  }
+
+  listServers(userId: string): McpServer[] {
+    if (!this.db) return [];
+    const rows = this.db
+      .prepare(
+        'SELECT * FROM mcp_servers WHERE user_id = ? ORDER BY created_at ASC'
+      )
+      .all(userId) as McpServerRow[];
+    return rows.map(row => this.rowToServer(row));
+  }
+
+  getServer(id: string, userId: string): McpServer | null {
+    if (!this.db) return null;
+    const row = this.db
+      .prepare('SELECT * FROM mcp_servers WHERE id = ? AND user_id = ?')
+      .get(id, userId) as McpServerRow | undefined;
+    return row ? this.rowToServer(row) : null;
+  }
+
+  addServer(userId: string, input: McpServerInput): McpServer {
+    const db = this.requireDb();
+
+    if (!input.name || !SERVER_NAME_PATTERN.test(input.name)) {
+      throw new Error(
+        'Server name must be 1-32 letters, numbers, hyphens or underscores'
+      );
+    }
+    if (input.transport === 'stdio') {
+      if (!input.command || typeof input.command !== 'string') {
+        throw new Error('A command is required for stdio servers');
+      }
+      if (input.args && !Array.isArray(input.args)) {
+        throw new Error('args must be an array of strings');
+      }
+    } else if (input.transport === 'http') {
+      let url: URL;
+      try {
+        url = new URL(input.url || '');
+      } catch {
+        throw new Error('A valid url is required for HTTP servers');
+      }
+      if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+        throw new Error('Only http and https URLs are supported');
+      }
+    } else {
+      throw new Error("transport must be 'stdio' or 'http'");
+    }
+
+    const existing = db
+      .prepare('SELECT id FROM mcp_servers WHERE user_id = ? AND name = ?')
+      .get(userId, input.name);
+    if (existing) {
+      throw new Error(`An MCP server named ${input.name} already exists`);
+    }
+
+    const config =
+      input.transport === 'stdio'
+        ? {
+            command: input.command,
+            args: (input.args || []).map(String),
+            env: input.env || {},
+          }
+        : { url: input.url, headers: input.headers || {} };
+
+    const now = Date.now();
+    const id = uuidv4();
+    db.prepare(
+      `
+      INSERT INTO mcp_servers (id, user_id, name, transport, config, enabled, disabled_tools, tools, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, 1, '[]', NULL, ?, ?)
+    `
+    ).run(
+      id,
+      userId,
+      input.name,
+      input.transport,
+      encryptionService.encrypt(JSON.stringify(config)),
+      now,
+      now
+    );
+
+    return this.getServer(id, userId)!;
+  }
+
+  updateServer(
+    id: string,
+    userId: string,
+    updates: { enabled?: boolean; disabled_tools?: string[] }
+  ): McpServer | null {
+    const server = this.getServer(id, userId);
+    if (!server) return null;
+
+    const enabled = updates.enabled ?? server.enabled;
+    const disabledTools = Array.isArray(updates.disabled_tools)
+      ? updates.disabled_tools.map(String)
+      : server.disabled_tools;
+
+    this.requireDb()
+      .prepare(
+        'UPDATE mcp_servers SET enabled = ?, disabled_tools = ?, updated_at = ? WHERE id = ? AND user_id = ?'
+      )
+      .run(
+        enabled ? 1 : 0,
+        JSON.stringify(disabledTools),
+        Date.now(),
+        id,
+        userId
+      );
+
+    if (!enabled) {
+      this.disconnect(id);
+    }
+    return this.getServer(id, userId);
+  }
+
+  removeServer(id: string, userId: string): boolean {
+    if (!this.db) return false;
+    const result = this.db
+      .prepare('DELETE FROM mcp_servers WHERE id = ? AND user_id = ?')
+      .run(id, userId);
+    this.disconnect(id);
+    return result.changes > 0;
+  }
+
+  private disconnect(id: string): void {
+    const client = this.clients.get(id);
+    if (client) {
+      this.clients.delete(id);
+      client.close().catch(error => {
+        console.error('Failed to close MCP connection:', error);
+      });
+    }
+  }
+
+  private getClient(server: McpServer): McpClient {
+    let client = this.clients.get(server.id);
+    if (!client) {
+      client = new McpClient(server);
+      this.clients.set(server.id, client);
+    }
+    return client;
+  }
+
+  // Fetch the tool list over the live connection and cache it
+  private async refreshTools(server: McpServer): Promise<McpToolInfo[]> {
+    try {
+      const tools = await this.getClient(server).listTools();
+      this.requireDb()
+        .prepare('UPDATE mcp_servers SET tools = ? WHERE id = ?')
+        .run(JSON.stringify(tools), server.id);
+      return tools;
+    } catch (error) {
+      // Drop the broken connection so the next attempt starts fresh
+      this.disconnect(server.id);
+      throw error;
+    }
+  }
+
+  // Reconnect from scratch and report the server's tools
+  async testServer(id: string, userId: string): Promise<McpToolInfo[]> {
+    const server = this.getServer(id, userId);
+    if (!server) {
+      throw new Error('MCP server not found');
+    }
+    this.disconnect(id);
+    return this.refreshTools(server);
+  }
+
+  /**
+   * Tools from the user's enabled servers, minus the ones switched off.
+   * Uses the cached tool list when available so chats don't wait on servers.
+   */
+  async getToolBindings(userId: string): Promise<McpToolBinding[]> {
+    const bindings: McpToolBinding[] = [];
+
+    for (const server of this.listServers(userId)) {
+      if (!server.enabled) continue;
+
+      let tools = server.tools;
+      if (!tools) {
+        try {
+          tools = await this.refreshTools(server);
+        } catch (error) {
+          console.error(`MCP server ${server.name} is unavailable:`, error);
+          continue;
+        }
+      }
+
+      for (const tool of tools) {
+        if (server.disabled_tools.includes(tool.name)) continue;
+        bindings.push({
+          server,
+          tool,
+          qualifiedName: `${server.name}${TOOL_NAME_SEPARATOR}${tool.name}`,
+        });
+      }
+    }
+
+    return bindings;
+  }
+
+  // Execute a model tool call addressed to one of the user's MCP servers.
+  // Returns null when the name doesn't belong to any enabled MCP tool.
+  async executeToolCall(
+    userId: string,
+    call: ToolCall,
+    args: Record<string, unknown>
+  ): Promise<string | null> {
+    const bindings = await this.getToolBindings(userId);
+    const binding = bindings.find(
+      candidate => candidate.qualifiedName === call.function.name
+    );
+    if (!binding) return null;
+
+    try {
+      return await this.getClient(binding.server).callTool(
+        binding.tool.name,
+        args
+      );
+    } catch (error) {
+      this.disconnect(binding.server.id);
+      throw error;
+    }
+  }
+}
+
+export const mcpService = new McpService();
@@ -23,6 +23,29 @@ import {
   EmbeddingModel,
 } from '../types/index.js';
 import { v4 as uuidv4 } from 'uuid';
+import { memoryVectorIndex } from './vectorIndexService.js';
+
+type MemoryRow = {
+  id: string;
+  user_id: string;
+  persona_id: string;
+  content: string;
+  embedding: Buffer;
+  timestamp: number;
+  context: string | null;
+  importance_score: number;
+};
+
+// Memories are indexed per user and persona, so searches never cross them
+const memoryGroup = (userId: string, personaId: string): string =>
+  `${userId}:${personaId}`;
+
+const toFloatArray = (buffer: Buffer): Float32Array =>
+  new Float32Array(
+    buffer.buffer,
+    buffer.byteOffset,
+    buffer.byteLength / Float32Array.BYTES_PER_ELEMENT
+  );
 
 export class MemoryService {
   private db = getDatabaseSafe();
@@ -66,6 +89,7 @@ export class MemoryService {
 
   constructor() {
     this.initializeTables();
+    this.syncVectorIndex();
   }
 
   /**
@@ -110,6 +134,44 @@ export class MemoryService {
     `);
   }
 
+  /**
+   * Bring the vector index in line with the stored memories, which can
+   * drift when the server stops before the index is saved or a persona is
+   * deleted along with its memories
+   */
+  private syncVectorIndex(): void {
+    if (!this.db) return;
+    const db = this.db;
+
+    try {
+      const rows = db
+        .prepare(
+          `SELECT id, user_id, persona_id FROM persona_memories WHERE embedding IS NOT NULL`
+        )
+        .all() as Array<{ id: string; user_id: string; persona_id: string }>;
+
+      const select = db.prepare(
+        `SELECT embedding FROM persona_memories WHERE id = ?`
+      );
+      memoryVectorIndex.sync(
+        rows.map(row => ({
+          id: row.id,
+          group: memoryGroup(row.user_id, row.persona_id),
+        })),
+        ids => {
+          const vectors = new Map<string, Float32Array>();
+          for (const id of ids) {
+            const row = select.get(id) as { embedding: Buffer } | undefined;
+            if (row) vectors.set(id, toFloatArray(row.embedding));
+          }
+          return vectors;
+        }
+      );
+    } catch (error) {
+      console.error('Failed to sync memory vector index:', error);
+    }
+  }
+
   /**
    * Get available embedding models
    */
@@ -173,6 +235,9 @@ export class MemoryService {
       context || null,
       importanceScore
     );
+    if (embedding) {
+      memoryVectorIndex.add(id, embedding, memoryGroup(userId, personaId));
+    }
 
     console.log(
       `[MEMORY-DEBUG] Memory stored successfully - id: ${id}, userId: ${userId}, personaId: ${personaId}, content: "${content.substring(0, 100)}..."`
@@ -190,27 +255,6 @@ export class MemoryService {
     };
   }
 
-  /**
-   * Calculate cosine similarity between two vectors
-   */
-  private cosineSimilarity(a: number[], b: number[]): number {
-    if (a.length !== b.length) return 0;
-
-    let dotProduct = 0;
-    let normA = 0;
-    let normB = 0;
-
-    for (let i = 0; i < a.length; i++) {
-      dotProduct += a[i] * b[i];
-      normA += a[i] * a[i];
-      normB += b[i] * b[i];
-    }
-
-    if (normA === 0 || normB === 0) return 0;
-
-    return dotProduct / (Math.sqrt(normA) * Math.sqrt(normB));
-  }
-
   /**
    * Search memories using semantic similarity
    */
@@ -228,53 +272,51 @@ export class MemoryService {
       return [];
     }
 
-    // Get all memories for this user/persona with embeddings
+    // Oversample the nearest memories so the importance weighting below
+    // has room to reorder them
+    const matches = memoryVectorIndex.search(queryEmbedding, topK * 4, {
+      groups: [memoryGroup(userId, personaId)],
+      minScore: minSimilarity,
+    });
+    if (matches.length === 0) {
+      return [];
+    }
+
     const db = this.ensureDatabase();
     const stmt = db.prepare(`
       SELECT id, user_id, persona_id, content, embedding, timestamp, context, importance_score
       FROM persona_memories
-      WHERE user_id = ? AND persona_id = ? AND embedding IS NOT NULL
-      ORDER BY timestamp DESC
+      WHERE id IN (${matches.map(() => '?').join(', ')})
+      AND user_id = ? AND persona_id = ?
     `);
 
-    const memories = stmt.all(userId, personaId) as Array<{
-      id: string;
-      user_id: string;
-      persona_id: string;
-      content: string;
-      embedding: Buffer;
-      timestamp: number;
-      context: string | null;
-      importance_score: number;
-    }>;
+    const memories = stmt.all(
+      ...matches.map(match => match.id),
+      userId,
+      personaId
+    ) as MemoryRow[];
+    const memoriesById = new Map(memories.map(memory => [memory.id, memory]));
 
-    // Calculate similarities
     const results: MemorySearchResult[] = [];
 
-    for (const memory of memories) {
-      // Convert buffer back to float array
-      const embeddingArray = Array.from(
-        new Float32Array(memory.embedding.buffer)
-      );
-
-      const similarity = this.cosineSimilarity(queryEmbedding, embeddingArray);
-
-      if (similarity >= minSimilarity) {
-        results.push({
-          entry: {
-            id: memory.id,
-            user_id: memory.user_id,
-            persona_id: memory.persona_id,
-            content: memory.content,
-            embedding: embeddingArray,
-            timestamp: memory.timestamp,
-            context: memory.context || undefined,
-            importance_score: memory.importance_score,
-          },
-          similarity_score: similarity,
-          relevance_rank: 0, // Will be set after sorting
-        });
-      }
+    for (const match of matches) {
+      const memory = memoriesById.get(match.id);
+      if (!memory) continue;
+
+      results.push({
+        entry: {
+          id: memory.id,
+          user_id: memory.user_id,
+          persona_id: memory.persona_id,
+          content: memory.content,
+          embedding: Array.from(toFloatArray(memory.embedding)),
+          timestamp: memory.timestamp,
+          context: memory.context || undefined,
+          importance_score: memory.importance_score,
+        },
+        similarity_score: match.score,
+        relevance_rank: 0, // Will be set after sorting
+      });
     }
 
     // Sort by similarity and importance
@@ -398,6 +440,7 @@ export class MemoryService {
     `);
 
     const result = stmt.run(userId, personaId);
+    memoryVectorIndex.removeGroup(memoryGroup(userId, personaId));
     return result.changes;
   }
 
@@ -441,6 +484,13 @@ export class MemoryService {
           memory.context || null,
           memory.importance_score || 0.5
         );
+        if (memory.embedding) {
+          memoryVectorIndex.add(
+            memory.id,
+            memory.embedding,
+            memoryGroup(targetUserId, memory.persona_id)
+          );
+        }
         imported++;
       } catch (error) {
         console.error('Failed to import memory:', error);
@@ -480,13 +530,18 @@ export class MemoryService {
     const cutoffTimestamp = Date.now() - retentionDays * 24 * 60 * 60 * 1000;
 
     const db = this.ensureDatabase();
-    const stmt = db.prepare(`
-      DELETE FROM persona_memories
+    const condition = `
       WHERE user_id = ? AND persona_id = ? AND timestamp < ?
       AND importance_score < 0.7
-    `);
+    `;
+    const expired = db
+      .prepare(`SELECT id FROM persona_memories ${condition}`)
+      .all(userId, personaId, cutoffTimestamp) as Array<{ id: string }>;
+
+    const stmt = db.prepare(`DELETE FROM persona_memories ${condition}`);
 
     const result = stmt.run(userId, personaId, cutoffTimestamp);
+    expired.forEach(memory => memoryVectorIndex.remove(memory.id));
     return result.changes;
   }
 }
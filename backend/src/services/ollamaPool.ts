@@ -0,0 +1,307 @@
+/*
+ * Libre WebUI
+ * Copyright (C) 2025 Kroonen AI, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at:
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import axios, { AxiosInstance } from 'axios';
+import {
+  OllamaHostStatus,
+  OllamaModel,
+  getErrorMessage,
+} from '../types/index.js';
+
+// How long a host that failed stays out of rotation before it is retried
+const RETRY_UNHEALTHY_MS = 30 * 1000;
+// How long model lists and loaded models are trusted before refetching
+const MODELS_TTL_MS = 30 * 1000;
+const RUNNING_TTL_MS = 5 * 1000;
+
+// Errors meaning the host could not be reached at all, as opposed to
+// Ollama rejecting the request. Only these fail over to another host.
+const CONNECTION_ERROR_CODES = [
+  'ECONNREFUSED',
+  'ECONNRESET',
+  'EHOSTUNREACH',
+  'ENETUNREACH',
+  'ENOTFOUND',
+  'EAI_AGAIN',
+  'ETIMEDOUT',
+];
+
+export interface OllamaHost {
+  url: string;
+  client: AxiosInstance;
+  longOperationClient: AxiosInstance;
+  healthy: boolean;
+  checkedAt: number;
+  lastError?: string;
+  models: OllamaModel[];
+  modelsFetchedAt: number;
+  // Names of the models currently loaded, per /api/ps
+  running: string[];
+  runningFetchedAt: number;
+  // Requests this server has in flight against the host
+  active: number;
+}
+
+export const isConnectionError = (error: unknown): boolean =>
+  !!error &&
+  typeof error === 'object' &&
+  'code' in error &&
+  CONNECTION_ERROR_CODES.includes((error as { code: string }).code);
+
+// Ollama treats a bare model name as its :latest tag
+const normalizeModelName = (name: string): string =>
+  name.includes(':') ? name : `${name}:latest`;
+
+/**
+ * A set of Ollama servers that are used interchangeably. Requests for a
+ * model go to the hosts that have it, least busy first, and move on to the
+ * next host when one cannot be reached.
+ */
+export class OllamaPool {
+  readonly hosts: OllamaHost[];
+
+  constructor(urls: string[], timeout: number, longOperationTimeout: number) {
+    const createClient = (baseURL: string, clientTimeout: number) =>
+      axios.create({
+        baseURL,
+        timeout: clientTimeout,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+
+    this.hosts = urls.map(url => ({
+      url,
+      client: createClient(url, timeout),
+      longOperationClient: createClient(url, longOperationTimeout),
+      // Hosts are assumed up until a request says otherwise
+      healthy: true,
+      checkedAt: 0,
+      models: [],
+      modelsFetchedAt: 0,
+      running: [],
+      runningFetchedAt: 0,
+      active: 0,
+    }));
+  }
+
+  async checkHealth(host: OllamaHost): Promise<boolean> {
+    try {
+      const response = await host.client.get('/');
+      host.healthy = response.status === 200;
+      host.lastError = undefined;
+    } catch (error: unknown) {
+      if (isConnectionError(error)) {
+        console.warn(
+          `Ollama at ${host.url} is not running. Please start it with: ollama serve`
+        );
+      } else {
+        console.error(
+          `Ollama health check failed for ${host.url}:`,
+          getErrorMessage(error, 'Unknown error')
+        );
+      }
+      host.healthy = false;
+      host.lastError = getErrorMessage(error, 'Health check failed');
+    }
+    host.checkedAt = Date.now();
+    return host.healthy;
+  }
+
+  // Checks every host and returns the ones that answered
+  async checkAll(): Promise<OllamaHost[]> {
+    const results = await Promise.all(
+      this.hosts.map(host => this.checkHealth(host))
+    );
+    return this.hosts.filter((_host, index) => results[index]);
+  }
+
+  getStatus(): OllamaHostStatus[] {
+    return this.hosts.map(host => ({
+      url: host.url,
+      healthy: host.healthy,
+      models: host.models.length,
+      running: host.running.length,
+      active: host.active,
+      error: host.healthy ? undefined : host.lastError,
+    }));
+  }
+
+  async getModels(host: OllamaHost, force = false): Promise<OllamaModel[]> {
+    if (!force && Date.now() - host.modelsFetchedAt < MODELS_TTL_MS) {
+      return host.models;
+    }
+    const response = await host.client.get('/api/tags');
+    host.models = response.data.models || [];
+    host.modelsFetchedAt = Date.now();
+    return host.models;
+  }
+
+  async getRunning(host: OllamaHost): Promise<Record<string, unknown>[]> {
+    const response = await host.client.get('/api/ps');
+    const models: Record<string, unknown>[] = response.data.models || [];
+    host.running = models.map(model => String(model.name));
+    host.runningFetchedAt = Date.now();
+    return models;
+  }
+
+  // Model lists change when models are pulled, created or deleted
+  invalidateModels(): void {
+    this.hosts.forEach(host => {
+      host.modelsFetchedAt = 0;
+    });
+  }
+
+  /**
+   * Hosts a request can go to, best first. With a model, only hosts that
+   * have it are returned, unless none do. Hosts are ranked by requests in
+   * flight, then by whether the model is already loaded, then by how many
+   * models they have loaded.
+   */
+  async candidates(model?: string): Promise<OllamaHost[]> {
+    let hosts = await this.available();
+    if (this.hosts.length === 1) return hosts;
+
+    if (model) {
+      const withModel = await this.filterByModel(hosts, model);
+      if (withModel.length > 0) hosts = withModel;
+    }
+
+    await Promise.all(
+      hosts.map(async host => {
+        if (Date.now() - host.runningFetchedAt < RUNNING_TTL_MS) return;
+        try {
+          await this.getRunning(host);
+        } catch {
+          // Load figures are a hint; a host that can't report them still
+          // takes requests
+        }
+      })
+    );
+
+    const target = model ? normalizeModelName(model) : undefined;
+    const hasLoaded = (host: OllamaHost) =>
+      target && host.running.some(name => normalizeModelName(name) === target)
+        ? 0
+        : 1;
+    return [...hosts].sort(
+      (a, b) =>
+        a.active - b.active ||
+        hasLoaded(a) - hasLoaded(b) ||
+        a.running.length - b.running.length
+    );
+  }
+
+  // Reachable hosts that have the model installed
+  async hostsWithModel(model: string): Promise<OllamaHost[]> {
+    return this.filterByModel(await this.available(), model);
+  }
+
+  // The first reachable host, for requests that have to land on the same
+  // server as earlier ones (blob uploads before a create)
+  async primary(): Promise<OllamaHost> {
+    const hosts = await this.available();
+    return hosts[0] || this.hosts[0];
+  }
+
+  /**
+   * Runs a request against the best host for the model, failing over to
+   * the next one when a host cannot be reached. Other errors are thrown
+   * as-is.
+   */
+  async run<T>(
+    model: string | undefined,
+    request: (host: OllamaHost) => Promise<T>
+  ): Promise<T> {
+    const hosts = await this.candidates(model);
+    let lastError: unknown;
+
+    for (const host of hosts) {
+      host.active++;
+      try {
+        return await request(host);
+      } catch (error: unknown) {
+        if (!isConnectionError(error)) throw error;
+        this.markDown(host, error);
+        lastError = error;
+        if (hosts.length > 1) {
+          console.warn(
+            `Ollama at ${host.url} is unreachable, trying next host`
+          );
+        }
+      } finally {
+        host.active--;
+      }
+    }
+    throw lastError;
+  }
+
+  /**
+   * Counts a long-running request, such as an open stream, against the
+   * host's load until the returned release function is called.
+   */
+  hold(host: OllamaHost): () => void {
+    host.active++;
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      host.active--;
+    };
+  }
+
+  markDown(host: OllamaHost, error: unknown): void {
+    host.healthy = false;
+    host.checkedAt = Date.now();
+    host.lastError = getErrorMessage(error, 'Host unreachable');
+  }
+
+  // Healthy hosts, plus failed ones due for another try. When everything
+  // is down, every host is returned so the caller sees the real error.
+  private async available(): Promise<OllamaHost[]> {
+    const now = Date.now();
+    await Promise.all(
+      this.hosts
+        .filter(
+          host => !host.healthy && now - host.checkedAt >= RETRY_UNHEALTHY_MS
+        )
+        .map(host => this.checkHealth(host))
+    );
+    const healthy = this.hosts.filter(host => host.healthy);
+    return healthy.length > 0 ? healthy : this.hosts;
+  }
+
+  private async filterByModel(
+    hosts: OllamaHost[],
+    model: string
+  ): Promise<OllamaHost[]> {
+    const target = normalizeModelName(model);
+    const matches = await Promise.all(
+      hosts.map(async host => {
+        try {
+          const models = await this.getModels(host);
+          return models.some(
+            entry => normalizeModelName(entry.name) === target
+          );
+        } catch (error: unknown) {
+          if (isConnectionError(error)) this.markDown(host, error);
+          return false;
+        }
+      })
+    );
+    return hosts.filter((_host, index) => matches[index]);
+  }
+}
@@ -15,8 +15,9 @@
  * limitations under the License.
  */
 
-import axios, { AxiosInstance } from 'axios';
+import { OllamaHost, OllamaPool, isConnectionError } from './ollamaPool.js';
 import {
+  OllamaHostStatus,
   OllamaModel,
   OllamaGenerateRequest,
   OllamaGenerateResponse,
@@ -28,13 +29,31 @@ import {
   getErrorMessage,
 } from '../types/index.js';
 
+interface PullProgress {
+  status: string;
+  digest?: string;
+  total?: number;
+  completed?: number;
+  percent?: number;
+}
+
 class OllamaService {
-  private client: AxiosInstance;
-  private longOperationClient: AxiosInstance;
-  private baseUrl: string;
+  private pool: OllamaPool;
+  private modelDetailsCache = new Map<
+    string,
+    { capabilities: string[]; contextLength?: number }
+  >();
 
   constructor() {
-    this.baseUrl = process.env.OLLAMA_BASE_URL || 'http://localhost:11434';
+    // OLLAMA_BASE_URLS lists several servers to spread requests across
+    const urls = (
+      process.env.OLLAMA_BASE_URLS ||
+      process.env.OLLAMA_BASE_URL ||
+      'http://localhost:11434'
+    )
+      .split(',')
+      .map(url => url.trim().replace(/\/+$/, ''))
+      .filter(Boolean);
     // Use environment variable for timeout, default to 5 minutes for large models on multiple GPUs
     const timeout = parseInt(process.env.OLLAMA_TIMEOUT || '300000');
     // Use extended timeout for model operations (pulling, loading), default to 15 minutes
@@ -42,76 +61,69 @@ class OllamaService {
       process.env.OLLAMA_LONG_OPERATION_TIMEOUT || '900000'
     );
 
-    this.client = axios.create({
-      baseURL: this.baseUrl,
-      timeout: timeout,
-      headers: {
-        'Content-Type': 'application/json',
-      },
-    });
-
-    this.longOperationClient = axios.create({
-      baseURL: this.baseUrl,
-      timeout: longOperationTimeout,
-      headers: {
-        'Content-Type': 'application/json',
-      },
-    });
+    this.pool = new OllamaPool(urls, timeout, longOperationTimeout);
   }
 
+  // Healthy as long as at least one host in the pool answers
   async isHealthy(): Promise<boolean> {
-    try {
-      const response = await this.client.get('/');
-      return response.status === 200;
-    } catch (error: unknown) {
-      if (
-        error &&
-        typeof error === 'object' &&
-        'code' in error &&
-        (error as { code: string }).code === 'ECONNREFUSED'
-      ) {
-        console.warn(
-          'Ollama service is not running. Please start it with: ollama serve'
-        );
-      } else {
-        console.error(
-          'Ollama health check failed:',
-          getErrorMessage(error, 'Unknown error')
-        );
-      }
-      return false;
-    }
+    const healthy = await this.pool.checkAll();
+    return healthy.length > 0;
   }
 
+  // Per-host health and load, as of the last check
+  getHostStatus(): OllamaHostStatus[] {
+    return this.pool.getStatus();
+  }
+
+  // Models across every host, each listing the hosts that serve it when
+  // more than one is configured
   async getModels(): Promise<OllamaModel[]> {
-    try {
-      console.log('Fetching models from Ollama...');
-      const response = await this.client.get('/api/tags');
-      console.log('Ollama response:', JSON.stringify(response.data, null, 2));
-      const models = response.data.models || [];
-      console.log(`Found ${models.length} models`);
-      return models;
-    } catch (error: unknown) {
-      if (
-        error &&
-        typeof error === 'object' &&
-        'code' in error &&
-        (error as { code: string }).code === 'ECONNREFUSED'
-      ) {
+    console.log('Fetching models from Ollama...');
+    const results = await Promise.allSettled(
+      this.pool.hosts.map(host => this.pool.getModels(host, true))
+    );
+
+    const models = new Map<string, OllamaModel>();
+    let lastError: unknown;
+    results.forEach((result, index) => {
+      const host = this.pool.hosts[index];
+      if (result.status === 'rejected') {
+        lastError = result.reason;
+        if (isConnectionError(result.reason)) {
+          this.pool.markDown(host, result.reason);
+        }
+        return;
+      }
+      for (const model of result.value) {
+        const existing = models.get(model.name);
+        if (this.pool.hosts.length === 1) {
+          models.set(model.name, model);
+        } else if (existing) {
+          existing.hosts = [...(existing.hosts || []), host.url];
+        } else {
+          models.set(model.name, { ...model, hosts: [host.url] });
+        }
+      }
+    });
+
+    if (results.every(result => result.status === 'rejected')) {
+      if (isConnectionError(lastError)) {
         console.error(
           'Cannot connect to Ollama. Please ensure Ollama is running with: ollama serve'
         );
         throw new Error(
           'Ollama service is not running. Please start it with: ollama serve'
         );
-      } else {
-        console.error(
-          'Failed to fetch models:',
-          getErrorMessage(error, 'Unknown error')
-        );
-        throw new Error('Failed to fetch available models from Ollama');
       }
+      console.error(
+        'Failed to fetch models:',
+        getErrorMessage(lastError, 'Unknown error')
+      );
+      throw new Error('Failed to fetch available models from Ollama');
     }
+
+    console.log(`Found ${models.size} models`);
+    return Array.from(models.values());
   }
 
   async generateResponse(
@@ -119,10 +131,12 @@ class OllamaService {
   ): Promise<OllamaGenerateResponse> {
     try {
       // Use long operation client for generation as it may need to load model on first use
-      const response = await this.longOperationClient.post('/api/generate', {
-        ...request,
-        stream: false, // For non-streaming responses
-      });
+      const response = await this.pool.run(request.model, host =>
+        host.longOperationClient.post('/api/generate', {
+          ...request,
+          stream: false, // For non-streaming responses
+        })
+      );
       return response.data;
     } catch (error: unknown) {
       console.error('Failed to generate response:', error);
@@ -138,16 +152,23 @@ class OllamaService {
   ): Promise<void> {
     try {
       // Use long operation client for streaming generation as it may need to load model on first use
-      const response = await this.longOperationClient.post(
-        '/api/generate',
-        {
-          ...request,
-          stream: true,
-        },
-        {
-          responseType: 'stream',
-        }
+      const { host, response } = await this.pool.run(
+        request.model,
+        async host => ({
+          host,
+          response: await host.longOperationClient.post(
+            '/api/generate',
+            {
+              ...request,
+              stream: true,
+            },
+            {
+              responseType: 'stream',
+            }
+          ),
+        })
       );
+      response.data.on('close', this.pool.hold(host));
 
       let buffer = '';
 
@@ -187,12 +208,25 @@ class OllamaService {
     }
   }
 
+  // Hosts a pull goes to: the ones that already have the model, so it is
+  // updated everywhere, or else the least busy one
+  private async pullTargets(modelName: string) {
+    const hosts = await this.pool.hostsWithModel(modelName);
+    if (hosts.length > 0) return hosts;
+    const [host] = await this.pool.candidates();
+    return [host];
+  }
+
   async pullModel(modelName: string): Promise<void> {
     try {
       console.log(`Pulling model: ${modelName}`);
-      await this.longOperationClient.post('/api/pull', {
-        name: modelName,
-      });
+      this.modelDetailsCache.delete(modelName);
+      for (const host of await this.pullTargets(modelName)) {
+        await host.longOperationClient.post('/api/pull', {
+          name: modelName,
+        });
+      }
+      this.pool.invalidateModels();
       console.log(`Successfully pulled model: ${modelName}`);
     } catch (error: unknown) {
       console.error(
@@ -206,29 +240,44 @@ class OllamaService {
 
   async pullModelStream(
     modelName: string,
-    onProgress: (progress: {
-      status: string;
-      digest?: string;
-      total?: number;
-      completed?: number;
-      percent?: number;
-    }) => void,
+    onProgress: (progress: PullProgress) => void,
     onError: (error: Error) => void,
     onComplete: () => void
   ): Promise<void> {
     try {
       console.log(`Pulling model with streaming: ${modelName}`);
-      const response = await this.longOperationClient.post(
-        '/api/pull',
-        {
-          name: modelName,
-          stream: true,
-        },
-        {
-          responseType: 'stream',
-        }
+      this.modelDetailsCache.delete(modelName);
+      for (const host of await this.pullTargets(modelName)) {
+        await this.pullOnHost(host, modelName, onProgress);
+      }
+      this.pool.invalidateModels();
+      onComplete();
+    } catch (error: unknown) {
+      console.error('Failed to pull model with streaming:', error);
+      onError(
+        new Error(getErrorMessage(error, 'Failed to pull model with streaming'))
       );
+    }
+  }
+
+  // Streams one host's pull progress, resolving once the pull finishes
+  private async pullOnHost(
+    host: OllamaHost,
+    modelName: string,
+    onProgress: (progress: PullProgress) => void
+  ): Promise<void> {
+    const response = await host.longOperationClient.post(
+      '/api/pull',
+      {
+        name: modelName,
+        stream: true,
+      },
+      {
+        responseType: 'stream',
+      }
+    );
 
+    await new Promise<void>((resolve, reject) => {
       let buffer = '';
 
       response.data.on('data', (chunk: Buffer) => {
@@ -260,7 +309,7 @@ class OllamaService {
                 data.status === 'success' ||
                 (!data.status && data.completed === data.total)
               ) {
-                onComplete();
+                resolve();
                 return;
               }
             } catch (parseError) {
@@ -270,26 +319,23 @@ class OllamaService {
         }
       });
 
-      response.data.on('error', (error: Error) => {
-        onError(error);
-      });
-
-      response.data.on('end', () => {
-        onComplete();
-      });
-    } catch (error: unknown) {
-      console.error('Failed to pull model with streaming:', error);
-      onError(
-        new Error(getErrorMessage(error, 'Failed to pull model with streaming'))
-      );
-    }
+      response.data.on('error', reject);
+      response.data.on('end', () => resolve());
+    });
   }
 
+  // Removes the model from every host that has it
   async deleteModel(modelName: string): Promise<void> {
+    this.modelDetailsCache.delete(modelName);
     try {
-      await this.client.delete('/api/delete', {
-        data: { name: modelName },
-      });
+      const hosts = await this.pool.hostsWithModel(modelName);
+      if (hosts.length === 0) hosts.push(await this.pool.primary());
+      for (const host of hosts) {
+        await host.client.delete('/api/delete', {
+          data: { name: modelName },
+        });
+      }
+      this.pool.invalidateModels();
     } catch (error: unknown) {
       console.error('Failed to delete model:', error);
       throw new Error(getErrorMessage(error, 'Failed to delete model'));
@@ -301,10 +347,12 @@ class OllamaService {
     verbose = false
   ): Promise<Record<string, unknown>> {
     try {
-      const response = await this.client.post('/api/show', {
-        model: modelName,
-        verbose,
-      });
+      const response = await this.pool.run(modelName, host =>
+        host.client.post('/api/show', {
+          model: modelName,
+          verbose,
+        })
+      );
       return response.data;
     } catch (error: unknown) {
       console.error('Failed to show model:', error);
@@ -312,9 +360,59 @@ class OllamaService {
     }
   }
 
+  // Details reported by /api/show, cached per model since they only
+  // change when the model is replaced
+  private async getModelDetails(
+    modelName: string
+  ): Promise<{ capabilities: string[]; contextLength?: number } | undefined> {
+    const cached = this.modelDetailsCache.get(modelName);
+    if (cached) {
+      return cached;
+    }
+
+    try {
+      const info = await this.showModel(modelName);
+      const capabilities = Array.isArray(info.capabilities)
+        ? (info.capabilities as string[])
+        : [];
+
+      // model_info keys are prefixed with the architecture, e.g.
+      // "llama.context_length"
+      const modelInfo = (info.model_info || {}) as Record<string, unknown>;
+      const contextKey = Object.keys(modelInfo).find(key =>
+        key.endsWith('.context_length')
+      );
+      const contextLength = contextKey
+        ? Number(modelInfo[contextKey]) || undefined
+        : undefined;
+
+      const details = { capabilities, contextLength };
+      this.modelDetailsCache.set(modelName, details);
+      return details;
+    } catch (error: unknown) {
+      console.error(`Failed to get details for ${modelName}:`, error);
+      return undefined;
+    }
+  }
+
+  // Capabilities such as 'tools' or 'thinking'
+  async getModelCapabilities(modelName: string): Promise<string[]> {
+    const details = await this.getModelDetails(modelName);
+    return details?.capabilities || [];
+  }
+
+  // Context length the model was trained with, if reported
+  async getModelContextLength(modelName: string): Promise<number | undefined> {
+    const details = await this.getModelDetails(modelName);
+    return details?.contextLength;
+  }
+
+  // Created on the primary host, where pushBlob puts the model's files
   async createModel(payload: OllamaCreateRequest): Promise<void> {
     try {
-      await this.client.post('/api/create', payload);
+      const host = await this.pool.primary();
+      await host.client.post('/api/create', payload);
+      this.pool.invalidateModels();
     } catch (error: unknown) {
       console.error('Failed to create model:', error);
       throw new Error(getErrorMessage(error, 'Failed to create model'));
@@ -323,7 +421,12 @@ class OllamaService {
 
   async copyModel(source: string, destination: string): Promise<void> {
     try {
-      await this.client.post('/api/copy', { source, destination });
+      const hosts = await this.pool.hostsWithModel(source);
+      if (hosts.length === 0) hosts.push(await this.pool.primary());
+      for (const host of hosts) {
+        await host.client.post('/api/copy', { source, destination });
+      }
+      this.pool.invalidateModels();
     } catch (error: unknown) {
       console.error('Failed to copy model:', error);
       throw new Error(getErrorMessage(error, 'Failed to copy model'));
@@ -332,7 +435,9 @@ class OllamaService {
 
   async pushModel(modelName: string): Promise<void> {
     try {
-      await this.client.post('/api/push', { model: modelName });
+      await this.pool.run(modelName, host =>
+        host.client.post('/api/push', { model: modelName })
+      );
     } catch (error: unknown) {
       console.error('Failed to push model:', error);
       throw new Error(getErrorMessage(error, 'Failed to push model'));
@@ -343,7 +448,9 @@ class OllamaService {
     payload: OllamaEmbeddingsRequest
   ): Promise<OllamaEmbeddingsResponse> {
     try {
-      const response = await this.client.post('/api/embed', payload);
+      const response = await this.pool.run(payload.model, host =>
+        host.client.post('/api/embed', payload)
+      );
       return response.data;
     } catch (error: unknown) {
       console.error('Failed to generate embeddings:', error);
@@ -351,19 +458,35 @@ class OllamaService {
     }
   }
 
+  // Loaded models across the pool, each tagged with its host when more
+  // than one is configured
   async listRunningModels(): Promise<{ models: Record<string, unknown>[] }> {
-    try {
-      const response = await this.client.get('/api/ps');
-      return response.data;
-    } catch (error: unknown) {
-      console.error('Failed to list running models:', error);
-      throw new Error(getErrorMessage(error, 'Failed to list running models'));
+    const { hosts } = this.pool;
+    const results = await Promise.allSettled(
+      hosts.map(host => this.pool.getRunning(host))
+    );
+
+    const failed = results.find(result => result.status === 'rejected');
+    if (failed && results.every(result => result.status === 'rejected')) {
+      console.error('Failed to list running models:', failed.reason);
+      throw new Error(
+        getErrorMessage(failed.reason, 'Failed to list running models')
+      );
     }
+
+    const models = results.flatMap((result, index) => {
+      if (result.status === 'rejected') return [];
+      return hosts.length === 1
+        ? result.value
+        : result.value.map(model => ({ ...model, host: hosts[index].url }));
+    });
+    return { models };
   }
 
   async getVersion(): Promise<{ version: string }> {
     try {
-      const response = await this.client.get('/api/version');
+      const host = await this.pool.primary();
+      const response = await host.client.get('/api/version');
       return response.data;
     } catch (error: unknown) {
       console.error('Failed to get version:', error);
@@ -377,10 +500,12 @@ class OllamaService {
   ): Promise<OllamaChatResponse> {
     try {
       // Use long operation client for chat generation as it may need to load model on first use
-      const response = await this.longOperationClient.post('/api/chat', {
-        ...request,
-        stream: false,
-      });
+      const response = await this.pool.run(request.model, host =>
+        host.longOperationClient.post('/api/chat', {
+          ...request,
+          stream: false,
+        })
+      );
       return response.data;
     } catch (error: unknown) {
       console.error('Failed to generate chat response:', error);
@@ -390,39 +515,75 @@ class OllamaService {
     }
   }
 
+  // Streams a chat completion. onComplete or onError is called exactly once;
+  // aborting the signal stops generation and completes with what was
+  // streamed so far.
   async generateChatStreamResponse(
     request: OllamaChatRequest,
     onChunk: (chunk: OllamaChatResponse) => void,
     onError: (error: Error) => void,
-    onComplete: () => void
+    onComplete: () => void,
+    signal?: AbortSignal
   ): Promise<void> {
+    let settled = false;
+    const settle = (error?: Error) => {
+      if (settled) return;
+      settled = true;
+      if (error) {
+        onError(error);
+      } else {
+        onComplete();
+      }
+    };
+
     try {
-      // Use long operation client for chat streaming as it may need to load model on first use
-      const response = await this.longOperationClient.post(
-        '/api/chat',
-        {
-          ...request,
-          stream: true,
-        },
-        {
-          responseType: 'stream',
-        }
+      // Use long operation client for chat streaming as it may need to load
+      // model on first use. Failover only happens before the stream opens.
+      const { host, response } = await this.pool.run(
+        request.model,
+        async host => ({
+          host,
+          response: await host.longOperationClient.post(
+            '/api/chat',
+            {
+              ...request,
+              stream: true,
+            },
+            {
+              responseType: 'stream',
+              signal,
+            }
+          ),
+        })
       );
+      response.data.on('close', this.pool.hold(host));
 
       let buffer = '';
 
+      // Closing the connection makes Ollama stop generating
+      const abort = () => {
+        response.data.destroy();
+        settle();
+      };
+      if (signal?.aborted) {
+        abort();
+        return;
+      }
+      signal?.addEventListener('abort', abort, { once: true });
+
       response.data.on('data', (chunk: Buffer) => {
         buffer += chunk.toString();
         const lines = buffer.split('\n');
         buffer = lines.pop() || '';
 
         for (const line of lines) {
+          if (settled) return;
           if (line.trim()) {
             try {
               const data = JSON.parse(line);
               onChunk(data);
               if (data.done) {
-                onComplete();
+                settle();
                 return;
               }
             } catch (parseError) {
@@ -433,15 +594,21 @@ class OllamaService {
       });
 
       response.data.on('error', (error: Error) => {
-        onError(error);
+        // axios destroys the stream with a CanceledError on abort
+        settle(signal?.aborted ? undefined : error);
       });
 
       response.data.on('end', () => {
-        onComplete();
+        signal?.removeEventListener('abort', abort);
+        settle();
       });
     } catch (error: unknown) {
+      if (signal?.aborted) {
+        settle();
+        return;
+      }
       console.error('Failed to generate chat stream response:', error);
-      onError(
+      settle(
         new Error(
           getErrorMessage(error, 'Failed to generate chat stream response')
         )
@@ -452,7 +619,8 @@ class OllamaService {
   // Blob management methods
   async checkBlobExists(digest: string): Promise<boolean> {
     try {
-      const response = await this.client.head(`/api/blobs/${digest}`);
+      const host = await this.pool.primary();
+      const response = await host.client.head(`/api/blobs/${digest}`);
       return response.status === 200;
     } catch (error: unknown) {
       if (error && typeof error === 'object' && 'response' in error) {
@@ -472,7 +640,8 @@ class OllamaService {
       throw new Error('Invalid digest format');
     }
     try {
-      await this.client.post(`/api/blobs/${digest}`, data, {
+      const host = await this.pool.primary();
+      await host.client.post(`/api/blobs/${digest}`, data, {
         headers: {
           'Content-Type': 'application/octet-stream',
         },
@@ -488,7 +657,10 @@ class OllamaService {
     payload: Record<string, unknown>
   ): Promise<{ embedding: number[] }> {
     try {
-      const response = await this.client.post('/api/embeddings', payload);
+      const response = await this.pool.run(
+        typeof payload.model === 'string' ? payload.model : undefined,
+        host => host.client.post('/api/embeddings', payload)
+      );
       return response.data;
     } catch (error: unknown) {
       console.error('Failed to generate legacy embeddings:', error);
@@ -193,6 +193,27 @@ export class PersonaService {
     };
   }
 
+  /**
+   * Resolve a `persona:<id>` model id to its persona, looking in the user's
+   * own personas first and then in the default user's. Returns null for
+   * plain model names and unknown personas.
+   */
+  async resolveModelPersona(
+    model: string,
+    userId: string = 'default'
+  ): Promise<Persona | null> {
+    if (!model.startsWith('persona:')) {
+      return null;
+    }
+
+    const personaId = model.replace('persona:', '');
+    const persona = await this.getPersonaById(personaId, userId);
+    if (persona || userId === 'default') {
+      return persona;
+    }
+    return await this.getPersonaById(personaId, 'default');
+  }
+
   /**
    * Get a specific persona by ID (basic version)
    */
@@ -0,0 +1,542 @@
+/*
+ * Libre WebUI
+ * Copyright (C) 2025 Kroonen AI, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at:
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  ChatMessage,
+  GenerationOptions,
+  Plugin,
+  PluginProtocol,
+  PluginResponse,
+} from '../types/index.js';
+
+// Accumulated state while consuming a provider's event stream
+export interface PluginStreamState {
+  id?: string;
+  content: string;
+  finishReason: string;
+  usage?: PluginResponse['usage'];
+}
+
+/**
+ * Translates between our internal chat format and a provider wire protocol.
+ * Plugins select an adapter through their `protocol` field, so any endpoint
+ * speaking one of these protocols can be installed without code changes.
+ */
+export interface PluginAdapter {
+  protocol: PluginProtocol;
+  // Build the request body; may add protocol-specific headers
+  buildPayload(
+    model: string,
+    messages: ChatMessage[],
+    options: GenerationOptions,
+    stream: boolean,
+    headers: Record<string, string>
+  ): Record<string, unknown>;
+  // Adjust the endpoint URL for streaming requests, if the protocol needs it
+  prepareStreamUrl?(url: URL): void;
+  // Convert a complete (non-streaming) response body to OpenAI format
+  parseResponse(data: Record<string, unknown>, model: string): PluginResponse;
+  // Fold a single streamed event into the state and return any new text
+  applyStreamEvent(
+    event: Record<string, unknown>,
+    model: string,
+    state: PluginStreamState
+  ): string;
+}
+
+const resolveMaxTokens = (options: GenerationOptions): number =>
+  options.num_predict && options.num_predict !== -1
+    ? options.num_predict
+    : 1024;
+
+const toSimpleMessages = (messages: ChatMessage[]) =>
+  messages.map(msg => ({
+    role: msg.role,
+    content: msg.content,
+  }));
+
+// Default OpenAI-compatible chat completions protocol
+const openaiAdapter: PluginAdapter = {
+  protocol: 'openai',
+
+  buildPayload(model, messages, options, stream) {
+    const payload: Record<string, unknown> = {
+      model,
+      messages: toSimpleMessages(messages),
+      temperature: options.temperature || 0.7,
+      max_tokens: options.num_predict === -1 ? undefined : options.num_predict,
+      top_p: options.top_p,
+      stop: options.stop,
+      stream,
+    };
+
+    // Ask for token usage in the final chunk when streaming
+    if (stream) {
+      payload.stream_options = { include_usage: true };
+    }
+
+    return payload;
+  },
+
+  parseResponse(data) {
+    return data as unknown as PluginResponse;
+  },
+
+  applyStreamEvent(event, _model, state) {
+    if (typeof event.id === 'string') {
+      state.id = event.id;
+    }
+
+    if (event.error && typeof event.error === 'object') {
+      const errorObj = event.error as Record<string, unknown>;
+      throw new Error(
+        typeof errorObj.message === 'string'
+          ? errorObj.message
+          : 'Plugin stream error'
+      );
+    }
+
+    if (event.usage && typeof event.usage === 'object') {
+      const usageObj = event.usage as Record<string, unknown>;
+      if (
+        typeof usageObj.prompt_tokens === 'number' &&
+        typeof usageObj.completion_tokens === 'number'
+      ) {
+        state.usage = {
+          prompt_tokens: usageObj.prompt_tokens,
+          completion_tokens: usageObj.completion_tokens,
+          total_tokens:
+            typeof usageObj.total_tokens === 'number'
+              ? usageObj.total_tokens
+              : usageObj.prompt_tokens + usageObj.completion_tokens,
+        };
+      }
+    }
+
+    if (!Array.isArray(event.choices) || event.choices.length === 0) {
+      return '';
+    }
+
+    const choice = event.choices[0] as Record<string, unknown>;
+    if (typeof choice.finish_reason === 'string') {
+      state.finishReason = choice.finish_reason;
+    }
+
+    if (choice.delta && typeof choice.delta === 'object') {
+      const delta = choice.delta as Record<string, unknown>;
+      if (typeof delta.content === 'string') {
+        return delta.content;
+      }
+    }
+
+    return '';
+  },
+};
+
+// Map Anthropic stop reasons to OpenAI format
+const anthropicStopReasonMap: Record<string, string> = {
+  end_turn: 'stop',
+  max_tokens: 'length',
+  stop_sequence: 'stop',
+  tool_use: 'tool_calls',
+};
+
+// Anthropic messages API
+const anthropicAdapter: PluginAdapter = {
+  protocol: 'anthropic',
+
+  buildPayload(model, messages, options, stream, headers) {
+    // Separate system messages from user/assistant messages
+    const pluginMessages = toSimpleMessages(messages);
+    const systemMessages = pluginMessages.filter(msg => msg.role === 'system');
+    const nonSystemMessages = pluginMessages.filter(
+      msg => msg.role !== 'system'
+    );
+
+    const payload: Record<string, unknown> = {
+      model,
+      messages: nonSystemMessages,
+      max_tokens: resolveMaxTokens(options),
+      temperature: options.temperature || 0.7,
+      top_p: options.top_p,
+      stop_sequences: options.stop,
+      stream,
+    };
+
+    // Add system message as top-level parameter if present
+    if (systemMessages.length > 0) {
+      payload.system = systemMessages.map(msg => msg.content).join('\n');
+    }
+
+    // Add required anthropic-version header
+    headers['anthropic-version'] = '2023-06-01';
+
+    return payload;
+  },
+
+  parseResponse(anthropicResponse, model) {
+    const id =
+      typeof anthropicResponse.id === 'string'
+        ? anthropicResponse.id
+        : `chatcmpl-${Date.now()}`;
+
+    const stopReason =
+      typeof anthropicResponse.stop_reason === 'string'
+        ? anthropicStopReasonMap[anthropicResponse.stop_reason] || 'stop'
+        : 'stop';
+
+    let content = '';
+    // Anthropic returns content as an array of content blocks
+    if (Array.isArray(anthropicResponse.content)) {
+      for (const block of anthropicResponse.content) {
+        if (
+          block &&
+          typeof block === 'object' &&
+          'type' in block &&
+          block.type === 'text' &&
+          'text' in block &&
+          typeof block.text === 'string'
+        ) {
+          content += block.text;
+        }
+      }
+    }
+
+    let usage;
+    if (
+      anthropicResponse.usage &&
+      typeof anthropicResponse.usage === 'object' &&
+      anthropicResponse.usage !== null
+    ) {
+      const usageObj = anthropicResponse.usage as Record<string, unknown>;
+      const inputTokens =
+        typeof usageObj.input_tokens === 'number' ? usageObj.input_tokens : 0;
+      const outputTokens =
+        typeof usageObj.output_tokens === 'number' ? usageObj.output_tokens : 0;
+
+      usage = {
+        prompt_tokens: inputTokens,
+        completion_tokens: outputTokens,
+        total_tokens: inputTokens + outputTokens,
+      };
+    }
+
+    return {
+      id,
+      object: 'chat.completion',
+      created: Math.floor(Date.now() / 1000),
+      model,
+      choices: [
+        {
+          index: 0,
+          message: {
+            role: 'assistant',
+            content,
+          },
+          finish_reason: stopReason,
+        },
+      ],
+      usage,
+    };
+  },
+
+  applyStreamEvent(event, _model, state) {
+    switch (event.type) {
+      case 'message_start': {
+        const message = event.message as Record<string, unknown> | undefined;
+        if (message && typeof message.id === 'string') {
+          state.id = message.id;
+        }
+        const usage = message?.usage as Record<string, unknown> | undefined;
+        if (usage && typeof usage.input_tokens === 'number') {
+          state.usage = {
+            prompt_tokens: usage.input_tokens,
+            completion_tokens: 0,
+            total_tokens: usage.input_tokens,
+          };
+        }
+        return '';
+      }
+      case 'content_block_delta': {
+        const delta = event.delta as Record<string, unknown> | undefined;
+        if (
+          delta &&
+          delta.type === 'text_delta' &&
+          typeof delta.text === 'string'
+        ) {
+          return delta.text;
+        }
+        return '';
+      }
+      case 'message_delta': {
+        const delta = event.delta as Record<string, unknown> | undefined;
+        if (delta && typeof delta.stop_reason === 'string') {
+          state.finishReason =
+            anthropicStopReasonMap[delta.stop_reason] || 'stop';
+        }
+        const usage = event.usage as Record<string, unknown> | undefined;
+        if (usage && typeof usage.output_tokens === 'number') {
+          const promptTokens = state.usage?.prompt_tokens || 0;
+          state.usage = {
+            prompt_tokens: promptTokens,
+            completion_tokens: usage.output_tokens,
+            total_tokens: promptTokens + usage.output_tokens,
+          };
+        }
+        return '';
+      }
+      case 'error': {
+        const error = event.error as Record<string, unknown> | undefined;
+        throw new Error(
+          typeof error?.message === 'string'
+            ? error.message
+            : 'Anthropic stream error'
+        );
+      }
+      default:
+        // ping, message_stop, content_block_start/stop carry no text
+        return '';
+    }
+  },
+};
+
+interface GeminiPart {
+  text?: string;
+  inlineData?: { mimeType: string; data: string };
+}
+
+interface GeminiContent {
+  role: 'user' | 'model';
+  parts: GeminiPart[];
+}
+
+// Leading base64 characters of common image formats
+const imageSignatures: Array<[string, string]> = [
+  ['iVBORw0KGgo', 'image/png'],
+  ['/9j/', 'image/jpeg'],
+  ['R0lGOD', 'image/gif'],
+  ['UklGR', 'image/webp'],
+];
+
+// Images arrive either as data URLs or as bare base64 strings
+const toGeminiInlineData = (
+  image: string
+): { mimeType: string; data: string } => {
+  const match = image.match(/^data:([^;,]+);base64,(.*)$/s);
+  if (match) {
+    return { mimeType: match[1], data: match[2] };
+  }
+
+  const signature = imageSignatures.find(([prefix]) =>
+    image.startsWith(prefix)
+  );
+  return {
+    mimeType: signature ? signature[1] : 'image/jpeg',
+    data: image,
+  };
+};
+
+// Google Gemini generateContent API
+const geminiAdapter: PluginAdapter = {
+  protocol: 'gemini',
+
+  buildPayload(_model, messages, options) {
+    const systemMessages = messages.filter(msg => msg.role === 'system');
+    const contents: GeminiContent[] = [];
+
+    for (const msg of messages) {
+      if (msg.role === 'system') continue;
+
+      const role = msg.role === 'assistant' ? 'model' : 'user';
+      const parts: GeminiPart[] = [];
+      if (msg.content) {
+        parts.push({ text: msg.content });
+      }
+      for (const image of msg.images || []) {
+        parts.push({ inlineData: toGeminiInlineData(image) });
+      }
+      if (parts.length === 0) continue;
+
+      // Gemini expects alternating turns, so merge consecutive same-role ones
+      const previous = contents[contents.length - 1];
+      if (previous && previous.role === role) {
+        previous.parts.push(...parts);
+      } else {
+        contents.push({ role, parts });
+      }
+    }
+
+    const payload: Record<string, unknown> = {
+      contents,
+      generationConfig: {
+        temperature: options.temperature || 0.7,
+        maxOutputTokens: resolveMaxTokens(options),
+        topP: options.top_p,
+        stopSequences: options.stop,
+      },
+    };
+
+    if (systemMessages.length > 0) {
+      payload.systemInstruction = {
+        parts: [{ text: systemMessages.map(msg => msg.content).join('\n') }],
+      };
+    }
+
+    return payload;
+  },
+
+  // Gemini streams from a sibling method and needs SSE framing requested
+  prepareStreamUrl(url) {
+    url.pathname = url.pathname.replace(
+      /:generateContent$/,
+      ':streamGenerateContent'
+    );
+    url.searchParams.set('alt', 'sse');
+  },
+
+  parseResponse(geminiResponse, model) {
+    const id = `chatcmpl-${Date.now()}`;
+
+    let content = '';
+    let finishReason = 'stop';
+
+    // Gemini returns candidates array
+    if (Array.isArray(geminiResponse.candidates)) {
+      const candidate = geminiResponse.candidates[0];
+      if (candidate && typeof candidate === 'object') {
+        const candidateObj = candidate as Record<string, unknown>;
+
+        // Extract content from parts
+        if (candidateObj.content && typeof candidateObj.content === 'object') {
+          const contentObj = candidateObj.content as Record<string, unknown>;
+          if (Array.isArray(contentObj.parts)) {
+            for (const part of contentObj.parts) {
+              if (
+                part &&
+                typeof part === 'object' &&
+                'text' in part &&
+                typeof part.text === 'string'
+              ) {
+                content += part.text;
+              }
+            }
+          }
+        }
+
+        // Map Gemini finish reason to OpenAI format
+        if (typeof candidateObj.finishReason === 'string') {
+          const finishReasonMap: Record<string, string> = {
+            STOP: 'stop',
+            MAX_TOKENS: 'length',
+            SAFETY: 'content_filter',
+            RECITATION: 'content_filter',
+            OTHER: 'stop',
+          };
+          finishReason = finishReasonMap[candidateObj.finishReason] || 'stop';
+        }
+      }
+    }
+
+    // Extract usage if available
+    let usage;
+    if (
+      geminiResponse.usageMetadata &&
+      typeof geminiResponse.usageMetadata === 'object'
+    ) {
+      const usageObj = geminiResponse.usageMetadata as Record<string, unknown>;
+      const promptTokens =
+        typeof usageObj.promptTokenCount === 'number'
+          ? usageObj.promptTokenCount
+          : 0;
+      const completionTokens =
+        typeof usageObj.candidatesTokenCount === 'number'
+          ? usageObj.candidatesTokenCount
+          : 0;
+
+      usage = {
+        prompt_tokens: promptTokens,
+        completion_tokens: completionTokens,
+        total_tokens: promptTokens + completionTokens,
+      };
+    }
+
+    return {
+      id,
+      object: 'chat.completion',
+      created: Math.floor(Date.now() / 1000),
+      model,
+      choices: [
+        {
+          index: 0,
+          message: {
+            role: 'assistant',
+            content,
+          },
+          finish_reason: finishReason,
+        },
+      ],
+      usage,
+    };
+  },
+
+  applyStreamEvent(event, model, state) {
+    // Every Gemini stream event is a partial GenerateContentResponse
+    const converted = this.parseResponse(event, model);
+    state.finishReason = converted.choices[0].finish_reason;
+    if (converted.usage) {
+      state.usage = converted.usage;
+    }
+    return converted.choices[0].message.content;
+  },
+};
+
+const adapters = new Map<string, PluginAdapter>();
+
+export const registerPluginAdapter = (adapter: PluginAdapter): void => {
+  adapters.set(adapter.protocol, adapter);
+};
+
+[openaiAdapter, anthropicAdapter, geminiAdapter].forEach(registerPluginAdapter);
+
+export const isKnownPluginProtocol = (protocol: unknown): boolean =>
+  typeof protocol === 'string' && adapters.has(protocol);
+
+/**
+ * Resolve the protocol a plugin speaks. Plugins written before the `protocol`
+ * field existed are matched by their built-in id; anything else is treated as
+ * OpenAI-compatible.
+ */
+export const resolvePluginProtocol = (plugin: Plugin): PluginProtocol => {
+  if (plugin.protocol) {
+    return plugin.protocol;
+  }
+  if (plugin.id === 'anthropic' || plugin.id === 'gemini') {
+    return plugin.id;
+  }
+  return 'openai';
+};
+
+export const getPluginAdapter = (plugin: Plugin): PluginAdapter => {
+  const protocol = resolvePluginProtocol(plugin);
+  const adapter = adapters.get(protocol);
+  if (!adapter) {
+    throw new Error(
+      `No adapter registered for plugin protocol: ${protocol} (plugin ${plugin.id})`
+    );
+  }
+  return adapter;
+};
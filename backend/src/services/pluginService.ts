@@ -17,6 +17,7 @@
 
 import fs from 'fs';
 import path from 'path';
+import { Readable } from 'stream';
 import sanitize from 'sanitize-filename';
 import axios from 'axios';
 import {
@@ -26,6 +27,15 @@ import {
   ChatMessage,
   GenerationOptions,
 } from '../types/index.js';
+import {
+  PluginAdapter,
+  PluginStreamState,
+  getPluginAdapter,
+  isKnownPluginProtocol,
+} from './pluginAdapters.js';
+
+// Enough of an error body to find the provider's message in
+const MAX_ERROR_BODY = 64 * 1024;
 
 class PluginService {
   private pluginsDir: string;
@@ -302,6 +312,186 @@ class PluginService {
     messages: ChatMessage[],
     options: GenerationOptions = {}
   ): Promise<PluginResponse> {
+    const { activePlugin, adapter, endpoint, headers, payload } =
+      this.preparePluginRequest(model, messages, options, false);
+
+    try {
+      const response = await axios.post(endpoint, payload, {
+        headers,
+        timeout: 60000, // 60 second timeout
+      });
+
+      return adapter.parseResponse(response.data, model);
+    } catch (error: unknown) {
+      console.error(`Plugin request failed for ${activePlugin.id}:`, error);
+      throw this.toPluginError(error, endpoint);
+    }
+  }
+
+  // Execute a streaming chat request through the active plugin.
+  // Text deltas are passed to onChunk as soon as the provider emits them and
+  // the assembled response is returned once the stream ends. Aborting the
+  // signal closes the stream and returns the partial response with a
+  // 'cancelled' finish reason.
+  async executePluginStreamRequest(
+    model: string,
+    messages: ChatMessage[],
+    options: GenerationOptions,
+    onChunk: (content: string) => void,
+    signal?: AbortSignal
+  ): Promise<PluginResponse> {
+    const { activePlugin, adapter, endpoint, headers, payload } =
+      this.preparePluginRequest(model, messages, options, true);
+
+    const state: PluginStreamState = {
+      content: '',
+      finishReason: 'stop',
+    };
+
+    try {
+      const response = await axios.post(endpoint, payload, {
+        headers: { ...headers, Accept: 'text/event-stream' },
+        timeout: 60000, // 60 second timeout while waiting for data
+        responseType: 'stream',
+        signal,
+      });
+
+      await new Promise<void>((resolve, reject) => {
+        let buffer = '';
+        let finished = false;
+
+        const finish = (error?: Error) => {
+          if (finished) return;
+          finished = true;
+          signal?.removeEventListener('abort', abort);
+          if (error) {
+            response.data.destroy();
+            reject(error);
+          } else {
+            resolve();
+          }
+        };
+
+        // Closing the connection stops the provider from generating further
+        const abort = () => {
+          response.data.destroy();
+          state.finishReason = 'cancelled';
+          finish();
+        };
+        if (signal?.aborted) {
+          abort();
+          return;
+        }
+        signal?.addEventListener('abort', abort, { once: true });
+
+        const handleLine = (line: string) => {
+          const trimmed = line.trim();
+          // SSE comments, event names and blank separators carry no payload
+          if (!trimmed.startsWith('data:')) return;
+
+          const data = trimmed.slice(5).trim();
+          if (!data) return;
+          if (data === '[DONE]') {
+            finish();
+            return;
+          }
+
+          let event: Record<string, unknown>;
+          try {
+            event = JSON.parse(data);
+          } catch (parseError) {
+            console.error('Failed to parse plugin stream event:', parseError);
+            return;
+          }
+
+          const delta = adapter.applyStreamEvent(event, model, state);
+          if (delta) {
+            state.content += delta;
+            onChunk(delta);
+          }
+        };
+
+        response.data.on('data', (chunk: Buffer) => {
+          buffer += chunk.toString();
+          const lines = buffer.split('\n');
+          buffer = lines.pop() || '';
+
+          try {
+            for (const line of lines) {
+              if (finished) return;
+              handleLine(line);
+            }
+          } catch (streamError) {
+            finish(
+              streamError instanceof Error
+                ? streamError
+                : new Error(String(streamError))
+            );
+          }
+        });
+
+        response.data.on('error', (error: Error) => {
+          finish(error);
+        });
+
+        response.data.on('end', () => {
+          try {
+            if (buffer) handleLine(buffer);
+            finish();
+          } catch (streamError) {
+            finish(
+              streamError instanceof Error
+                ? streamError
+                : new Error(String(streamError))
+            );
+          }
+        });
+      });
+    } catch (error: unknown) {
+      if (!signal?.aborted) {
+        await this.readStreamedErrorBody(error);
+        console.error(
+          `Plugin stream request failed for ${activePlugin.id}:`,
+          error
+        );
+        throw this.toPluginError(error, endpoint);
+      }
+      state.finishReason = 'cancelled';
+    }
+
+    return {
+      id: state.id || `chatcmpl-${Date.now()}`,
+      object: 'chat.completion',
+      created: Math.floor(Date.now() / 1000),
+      model,
+      choices: [
+        {
+          index: 0,
+          message: {
+            role: 'assistant',
+            content: state.content,
+          },
+          finish_reason: state.finishReason,
+        },
+      ],
+      usage: state.usage,
+    };
+  }
+
+  // Validate the request and build the endpoint, headers and payload for the
+  // plugin serving this model
+  private preparePluginRequest(
+    model: string,
+    messages: ChatMessage[],
+    options: GenerationOptions,
+    stream: boolean
+  ): {
+    activePlugin: Plugin;
+    adapter: PluginAdapter;
+    endpoint: string;
+    headers: Record<string, string>;
+    payload: Record<string, unknown>;
+  } {
     // Validate model parameter to prevent SSRF attacks
     if (!model || typeof model !== 'string') {
       throw new Error('Invalid model parameter: must be a non-empty string');
@@ -335,10 +525,6 @@ class PluginService {
       );
     }
 
-    if (!activePlugin) {
-      throw new Error(`No active plugin found for model: ${model}`);
-    }
-
     // Get API key from environment
     const apiKey = process.env[activePlugin.auth.key_env];
     if (!apiKey) {
@@ -358,85 +544,24 @@ class PluginService {
 
     headers[activePlugin.auth.header] = authValue;
 
-    // Convert internal format to plugin-compatible format
-    const pluginMessages = messages.map(msg => ({
-      role: msg.role,
-      content: msg.content,
-    }));
-
-    // Prepare request payload based on plugin type
-    let payload: Record<string, unknown>;
-
-    if (activePlugin.id === 'anthropic') {
-      // Anthropic-specific payload format
-      // Separate system messages from user/assistant messages
-      const systemMessages = pluginMessages.filter(
-        msg => msg.role === 'system'
-      );
-      const nonSystemMessages = pluginMessages.filter(
-        msg => msg.role !== 'system'
-      );
-
-      payload = {
-        model,
-        messages: nonSystemMessages,
-        max_tokens:
-          options.num_predict && options.num_predict !== -1
-            ? options.num_predict
-            : 1024,
-        temperature: options.temperature || 0.7,
-        top_p: options.top_p,
-        stop_sequences: options.stop,
-        stream: false,
-      };
-
-      // Add system message as top-level parameter if present
-      if (systemMessages.length > 0) {
-        payload.system = systemMessages.map(msg => msg.content).join('\n');
-      }
-
-      // Add required anthropic-version header
-      headers['anthropic-version'] = '2023-06-01';
-    } else if (activePlugin.id === 'gemini') {
-      // Gemini-specific payload format
-      payload = {
-        contents: [
-          {
-            parts: [
-              {
-                text: messages[messages.length - 1]?.content || '',
-              },
-            ],
-          },
-        ],
-        generationConfig: {
-          temperature: options.temperature || 0.7,
-          maxOutputTokens:
-            options.num_predict && options.num_predict !== -1
-              ? options.num_predict
-              : 1024,
-          topP: options.top_p,
-          stopSequences: options.stop,
-        },
-      };
-    } else {
-      // Default OpenAI-compatible format
-      payload = {
-        model,
-        messages: pluginMessages,
-        temperature: options.temperature || 0.7,
-        max_tokens:
-          options.num_predict === -1 ? undefined : options.num_predict,
-        top_p: options.top_p,
-        stop: options.stop,
-        stream: false,
-      };
-    }
+    // Build the payload in the wire format of the plugin's protocol
+    // Tools only run on the Ollama path, so leave their turns out
+    const conversation = messages.filter(
+      msg => msg.role !== 'tool' && !(msg.toolCalls?.length && !msg.content)
+    );
+    const adapter = getPluginAdapter(activePlugin);
+    const payload = adapter.buildPayload(
+      model,
+      conversation,
+      options,
+      stream,
+      headers
+    );
 
     // Process endpoint template - replace {model} with actual model name
     // Final validation before URL construction to prevent SSRF
     const sanitizedModel = encodeURIComponent(model);
-    const processedEndpoint = activePlugin.endpoint.replace(
+    let processedEndpoint = activePlugin.endpoint.replace(
       '{model}',
       sanitizedModel
     );
@@ -450,216 +575,77 @@ class PluginService {
           `Insecure endpoint protocol: ${url.protocol}. Only HTTPS is allowed.`
         );
       }
-    } catch (_error) {
-      throw new Error(`Invalid endpoint URL constructed: ${processedEndpoint}`);
-    }
-
-    try {
-      const response = await axios.post(processedEndpoint, payload, {
-        headers,
-        timeout: 60000, // 60 second timeout
-      });
 
-      // Handle different response formats
-      if (activePlugin.id === 'anthropic') {
-        return this.convertAnthropicResponse(response.data, model);
-      } else if (activePlugin.id === 'gemini') {
-        return this.convertGeminiResponse(response.data, model);
+      if (stream && adapter.prepareStreamUrl) {
+        adapter.prepareStreamUrl(url);
+        processedEndpoint = url.toString();
       }
-
-      // Default to OpenAI format
-      return response.data as PluginResponse;
-    } catch (error: unknown) {
-      console.error(`Plugin request failed for ${activePlugin.id}:`, error);
-
-      if (error && typeof error === 'object' && 'response' in error) {
-        const axiosError = error as {
-          response: {
-            status: number;
-            data?: { error?: { message?: string } };
-            statusText: string;
-          };
-        };
-        throw new Error(
-          `Plugin API error: ${axiosError.response.status} - ${axiosError.response.data?.error?.message || axiosError.response.statusText}`
-        );
-      } else if (error && typeof error === 'object' && 'request' in error) {
-        throw new Error(
-          `Plugin connection error: Unable to reach ${processedEndpoint}`
-        );
-      } else {
-        const errorMessage =
-          error instanceof Error ? error.message : 'Unknown error';
-        throw new Error(`Plugin error: ${errorMessage}`);
-      }
-    }
-  }
-
-  // Convert Anthropic response format to OpenAI format
-  private convertAnthropicResponse(
-    anthropicResponse: Record<string, unknown>,
-    model: string
-  ): PluginResponse {
-    const id =
-      typeof anthropicResponse.id === 'string'
-        ? anthropicResponse.id
-        : `chatcmpl-${Date.now()}`;
-
-    // Map Anthropic stop reasons to OpenAI format
-    const stopReasonMap: Record<string, string> = {
-      end_turn: 'stop',
-      max_tokens: 'length',
-      stop_sequence: 'stop',
-      tool_use: 'tool_calls',
-    };
-
-    const stopReason =
-      typeof anthropicResponse.stop_reason === 'string'
-        ? stopReasonMap[anthropicResponse.stop_reason] || 'stop'
-        : 'stop';
-
-    let content = '';
-    // Anthropic returns content as an array of content blocks
-    if (Array.isArray(anthropicResponse.content)) {
-      for (const block of anthropicResponse.content) {
-        if (
-          block &&
-          typeof block === 'object' &&
-          'type' in block &&
-          block.type === 'text' &&
-          'text' in block &&
-          typeof block.text === 'string'
-        ) {
-          content += block.text;
-        }
-      }
-    }
-
-    let usage;
-    if (
-      anthropicResponse.usage &&
-      typeof anthropicResponse.usage === 'object' &&
-      anthropicResponse.usage !== null
-    ) {
-      const usageObj = anthropicResponse.usage as Record<string, unknown>;
-      const inputTokens =
-        typeof usageObj.input_tokens === 'number' ? usageObj.input_tokens : 0;
-      const outputTokens =
-        typeof usageObj.output_tokens === 'number' ? usageObj.output_tokens : 0;
-
-      usage = {
-        prompt_tokens: inputTokens,
-        completion_tokens: outputTokens,
-        total_tokens: inputTokens + outputTokens,
-      };
+    } catch (_error) {
+      throw new Error(`Invalid endpoint URL constructed: ${processedEndpoint}`);
     }
 
     return {
-      id,
-      object: 'chat.completion',
-      created: Math.floor(Date.now() / 1000),
-      model,
-      choices: [
-        {
-          index: 0,
-          message: {
-            role: 'assistant',
-            content,
-          },
-          finish_reason: stopReason,
-        },
-      ],
-      usage,
+      activePlugin,
+      adapter,
+      endpoint: processedEndpoint,
+      headers,
+      payload,
     };
   }
 
-  // Convert Gemini response format to OpenAI format
-  private convertGeminiResponse(
-    geminiResponse: Record<string, unknown>,
-    model: string
-  ): PluginResponse {
-    const id = `chatcmpl-${Date.now()}`;
-
-    let content = '';
-    let finishReason = 'stop';
-
-    // Gemini returns candidates array
-    if (Array.isArray(geminiResponse.candidates)) {
-      const candidate = geminiResponse.candidates[0];
-      if (candidate && typeof candidate === 'object') {
-        const candidateObj = candidate as Record<string, unknown>;
-
-        // Extract content from parts
-        if (candidateObj.content && typeof candidateObj.content === 'object') {
-          const contentObj = candidateObj.content as Record<string, unknown>;
-          if (Array.isArray(contentObj.parts)) {
-            for (const part of contentObj.parts) {
-              if (
-                part &&
-                typeof part === 'object' &&
-                'text' in part &&
-                typeof part.text === 'string'
-              ) {
-                content += part.text;
-              }
-            }
-          }
-        }
+  // A failed streamed request hands back its error body as a stream too.
+  // Reads and parses it in place so toPluginError finds the message.
+  private async readStreamedErrorBody(error: unknown): Promise<void> {
+    const response = (error as { response?: { data?: unknown } } | undefined)
+      ?.response;
+    const data = response?.data;
+    if (!response || !(data instanceof Readable)) return;
 
-        // Map Gemini finish reason to OpenAI format
-        if (typeof candidateObj.finishReason === 'string') {
-          const finishReasonMap: Record<string, string> = {
-            STOP: 'stop',
-            MAX_TOKENS: 'length',
-            SAFETY: 'content_filter',
-            RECITATION: 'content_filter',
-            OTHER: 'stop',
-          };
-          finishReason = finishReasonMap[candidateObj.finishReason] || 'stop';
+    let body = '';
+    try {
+      for await (const chunk of data) {
+        body += chunk.toString();
+        if (body.length > MAX_ERROR_BODY) {
+          data.destroy();
+          break;
         }
       }
+      response.data = JSON.parse(body);
+    } catch {
+      response.data = undefined;
     }
+  }
 
-    // Extract usage if available
-    let usage;
+  // Map an axios failure to a user-facing plugin error
+  private toPluginError(error: unknown, endpoint: string): Error {
     if (
-      geminiResponse.usageMetadata &&
-      typeof geminiResponse.usageMetadata === 'object'
+      error &&
+      typeof error === 'object' &&
+      'response' in error &&
+      (error as { response?: unknown }).response
     ) {
-      const usageObj = geminiResponse.usageMetadata as Record<string, unknown>;
-      const promptTokens =
-        typeof usageObj.promptTokenCount === 'number'
-          ? usageObj.promptTokenCount
-          : 0;
-      const completionTokens =
-        typeof usageObj.candidatesTokenCount === 'number'
-          ? usageObj.candidatesTokenCount
-          : 0;
-
-      usage = {
-        prompt_tokens: promptTokens,
-        completion_tokens: completionTokens,
-        total_tokens: promptTokens + completionTokens,
+      const axiosError = error as {
+        response: {
+          status: number;
+          data?: { error?: { message?: string } };
+          statusText: string;
+        };
       };
+      return new Error(
+        `Plugin API error: ${axiosError.response.status} - ${axiosError.response.data?.error?.message || axiosError.response.statusText}`
+      );
+    } else if (
+      error &&
+      typeof error === 'object' &&
+      'request' in error &&
+      (error as { request?: unknown }).request
+    ) {
+      return new Error(`Plugin connection error: Unable to reach ${endpoint}`);
+    } else {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error';
+      return new Error(`Plugin error: ${errorMessage}`);
     }
-
-    return {
-      id,
-      object: 'chat.completion',
-      created: Math.floor(Date.now() / 1000),
-      model,
-      choices: [
-        {
-          index: 0,
-          message: {
-            role: 'assistant',
-            content,
-          },
-          finish_reason: finishReason,
-        },
-      ],
-      usage,
-    };
   }
 
   // Validate plugin structure
@@ -684,6 +670,8 @@ class PluginService {
         typeof (
           (plugin as Record<string, unknown>).auth as Record<string, unknown>
         ).prefix === 'string') &&
+      ((plugin as Record<string, unknown>).protocol === undefined ||
+        isKnownPluginProtocol((plugin as Record<string, unknown>).protocol)) &&
       Array.isArray((plugin as Record<string, unknown>).model_map) &&
       ((plugin as Record<string, unknown>).model_map as unknown[]).length > 0
     );
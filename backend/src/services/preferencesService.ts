@@ -76,9 +76,16 @@ class PreferencesService {
     embeddingSettings: {
       enabled: false, // Start with embeddings disabled
       model: 'nomic-embed-text', // Default embedding model
+      chunkingStrategy: 'auto',
+      chunkSizeUnit: 'characters',
       chunkSize: 1000,
       chunkOverlap: 200,
       similarityThreshold: 0.3,
+      keywordWeight: 1,
+      semanticWeight: 1,
+      rerankEnabled: false,
+      rerankModel: '',
+      rerankCandidates: 20,
     },
     showUsername: false, // Default to showing "you" instead of username
   };
@@ -0,0 +1,116 @@
+/*
+ * Libre WebUI
+ * Copyright (C) 2025 Kroonen AI, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at:
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { v4 as uuidv4 } from 'uuid';
+import { ChatMessage } from '../types/index.js';
+import ollamaService from './ollamaService.js';
+import pluginService from './pluginService.js';
+
+const RERANK_INSTRUCTIONS =
+  'You judge search results. Rate how well the passage answers the query on a scale from 0 ' +
+  '(unrelated) to 10 (answers it fully). Reply with the number only.';
+
+// Characters of each passage shown to the rerank model
+const MAX_PASSAGE_LENGTH = 2000;
+
+class RerankService {
+  /**
+   * Scores each passage from 0 to 1 by how well it answers the query, by
+   * asking the model about every passage on its own. Passages the model
+   * gave no usable answer for are left out of the result.
+   */
+  async rerank(
+    query: string,
+    passages: Array<{ id: string; content: string }>,
+    model: string
+  ): Promise<Map<string, number>> {
+    const scores = new Map<string, number>();
+    const supportsThinking = pluginService.getActivePluginForModel(model)
+      ? false
+      : (await ollamaService.getModelCapabilities(model)).includes('thinking');
+
+    await Promise.all(
+      passages.map(async passage => {
+        try {
+          const score = await this.scorePassage(
+            query,
+            passage.content,
+            model,
+            supportsThinking
+          );
+          if (score !== undefined) scores.set(passage.id, score);
+        } catch (error) {
+          console.error(`Failed to rerank passage ${passage.id}:`, error);
+        }
+      })
+    );
+    return scores;
+  }
+
+  private async scorePassage(
+    query: string,
+    content: string,
+    model: string,
+    supportsThinking: boolean
+  ): Promise<number | undefined> {
+    const passage =
+      content.length > MAX_PASSAGE_LENGTH
+        ? `${content.substring(0, MAX_PASSAGE_LENGTH)}…`
+        : content;
+    const messages: ChatMessage[] = [
+      {
+        id: uuidv4(),
+        role: 'system',
+        content: RERANK_INSTRUCTIONS,
+        timestamp: Date.now(),
+      },
+      {
+        id: uuidv4(),
+        role: 'user',
+        content: `Query: ${query}\n\nPassage:\n${passage}`,
+        timestamp: Date.now(),
+      },
+    ];
+
+    let reply: string;
+    if (pluginService.getActivePluginForModel(model)) {
+      const response = await pluginService.executePluginRequest(
+        model,
+        messages,
+        { temperature: 0 }
+      );
+      reply = response.choices[0]?.message?.content || '';
+    } else {
+      const response = await ollamaService.generateChatResponse({
+        model,
+        messages: messages.map(msg => ({
+          role: msg.role,
+          content: msg.content,
+        })),
+        stream: false,
+        ...(supportsThinking && { think: false }),
+        options: { temperature: 0, num_predict: 8 },
+      });
+      reply = response.message.content;
+    }
+
+    const rating = reply.match(/\d+(\.\d+)?/);
+    if (!rating) return undefined;
+    return Math.min(Math.max(parseFloat(rating[0]) / 10, 0), 1);
+  }
+}
+
+export const rerankService = new RerankService();
@@ -0,0 +1,316 @@
+/*
+ * Libre WebUI
+ * Copyright (C) 2025 Kroonen AI, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at:
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import getDatabase, { isDatabaseInitialized } from '../db.js';
+import { ChatSession, DocumentChunk } from '../types/index.js';
+import { encryptionService } from './encryptionService.js';
+
+export interface SearchHit {
+  messageId: string;
+  sessionId: string;
+  score: number;
+}
+
+export interface ChunkSearchHit {
+  chunkId: string;
+  documentId: string;
+  score: number;
+}
+
+interface WordMatch {
+  word: string; // Normalized form
+  start: number;
+  end: number;
+}
+
+interface IndexedDocRow {
+  id: number;
+  message_id: string;
+  content_hash: string;
+}
+
+// Characters shown around the first match
+const SNIPPET_LENGTH = 160;
+
+/**
+ * Words in the text with their offsets. Words are compared lower-cased
+ * and without diacritics, so "Café" matches "cafe".
+ */
+export const findWords = (text: string): WordMatch[] => {
+  const matches: WordMatch[] = [];
+  for (const match of text.matchAll(/[\p{L}\p{N}]+/gu)) {
+    const start = match.index ?? 0;
+    matches.push({
+      word: match[0].normalize('NFKD').replace(/\p{M}/gu, '').toLowerCase(),
+      start,
+      end: start + match[0].length,
+    });
+  }
+  return matches;
+};
+
+/**
+ * Cuts a snippet around the first query word in the content and returns
+ * the offsets of every query word inside it
+ */
+export const buildSnippet = (
+  content: string,
+  queryWords: Set<string>
+): { snippet: string; highlights: [number, number][] } => {
+  const matches = findWords(content).filter(match =>
+    queryWords.has(match.word)
+  );
+
+  const first = matches[0]?.start ?? 0;
+  let start = Math.max(0, first - SNIPPET_LENGTH / 4);
+  // Start on a word boundary
+  if (start > 0) {
+    const space = content.indexOf(' ', start);
+    if (space !== -1 && space < first) start = space + 1;
+  }
+  const end = Math.min(content.length, start + SNIPPET_LENGTH);
+
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < content.length ? '…' : '';
+  const snippet =
+    prefix + content.substring(start, end).replace(/\s+/g, ' ') + suffix;
+
+  // Whitespace collapsing changes offsets, so locate words in the snippet
+  const highlights = findWords(snippet)
+    .filter(match => queryWords.has(match.word))
+    .map(match => [match.start, match.end] as [number, number]);
+
+  return { snippet, highlights };
+};
+
+class SearchService {
+  // Only SQLite storage has an index; JSON storage is scanned instead
+  isAvailable(): boolean {
+    return isDatabaseInitialized();
+  }
+
+  /**
+   * Brings the index in line with the session's messages. Called from
+   * storage.saveSession, so it runs inside the save transaction.
+   */
+  indexSession(session: ChatSession, userId: string): void {
+    const db = getDatabase();
+    const existing = new Map(
+      (
+        db
+          .prepare(
+            'SELECT id, message_id, content_hash FROM message_search_docs WHERE session_id = ?'
+          )
+          .all(session.id) as IndexedDocRow[]
+      ).map(row => [row.message_id, row])
+    );
+
+    const deleteDoc = db.prepare(
+      'DELETE FROM message_search_docs WHERE id = ?'
+    );
+    const insertDoc = db.prepare(`
+      INSERT INTO message_search_docs (message_id, session_id, user_id, content_hash)
+      VALUES (?, ?, ?, ?)
+    `);
+    const insertTokens = db.prepare(
+      'INSERT INTO message_search (rowid, tokens) VALUES (?, ?)'
+    );
+
+    const hashCache = new Map<string, string>();
+
+    // Only the conversation itself is searchable, not prompts or tool output
+    const searchable = session.messages.filter(
+      msg => (msg.role === 'user' || msg.role === 'assistant') && msg.content
+    );
+
+    for (const message of searchable) {
+      const contentHash = encryptionService.blindIndex(message.content);
+      const indexed = existing.get(message.id);
+      existing.delete(message.id);
+
+      if (indexed?.content_hash === contentHash) continue;
+      if (indexed) deleteDoc.run(indexed.id);
+
+      const tokens = this.hashWords(message.content, hashCache);
+      const { lastInsertRowid } = insertDoc.run(
+        message.id,
+        session.id,
+        userId,
+        contentHash
+      );
+      insertTokens.run(lastInsertRowid, tokens);
+    }
+
+    // Whatever is left was deleted from the session
+    existing.forEach(row => deleteDoc.run(row.id));
+  }
+
+  // The words of the text as index tokens, hashing each distinct word once
+  private hashWords(text: string, hashCache: Map<string, string>): string {
+    return findWords(text)
+      .map(match => {
+        let hash = hashCache.get(match.word);
+        if (!hash) {
+          hash = encryptionService.blindIndex(match.word);
+          hashCache.set(match.word, hash);
+        }
+        return hash;
+      })
+      .join(' ');
+  }
+
+  removeSession(sessionId: string): void {
+    getDatabase()
+      .prepare('DELETE FROM message_search_docs WHERE session_id = ?')
+      .run(sessionId);
+  }
+
+  removeUserSessions(userId: string): void {
+    getDatabase()
+      .prepare('DELETE FROM message_search_docs WHERE user_id = ?')
+      .run(userId);
+  }
+
+  // Index sessions saved before search existed, in one transaction
+  indexSessions(sessions: ChatSession[], userId: string): void {
+    getDatabase().transaction(() => {
+      sessions.forEach(session => this.indexSession(session, userId));
+    })();
+  }
+
+  /**
+   * Messages containing every word of the query, best BM25 match first
+   */
+  search(userId: string, queryWords: string[], limit: number): SearchHit[] {
+    if (queryWords.length === 0) return [];
+
+    const match = queryWords
+      .map(word => `"${encryptionService.blindIndex(word)}"`)
+      .join(' ');
+
+    const rows = getDatabase()
+      .prepare(
+        `SELECT d.message_id, d.session_id, bm25(message_search) AS score
+         FROM message_search
+         JOIN message_search_docs d ON d.id = message_search.rowid
+         JOIN sessions s ON s.id = d.session_id AND s.user_id = d.user_id
+         WHERE message_search MATCH ? AND d.user_id = ?
+         ORDER BY score
+         LIMIT ?`
+      )
+      .all(match, userId, limit) as {
+      message_id: string;
+      session_id: string;
+      score: number;
+    }[];
+
+    return rows.map(row => ({
+      messageId: row.message_id,
+      sessionId: row.session_id,
+      // bm25() is negative, lower is better
+      score: -row.score,
+    }));
+  }
+
+  /**
+   * Replaces the indexed chunks of a document. Called from
+   * storage.saveDocumentChunks, so it runs inside the save transaction.
+   */
+  indexDocumentChunks(documentId: string, chunks: DocumentChunk[]): void {
+    const db = getDatabase();
+    this.removeDocumentChunks(documentId);
+
+    const insertDoc = db.prepare(
+      'INSERT INTO document_chunk_search_docs (chunk_id, document_id) VALUES (?, ?)'
+    );
+    const insertTokens = db.prepare(
+      'INSERT INTO document_chunk_search (rowid, tokens) VALUES (?, ?)'
+    );
+
+    const hashCache = new Map<string, string>();
+    for (const chunk of chunks) {
+      const { lastInsertRowid } = insertDoc.run(chunk.id, documentId);
+      insertTokens.run(
+        lastInsertRowid,
+        this.hashWords(chunk.content, hashCache)
+      );
+    }
+  }
+
+  // Index documents saved before search existed, in one transaction
+  indexDocuments(documents: Array<[string, DocumentChunk[]]>): void {
+    getDatabase().transaction(() => {
+      documents.forEach(([documentId, chunks]) =>
+        this.indexDocumentChunks(documentId, chunks)
+      );
+    })();
+  }
+
+  removeDocumentChunks(documentId: string): void {
+    getDatabase()
+      .prepare('DELETE FROM document_chunk_search_docs WHERE document_id = ?')
+      .run(documentId);
+  }
+
+  // Documents with chunks in the index, to find the ones still to index
+  getIndexedDocumentIds(): Set<string> {
+    const rows = getDatabase()
+      .prepare('SELECT DISTINCT document_id FROM document_chunk_search_docs')
+      .all() as { document_id: string }[];
+    return new Set(rows.map(row => row.document_id));
+  }
+
+  /**
+   * Chunks of the given documents containing any word of the query, best
+   * BM25 match first
+   */
+  searchDocumentChunks(
+    queryWords: string[],
+    documentIds: string[],
+    limit: number
+  ): ChunkSearchHit[] {
+    if (queryWords.length === 0 || documentIds.length === 0) return [];
+
+    const match = queryWords
+      .map(word => `"${encryptionService.blindIndex(word)}"`)
+      .join(' OR ');
+
+    const rows = getDatabase()
+      .prepare(
+        `SELECT d.chunk_id, d.document_id, bm25(document_chunk_search) AS score
+         FROM document_chunk_search
+         JOIN document_chunk_search_docs d ON d.id = document_chunk_search.rowid
+         WHERE document_chunk_search MATCH ?
+         AND d.document_id IN (${documentIds.map(() => '?').join(', ')})
+         ORDER BY score
+         LIMIT ?`
+      )
+      .all(match, ...documentIds, limit) as {
+      chunk_id: string;
+      document_id: string;
+      score: number;
+    }[];
+
+    return rows.map(row => ({
+      chunkId: row.chunk_id,
+      documentId: row.document_id,
+      // bm25() is negative, lower is better
+      score: -row.score,
+    }));
+  }
+}
+
+export const searchService = new SearchService();
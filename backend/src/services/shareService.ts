@@ -0,0 +1,191 @@
+/*
+ * Libre WebUI
+ * Copyright (C) 2025 Kroonen AI, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at:
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import crypto from 'crypto';
+import getDatabase, { isDatabaseInitialized } from '../db.js';
+import {
+  ChatMessage,
+  ChatSession,
+  SessionShare,
+  SharedSession,
+} from '../types/index.js';
+import { encryptionService } from './encryptionService.js';
+import { getActiveBranch } from '../utils/messageTree.js';
+
+interface ShareRow {
+  token: string;
+  session_id: string;
+  user_id: string;
+  title: string;
+  snapshot: string;
+  created_at: number;
+  expires_at: number | null;
+}
+
+// Messages as stored in a snapshot; the model is shown per message
+type SharedMessages = Pick<SharedSession, 'model' | 'messages'>;
+
+/**
+ * What a share link shows of a conversation: the user's messages and the
+ * final replies, without system prompts, tool calls and results, reasoning,
+ * statistics or images, which can hold private data
+ */
+const toSharedMessages = (messages: ChatMessage[]): ChatMessage[] =>
+  messages
+    .filter(
+      msg =>
+        msg.role === 'user' ||
+        (msg.role === 'assistant' &&
+          !msg.toolCalls?.length &&
+          msg.content.trim() !== '')
+    )
+    .map(({ id, role, content, timestamp, model, artifacts }) => ({
+      id,
+      role,
+      content,
+      timestamp,
+      model,
+      artifacts,
+    }));
+
+/**
+ * Share links for sessions. A share is a snapshot of the branch being
+ * viewed when it was created, so later messages stay private. Snapshots
+ * are stored encrypted and only decrypted when the link is opened.
+ */
+class ShareService {
+  isAvailable(): boolean {
+    return isDatabaseInitialized();
+  }
+
+  createShare(
+    session: ChatSession,
+    userId: string,
+    expiresAt?: number
+  ): SessionShare {
+    const messages = toSharedMessages(getActiveBranch(session));
+    const snapshot: SharedMessages = { model: session.model, messages };
+
+    const share: SessionShare = {
+      token: crypto.randomBytes(24).toString('base64url'),
+      sessionId: session.id,
+      title: session.title,
+      createdAt: Date.now(),
+      expiresAt,
+    };
+
+    getDatabase()
+      .prepare(
+        `INSERT INTO session_shares
+         (token, session_id, user_id, title, snapshot, created_at, expires_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        share.token,
+        share.sessionId,
+        userId,
+        encryptionService.encrypt(share.title),
+        encryptionService.encrypt(JSON.stringify(snapshot)),
+        share.createdAt,
+        expiresAt ?? null
+      );
+
+    return share;
+  }
+
+  listShares(sessionId: string, userId: string): SessionShare[] {
+    this.removeExpired();
+    const rows = getDatabase()
+      .prepare(
+        `SELECT * FROM session_shares
+         WHERE session_id = ? AND user_id = ?
+         ORDER BY created_at DESC`
+      )
+      .all(sessionId, userId) as ShareRow[];
+    return rows.map(row => this.rowToShare(row));
+  }
+
+  /**
+   * Snapshot behind a share link, or undefined once the link was revoked
+   * or has expired
+   */
+  getSharedSession(token: string): SharedSession | undefined {
+    const row = getDatabase()
+      .prepare('SELECT * FROM session_shares WHERE token = ?')
+      .get(token) as ShareRow | undefined;
+    if (!row) return undefined;
+
+    if (row.expires_at !== null && row.expires_at <= Date.now()) {
+      this.removeExpired();
+      return undefined;
+    }
+
+    const snapshot = JSON.parse(
+      encryptionService.decrypt(row.snapshot)
+    ) as SharedMessages;
+    return {
+      title: encryptionService.decrypt(row.title),
+      model: snapshot.model,
+      // Snapshots taken before the filter existed hold more than they show
+      messages: toSharedMessages(snapshot.messages),
+      sharedAt: row.created_at,
+      expiresAt: row.expires_at ?? undefined,
+    };
+  }
+
+  revokeShare(token: string, sessionId: string, userId: string): boolean {
+    const result = getDatabase()
+      .prepare(
+        'DELETE FROM session_shares WHERE token = ? AND session_id = ? AND user_id = ?'
+      )
+      .run(token, sessionId, userId);
+    return result.changes > 0;
+  }
+
+  revokeSessionShares(sessionId: string, userId: string): number {
+    return getDatabase()
+      .prepare(
+        'DELETE FROM session_shares WHERE session_id = ? AND user_id = ?'
+      )
+      .run(sessionId, userId).changes;
+  }
+
+  removeUserShares(userId: string): void {
+    getDatabase()
+      .prepare('DELETE FROM session_shares WHERE user_id = ?')
+      .run(userId);
+  }
+
+  private removeExpired(): void {
+    getDatabase()
+      .prepare(
+        'DELETE FROM session_shares WHERE expires_at IS NOT NULL AND expires_at <= ?'
+      )
+      .run(Date.now());
+  }
+
+  private rowToShare(row: ShareRow): SessionShare {
+    return {
+      token: row.token,
+      sessionId: row.session_id,
+      title: encryptionService.decrypt(row.title),
+      createdAt: row.created_at,
+      expiresAt: row.expires_at ?? undefined,
+    };
+  }
+}
+
+export const shareService = new ShareService();
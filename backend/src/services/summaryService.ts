@@ -0,0 +1,203 @@
+/*
+ * Libre WebUI
+ * Copyright (C) 2025 Kroonen AI, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at:
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { v4 as uuidv4 } from 'uuid';
+import {
+  ChatMessage,
+  ConversationSummary,
+  GenerationOptions,
+} from '../types/index.js';
+import chatService from './chatService.js';
+import { contextService } from './contextService.js';
+import ollamaService from './ollamaService.js';
+import pluginService from './pluginService.js';
+import { estimateTokens } from '../utils/tokenUtils.js';
+
+const SUMMARY_INSTRUCTIONS =
+  'You maintain a running summary of a conversation between a user and an AI assistant. ' +
+  'Merge the new turns into the existing summary. Keep decisions, facts, names, open questions ' +
+  'and anything the user asked to remember; drop small talk. Write concise prose or bullet ' +
+  'points in the language of the conversation and reply with the updated summary only.';
+
+// Share of the prompt budget one summarization request may use
+const BATCH_BUDGET_RATIO = 0.5;
+
+interface PendingUpdate {
+  userId: string;
+  model: string;
+  options: Partial<GenerationOptions>;
+}
+
+class SummaryService {
+  private running = new Set<string>();
+  private pending = new Map<string, PendingUpdate>();
+
+  /**
+   * Folds evicted turns into the session summary in the background. Calls
+   * made while a session is already being summarized are coalesced into a
+   * single follow-up run.
+   */
+  scheduleUpdate(
+    sessionId: string,
+    userId: string,
+    model: string,
+    options: Partial<GenerationOptions> = {}
+  ): void {
+    if (this.running.has(sessionId)) {
+      this.pending.set(sessionId, { userId, model, options });
+      return;
+    }
+
+    this.running.add(sessionId);
+    this.updateSummary(sessionId, userId, model, options)
+      .catch(error => {
+        console.error(`Failed to summarize session ${sessionId}:`, error);
+      })
+      .finally(() => {
+        this.running.delete(sessionId);
+        const next = this.pending.get(sessionId);
+        if (next) {
+          this.pending.delete(sessionId);
+          this.scheduleUpdate(sessionId, next.userId, next.model, next.options);
+        }
+      });
+  }
+
+  /**
+   * Brings the summary up to date with the turns that no longer fit the
+   * model's context. A summary left behind by a branch switch is rebuilt
+   * from the new branch; with rebuild set the summary always starts over.
+   */
+  async updateSummary(
+    sessionId: string,
+    userId: string,
+    model: string,
+    options: Partial<GenerationOptions> = {},
+    rebuild = false
+  ): Promise<ConversationSummary | undefined> {
+    const session = chatService.getSession(sessionId, userId);
+    if (!session) return undefined;
+
+    if (session.summary && (rebuild || !chatService.getValidSummary(session))) {
+      chatService.setSummary(sessionId, undefined, userId);
+    }
+
+    const budget = await contextService.getBudget(model, options);
+    const { evicted } = chatService.getMessagesForContext(sessionId, budget);
+    let summary = session.summary;
+    if (evicted.length === 0) return summary;
+
+    const batchBudget = Math.floor(budget.promptBudget * BATCH_BUDGET_RATIO);
+    let batch: ChatMessage[] = [];
+    let batchTokens = estimateTokens(summary?.content || '');
+
+    const flush = async () => {
+      const content = await this.summarize(
+        model,
+        options,
+        summary?.content,
+        batch,
+        batchBudget
+      );
+      if (!content) {
+        throw new Error('Summarization returned no content');
+      }
+      summary = {
+        content,
+        coveredMessageId: batch[batch.length - 1].id,
+        edited: summary?.edited,
+        updatedAt: Date.now(),
+      };
+      chatService.setSummary(sessionId, summary, userId);
+      batch = [];
+      batchTokens = estimateTokens(content);
+    };
+
+    for (const message of evicted) {
+      const tokens = estimateTokens(message.content);
+      if (batch.length > 0 && batchTokens + tokens > batchBudget) {
+        await flush();
+      }
+      batch.push(message);
+      batchTokens += tokens;
+    }
+    await flush();
+
+    console.log(
+      `Summarized ${evicted.length} evicted messages for session ${sessionId}`
+    );
+    return summary;
+  }
+
+  private async summarize(
+    model: string,
+    options: Partial<GenerationOptions>,
+    previous: string | undefined,
+    messages: ChatMessage[],
+    batchBudget: number
+  ): Promise<string> {
+    // A single oversized turn is cut rather than skipped
+    const maxChars = batchBudget * 4;
+    const transcript = messages
+      .filter(msg => msg.content.trim())
+      .map(msg => {
+        const speaker =
+          msg.role === 'tool' ? `tool ${msg.toolName || ''}` : msg.role;
+        const content =
+          msg.content.length > maxChars
+            ? `${msg.content.substring(0, maxChars)}…`
+            : msg.content;
+        return `${speaker.trim()}: ${content}`;
+      })
+      .join('\n\n');
+
+    const prompt =
+      (previous ? `Existing summary:\n${previous}\n\n` : '') +
+      `New conversation turns:\n${transcript}`;
+
+    const messagesForModel: ChatMessage[] = [
+      {
+        id: uuidv4(),
+        role: 'system',
+        content: SUMMARY_INSTRUCTIONS,
+        timestamp: Date.now(),
+      },
+      { id: uuidv4(), role: 'user', content: prompt, timestamp: Date.now() },
+    ];
+
+    if (pluginService.getActivePluginForModel(model)) {
+      const response = await pluginService.executePluginRequest(
+        model,
+        messagesForModel,
+        options
+      );
+      return (response.choices[0]?.message?.content || '').trim();
+    }
+
+    const response = await ollamaService.generateChatResponse({
+      model,
+      messages: messagesForModel.map(msg => ({
+        role: msg.role,
+        content: msg.content,
+      })),
+      stream: false,
+      options: options as Record<string, unknown>,
+    });
+    return response.message.content.trim();
+  }
+}
+
+export const summaryService = new SummaryService();
@@ -0,0 +1,170 @@
+/*
+ * Libre WebUI
+ * Copyright (C) 2025 Kroonen AI, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at:
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { v4 as uuidv4 } from 'uuid';
+import { ChatMessage, ChatSession } from '../types/index.js';
+import chatService from './chatService.js';
+import { getActiveBranch } from '../utils/messageTree.js';
+import ollamaService from './ollamaService.js';
+import pluginService from './pluginService.js';
+import preferencesService from './preferencesService.js';
+
+const TITLE_INSTRUCTIONS =
+  'Write a short title of 3 to 6 words for the conversation below, in the language of the ' +
+  'conversation. Reply with the title only: no quotes, no trailing punctuation, no explanation.';
+
+// Characters of each message shown to the title model
+const MAX_EXCERPT_LENGTH = 1000;
+const MAX_TITLE_LENGTH = 60;
+
+class TitleService {
+  private inFlight = new Set<string>();
+
+  /**
+   * Replaces the placeholder title of a session with one written by a model
+   * once the first reply is in. Titles the user has set are left alone.
+   * Resolves to the updated session, or undefined when nothing changed.
+   */
+  async generateTitle(
+    sessionId: string,
+    userId: string,
+    sessionModel: string
+  ): Promise<ChatSession | undefined> {
+    if (this.inFlight.has(sessionId)) return undefined;
+
+    const session = chatService.getSession(sessionId, userId);
+    if (!session || !this.needsTitle(session)) return undefined;
+
+    const branch = getActiveBranch(session);
+    const firstUser = branch.find(msg => msg.role === 'user');
+    const [firstReply] = this.finalReplies(branch);
+    if (!firstUser || !firstReply) return undefined;
+
+    const model =
+      preferencesService.getPreferences(userId).titleModel || sessionModel;
+
+    this.inFlight.add(sessionId);
+    try {
+      const title = await this.requestTitle(model, firstUser, firstReply);
+      if (!title) return undefined;
+
+      // The user may have renamed the chat while the title was generated
+      const current = chatService.getSession(sessionId, userId);
+      if (!current || !this.needsTitle(current)) return undefined;
+
+      console.log(`Generated title for session ${sessionId} with ${model}`);
+      return await chatService.updateSession(sessionId, { title }, userId);
+    } catch (error) {
+      console.error(
+        `Failed to generate title for session ${sessionId}:`,
+        error
+      );
+      return undefined;
+    } finally {
+      this.inFlight.delete(sessionId);
+    }
+  }
+
+  // Replies shown to the user, leaving out turns that only called tools
+  private finalReplies(branch: ChatMessage[]): ChatMessage[] {
+    return branch.filter(
+      msg =>
+        msg.role === 'assistant' && !msg.toolCalls?.length && msg.content.trim()
+    );
+  }
+
+  // Only the first reply on the branch being viewed triggers a title, and
+  // only over a placeholder
+  private needsTitle(session: ChatSession): boolean {
+    const branch = getActiveBranch(session);
+    if (this.finalReplies(branch).length !== 1) return false;
+
+    const firstUser = branch.find(msg => msg.role === 'user');
+    return (
+      session.title === 'New Chat' ||
+      (!!firstUser &&
+        session.title === chatService.generateTitle(firstUser.content))
+    );
+  }
+
+  private async requestTitle(
+    model: string,
+    userMessage: ChatMessage,
+    reply: ChatMessage
+  ): Promise<string> {
+    const excerpt = (content: string) =>
+      content.length > MAX_EXCERPT_LENGTH
+        ? `${content.substring(0, MAX_EXCERPT_LENGTH)}…`
+        : content;
+
+    const messages: ChatMessage[] = [
+      {
+        id: uuidv4(),
+        role: 'system',
+        content: TITLE_INSTRUCTIONS,
+        timestamp: Date.now(),
+      },
+      {
+        id: uuidv4(),
+        role: 'user',
+        content: `User: ${excerpt(userMessage.content)}\n\nAssistant: ${excerpt(reply.content)}`,
+        timestamp: Date.now(),
+      },
+    ];
+
+    if (pluginService.getActivePluginForModel(model)) {
+      const response = await pluginService.executePluginRequest(
+        model,
+        messages,
+        { temperature: 0.3 }
+      );
+      return this.cleanTitle(response.choices[0]?.message?.content || '');
+    }
+
+    const capabilities = await ollamaService.getModelCapabilities(model);
+    const response = await ollamaService.generateChatResponse({
+      model,
+      messages: messages.map(msg => ({ role: msg.role, content: msg.content })),
+      stream: false,
+      ...(capabilities.includes('thinking') && { think: false }),
+      options: { temperature: 0.3, num_predict: 32 },
+    });
+    return this.cleanTitle(response.message.content);
+  }
+
+  // Models like to wrap titles in quotes, markdown or a "Title:" label
+  private cleanTitle(raw: string): string {
+    const line =
+      raw
+        .replace(/<think>[\s\S]*?<\/think>/g, '')
+        .split('\n')
+        .map(part => part.trim())
+        .find(Boolean) || '';
+
+    const unwrap = (text: string) =>
+      text.replace(/^[#*_"'`“”‘’\s]+|[#*_"'`“”‘’\s]+$/g, '');
+    let title = unwrap(unwrap(line).replace(/^title\s*:\s*/i, ''))
+      .replace(/[.!?:;,]+$/, '')
+      .trim();
+
+    if (title.length > MAX_TITLE_LENGTH) {
+      title = title.substring(0, MAX_TITLE_LENGTH - 3).trimEnd() + '...';
+    }
+    return title;
+  }
+}
+
+export const titleService = new TitleService();
@@ -0,0 +1,369 @@
+/*
+ * Libre WebUI
+ * Copyright (C) 2025 Kroonen AI, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at:
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import ollamaService from './ollamaService.js';
+import documentService from './documentService.js';
+import { memoryService } from './memoryService.js';
+import { personaService } from './personaService.js';
+import { mcpService } from './mcpService.js';
+import { formatChunkSource } from './documentChunkers.js';
+import { ToolCall } from '../types/index.js';
+
+// Who a tool call is being executed for
+export interface ToolContext {
+  userId: string;
+  sessionId: string;
+  personaId?: string;
+}
+
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  // JSON schema describing the function arguments
+  parameters: Record<string, unknown>;
+  // Hide the tool from the model when it cannot work in this context
+  isAvailable?: (context: ToolContext) => boolean;
+  execute: (
+    args: Record<string, unknown>,
+    context: ToolContext
+  ) => Promise<string>;
+}
+
+// Maximum number of call/execute rounds before the model must answer
+export const MAX_TOOL_STEPS = 5;
+
+/**
+ * Evaluate an arithmetic expression without handing it to eval().
+ * Supports + - * / % ^, parentheses, common functions and pi/e.
+ */
+export const evaluateExpression = (expression: string): number => {
+  const tokens = expression.match(/\d+\.?\d*(?:e[+-]?\d+)?|\.\d+|[a-z]+|\S/gi);
+  if (!tokens) {
+    throw new Error('Empty expression');
+  }
+
+  const functions: Record<string, (value: number) => number> = {
+    sqrt: Math.sqrt,
+    abs: Math.abs,
+    sin: Math.sin,
+    cos: Math.cos,
+    tan: Math.tan,
+    log: Math.log10,
+    ln: Math.log,
+    exp: Math.exp,
+    round: Math.round,
+    floor: Math.floor,
+    ceil: Math.ceil,
+  };
+  const constants: Record<string, number> = { pi: Math.PI, e: Math.E };
+
+  let position = 0;
+  const peek = () => tokens[position];
+  const next = () => tokens[position++];
+  const expect = (token: string) => {
+    if (next() !== token) {
+      throw new Error(`Expected '${token}'`);
+    }
+  };
+
+  const parsePrimary = (): number => {
+    const token = next();
+    if (token === undefined) {
+      throw new Error('Unexpected end of expression');
+    }
+    if (token === '(') {
+      const value = parseSum();
+      expect(')');
+      return value;
+    }
+    if (token === '-') return -parsePower();
+    if (token === '+') return parsePower();
+    if (/^[\d.]/.test(token)) return parseFloat(token);
+
+    const name = token.toLowerCase();
+    if (name in constants) return constants[name];
+    if (name in functions) {
+      expect('(');
+      const value = parseSum();
+      expect(')');
+      return functions[name](value);
+    }
+    throw new Error(`Unknown token '${token}'`);
+  };
+
+  // Exponentiation is right-associative
+  const parsePower = (): number => {
+    const base = parsePrimary();
+    if (peek() === '^') {
+      next();
+      return Math.pow(base, parsePower());
+    }
+    return base;
+  };
+
+  const parseProduct = (): number => {
+    let value = parsePower();
+    while (peek() === '*' || peek() === '/' || peek() === '%') {
+      const operator = next();
+      const right = parsePower();
+      if (operator === '*') value *= right;
+      else if (operator === '/') value /= right;
+      else value %= right;
+    }
+    return value;
+  };
+
+  const parseSum = (): number => {
+    let value = parseProduct();
+    while (peek() === '+' || peek() === '-') {
+      const operator = next();
+      const right = parseProduct();
+      value = operator === '+' ? value + right : value - right;
+    }
+    return value;
+  };
+
+  const result = parseSum();
+  if (position < tokens.length) {
+    throw new Error(`Unexpected token '${peek()}'`);
+  }
+  return result;
+};
+
+const builtinTools: ToolDefinition[] = [
+  {
+    name: 'calculator',
+    description:
+      'Evaluate an arithmetic expression. Supports + - * / % ^, parentheses, sqrt, abs, sin, cos, tan, log, ln, exp, round, floor, ceil, pi and e.',
+    parameters: {
+      type: 'object',
+      properties: {
+        expression: {
+          type: 'string',
+          description: 'The expression to evaluate, e.g. "(3 + 4) * 2 ^ 3"',
+        },
+      },
+      required: ['expression'],
+    },
+    execute: async args => {
+      const expression = String(args.expression ?? '');
+      const result = evaluateExpression(expression);
+      if (!Number.isFinite(result)) {
+        throw new Error('Result is not a finite number');
+      }
+      return `${expression} = ${result}`;
+    },
+  },
+  {
+    name: 'get_current_time',
+    description:
+      'Get the current date and time, optionally in a specific IANA time zone.',
+    parameters: {
+      type: 'object',
+      properties: {
+        timezone: {
+          type: 'string',
+          description: 'IANA time zone such as "Europe/Amsterdam". Optional.',
+        },
+      },
+    },
+    execute: async args => {
+      const now = new Date();
+      const timeZone =
+        typeof args.timezone === 'string' && args.timezone
+          ? args.timezone
+          : undefined;
+      const formatted = now.toLocaleString('en-US', {
+        timeZone,
+        dateStyle: 'full',
+        timeStyle: 'long',
+      });
+      return `${formatted} (ISO: ${now.toISOString()})`;
+    },
+  },
+  {
+    name: 'search_documents',
+    description:
+      'Search the documents uploaded to this chat and return the most relevant passages.',
+    parameters: {
+      type: 'object',
+      properties: {
+        query: {
+          type: 'string',
+          description: 'What to look for in the documents',
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum number of passages to return (default 3)',
+        },
+      },
+      required: ['query'],
+    },
+    execute: async (args, context) => {
+      const limit =
+        typeof args.limit === 'number'
+          ? Math.min(Math.max(args.limit, 1), 10)
+          : 3;
+      const chunks = await documentService.searchDocuments(
+        String(args.query ?? ''),
+        context.sessionId,
+        limit
+      );
+
+      if (chunks.length === 0) {
+        return 'No matching passages found in the uploaded documents.';
+      }
+      return chunks
+        .map(
+          (chunk, index) =>
+            `[${index + 1}] ${formatChunkSource(chunk)}:\n${chunk.content}`
+        )
+        .join('\n\n');
+    },
+  },
+  {
+    name: 'search_memories',
+    description:
+      'Look up what you remember about the user from earlier conversations.',
+    parameters: {
+      type: 'object',
+      properties: {
+        query: {
+          type: 'string',
+          description: 'What to recall',
+        },
+      },
+      required: ['query'],
+    },
+    // Memories are stored per persona
+    isAvailable: context => !!context.personaId,
+    execute: async (args, context) => {
+      const persona = await personaService.getPersonaById(
+        context.personaId!,
+        context.userId
+      );
+      const embeddingModel = persona?.embedding_model || 'nomic-embed-text';
+      const memories = await memoryService.searchMemories(
+        context.userId,
+        context.personaId!,
+        String(args.query ?? ''),
+        embeddingModel
+      );
+
+      if (memories.length === 0) {
+        return 'No relevant memories found.';
+      }
+      return memories
+        .map(
+          memory =>
+            `- ${memory.entry.content} (relevance ${memory.similarity_score.toFixed(2)})`
+        )
+        .join('\n');
+    },
+  },
+];
+
+class ToolService {
+  private tools = new Map<string, ToolDefinition>();
+
+  constructor() {
+    builtinTools.forEach(tool => this.registerTool(tool));
+  }
+
+  registerTool(tool: ToolDefinition): void {
+    this.tools.set(tool.name, tool);
+  }
+
+  getTools(context: ToolContext): ToolDefinition[] {
+    return Array.from(this.tools.values()).filter(
+      tool => !tool.isAvailable || tool.isAvailable(context)
+    );
+  }
+
+  // Tool list in the format expected by Ollama's /api/chat, including the
+  // tools of the user's enabled MCP servers
+  async getToolSchemas(
+    context: ToolContext
+  ): Promise<Record<string, unknown>[]> {
+    const schemas = this.getTools(context).map(tool => ({
+      type: 'function',
+      function: {
+        name: tool.name,
+        description: tool.description,
+        parameters: tool.parameters,
+      },
+    }));
+
+    const mcpTools = await mcpService.getToolBindings(context.userId);
+    for (const binding of mcpTools) {
+      schemas.push({
+        type: 'function',
+        function: {
+          name: binding.qualifiedName,
+          description: binding.tool.description || `${binding.tool.name} (MCP)`,
+          parameters: binding.tool.inputSchema || {
+            type: 'object',
+            properties: {},
+          },
+        },
+      });
+    }
+
+    return schemas;
+  }
+
+  async modelSupportsTools(model: string): Promise<boolean> {
+    const capabilities = await ollamaService.getModelCapabilities(model);
+    return capabilities.includes('tools');
+  }
+
+  // Run a tool call and return its output. Failures are reported back to the
+  // model as text so it can recover instead of aborting the response.
+  async executeToolCall(call: ToolCall, context: ToolContext): Promise<string> {
+    try {
+      // Some models send arguments as a JSON string
+      const rawArgs = call.function.arguments as unknown;
+      const args =
+        typeof rawArgs === 'string'
+          ? (JSON.parse(rawArgs) as Record<string, unknown>)
+          : rawArgs && typeof rawArgs === 'object'
+            ? (rawArgs as Record<string, unknown>)
+            : {};
+
+      const tool = this.tools.get(call.function.name);
+      if (tool && (!tool.isAvailable || tool.isAvailable(context))) {
+        return await tool.execute(args, context);
+      }
+
+      const mcpResult = await mcpService.executeToolCall(
+        context.userId,
+        call,
+        args
+      );
+      if (mcpResult !== null) {
+        return mcpResult;
+      }
+
+      return `Error: unknown tool "${call.function.name}"`;
+    } catch (error) {
+      console.error(`Tool ${call.function.name} failed:`, error);
+      return `Error: ${error instanceof Error ? error.message : String(error)}`;
+    }
+  }
+}
+
+export default new ToolService();
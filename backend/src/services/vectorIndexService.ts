@@ -0,0 +1,173 @@
+/*
+ * Libre WebUI
+ * Copyright (C) 2025 Kroonen AI, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at:
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import fs from 'fs';
+import path from 'path';
+import {
+  VectorIndex,
+  VectorSearchOptions,
+  VectorSearchResult,
+} from '../utils/vectorIndex.js';
+import { encryptionService } from './encryptionService.js';
+
+const INDEX_DIR = path.join(
+  process.env.DATA_DIR || path.join(process.cwd(), 'backend', 'data'),
+  'vectors'
+);
+
+// Changes are written out once they have settled for this long
+const SAVE_DELAY_MS = 5000;
+
+/**
+ * A vector index kept in memory and saved to the data directory, encrypted
+ * like the rest of the data at rest. Writes are batched, so the services
+ * that own an index call `sync` at startup to put back anything a crash
+ * lost.
+ */
+class PersistentVectorIndex {
+  private index?: VectorIndex;
+  private saveTimer?: NodeJS.Timeout;
+  private dirty = false;
+
+  constructor(private name: string) {}
+
+  private get filePath(): string {
+    return path.join(INDEX_DIR, `${this.name}.idx`);
+  }
+
+  private load(): VectorIndex {
+    if (this.index) return this.index;
+    try {
+      if (fs.existsSync(this.filePath)) {
+        const data = encryptionService.decryptBuffer(
+          fs.readFileSync(this.filePath)
+        );
+        this.index = VectorIndex.deserialize(data);
+        console.log(
+          `[VectorIndex] Loaded ${this.index.size} vectors into the ${this.name} index`
+        );
+      }
+    } catch (error) {
+      console.warn(
+        `[VectorIndex] Could not read the ${this.name} index, rebuilding it:`,
+        error
+      );
+    }
+    this.index = this.index || new VectorIndex();
+    return this.index;
+  }
+
+  private scheduleSave(): void {
+    this.dirty = true;
+    if (this.saveTimer) return;
+    this.saveTimer = setTimeout(() => this.save(), SAVE_DELAY_MS);
+    this.saveTimer.unref();
+  }
+
+  save(): void {
+    clearTimeout(this.saveTimer);
+    this.saveTimer = undefined;
+    if (!this.index || !this.dirty) return;
+    this.dirty = false;
+    try {
+      fs.mkdirSync(INDEX_DIR, { recursive: true });
+      const tempPath = `${this.filePath}.tmp`;
+      fs.writeFileSync(
+        tempPath,
+        encryptionService.encryptBuffer(this.index.serialize())
+      );
+      fs.renameSync(tempPath, this.filePath);
+    } catch (error) {
+      console.error(
+        `[VectorIndex] Failed to save the ${this.name} index:`,
+        error
+      );
+    }
+  }
+
+  get size(): number {
+    return this.load().size;
+  }
+
+  has(id: string): boolean {
+    return this.load().has(id);
+  }
+
+  add(id: string, vector: ArrayLike<number>, group: string): void {
+    this.load().add(id, vector, group);
+    this.scheduleSave();
+  }
+
+  remove(id: string): void {
+    if (this.load().remove(id)) this.scheduleSave();
+  }
+
+  removeGroup(group: string): void {
+    if (this.load().removeGroup(group) > 0) this.scheduleSave();
+  }
+
+  search(
+    query: ArrayLike<number>,
+    k: number,
+    options?: VectorSearchOptions
+  ): VectorSearchResult[] {
+    return this.load().search(query, k, options);
+  }
+
+  similarity(query: ArrayLike<number>, ids: string[]): Map<string, number> {
+    return this.load().similarity(query, ids);
+  }
+
+  /**
+   * Makes the index hold exactly the given entries: drops vectors that are
+   * gone and adds missing ones, fetching only their vectors.
+   */
+  sync(
+    entries: Array<{ id: string; group: string }>,
+    getVectors: (ids: string[]) => Map<string, ArrayLike<number>>
+  ): void {
+    const index = this.load();
+    const expected = new Set(entries.map(entry => entry.id));
+    const stale = index.ids().filter(id => !expected.has(id));
+    stale.forEach(id => index.remove(id));
+
+    const missing = entries.filter(entry => !index.has(entry.id));
+    if (missing.length > 0) {
+      console.log(
+        `[VectorIndex] Adding ${missing.length} vectors to the ${this.name} index`
+      );
+      const vectors = getVectors(missing.map(entry => entry.id));
+      for (const entry of missing) {
+        const vector = vectors.get(entry.id);
+        if (vector) index.add(entry.id, vector, entry.group);
+      }
+    }
+
+    if (stale.length > 0 || missing.length > 0) {
+      this.dirty = true;
+      this.save();
+    }
+  }
+}
+
+export const documentVectorIndex = new PersistentVectorIndex('documents');
+export const memoryVectorIndex = new PersistentVectorIndex('memories');
+
+// Writes out pending changes, for shutdown
+export const flushVectorIndexes = (): void => {
+  documentVectorIndex.save();
+  memoryVectorIndex.save();
+};
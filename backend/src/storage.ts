@@ -21,8 +21,19 @@ import { fileURLToPath } from 'url';
 import { v4 as uuidv4 } from 'uuid';
 import bcrypt from 'bcrypt';
 import getDatabase, { isDatabaseInitialized } from './db.js';
-import { ChatSession, DocumentChunk, UserPreferences } from './types/index.js';
+import {
+  ChatFolder,
+  ChatMessage,
+  ChatSession,
+  ConversationSummary,
+  DocumentChunk,
+  DocumentFileType,
+  UserPreferences,
+} from './types/index.js';
 import { encryptionService } from './services/encryptionService.js';
+import { searchService } from './services/searchService.js';
+import { shareService } from './services/shareService.js';
+import { documentVectorIndex } from './services/vectorIndexService.js';
 
 // Get __dirname equivalent for ES modules
 const __filename = fileURLToPath(import.meta.url);
@@ -34,7 +45,7 @@ export interface Document {
   filename: string;
   title?: string;
   content?: string;
-  fileType?: 'pdf' | 'txt';
+  fileType?: DocumentFileType;
   size?: number;
   sessionId?: string;
   uploadedAt: number;
@@ -49,6 +60,21 @@ interface SessionRow {
   title: string;
   model: string;
   persona_id?: string;
+  active_message_id?: string;
+  summary?: string;
+  folder_id?: string;
+  tags?: string;
+  pinned?: number;
+  archived?: number;
+  created_at: number;
+  updated_at: number;
+}
+
+interface FolderRow {
+  id: string;
+  user_id: string;
+  name: string;
+  parent_id?: string;
   created_at: number;
   updated_at: number;
 }
@@ -64,6 +90,12 @@ interface MessageRow {
   images?: string;
   statistics?: string;
   artifacts?: string;
+  tool_calls?: string;
+  tool_name?: string;
+  thinking?: string;
+  parent_id?: string;
+  sibling_index?: number;
+  citations?: string;
 }
 
 interface DocumentRow {
@@ -89,6 +121,8 @@ interface DocumentChunkRow {
   chunk_index: number;
   start_char: number;
   end_char: number;
+  page_number?: number | null;
+  section_path?: string | null;
   metadata?: string;
 }
 
@@ -107,6 +141,7 @@ class StorageService {
   private sessionsFile = path.join(__dirname, '..', 'sessions.json');
   private preferencesFile = path.join(__dirname, '..', 'preferences.json');
   private documentsFile = path.join(__dirname, '..', 'documents.json');
+  private foldersFile = path.join(__dirname, '..', 'folders.json');
   private documentChunksFile = path.join(
     __dirname,
     '..',
@@ -220,45 +255,12 @@ class StorageService {
         SELECT * FROM session_messages WHERE session_id = ? ORDER BY message_index ASC
       `);
 
-      return sessions.map(session => {
-        const messages = messagesStmt.all(session.id) as MessageRow[];
-
-        // Decrypt session data
-        const decryptedTitle = encryptionService.decrypt(session.title);
-
-        return {
-          id: session.id,
-          title: decryptedTitle,
-          model: session.model,
-          personaId: session.persona_id || undefined,
-          createdAt: session.created_at,
-          updatedAt: session.updated_at,
-          messages: messages.map(msg => {
-            // Decrypt message data
-            const decryptedContent = encryptionService.decrypt(msg.content);
-            const decryptedImages = msg.images
-              ? JSON.parse(encryptionService.decrypt(msg.images))
-              : undefined;
-            const decryptedStatistics = msg.statistics
-              ? JSON.parse(encryptionService.decrypt(msg.statistics))
-              : undefined;
-            const decryptedArtifacts = msg.artifacts
-              ? JSON.parse(encryptionService.decrypt(msg.artifacts))
-              : undefined;
-
-            return {
-              id: msg.id,
-              role: msg.role as 'user' | 'assistant' | 'system',
-              content: decryptedContent,
-              timestamp: msg.timestamp,
-              model: msg.model,
-              images: decryptedImages,
-              statistics: decryptedStatistics,
-              artifacts: decryptedArtifacts,
-            };
-          }),
-        };
-      });
+      return sessions.map(session =>
+        this.mapSessionRow(
+          session,
+          messagesStmt.all(session.id) as MessageRow[]
+        )
+      );
     } else {
       // Fallback to JSON
       try {
@@ -274,6 +276,71 @@ class StorageService {
     return [];
   }
 
+  private mapSessionRow(
+    session: SessionRow,
+    messages: MessageRow[]
+  ): ChatSession {
+    return {
+      id: session.id,
+      title: encryptionService.decrypt(session.title),
+      model: session.model,
+      personaId: session.persona_id || undefined,
+      activeMessageId: session.active_message_id || undefined,
+      summary: this.decryptSummary(session.summary),
+      folderId: session.folder_id || undefined,
+      tags: session.tags
+        ? JSON.parse(encryptionService.decrypt(session.tags))
+        : undefined,
+      pinned: !!session.pinned || undefined,
+      archived: !!session.archived || undefined,
+      createdAt: session.created_at,
+      updatedAt: session.updated_at,
+      messages: messages.map(msg => this.mapMessageRow(msg)),
+    };
+  }
+
+  private decryptSummary(summary?: string): ConversationSummary | undefined {
+    return summary ? JSON.parse(encryptionService.decrypt(summary)) : undefined;
+  }
+
+  // Decrypt a session_messages row into a chat message
+  private mapMessageRow(msg: MessageRow): ChatMessage {
+    const decryptedContent = encryptionService.decrypt(msg.content);
+    const decryptedImages = msg.images
+      ? JSON.parse(encryptionService.decrypt(msg.images))
+      : undefined;
+    const decryptedStatistics = msg.statistics
+      ? JSON.parse(encryptionService.decrypt(msg.statistics))
+      : undefined;
+    const decryptedArtifacts = msg.artifacts
+      ? JSON.parse(encryptionService.decrypt(msg.artifacts))
+      : undefined;
+    const decryptedToolCalls = msg.tool_calls
+      ? JSON.parse(encryptionService.decrypt(msg.tool_calls))
+      : undefined;
+
+    return {
+      id: msg.id,
+      role: msg.role as ChatMessage['role'],
+      content: decryptedContent,
+      timestamp: msg.timestamp,
+      model: msg.model,
+      images: decryptedImages,
+      statistics: decryptedStatistics,
+      artifacts: decryptedArtifacts,
+      toolCalls: decryptedToolCalls,
+      toolName: msg.tool_name || undefined,
+      thinking: msg.thinking
+        ? encryptionService.decrypt(msg.thinking)
+        : undefined,
+      parentId: msg.parent_id || undefined,
+      siblingIndex: msg.sibling_index ?? 0,
+      citations: msg.citations
+        ? JSON.parse(encryptionService.decrypt(msg.citations))
+        : undefined,
+    };
+  }
+
   getSession(sessionId: string, userId = 'default'): ChatSession | undefined {
     if (this.useSQLite) {
       const db = getDatabase();
@@ -294,40 +361,7 @@ class StorageService {
       `);
       const messages = messagesStmt.all(sessionId) as MessageRow[];
 
-      // Decrypt session data
-      const decryptedTitle = encryptionService.decrypt(session.title);
-
-      return {
-        id: session.id,
-        title: decryptedTitle,
-        model: session.model,
-        createdAt: session.created_at,
-        updatedAt: session.updated_at,
-        messages: messages.map(msg => {
-          // Decrypt message data
-          const decryptedContent = encryptionService.decrypt(msg.content);
-          const decryptedImages = msg.images
-            ? JSON.parse(encryptionService.decrypt(msg.images))
-            : undefined;
-          const decryptedStatistics = msg.statistics
-            ? JSON.parse(encryptionService.decrypt(msg.statistics))
-            : undefined;
-          const decryptedArtifacts = msg.artifacts
-            ? JSON.parse(encryptionService.decrypt(msg.artifacts))
-            : undefined;
-
-          return {
-            id: msg.id,
-            role: msg.role as 'user' | 'assistant' | 'system',
-            content: decryptedContent,
-            timestamp: msg.timestamp,
-            model: msg.model,
-            images: decryptedImages,
-            statistics: decryptedStatistics,
-            artifacts: decryptedArtifacts,
-          };
-        }),
-      };
+      return this.mapSessionRow(session, messages);
     } else {
       // Fallback to JSON
       const sessions = this.getAllSessions();
@@ -343,8 +377,8 @@ class StorageService {
       const transaction = db.transaction((session: ChatSession) => {
         // Insert or update session
         const sessionStmt = db.prepare(`
-          INSERT OR REPLACE INTO sessions (id, user_id, title, model, persona_id, created_at, updated_at)
-          VALUES (?, ?, ?, ?, ?, ?, ?)
+          INSERT OR REPLACE INTO sessions (id, user_id, title, model, persona_id, active_message_id, summary, folder_id, tags, pinned, archived, created_at, updated_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
         `);
 
         // Encrypt sensitive session data
@@ -356,6 +390,16 @@ class StorageService {
           encryptedTitle,
           session.model,
           session.personaId || null,
+          session.activeMessageId || null,
+          session.summary
+            ? encryptionService.encrypt(JSON.stringify(session.summary))
+            : null,
+          session.folderId || null,
+          session.tags && session.tags.length > 0
+            ? encryptionService.encrypt(JSON.stringify(session.tags))
+            : null,
+          session.pinned ? 1 : 0,
+          session.archived ? 1 : 0,
           session.createdAt,
           session.updatedAt
         );
@@ -369,8 +413,8 @@ class StorageService {
         // Insert messages
         if (session.messages && session.messages.length > 0) {
           const insertMessageStmt = db.prepare(`
-            INSERT INTO session_messages (id, session_id, role, content, timestamp, message_index, model, images, statistics, artifacts)
-            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+            INSERT INTO session_messages (id, session_id, role, content, timestamp, message_index, model, images, statistics, artifacts, tool_calls, tool_name, thinking, parent_id, sibling_index, citations)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
           `);
 
           session.messages.forEach((message, index) => {
@@ -385,9 +429,19 @@ class StorageService {
             const encryptedArtifacts = message.artifacts
               ? encryptionService.encrypt(JSON.stringify(message.artifacts))
               : null;
+            const encryptedToolCalls = message.toolCalls
+              ? encryptionService.encrypt(JSON.stringify(message.toolCalls))
+              : null;
+            const encryptedThinking = message.thinking
+              ? encryptionService.encrypt(message.thinking)
+              : null;
+            const encryptedCitations = message.citations
+              ? encryptionService.encrypt(JSON.stringify(message.citations))
+              : null;
 
+            // Keep message ids stable so branch links survive a reload
             insertMessageStmt.run(
-              uuidv4(),
+              message.id,
               session.id,
               message.role,
               encryptedContent,
@@ -396,10 +450,19 @@ class StorageService {
               message.model || null,
               encryptedImages,
               encryptedStatistics,
-              encryptedArtifacts
+              encryptedArtifacts,
+              encryptedToolCalls,
+              message.toolName || null,
+              encryptedThinking,
+              message.parentId || null,
+              message.siblingIndex ?? 0,
+              encryptedCitations
             );
           });
         }
+
+        // Content is only readable here, before it is encrypted
+        searchService.indexSession(session, userId);
       });
 
       transaction(session);
@@ -422,6 +485,20 @@ class StorageService {
     }
   }
 
+  /**
+   * Whether a message id is already used by another session. Only the
+   * database holds ids unique across sessions.
+   */
+  isMessageIdTaken(messageId: string, sessionId: string): boolean {
+    if (!this.useSQLite) return false;
+    const row = getDatabase()
+      .prepare(
+        'SELECT 1 FROM session_messages WHERE id = ? AND session_id != ?'
+      )
+      .get(messageId, sessionId);
+    return row !== undefined;
+  }
+
   deleteSession(sessionId: string, userId = 'default'): boolean {
     if (this.useSQLite) {
       const db = getDatabase();
@@ -429,6 +506,10 @@ class StorageService {
         'DELETE FROM sessions WHERE id = ? AND user_id = ?'
       );
       const result = stmt.run(sessionId, userId);
+      if (result.changes > 0) {
+        searchService.removeSession(sessionId);
+        shareService.revokeSessionShares(sessionId, userId);
+      }
       return result.changes > 0;
     } else {
       // Fallback to JSON
@@ -456,6 +537,8 @@ class StorageService {
       const db = getDatabase();
       const stmt = db.prepare('DELETE FROM sessions WHERE user_id = ?');
       const result = stmt.run(userId);
+      searchService.removeUserSessions(userId);
+      shareService.removeUserShares(userId);
       return result.changes;
     } else {
       // Fallback to JSON
@@ -471,6 +554,101 @@ class StorageService {
     }
   }
 
+  // =================================
+  // FOLDER MANAGEMENT
+  // =================================
+
+  getAllFolders(userId = 'default'): ChatFolder[] {
+    if (this.useSQLite) {
+      const rows = getDatabase()
+        .prepare(
+          'SELECT * FROM chat_folders WHERE user_id = ? ORDER BY created_at ASC'
+        )
+        .all(userId) as FolderRow[];
+
+      return rows.map(row => ({
+        id: row.id,
+        name: encryptionService.decrypt(row.name),
+        parentId: row.parent_id || undefined,
+        createdAt: row.created_at,
+        updatedAt: row.updated_at,
+      }));
+    } else {
+      // Fallback to JSON
+      try {
+        if (fs.existsSync(this.foldersFile)) {
+          const data = fs.readFileSync(this.foldersFile, 'utf8');
+          return JSON.parse(data) as ChatFolder[];
+        }
+      } catch (error) {
+        console.error('Failed to load folders from JSON:', error);
+      }
+    }
+
+    return [];
+  }
+
+  saveFolder(folder: ChatFolder, userId = 'default'): void {
+    if (this.useSQLite) {
+      getDatabase()
+        .prepare(
+          `INSERT OR REPLACE INTO chat_folders (id, user_id, name, parent_id, created_at, updated_at)
+           VALUES (?, ?, ?, ?, ?, ?)`
+        )
+        .run(
+          folder.id,
+          userId,
+          encryptionService.encrypt(folder.name),
+          folder.parentId || null,
+          folder.createdAt,
+          folder.updatedAt
+        );
+    } else {
+      // Fallback to JSON
+      try {
+        const folders = this.getAllFolders();
+        const existingIndex = folders.findIndex(f => f.id === folder.id);
+
+        if (existingIndex >= 0) {
+          folders[existingIndex] = folder;
+        } else {
+          folders.push(folder);
+        }
+
+        fs.writeFileSync(this.foldersFile, JSON.stringify(folders, null, 2));
+      } catch (error) {
+        console.error('Failed to save folder to JSON:', error);
+      }
+    }
+  }
+
+  deleteFolder(folderId: string, userId = 'default'): boolean {
+    if (this.useSQLite) {
+      const result = getDatabase()
+        .prepare('DELETE FROM chat_folders WHERE id = ? AND user_id = ?')
+        .run(folderId, userId);
+      return result.changes > 0;
+    } else {
+      // Fallback to JSON
+      try {
+        const folders = this.getAllFolders();
+        const filteredFolders = folders.filter(f => f.id !== folderId);
+
+        if (filteredFolders.length !== folders.length) {
+          fs.writeFileSync(
+            this.foldersFile,
+            JSON.stringify(filteredFolders, null, 2)
+          );
+          return true;
+        }
+      } catch (error) {
+        console.error('Failed to delete folder from JSON:', error);
+      }
+    }
+
+    return false;
+  }
+
   // =================================
   // PREFERENCES MANAGEMENT
   // =================================
@@ -635,7 +813,7 @@ class StorageService {
           filename: row.filename,
           title: decryptedTitle,
           content: decryptedContent,
-          fileType: row.file_type as 'pdf' | 'txt' | undefined,
+          fileType: row.file_type as DocumentFileType | undefined,
           size: row.size,
           sessionId: row.session_id,
           uploadedAt: row.uploaded_at,
@@ -684,7 +862,7 @@ class StorageService {
         filename: row.filename,
         title: decryptedTitle,
         content: decryptedContent,
-        fileType: row.file_type as 'pdf' | 'txt' | undefined,
+        fileType: row.file_type as DocumentFileType | undefined,
         size: row.size,
         sessionId: row.session_id,
         uploadedAt: row.uploaded_at,
@@ -812,6 +990,10 @@ class StorageService {
           chunkIndex: row.chunk_index,
           startChar: row.start_char,
           endChar: row.end_char,
+          pageNumber: row.page_number ?? undefined,
+          sectionPath: row.section_path
+            ? JSON.parse(encryptionService.decrypt(row.section_path))
+            : undefined,
           metadata: decryptedMetadata,
         };
       });
@@ -848,8 +1030,8 @@ class StorageService {
           if (chunks.length > 0) {
             const insertStmt = db.prepare(`
             INSERT INTO document_chunks 
-            (id, document_id, chunk_index, content, start_char, end_char, embedding, created_at)
-            VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+            (id, document_id, chunk_index, content, start_char, end_char, page_number, section_path, embedding, created_at)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
           `);
 
             chunks.forEach(chunk => {
@@ -866,11 +1048,17 @@ class StorageService {
                 encryptedContent,
                 chunk.startChar || null,
                 chunk.endChar || null,
+                chunk.pageNumber ?? null,
+                chunk.sectionPath
+                  ? encryptionService.encrypt(JSON.stringify(chunk.sectionPath))
+                  : null,
                 encryptedEmbedding,
                 now
               );
             });
           }
+
+          searchService.indexDocumentChunks(documentId, chunks);
         }
       );
 
@@ -893,15 +1081,26 @@ class StorageService {
         console.error('Failed to save document chunks to JSON:', error);
       }
     }
+
+    // Keep semantic search in step with the stored embeddings
+    documentVectorIndex.removeGroup(documentId);
+    for (const chunk of chunks) {
+      if (chunk.embedding) {
+        documentVectorIndex.add(chunk.id, chunk.embedding, documentId);
+      }
+    }
   }
 
   deleteDocumentChunks(documentId: string): boolean {
+    documentVectorIndex.removeGroup(documentId);
+
     if (this.useSQLite) {
       const db = getDatabase();
       const stmt = db.prepare(
         'DELETE FROM document_chunks WHERE document_id = ?'
       );
       const result = stmt.run(documentId);
+      searchService.removeDocumentChunks(documentId);
       return result.changes > 0;
     } else {
       // Fallback to JSON
@@ -0,0 +1,124 @@
+/*
+ * Libre WebUI
+ * Copyright (C) 2025 Kroonen AI, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at:
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+export interface RankedItem {
+  id: string;
+  score: number;
+}
+
+// Standard BM25 parameters: term frequency saturation and length damping
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+// Dampens the lead of the very top ranks, as in the original RRF paper
+const RRF_K = 60;
+
+// Common English words that match nearly every chunk and say nothing
+// about what the query is after
+const STOP_WORDS = new Set(
+  (
+    'a about after all also am an and any are as at be because been ' +
+    'before being but by can could did do does doing for from had has ' +
+    'have having he her here him his how i if in into is it its just me ' +
+    'more most my no not of on or other our out please she should so some ' +
+    'such than that the their them then there these they this those to ' +
+    'too up us very was we were what when where which who whom why will ' +
+    'with would you your'
+  ).split(' ')
+);
+
+/**
+ * The query words worth ranking on: distinct and without stop words, so
+ * "what is the" alone matches nothing
+ */
+export const keywordTerms = (words: string[]): string[] =>
+  Array.from(new Set(words)).filter(word => !STOP_WORDS.has(word));
+
+/**
+ * Okapi BM25 over documents given as lists of normalized words, best match
+ * first. Used where there is no full-text index to do it.
+ */
+export const bm25Rank = (
+  queryWords: string[],
+  documents: Array<{ id: string; words: string[] }>,
+  limit: number
+): RankedItem[] => {
+  if (queryWords.length === 0 || documents.length === 0) return [];
+
+  const terms = new Set(queryWords);
+  const frequencies = documents.map(document => {
+    const counts = new Map<string, number>();
+    for (const word of document.words) {
+      if (terms.has(word)) counts.set(word, (counts.get(word) || 0) + 1);
+    }
+    return counts;
+  });
+
+  const documentFrequency = new Map<string, number>();
+  for (const counts of frequencies) {
+    counts.forEach((_, term) =>
+      documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1)
+    );
+  }
+
+  const averageLength =
+    documents.reduce((total, document) => total + document.words.length, 0) /
+    documents.length;
+
+  const results: RankedItem[] = [];
+  documents.forEach((document, index) => {
+    const counts = frequencies[index];
+    if (counts.size === 0) return;
+
+    const lengthNorm =
+      1 - BM25_B + (BM25_B * document.words.length) / (averageLength || 1);
+    let score = 0;
+    counts.forEach((frequency, term) => {
+      const matching = documentFrequency.get(term) || 0;
+      const idf = Math.log(
+        1 + (documents.length - matching + 0.5) / (matching + 0.5)
+      );
+      score +=
+        (idf * frequency * (BM25_K1 + 1)) / (frequency + BM25_K1 * lengthNorm);
+    });
+    results.push({ id: document.id, score });
+  });
+
+  return results.sort((a, b) => b.score - a.score).slice(0, limit);
+};
+
+/**
+ * Reciprocal rank fusion: every ranking adds weight / (k + rank) to each
+ * item in it, so items placed well by several rankings come first without
+ * comparing BM25 and cosine scores directly. Rankings weighted 0 are left
+ * out.
+ */
+export const reciprocalRankFusion = (
+  rankings: Array<{ ids: string[]; weight: number }>
+): RankedItem[] => {
+  const scores = new Map<string, number>();
+  for (const { ids, weight } of rankings) {
+    if (weight <= 0) continue;
+    ids.forEach((id, index) =>
+      scores.set(id, (scores.get(id) || 0) + weight / (RRF_K + index + 1))
+    );
+  }
+
+  return Array.from(scores, ([id, score]) => ({ id, score })).sort(
+    (a, b) => b.score - a.score
+  );
+};
@@ -0,0 +1,47 @@
+/*
+ * Libre WebUI
+ * Copyright (C) 2025 Kroonen AI, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at:
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { ChatMessage } from '../types/index.js';
+
+// Rough averages; exact counts depend on each model's tokenizer
+const CHARS_PER_TOKEN = 4;
+const MESSAGE_OVERHEAD_TOKENS = 4;
+const IMAGE_TOKENS = 768;
+
+/**
+ * Estimates the number of tokens in a piece of text
+ */
+export const estimateTokens = (text: string): number => {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+};
+
+/**
+ * Estimates the tokens a message takes up in a prompt, including its
+ * role markers, images and tool calls
+ */
+export const estimateMessageTokens = (message: ChatMessage): number => {
+  let tokens = MESSAGE_OVERHEAD_TOKENS + estimateTokens(message.content);
+
+  if (message.images) {
+    tokens += message.images.length * IMAGE_TOKENS;
+  }
+  if (message.toolCalls && message.toolCalls.length > 0) {
+    tokens += estimateTokens(JSON.stringify(message.toolCalls));
+  }
+
+  return tokens;
+};
@@ -0,0 +1,585 @@
+/*
+ * Libre WebUI
+ * Copyright (C) 2025 Kroonen AI, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at:
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+// Approximate nearest neighbour search over embeddings with an HNSW graph
+// (Malkov & Yashunin, 2016). Vectors are normalised on insert, so scores
+// are cosine similarities.
+
+export interface VectorIndexOptions {
+  // Neighbours kept per node on upper layers; layer 0 keeps twice as many
+  m: number;
+  efConstruction: number;
+  efSearch: number;
+  // Searches over at most this many vectors scan them all instead of
+  // walking the graph; exact and faster at that size
+  exactSearchLimit: number;
+}
+
+export interface VectorSearchOptions {
+  // Only return vectors from these groups
+  groups?: string[];
+  minScore?: number;
+}
+
+export interface VectorSearchResult {
+  id: string;
+  group: string;
+  score: number;
+}
+
+interface VectorNode {
+  id: string;
+  group: string;
+  vector: Float32Array;
+  // Neighbour slots per layer, from layer 0 up to the node's level
+  neighbors: number[][];
+  deleted: boolean;
+}
+
+const DEFAULT_OPTIONS: VectorIndexOptions = {
+  m: 16,
+  efConstruction: 100,
+  efSearch: 64,
+  exactSearchLimit: 5000,
+};
+
+const FILE_MAGIC = 0x4c575649; // "LWVI"
+const FILE_VERSION = 1;
+
+// Binary heap ordered by `score`, highest first
+class MaxHeap {
+  private items: Array<{ slot: number; score: number }> = [];
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  peek(): { slot: number; score: number } | undefined {
+    return this.items[0];
+  }
+
+  push(slot: number, score: number): void {
+    const items = this.items;
+    items.push({ slot, score });
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (items[parent].score >= items[i].score) break;
+      [items[parent], items[i]] = [items[i], items[parent]];
+      i = parent;
+    }
+  }
+
+  pop(): { slot: number; score: number } | undefined {
+    const items = this.items;
+    const top = items[0];
+    const last = items.pop();
+    if (items.length > 0 && last) {
+      items[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let largest = i;
+        if (left < items.length && items[left].score > items[largest].score) {
+          largest = left;
+        }
+        if (right < items.length && items[right].score > items[largest].score) {
+          largest = right;
+        }
+        if (largest === i) break;
+        [items[largest], items[i]] = [items[i], items[largest]];
+        i = largest;
+      }
+    }
+    return top;
+  }
+
+  toArray(): Array<{ slot: number; score: number }> {
+    return [...this.items];
+  }
+}
+
+const normalize = (vector: ArrayLike<number>): Float32Array => {
+  const normalized = Float32Array.from(vector);
+  let norm = 0;
+  for (let i = 0; i < normalized.length; i++) {
+    norm += normalized[i] * normalized[i];
+  }
+  norm = Math.sqrt(norm);
+  if (norm > 0) {
+    for (let i = 0; i < normalized.length; i++) normalized[i] /= norm;
+  }
+  return normalized;
+};
+
+const dot = (a: Float32Array, b: Float32Array): number => {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+  return sum;
+};
+
+export class VectorIndex {
+  private options: VectorIndexOptions;
+  private nodes: VectorNode[] = [];
+  private slots = new Map<string, number>();
+  private groups = new Map<string, Set<number>>();
+  private entryPoint = -1;
+  private dimension = 0;
+  private deletedCount = 0;
+  private levelMultiplier: number;
+
+  constructor(options: Partial<VectorIndexOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    this.levelMultiplier = 1 / Math.log(this.options.m);
+  }
+
+  get size(): number {
+    return this.slots.size;
+  }
+
+  has(id: string): boolean {
+    return this.slots.has(id);
+  }
+
+  ids(): string[] {
+    return Array.from(this.slots.keys());
+  }
+
+  clear(): void {
+    this.nodes = [];
+    this.slots.clear();
+    this.groups.clear();
+    this.entryPoint = -1;
+    this.dimension = 0;
+    this.deletedCount = 0;
+  }
+
+  /**
+   * Adds or replaces a vector. Vectors must all have the same length; a
+   * vector of a new length means the embedding model changed, and the
+   * vectors from the old model are dropped.
+   */
+  add(id: string, vector: ArrayLike<number>, group: string): void {
+    if (vector.length === 0) return;
+    if (this.dimension && vector.length !== this.dimension) {
+      console.warn(
+        `[VectorIndex] Embedding size changed from ${this.dimension} to ${vector.length}, dropping ${this.size} old vectors`
+      );
+      this.clear();
+    }
+    this.dimension = vector.length;
+    this.remove(id);
+
+    const level = this.randomLevel();
+    const node: VectorNode = {
+      id,
+      group,
+      vector: normalize(vector),
+      neighbors: Array.from({ length: level + 1 }, () => []),
+      deleted: false,
+    };
+    const slot = this.nodes.length;
+    this.nodes.push(node);
+    this.slots.set(id, slot);
+    if (!this.groups.has(group)) this.groups.set(group, new Set());
+    this.groups.get(group)!.add(slot);
+
+    this.link(slot);
+  }
+
+  remove(id: string): boolean {
+    const slot = this.slots.get(id);
+    if (slot === undefined) return false;
+
+    // Deleted nodes stay in the graph so it stays connected, and are left
+    // out of results until the index is rebuilt
+    const node = this.nodes[slot];
+    node.deleted = true;
+    this.slots.delete(id);
+    const group = this.groups.get(node.group);
+    group?.delete(slot);
+    if (group?.size === 0) this.groups.delete(node.group);
+    this.deletedCount++;
+
+    if (this.deletedCount > 100 && this.deletedCount > this.nodes.length / 3) {
+      this.rebuild();
+    }
+    return true;
+  }
+
+  removeGroup(group: string): number {
+    // Ids, not slots: removing may rebuild the graph and renumber slots
+    const ids = Array.from(
+      this.groups.get(group) || [],
+      slot => this.nodes[slot].id
+    );
+    ids.forEach(id => this.remove(id));
+    return ids.length;
+  }
+
+  /**
+   * The `k` vectors most similar to the query. Small candidate sets, such
+   * as the documents of one chat, are scanned exactly; larger ones are
+   * searched through the graph.
+   */
+  search(
+    query: ArrayLike<number>,
+    k: number,
+    options: VectorSearchOptions = {}
+  ): VectorSearchResult[] {
+    if (this.size === 0 || query.length !== this.dimension || k <= 0) {
+      return [];
+    }
+    const target = normalize(query);
+    const minScore = options.minScore ?? -Infinity;
+
+    let candidates: number[] | undefined;
+    let allowed: ((slot: number) => boolean) | undefined;
+    if (options.groups) {
+      const groupSlots = options.groups.map(
+        group => this.groups.get(group) || new Set<number>()
+      );
+      const total = groupSlots.reduce((sum, slots) => sum + slots.size, 0);
+      if (total <= this.options.exactSearchLimit) {
+        candidates = groupSlots.flatMap(slots => Array.from(slots));
+      } else {
+        const wanted = new Set(options.groups);
+        allowed = slot => wanted.has(this.nodes[slot].group);
+      }
+    } else if (this.size <= this.options.exactSearchLimit) {
+      candidates = Array.from(this.slots.values());
+    }
+
+    let scored: Array<{ slot: number; score: number }>;
+    if (candidates) {
+      scored = candidates.map(slot => ({
+        slot,
+        score: dot(target, this.nodes[slot].vector),
+      }));
+    } else {
+      scored = this.searchGraph(target, k, allowed);
+    }
+
+    return scored
+      .filter(({ score }) => score >= minScore)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, k)
+      .map(({ slot, score }) => ({
+        id: this.nodes[slot].id,
+        group: this.nodes[slot].group,
+        score,
+      }));
+  }
+
+  /**
+   * The similarity of the query to each of the given vectors. Ids not in
+   * the index are left out.
+   */
+  similarity(query: ArrayLike<number>, ids: string[]): Map<string, number> {
+    const scores = new Map<string, number>();
+    if (query.length !== this.dimension) return scores;
+    const target = normalize(query);
+    for (const id of ids) {
+      const slot = this.slots.get(id);
+      if (slot !== undefined) {
+        scores.set(id, dot(target, this.nodes[slot].vector));
+      }
+    }
+    return scores;
+  }
+
+  /**
+   * Serialises the index, graph included, so loading it does not have to
+   * rebuild the graph.
+   */
+  serialize(): Buffer {
+    const header = Buffer.from(
+      JSON.stringify({
+        dimension: this.dimension,
+        entryPoint: this.entryPoint,
+        nodes: this.nodes.map(node => [
+          node.id,
+          node.group,
+          node.deleted ? 1 : 0,
+          node.neighbors,
+        ]),
+      }),
+      'utf8'
+    );
+    const prefix = Buffer.alloc(12);
+    prefix.writeUInt32LE(FILE_MAGIC, 0);
+    prefix.writeUInt32LE(FILE_VERSION, 4);
+    prefix.writeUInt32LE(header.length, 8);
+
+    const vectors = Buffer.alloc(this.nodes.length * this.dimension * 4);
+    this.nodes.forEach((node, slot) => {
+      Buffer.from(
+        node.vector.buffer,
+        node.vector.byteOffset,
+        node.vector.byteLength
+      ).copy(vectors, slot * this.dimension * 4);
+    });
+    return Buffer.concat([prefix, header, vectors]);
+  }
+
+  static deserialize(
+    data: Buffer,
+    options: Partial<VectorIndexOptions> = {}
+  ): VectorIndex {
+    if (
+      data.length < 12 ||
+      data.readUInt32LE(0) !== FILE_MAGIC ||
+      data.readUInt32LE(4) !== FILE_VERSION
+    ) {
+      throw new Error('Not a vector index file');
+    }
+    const headerEnd = 12 + data.readUInt32LE(8);
+    const header = JSON.parse(data.toString('utf8', 12, headerEnd)) as {
+      dimension: number;
+      entryPoint: number;
+      nodes: Array<[string, string, number, number[][]]>;
+    };
+
+    const index = new VectorIndex(options);
+    index.dimension = header.dimension;
+    index.entryPoint = header.entryPoint;
+    // Copy out of the file buffer so vectors are aligned for Float32Array
+    const vectors = new Float32Array(
+      data.buffer.slice(
+        data.byteOffset + headerEnd,
+        data.byteOffset + headerEnd + header.nodes.length * header.dimension * 4
+      )
+    );
+    header.nodes.forEach(([id, group, deleted, neighbors], slot) => {
+      index.nodes.push({
+        id,
+        group,
+        vector: vectors.subarray(
+          slot * header.dimension,
+          (slot + 1) * header.dimension
+        ),
+        neighbors,
+        deleted: deleted === 1,
+      });
+      if (deleted) {
+        index.deletedCount++;
+        return;
+      }
+      index.slots.set(id, slot);
+      if (!index.groups.has(group)) index.groups.set(group, new Set());
+      index.groups.get(group)!.add(slot);
+    });
+    return index;
+  }
+
+  // Layers thin out exponentially, as in a skip list
+  private randomLevel(): number {
+    return Math.floor(-Math.log(1 - Math.random()) * this.levelMultiplier);
+  }
+
+  private score(slot: number, target: Float32Array): number {
+    return dot(this.nodes[slot].vector, target);
+  }
+
+  private maxNeighbors(layer: number): number {
+    return layer === 0 ? this.options.m * 2 : this.options.m;
+  }
+
+  // Inserts a node into the graph, connecting it on every layer up to its
+  // level
+  private link(slot: number): void {
+    const node = this.nodes[slot];
+    const level = node.neighbors.length - 1;
+    if (this.entryPoint === -1) {
+      this.entryPoint = slot;
+      return;
+    }
+
+    let entry = this.entryPoint;
+    const topLevel = this.nodes[entry].neighbors.length - 1;
+    for (let layer = topLevel; layer > level; layer--) {
+      entry = this.greedyStep(node.vector, entry, layer);
+    }
+
+    let entries = [entry];
+    for (let layer = Math.min(level, topLevel); layer >= 0; layer--) {
+      const found = this.searchLayer(
+        node.vector,
+        entries,
+        this.options.efConstruction,
+        layer
+      );
+      const selected = this.selectNeighbors(found, this.options.m, node.vector);
+      node.neighbors[layer] = selected;
+
+      for (const neighbor of selected) {
+        const links = this.nodes[neighbor].neighbors[layer];
+        links.push(slot);
+        if (links.length > this.maxNeighbors(layer)) {
+          const vector = this.nodes[neighbor].vector;
+          this.nodes[neighbor].neighbors[layer] = links
+            .map(link => ({ slot: link, score: this.score(link, vector) }))
+            .sort((a, b) => b.score - a.score)
+            .slice(0, this.maxNeighbors(layer))
+            .map(({ slot: link }) => link);
+        }
+      }
+      entries = found.map(({ slot: found }) => found);
+    }
+
+    if (level > topLevel) this.entryPoint = slot;
+  }
+
+  // Walks towards the target on one layer, one best neighbour at a time
+  private greedyStep(
+    target: Float32Array,
+    entry: number,
+    layer: number
+  ): number {
+    let current = entry;
+    let currentScore = this.score(current, target);
+    for (let improved = true; improved; ) {
+      improved = false;
+      for (const neighbor of this.nodes[current].neighbors[layer] || []) {
+        const score = this.score(neighbor, target);
+        if (score > currentScore) {
+          current = neighbor;
+          currentScore = score;
+          improved = true;
+        }
+      }
+    }
+    return current;
+  }
+
+  // Best-first search of one layer keeping the `ef` closest nodes found
+  private searchLayer(
+    target: Float32Array,
+    entries: number[],
+    ef: number,
+    layer: number
+  ): Array<{ slot: number; score: number }> {
+    const visited = new Set(entries);
+    const candidates = new MaxHeap();
+    // Results kept as a max-heap on negated scores, so the worst is on top
+    const results = new MaxHeap();
+    for (const entry of entries) {
+      const score = this.score(entry, target);
+      candidates.push(entry, score);
+      results.push(entry, -score);
+    }
+    while (results.size > ef) results.pop();
+
+    while (candidates.size > 0) {
+      const current = candidates.pop()!;
+      const worst = -results.peek()!.score;
+      if (current.score < worst && results.size >= ef) break;
+
+      for (const neighbor of this.nodes[current.slot].neighbors[layer] || []) {
+        if (visited.has(neighbor)) continue;
+        visited.add(neighbor);
+        const score = this.score(neighbor, target);
+        if (results.size < ef || score > -results.peek()!.score) {
+          candidates.push(neighbor, score);
+          results.push(neighbor, -score);
+          if (results.size > ef) results.pop();
+        }
+      }
+    }
+
+    return results
+      .toArray()
+      .map(({ slot, score }) => ({ slot, score: -score }))
+      .sort((a, b) => b.score - a.score);
+  }
+
+  // Keeps neighbours that are closer to the node than to any neighbour
+  // already kept, which spreads links in all directions, then tops up
+  // with the closest of the rest
+  private selectNeighbors(
+    candidates: Array<{ slot: number; score: number }>,
+    count: number,
+    vector: Float32Array
+  ): number[] {
+    const sorted = [...candidates].sort((a, b) => b.score - a.score);
+    const selected: number[] = [];
+    const skipped: number[] = [];
+    for (const candidate of sorted) {
+      if (selected.length >= count) break;
+      if (this.nodes[candidate.slot].vector === vector) continue;
+      const diverse = selected.every(
+        kept =>
+          dot(this.nodes[kept].vector, this.nodes[candidate.slot].vector) <
+          candidate.score
+      );
+      if (diverse) {
+        selected.push(candidate.slot);
+      } else {
+        skipped.push(candidate.slot);
+      }
+    }
+    for (const slot of skipped) {
+      if (selected.length >= count) break;
+      selected.push(slot);
+    }
+    return selected;
+  }
+
+  // Searches the graph, widening the search until enough results pass the
+  // filter or the whole graph has been seen
+  private searchGraph(
+    target: Float32Array,
+    k: number,
+    allowed?: (slot: number) => boolean
+  ): Array<{ slot: number; score: number }> {
+    let entry = this.entryPoint;
+    for (
+      let layer = this.nodes[entry].neighbors.length - 1;
+      layer > 0;
+      layer--
+    ) {
+      entry = this.greedyStep(target, entry, layer);
+    }
+
+    for (let ef = Math.max(this.options.efSearch, k); ; ef *= 4) {
+      const found = this.searchLayer(target, [entry], ef, 0).filter(
+        ({ slot }) => !this.nodes[slot].deleted && (!allowed || allowed(slot))
+      );
+      if (found.length >= k || ef >= this.nodes.length) return found;
+    }
+  }
+
+  // Reinserts the live vectors into a fresh graph, dropping deleted nodes
+  private rebuild(): void {
+    const live = this.nodes.filter(node => !node.deleted);
+    const dimension = this.dimension;
+    this.clear();
+    this.dimension = dimension;
+    for (const node of live) {
+      const slot = this.nodes.length;
+      const level = this.randomLevel();
+      this.nodes.push({
+        ...node,
+        neighbors: Array.from({ length: level + 1 }, () => []),
+      });
+      this.slots.set(node.id, slot);
+      if (!this.groups.has(node.group)) this.groups.set(node.group, new Set());
+      this.groups.get(node.group)!.add(slot);
+      this.link(slot);
+    }
+  }
+}
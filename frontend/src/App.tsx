@@ -54,6 +54,7 @@ const UserManagementPage = React.lazy(
   () => import('@/pages/UserManagementPage')
 );
 const ArtifactDemoPage = React.lazy(() => import('@/pages/ArtifactDemoPage'));
+const SharedChatPage = React.lazy(() => import('@/pages/SharedChatPage'));
 
 // Import LoginPage directly (not lazy) to avoid suspense issues during auth redirects
 import { LoginPage } from '@/pages/LoginPage';
@@ -538,4 +539,20 @@ const App: React.FC = () => {
   );
 };
 
-export default App;
+// Shared chats are public: they skip the app shell and its auth checks
+const AppRoot: React.FC = () =>
+  window.location.pathname.startsWith('/s/') ? (
+    <ErrorBoundary>
+      <Router>
+        <Suspense fallback={<PageLoader />}>
+          <Routes>
+            <Route path='/s/:token' element={<SharedChatPage />} />
+          </Routes>
+        </Suspense>
+      </Router>
+    </ErrorBoundary>
+  ) : (
+    <App />
+  );
+
+export default AppRoot;
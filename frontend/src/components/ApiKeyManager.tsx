@@ -0,0 +1,228 @@
+/*
+ * Libre WebUI
+ * Copyright (C) 2025 Kroonen AI, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at:
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import React, { useCallback, useEffect, useState } from 'react';
+import toast from 'react-hot-toast';
+import { Copy, KeyRound, Plus, Trash2 } from 'lucide-react';
+import { Button, Input } from '@/components/ui';
+import { apiKeysApi } from '@/utils/api';
+import { API_BASE_URL } from '@/utils/config';
+import { ApiKey, ApiKeyCreated } from '@/types';
+
+// The OpenAI-compatible API sits next to /api on the backend
+const OPENAI_BASE_URL = API_BASE_URL.replace(/\/api\/?$/, '/v1');
+
+const copyToClipboard = async (text: string, label: string) => {
+  try {
+    await navigator.clipboard.writeText(text);
+    toast.success(`${label} copied`);
+  } catch {
+    toast.error('Could not copy to the clipboard');
+  }
+};
+
+export const ApiKeyManager: React.FC = () => {
+  const [keys, setKeys] = useState<ApiKey[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [name, setName] = useState('');
+  const [isCreating, setIsCreating] = useState(false);
+  // Shown until dismissed; the key can't be retrieved again
+  const [createdKey, setCreatedKey] = useState<ApiKeyCreated | null>(null);
+
+  const loadKeys = useCallback(async () => {
+    try {
+      const response = await apiKeysApi.getKeys();
+      if (response.success && response.data) {
+        setKeys(response.data);
+      }
+    } catch (error) {
+      console.error('Failed to load API keys:', error);
+      toast.error('Failed to load API keys');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadKeys();
+  }, [loadKeys]);
+
+  const handleCreate = async () => {
+    setIsCreating(true);
+    try {
+      const response = await apiKeysApi.createKey(name.trim());
+      if (response.success && response.data) {
+        const { key: _key, ...apiKey } = response.data;
+        setKeys(prev => [apiKey, ...prev]);
+        setCreatedKey(response.data);
+        setName('');
+      } else {
+        toast.error(response.error || 'Failed to create API key');
+      }
+    } catch (error: unknown) {
+      const message =
+        (error as { response?: { data?: { error?: string } } }).response?.data
+          ?.error || 'Failed to create API key';
+      toast.error(message);
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleRevoke = async (apiKey: ApiKey) => {
+    if (
+      !confirm(
+        `Revoke API key "${apiKey.name}"? Anything using it will stop working.`
+      )
+    ) {
+      return;
+    }
+    try {
+      await apiKeysApi.revokeKey(apiKey.id);
+      setKeys(prev => prev.filter(k => k.id !== apiKey.id));
+      if (createdKey?.id === apiKey.id) setCreatedKey(null);
+      toast.success(`Revoked ${apiKey.name}`);
+    } catch (error) {
+      console.error('Failed to revoke API key:', error);
+      toast.error('Failed to revoke API key');
+    }
+  };
+
+  return (
+    <div className='space-y-6'>
+      <div>
+        <h3 className='text-lg font-semibold text-gray-900 dark:text-gray-100 mb-2'>
+          API Keys
+        </h3>
+        <p className='text-sm text-gray-600 dark:text-gray-400'>
+          Use Libre WebUI from scripts and editor extensions that speak the
+          OpenAI API. Point them at the base URL below with one of your keys;
+          models, personas (<code>persona:&lt;id&gt;</code>) and plugin models
+          work just like in chat.
+        </p>
+        <div className='flex items-center gap-2 mt-3'>
+          <code className='flex-1 min-w-0 truncate px-3 py-2 rounded-lg bg-gray-100 dark:bg-dark-200 text-sm text-gray-900 dark:text-gray-100'>
+            {OPENAI_BASE_URL}
+          </code>
+          <Button
+            size='sm'
+            variant='outline'
+            onClick={() => copyToClipboard(OPENAI_BASE_URL, 'Base URL')}
+            title='Copy base URL'
+          >
+            <Copy className='h-3 w-3' />
+          </Button>
+        </div>
+      </div>
+
+      <div className='flex items-end gap-2'>
+        <div className='flex-1'>
+          <Input
+            label='New key name'
+            value={name}
+            onChange={e => setName(e.target.value)}
+            placeholder='VS Code'
+            onKeyDown={e => {
+              if (e.key === 'Enter' && name.trim()) handleCreate();
+            }}
+          />
+        </div>
+        <Button
+          size='sm'
+          onClick={handleCreate}
+          disabled={!name.trim()}
+          loading={isCreating}
+        >
+          <Plus className='h-4 w-4 mr-1' />
+          Create Key
+        </Button>
+      </div>
+
+      {createdKey && (
+        <div className='p-4 rounded-lg border border-green-200 dark:border-green-800 bg-green-50 dark:bg-green-900/20 space-y-2'>
+          <p className='text-sm text-green-800 dark:text-green-300'>
+            Copy your new key now. It won&apos;t be shown again.
+          </p>
+          <div className='flex items-center gap-2'>
+            <code className='flex-1 min-w-0 break-all px-3 py-2 rounded-lg bg-white dark:bg-dark-100 text-sm text-gray-900 dark:text-gray-100'>
+              {createdKey.key}
+            </code>
+            <Button
+              size='sm'
+              variant='outline'
+              onClick={() => copyToClipboard(createdKey.key, 'API key')}
+              title='Copy key'
+            >
+              <Copy className='h-3 w-3' />
+            </Button>
+          </div>
+          <div className='flex justify-end'>
+            <Button
+              size='sm'
+              variant='ghost'
+              onClick={() => setCreatedKey(null)}
+            >
+              Done
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {isLoading ? (
+        <p className='text-sm text-gray-500 dark:text-gray-400'>Loading...</p>
+      ) : keys.length === 0 ? (
+        <p className='text-sm text-gray-500 dark:text-gray-400'>
+          No API keys yet.
+        </p>
+      ) : (
+        <div className='space-y-3'>
+          {keys.map(apiKey => (
+            <div
+              key={apiKey.id}
+              className='flex items-center justify-between gap-3 p-4 border border-gray-200 dark:border-dark-300 rounded-lg'
+            >
+              <div className='min-w-0'>
+                <div className='flex items-center gap-2'>
+                  <KeyRound className='h-4 w-4 text-gray-500' />
+                  <span className='font-medium text-gray-900 dark:text-white'>
+                    {apiKey.name}
+                  </span>
+                  <code className='text-xs text-gray-500 dark:text-gray-400'>
+                    {apiKey.prefix}…
+                  </code>
+                </div>
+                <p className='text-xs text-gray-500 dark:text-gray-400 mt-1'>
+                  Created {new Date(apiKey.createdAt).toLocaleDateString()} ·{' '}
+                  {apiKey.lastUsedAt
+                    ? `last used ${new Date(apiKey.lastUsedAt).toLocaleString()}`
+                    : 'never used'}
+                </p>
+              </div>
+              <Button
+                size='sm'
+                variant='outline'
+                onClick={() => handleRevoke(apiKey)}
+                title='Revoke key'
+              >
+                <Trash2 className='h-3 w-3' />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -23,11 +23,13 @@ import { cn } from '@/utils';
 interface ArtifactContainerProps {
   artifacts: Artifact[];
   className?: string;
+  previewDisabled?: boolean; // Show code only, for content from others
 }
 
 export const ArtifactContainer: React.FC<ArtifactContainerProps> = ({
   artifacts,
   className,
+  previewDisabled = false,
 }) => {
   const [fullscreenArtifact, setFullscreenArtifact] = useState<string | null>(
     null
@@ -49,6 +51,7 @@ export const ArtifactContainer: React.FC<ArtifactContainerProps> = ({
         <ArtifactRenderer
           key={artifact.id}
           artifact={artifact}
+          previewDisabled={previewDisabled}
           isFullscreen={fullscreenArtifact === artifact.id}
           onFullscreenToggle={() => handleFullscreenToggle(artifact.id)}
         />
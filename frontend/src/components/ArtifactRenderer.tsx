@@ -41,6 +41,8 @@ interface ArtifactRendererProps {
   className?: string;
   isFullscreen?: boolean;
   onFullscreenToggle?: () => void;
+  // Never render HTML or SVG, e.g. on a shared page opened by someone else
+  previewDisabled?: boolean;
 }
 
 export const ArtifactRenderer: React.FC<ArtifactRendererProps> = ({
@@ -48,6 +50,7 @@ export const ArtifactRenderer: React.FC<ArtifactRendererProps> = ({
   className,
   isFullscreen = false,
   onFullscreenToggle,
+  previewDisabled = false,
 }) => {
   const [copied, setCopied] = useState(false);
   const [viewMode, setViewMode] = useState<'preview' | 'code'>('preview');
@@ -157,7 +160,8 @@ export const ArtifactRenderer: React.FC<ArtifactRendererProps> = ({
         ref={iframeRef}
         srcDoc={htmlContent}
         className='w-full h-64 sm:h-80 lg:h-96 border-0 rounded-lg'
-        sandbox='allow-scripts allow-same-origin'
+        // Scripts run in an opaque origin, away from the app's session
+        sandbox='allow-scripts'
         title={artifact.title}
       />
     );
@@ -165,11 +169,15 @@ export const ArtifactRenderer: React.FC<ArtifactRendererProps> = ({
 
   const renderSvg = () => {
     try {
+      // As an image the SVG cannot run scripts or load other resources
       return (
-        <div
-          className='w-full h-64 sm:h-80 lg:h-96 flex items-center justify-center bg-gray-50 dark:bg-dark-100 rounded-lg overflow-hidden border border-gray-200 dark:border-dark-200'
-          dangerouslySetInnerHTML={{ __html: artifact.content }}
-        />
+        <div className='w-full h-64 sm:h-80 lg:h-96 flex items-center justify-center bg-gray-50 dark:bg-dark-100 rounded-lg overflow-hidden border border-gray-200 dark:border-dark-200'>
+          <img
+            src={`data:image/svg+xml;charset=utf-8,${encodeURIComponent(artifact.content)}`}
+            alt={artifact.title}
+            className='max-w-full max-h-full'
+          />
+        </div>
       );
     } catch (_err) {
       return (
@@ -251,7 +259,7 @@ export const ArtifactRenderer: React.FC<ArtifactRendererProps> = ({
 
   const renderContent = () => {
     // Show raw code if in code view mode
-    if (viewMode === 'code') {
+    if (viewMode === 'code' || previewDisabled) {
       return renderCode();
     }
 
@@ -273,9 +281,10 @@ export const ArtifactRenderer: React.FC<ArtifactRendererProps> = ({
   // Determine if we should show the view mode toggle
   const shouldShowViewToggle = () => {
     return (
-      artifact.type === 'html' ||
-      artifact.type === 'svg' ||
-      artifact.type === 'react'
+      !previewDisabled &&
+      (artifact.type === 'html' ||
+        artifact.type === 'svg' ||
+        artifact.type === 'react')
     );
   };
 
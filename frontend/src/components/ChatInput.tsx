@@ -16,7 +16,7 @@
  */
 
 import React, { useState, useRef, useEffect } from 'react';
-import { Send, Square, Paperclip, Plus, Minus } from 'lucide-react';
+import { Send, Square, Paperclip, Plus, Minus, Brain } from 'lucide-react';
 import { Button, Textarea } from '@/components/ui';
 import { ImageUpload } from './ImageUpload';
 import { DocumentUpload } from './DocumentUpload';
@@ -34,7 +34,8 @@ interface ChatInputProps {
   onSendMessage: (
     message: string,
     images?: string[],
-    format?: string | Record<string, unknown>
+    format?: string | Record<string, unknown>,
+    think?: boolean
   ) => void;
   onStopGeneration: () => void;
   disabled?: boolean;
@@ -53,7 +54,11 @@ export const ChatInput: React.FC<ChatInputProps> = ({
   const [showAdvanced, setShowAdvanced] = useState(false);
   const [currentPersona, setCurrentPersona] = useState<Persona | null>(null);
   const { isGenerating, setBackgroundImage } = useAppStore();
-  const { currentSession, models } = useChatStore();
+  const { currentSession, models, reasoningBySession, setSessionReasoning } =
+    useChatStore();
+  const reasoningEnabled = currentSession
+    ? (reasoningBySession[currentSession.id] ?? false)
+    : false;
   const textareaRef = useRef<HTMLTextAreaElement>(null);
 
   const handleSubmit = (e: React.FormEvent) => {
@@ -64,7 +69,8 @@ export const ChatInput: React.FC<ChatInputProps> = ({
     onSendMessage(
       message.trim(),
       images.length > 0 ? images : undefined,
-      format || undefined
+      format || undefined,
+      reasoningEnabled
     );
     setMessage('');
     setImages([]);
@@ -292,6 +298,32 @@ export const ChatInput: React.FC<ChatInputProps> = ({
 
             {/* Integrated Controls Row */}
             <div className='flex items-center gap-1 sm:gap-2 flex-shrink-0'>
+              {/* Reasoning Toggle - only affects models that can think */}
+              {currentSession && (
+                <Button
+                  type='button'
+                  variant='ghost'
+                  size='sm'
+                  onClick={() =>
+                    setSessionReasoning(currentSession.id, !reasoningEnabled)
+                  }
+                  className={cn(
+                    'h-8 w-8 sm:h-9 sm:w-9 p-0 rounded-full flex-shrink-0 flex items-center justify-center',
+                    'hover:bg-gray-200 dark:hover:bg-dark-200 transition-colors touch-manipulation',
+                    reasoningEnabled &&
+                      'text-purple-600 dark:text-purple-400 bg-purple-50 dark:bg-purple-900/20'
+                  )}
+                  title={
+                    reasoningEnabled
+                      ? 'Reasoning on for thinking models'
+                      : 'Reasoning off'
+                  }
+                  aria-pressed={reasoningEnabled}
+                >
+                  <Brain className='h-4 w-4' />
+                </Button>
+              )}
+
               {/* Model Selector - Integrated */}
               {currentSession && models.length > 0 && (
                 <div className='hidden sm:block'>
@@ -16,11 +16,12 @@
  */
 
 import React, { useState, useEffect } from 'react';
-import { ChatMessage as ChatMessageType } from '@/types';
+import { ChatMessage as ChatMessageType, MessageCitation } from '@/types';
 import { MessageContent } from '@/components/ui';
 import { GenerationStats } from '@/components/GenerationStats';
 import { ArtifactContainer } from '@/components/ArtifactContainer';
-import { formatTimestamp, cn } from '@/utils';
+import { CitationPanel } from '@/components/CitationPanel';
+import { formatCitationLocation, formatTimestamp, cn } from '@/utils';
 import { parseArtifacts } from '@/utils/artifactParser';
 import {
   User,
@@ -31,6 +32,11 @@ import {
   X,
   ChevronDown,
   ChevronUp,
+  ChevronLeft,
+  ChevronRight,
+  Wrench,
+  Brain,
+  RefreshCw,
 } from 'lucide-react';
 import { useAppStore } from '@/store/appStore';
 import { useAuthStore } from '@/store/authStore';
@@ -39,16 +45,100 @@ import { useChatStore } from '@/store/chatStore';
 interface ChatMessageProps {
   message: ChatMessageType;
   isStreaming?: boolean;
+  queuePosition?: number | null; // Shown while the reply waits its turn
   className?: string;
+  siblingPosition?: { index: number; count: number }; // Set when branched
+  onSwitchSibling?: (offset: number) => void;
+  onRegenerate?: () => void;
+  onEdit?: (content: string) => void;
+  actionsDisabled?: boolean;
+  // Someone else's chat, e.g. a shared link: no editing, artifacts as code
+  readOnly?: boolean;
 }
 
+// Collapsible summary of tool calls or a tool result
+const ToolDetails: React.FC<{ title: string; children: React.ReactNode }> = ({
+  title,
+  children,
+}) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  return (
+    <div className='rounded-md border border-gray-100 dark:border-dark-200 bg-gray-50/50 dark:bg-dark-50/30 text-xs'>
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className='w-full flex items-center gap-1.5 px-2 py-1.5 text-gray-600 dark:text-gray-400 hover:text-primary-600 dark:hover:text-primary-400 transition-colors'
+        title={isExpanded ? 'Hide details' : 'Show details'}
+      >
+        {isExpanded ? (
+          <ChevronDown className='h-3 w-3' />
+        ) : (
+          <ChevronRight className='h-3 w-3' />
+        )}
+        <Wrench className='h-3 w-3 opacity-60' />
+        <span className='font-medium'>{title}</span>
+      </button>
+      {isExpanded && <div className='px-2 pb-2 space-y-2'>{children}</div>}
+    </div>
+  );
+};
+
+// Collapsible reasoning output from thinking models
+const ThinkingBlock: React.FC<{
+  thinking: string;
+  durationMs?: number;
+  isThinking: boolean;
+}> = ({ thinking, durationMs, isThinking }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  const title = isThinking
+    ? 'Thinking…'
+    : durationMs !== undefined
+      ? `Thought for ${Math.max(1, Math.round(durationMs / 1000))}s`
+      : 'Thoughts';
+
+  return (
+    <div className='mb-2 rounded-md border border-gray-100 dark:border-dark-200 bg-gray-50/50 dark:bg-dark-50/30 text-xs'>
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className='w-full flex items-center gap-1.5 px-2 py-1.5 text-gray-600 dark:text-gray-400 hover:text-primary-600 dark:hover:text-primary-400 transition-colors'
+        title={isExpanded ? 'Hide reasoning' : 'Show reasoning'}
+      >
+        {isExpanded ? (
+          <ChevronDown className='h-3 w-3' />
+        ) : (
+          <ChevronRight className='h-3 w-3' />
+        )}
+        <Brain
+          className={cn('h-3 w-3 opacity-60', isThinking && 'animate-pulse')}
+        />
+        <span className='font-medium'>{title}</span>
+      </button>
+      {isExpanded && (
+        <div className='px-2 pb-2 whitespace-pre-wrap break-words text-gray-600 dark:text-gray-400'>
+          {thinking}
+        </div>
+      )}
+    </div>
+  );
+};
+
 export const ChatMessage: React.FC<ChatMessageProps> = ({
   message,
   isStreaming = false,
+  queuePosition,
   className,
+  siblingPosition,
+  onSwitchSibling,
+  onRegenerate,
+  onEdit,
+  actionsDisabled = false,
+  readOnly = false,
 }) => {
   const isUser = message.role === 'user';
   const isSystem = message.role === 'system';
+  const isTool = message.role === 'tool';
+  const toolCalls = message.toolCalls || [];
   const { preferences } = useAppStore();
   const { user } = useAuthStore();
   const { setSystemMessage, getCurrentPersona } = useChatStore();
@@ -59,10 +149,13 @@ export const ChatMessage: React.FC<ChatMessageProps> = ({
   const [parsedContent, setParsedContent] = useState(message.content);
   const [isSystemMessageExpanded, setIsSystemMessageExpanded] = useState(false);
   const [artifacts, setArtifacts] = useState(message.artifacts || []);
+  const [openCitation, setOpenCitation] = useState<MessageCitation | null>(
+    null
+  );
 
   // Parse artifacts from message content on mount or when content changes
   useEffect(() => {
-    if (!isUser && !isSystem && message.content) {
+    if (!isUser && !isSystem && !isTool && message.content) {
       // Use existing artifacts from the message if available
       if (message.artifacts && message.artifacts.length > 0) {
         setParsedContent(message.content);
@@ -78,11 +171,18 @@ export const ChatMessage: React.FC<ChatMessageProps> = ({
         setArtifacts([]);
       }
     }
-  }, [message.content, message.artifacts, isUser, isSystem, isStreaming]);
+  }, [
+    message.content,
+    message.artifacts,
+    isUser,
+    isSystem,
+    isTool,
+    isStreaming,
+  ]);
 
   // Parse artifacts when streaming completes
   useEffect(() => {
-    if (!isUser && !isSystem && message.content && !isStreaming) {
+    if (!isUser && !isSystem && !isTool && message.content && !isStreaming) {
       // Parse artifacts when streaming finishes
       if (!message.artifacts || message.artifacts.length === 0) {
         const parsed = parseArtifacts(message.content);
@@ -90,11 +190,19 @@ export const ChatMessage: React.FC<ChatMessageProps> = ({
         setArtifacts(parsed.artifacts);
       }
     }
-  }, [isStreaming, message.content, message.artifacts, isUser, isSystem]);
+  }, [
+    isStreaming,
+    message.content,
+    message.artifacts,
+    isUser,
+    isSystem,
+    isTool,
+  ]);
 
   // Determine display name for messages
   const getDisplayName = () => {
     if (isSystem) return 'System';
+    if (isTool) return 'Tool';
     if (isUser) {
       if (preferences.showUsername && user?.username) {
         return user.username;
@@ -131,6 +239,25 @@ export const ChatMessage: React.FC<ChatMessageProps> = ({
     setEditedContent(message.content);
   };
 
+  // Editing a user message resubmits it as a new branch
+  const handleSubmitEdit = () => {
+    const content = editedContent.trim();
+    if (!content || !onEdit) return;
+
+    setIsEditing(false);
+    if (content !== message.content) {
+      onEdit(content);
+    }
+  };
+
+  const canRegenerate =
+    !readOnly &&
+    !!onRegenerate &&
+    message.role === 'assistant' &&
+    !message.toolCalls?.length &&
+    !isStreaming;
+  const canEdit = !readOnly && !!onEdit && isUser && !isEditing;
+
   // Helper function to truncate system message for display
   const truncateSystemMessage = (content: string, maxLength: number = 100) => {
     if (content.length <= maxLength) return content;
@@ -146,7 +273,7 @@ export const ChatMessage: React.FC<ChatMessageProps> = ({
         'flex gap-4 transition-colors group',
         isUser
           ? 'bg-transparent p-6'
-          : isSystem
+          : isSystem || isTool
             ? 'bg-transparent p-2 py-3'
             : 'bg-gray-25 dark:bg-dark-100/50 p-6',
         className
@@ -158,7 +285,7 @@ export const ChatMessage: React.FC<ChatMessageProps> = ({
           'flex shrink-0 items-center justify-center rounded-full shadow-sm overflow-hidden',
           isUser
             ? 'h-8 w-8 bg-primary-600 text-white'
-            : isSystem
+            : isSystem || isTool
               ? 'h-5 w-5 bg-gray-400 dark:bg-gray-500 text-white'
               : 'h-8 w-8 bg-gray-700 text-white dark:bg-dark-600'
         )}
@@ -167,6 +294,8 @@ export const ChatMessage: React.FC<ChatMessageProps> = ({
           <User className='h-4 w-4' />
         ) : isSystem ? (
           <Settings className='h-2.5 w-2.5' />
+        ) : isTool ? (
+          <Wrench className='h-2.5 w-2.5' />
         ) : currentPersona?.avatar ? (
           <img
             src={currentPersona.avatar}
@@ -183,7 +312,7 @@ export const ChatMessage: React.FC<ChatMessageProps> = ({
           <span className='text-sm font-semibold text-gray-900 dark:text-dark-800'>
             {getDisplayName()}
           </span>
-          {message.model && !isUser && !isSystem && (
+          {message.model && !isUser && !isSystem && !isTool && (
             <span
               className='text-xs text-gray-500 dark:text-dark-600 bg-gray-100 dark:bg-dark-200 px-2 py-0.5 rounded-full truncate max-w-32 sm:max-w-48'
               title={message.model}
@@ -194,6 +323,59 @@ export const ChatMessage: React.FC<ChatMessageProps> = ({
           <span className='text-xs text-gray-400 dark:text-dark-500'>
             {formatTimestamp(message.timestamp)}
           </span>
+
+          <div className='ml-auto flex items-center gap-1'>
+            {/* Versions of this turn */}
+            {siblingPosition && (
+              <div className='flex items-center gap-0.5 text-xs text-gray-500 dark:text-dark-600'>
+                <button
+                  onClick={() => onSwitchSibling?.(-1)}
+                  disabled={actionsDisabled || siblingPosition.index === 0}
+                  className='p-0.5 rounded hover:bg-gray-100 dark:hover:bg-dark-200 disabled:opacity-40 disabled:hover:bg-transparent transition-colors'
+                  title='Previous version'
+                >
+                  <ChevronLeft className='h-3.5 w-3.5' />
+                </button>
+                <span className='tabular-nums'>
+                  {siblingPosition.index + 1}/{siblingPosition.count}
+                </span>
+                <button
+                  onClick={() => onSwitchSibling?.(1)}
+                  disabled={
+                    actionsDisabled ||
+                    siblingPosition.index === siblingPosition.count - 1
+                  }
+                  className='p-0.5 rounded hover:bg-gray-100 dark:hover:bg-dark-200 disabled:opacity-40 disabled:hover:bg-transparent transition-colors'
+                  title='Next version'
+                >
+                  <ChevronRight className='h-3.5 w-3.5' />
+                </button>
+              </div>
+            )}
+            {canEdit && (
+              <button
+                onClick={() => {
+                  setEditedContent(message.content);
+                  setIsEditing(true);
+                }}
+                disabled={actionsDisabled}
+                className='p-1 rounded opacity-0 group-hover:opacity-100 hover:bg-gray-100 dark:hover:bg-dark-200 disabled:hidden transition-all'
+                title='Edit and resubmit'
+              >
+                <Edit3 className='h-3.5 w-3.5 text-gray-500 dark:text-dark-600' />
+              </button>
+            )}
+            {canRegenerate && (
+              <button
+                onClick={onRegenerate}
+                disabled={actionsDisabled}
+                className='p-1 rounded opacity-0 group-hover:opacity-100 hover:bg-gray-100 dark:hover:bg-dark-200 disabled:hidden transition-all'
+                title='Regenerate response'
+              >
+                <RefreshCw className='h-3.5 w-3.5 text-gray-500 dark:text-dark-600' />
+              </button>
+            )}
+          </div>
         </div>
 
         <div className='text-gray-700 dark:text-dark-700'>
@@ -224,7 +406,31 @@ export const ChatMessage: React.FC<ChatMessageProps> = ({
             </div>
           )}
 
-          {isUser ? (
+          {isUser && isEditing ? (
+            <div className='space-y-2'>
+              <textarea
+                value={editedContent}
+                onChange={e => setEditedContent(e.target.value)}
+                className='w-full min-h-[80px] p-3 text-sm text-gray-900 dark:text-gray-100 bg-gray-50 dark:bg-dark-50 border border-gray-200 dark:border-dark-300 rounded-lg resize-y focus:outline-none focus:ring-2 focus:ring-primary-500 dark:focus:ring-primary-400 focus:border-transparent'
+                autoFocus
+              />
+              <div className='flex justify-end gap-2'>
+                <button
+                  onClick={handleCancelEdit}
+                  className='px-3 py-1 text-xs rounded-md text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-dark-200 transition-colors'
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleSubmitEdit}
+                  disabled={!editedContent.trim() || actionsDisabled}
+                  className='px-3 py-1 text-xs rounded-md bg-primary-600 text-white hover:bg-primary-700 disabled:opacity-50 transition-colors'
+                >
+                  Save & Submit
+                </button>
+              </div>
+            </div>
+          ) : isUser ? (
             <p className='whitespace-pre-wrap leading-relaxed'>
               {message.content}
             </p>
@@ -256,13 +462,15 @@ export const ChatMessage: React.FC<ChatMessageProps> = ({
                       </button>
                     </>
                   ) : (
-                    <button
-                      onClick={handleEditSystemMessage}
-                      className='p-1 hover:bg-gray-100 dark:hover:bg-dark-200 rounded transition-colors'
-                      title='Edit system message'
-                    >
-                      <Edit3 className='h-3 w-3 text-gray-600 dark:text-gray-400' />
-                    </button>
+                    !readOnly && (
+                      <button
+                        onClick={handleEditSystemMessage}
+                        className='p-1 hover:bg-gray-100 dark:hover:bg-dark-200 rounded transition-colors'
+                        title='Edit system message'
+                      >
+                        <Edit3 className='h-3 w-3 text-gray-600 dark:text-gray-400' />
+                      </button>
+                    )
                   )}
                 </div>
               </div>
@@ -304,24 +512,111 @@ export const ChatMessage: React.FC<ChatMessageProps> = ({
                 </div>
               )}
             </div>
+          ) : isTool ? (
+            <ToolDetails title={`Result from ${message.toolName || 'tool'}`}>
+              <pre className='whitespace-pre-wrap break-words text-gray-600 dark:text-gray-400'>
+                {message.content}
+              </pre>
+            </ToolDetails>
           ) : (
             <div className='relative'>
-              <MessageContent content={parsedContent} />
+              {message.thinking && (
+                <ThinkingBlock
+                  thinking={message.thinking}
+                  durationMs={message.statistics?.thinking_duration}
+                  isThinking={isStreaming && !message.content}
+                />
+              )}
+              {(parsedContent || toolCalls.length === 0) && (
+                <MessageContent
+                  content={parsedContent}
+                  citations={readOnly ? undefined : message.citations}
+                  onCitationClick={setOpenCitation}
+                />
+              )}
+              {isStreaming && queuePosition && !message.content && (
+                <p className='text-sm text-gray-500 dark:text-dark-500'>
+                  Waiting in queue (position {queuePosition})…
+                </p>
+              )}
               {isStreaming && (
                 <div className='inline-block w-2 h-5 bg-primary-500 animate-pulse ml-1 rounded-sm' />
               )}
             </div>
           )}
 
+          {/* Tools the assistant asked to run */}
+          {toolCalls.length > 0 && (
+            <div className='mt-2'>
+              <ToolDetails
+                title={`Called ${toolCalls.map(call => call.function.name).join(', ')}`}
+              >
+                {toolCalls.map((call, index) => (
+                  <div key={index}>
+                    <div className='font-medium text-gray-700 dark:text-gray-300'>
+                      {call.function.name}
+                    </div>
+                    <pre className='whitespace-pre-wrap break-words text-gray-600 dark:text-gray-400'>
+                      {JSON.stringify(call.function.arguments, null, 2)}
+                    </pre>
+                  </div>
+                ))}
+              </ToolDetails>
+            </div>
+          )}
+
+          {/* Document passages the reply was given */}
+          {!readOnly &&
+            !isStreaming &&
+            message.citations &&
+            message.citations.length > 0 && (
+              <div className='mt-3 flex flex-wrap items-center gap-1.5'>
+                <span className='text-xs text-gray-500 dark:text-dark-500'>
+                  Sources:
+                </span>
+                {message.citations.map(citation => {
+                  const location = formatCitationLocation(citation);
+                  return (
+                    <button
+                      key={citation.index}
+                      type='button'
+                      onClick={() => setOpenCitation(citation)}
+                      className='inline-flex max-w-full items-center gap-1 rounded-md border border-gray-200 dark:border-dark-300 px-2 py-0.5 text-xs text-gray-600 dark:text-dark-600 hover:bg-gray-100 dark:hover:bg-dark-200 transition-colors'
+                      title={location || citation.filename}
+                    >
+                      <span className='font-semibold text-primary-600 dark:text-primary-400'>
+                        {citation.index}
+                      </span>
+                      <span className='truncate'>
+                        {citation.filename}
+                        {citation.pageNumber !== undefined &&
+                          `, p. ${citation.pageNumber}`}
+                      </span>
+                    </button>
+                  );
+                })}
+              </div>
+            )}
+
+          {openCitation && (
+            <CitationPanel
+              citation={openCitation}
+              onClose={() => setOpenCitation(null)}
+            />
+          )}
+
           {/* Render artifacts for assistant messages */}
-          {!isUser && !isSystem && artifacts.length > 0 && (
+          {!isUser && !isSystem && !isTool && artifacts.length > 0 && (
             <div className='mt-4'>
-              <ArtifactContainer artifacts={artifacts} />
+              <ArtifactContainer
+                artifacts={artifacts}
+                previewDisabled={readOnly}
+              />
             </div>
           )}
 
           {/* Display generation statistics for assistant messages */}
-          {!isUser && !isSystem && message.statistics && (
+          {!isUser && !isSystem && !isTool && message.statistics && (
             <div className='mt-3'>
               <GenerationStats statistics={message.statistics} />
             </div>
@@ -15,28 +15,54 @@
  * limitations under the License.
  */
 
-import React, { useEffect, useRef, useCallback } from 'react';
+import React, {
+  useEffect,
+  useRef,
+  useCallback,
+  useMemo,
+  useState,
+} from 'react';
 import { ChatMessage } from '@/components/ChatMessage';
 import { ChatMessage as ChatMessageType } from '@/types';
 import { cn } from '@/utils';
+import { getActiveBranch, getSiblings } from '@/utils/messageTree';
 
 interface ChatMessagesProps {
   messages: ChatMessageType[];
+  activeMessageId?: string;
   streamingMessage?: string;
   isStreaming?: boolean;
+  queuePosition?: number | null; // Set while the reply waits for a slot
   className?: string;
+  onRegenerate?: (messageId: string) => void;
+  onEditMessage?: (messageId: string, content: string) => void;
+  onSelectBranch?: (messageId: string) => void;
+  focusMessageId?: string; // Scrolled to and briefly highlighted
 }
 
 export const ChatMessages: React.FC<ChatMessagesProps> = ({
   messages,
+  activeMessageId,
   streamingMessage,
   isStreaming = false,
+  queuePosition,
   className,
+  onRegenerate,
+  onEditMessage,
+  onSelectBranch,
+  focusMessageId,
 }) => {
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const scrollTimeoutRef = useRef<NodeJS.Timeout>();
   const scrollContainerRef = useRef<HTMLDivElement>(null);
   const isUserScrolledUpRef = useRef<boolean>(false);
+  const [flashMessageId, setFlashMessageId] = useState<string | null>(null);
+
+  // Only the selected branch of the conversation tree is shown
+  const branch = useMemo(
+    () => getActiveBranch(messages, activeMessageId),
+    [messages, activeMessageId]
+  );
 
   const scrollToBottom = useCallback(
     (force: boolean = false) => {
@@ -81,6 +107,24 @@ export const ChatMessages: React.FC<ChatMessagesProps> = ({
     scrollToBottom();
   }, [messages.length, scrollToBottom]);
 
+  // Bring a linked message into view instead of jumping to the bottom
+  const focusVisible = branch.some(msg => msg.id === focusMessageId);
+  useEffect(() => {
+    if (!focusMessageId || !focusVisible) return;
+
+    if (scrollTimeoutRef.current) {
+      clearTimeout(scrollTimeoutRef.current);
+    }
+    isUserScrolledUpRef.current = true;
+    document
+      .getElementById(`message-${focusMessageId}`)
+      ?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+
+    setFlashMessageId(focusMessageId);
+    const timer = setTimeout(() => setFlashMessageId(null), 2000);
+    return () => clearTimeout(timer);
+  }, [focusMessageId, focusVisible]);
+
   // Enhanced streaming scroll - direct scroll manipulation for reliability
   useEffect(() => {
     if (isStreaming && streamingMessage) {
@@ -151,8 +195,8 @@ export const ChatMessages: React.FC<ChatMessagesProps> = ({
       }}
     >
       <div className='max-w-4xl mx-auto px-3 sm:px-4 md:px-6 w-full min-w-0'>
-        {messages.map((message, index) => {
-          const isLastMessage = index === messages.length - 1;
+        {branch.map((message, index) => {
+          const isLastMessage = index === branch.length - 1;
           const isStreamingThisMessage =
             isStreaming && isLastMessage && message.role === 'assistant';
 
@@ -162,13 +206,50 @@ export const ChatMessages: React.FC<ChatMessagesProps> = ({
               ? { ...message, content: streamingMessage }
               : message;
 
+          const siblings = getSiblings(messages, message);
+          const siblingIndex = siblings.findIndex(m => m.id === message.id);
+
           return (
-            <ChatMessage
+            <div
               key={message.id}
-              message={displayMessage}
-              isStreaming={isStreamingThisMessage}
-              className={index === 0 ? 'mt-3 sm:mt-4 md:mt-6' : ''}
-            />
+              id={`message-${message.id}`}
+              className={cn(
+                'rounded-xl transition-shadow duration-500',
+                flashMessageId === message.id &&
+                  'ring-2 ring-primary-400 dark:ring-primary-500'
+              )}
+            >
+              <ChatMessage
+                message={displayMessage}
+                isStreaming={isStreamingThisMessage}
+                queuePosition={
+                  isStreamingThisMessage ? queuePosition : undefined
+                }
+                className={index === 0 ? 'mt-3 sm:mt-4 md:mt-6' : ''}
+                siblingPosition={
+                  siblings.length > 1
+                    ? { index: siblingIndex, count: siblings.length }
+                    : undefined
+                }
+                onSwitchSibling={
+                  onSelectBranch
+                    ? offset => {
+                        const target = siblings[siblingIndex + offset];
+                        if (target) onSelectBranch(target.id);
+                      }
+                    : undefined
+                }
+                onRegenerate={
+                  onRegenerate ? () => onRegenerate(message.id) : undefined
+                }
+                onEdit={
+                  onEditMessage
+                    ? content => onEditMessage(message.id, content)
+                    : undefined
+                }
+                actionsDisabled={isStreaming}
+              />
+            </div>
           );
         })}
         <div ref={messagesEndRef} className='h-3 sm:h-4 md:h-6' />
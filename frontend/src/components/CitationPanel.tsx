@@ -0,0 +1,128 @@
+/*
+ * Libre WebUI
+ * Copyright (C) 2025 Kroonen AI, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at:
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import React, { useEffect, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { FileText, X } from 'lucide-react';
+import { Button } from '@/components/ui';
+import { DocumentChunk, MessageCitation } from '@/types';
+import { documentsApi } from '@/utils/api';
+import { formatCitationLocation } from '@/utils';
+
+interface CitationPanelProps {
+  citation: MessageCitation;
+  onClose: () => void;
+}
+
+/**
+ * Side panel showing the document passage behind a citation in a reply
+ */
+export const CitationPanel: React.FC<CitationPanelProps> = ({
+  citation,
+  onClose,
+}) => {
+  const [chunk, setChunk] = useState<DocumentChunk | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setChunk(null);
+    documentsApi
+      .getDocumentChunk(citation.documentId, citation.chunkId)
+      .then(response => {
+        if (!cancelled && response.success) {
+          setChunk(response.data || null);
+        }
+      })
+      .catch(error => {
+        // The document was deleted since the reply was written
+        console.error('Failed to load cited passage:', error);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [citation.documentId, citation.chunkId]);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const location = formatCitationLocation(citation);
+
+  // Rendered at the root so the message layout cannot clip the panel
+  return createPortal(
+    <div className='fixed inset-y-0 right-0 z-50 flex w-full sm:w-[28rem] flex-col bg-white dark:bg-dark-100 border-l border-gray-200 dark:border-dark-300 shadow-2xl'>
+      {/* Header */}
+      <div className='flex items-start justify-between gap-2 p-4 border-b border-gray-200 dark:border-dark-300'>
+        <div className='flex items-start gap-2 min-w-0'>
+          <span className='shrink-0 rounded-md bg-primary-100 dark:bg-primary-900/40 px-1.5 py-0.5 text-xs font-semibold text-primary-700 dark:text-primary-300'>
+            {citation.index}
+          </span>
+          <div className='min-w-0'>
+            <div className='flex items-center gap-1.5'>
+              <FileText className='h-4 w-4 shrink-0 text-gray-500 dark:text-dark-500' />
+              <h2 className='text-sm font-semibold text-gray-900 dark:text-dark-800 truncate'>
+                {citation.filename}
+              </h2>
+            </div>
+            {location && (
+              <p className='mt-0.5 text-xs text-gray-500 dark:text-dark-500'>
+                {location}
+              </p>
+            )}
+          </div>
+        </div>
+        <Button
+          variant='ghost'
+          size='sm'
+          onClick={onClose}
+          className='h-8 w-8 p-0 shrink-0 hover:bg-gray-100 dark:hover:bg-dark-200'
+          title='Close'
+        >
+          <X className='h-4 w-4' />
+        </Button>
+      </div>
+
+      {/* Passage */}
+      <div className='flex-1 overflow-y-auto p-4'>
+        {loading ? (
+          <p className='text-sm text-gray-500 dark:text-dark-500'>
+            Loading passage...
+          </p>
+        ) : chunk ? (
+          <p className='whitespace-pre-wrap text-sm leading-relaxed text-gray-700 dark:text-dark-700'>
+            {chunk.content}
+          </p>
+        ) : (
+          <p className='text-sm text-gray-500 dark:text-dark-500'>
+            This passage is no longer available. Its document may have been
+            deleted.
+          </p>
+        )}
+      </div>
+    </div>,
+    document.body
+  );
+};
@@ -0,0 +1,82 @@
+/*
+ * Libre WebUI
+ * Copyright (C) 2025 Kroonen AI, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at:
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import React from 'react';
+import { ContextUsage } from '@/types';
+import { cn } from '@/utils';
+
+interface ContextMeterProps {
+  usage: ContextUsage;
+  className?: string;
+}
+
+export const ContextMeter: React.FC<ContextMeterProps> = ({
+  usage,
+  className,
+}) => {
+  const formatTokens = (tokens: number): string =>
+    tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : `${tokens}`;
+
+  const ratio =
+    usage.promptBudget > 0
+      ? Math.min(usage.usedTokens / usage.promptBudget, 1)
+      : 0;
+
+  const title = [
+    `~${usage.usedTokens} of ${usage.promptBudget} prompt tokens`,
+    `${usage.contextWindow} token context window`,
+    usage.truncated
+      ? `${usage.includedMessages} of ${usage.totalMessages} messages fit; older ones are left out`
+      : usage.summarizedMessages > 0
+        ? `All ${usage.totalMessages - usage.summarizedMessages} messages since the summary fit`
+        : `All ${usage.totalMessages} messages fit`,
+    usage.summarizedMessages > 0 &&
+      `${usage.summarizedMessages} earlier messages are replaced by the conversation summary`,
+  ]
+    .filter(Boolean)
+    .join('\n');
+
+  return (
+    <div
+      className={cn(
+        'flex items-center gap-2 text-xs text-gray-500 dark:text-dark-600',
+        className
+      )}
+      title={title}
+    >
+      <div className='w-20 h-1.5 rounded-full bg-gray-200 dark:bg-dark-300 overflow-hidden'>
+        <div
+          className={cn(
+            'h-full rounded-full transition-all duration-300',
+            ratio < 0.7
+              ? 'bg-green-500'
+              : ratio < 0.9
+                ? 'bg-amber-500'
+                : 'bg-red-500'
+          )}
+          style={{ width: `${ratio * 100}%` }}
+        />
+      </div>
+      <span className='tabular-nums'>
+        {formatTokens(usage.usedTokens)} / {formatTokens(usage.promptBudget)}
+      </span>
+      {usage.truncated && (
+        <span className='text-amber-600 dark:text-amber-400'>truncated</span>
+      )}
+    </div>
+  );
+};
@@ -16,11 +16,47 @@
  */
 
 import React, { useState, useRef } from 'react';
-import { Upload, FileText, Loader2, X, File } from 'lucide-react';
+import {
+  Upload,
+  FileText,
+  Loader2,
+  X,
+  File,
+  FileCode,
+  FileSpreadsheet,
+  BookOpen,
+} from 'lucide-react';
 import { documentsApi } from '@/utils/api';
-import { DocumentSummary } from '@/types';
+import { DocumentFileType, DocumentSummary } from '@/types';
 import toast from 'react-hot-toast';
 
+// Keep in sync with the extractors in backend/src/services/documentExtractors.ts
+const DOCUMENT_EXTENSIONS = [
+  'pdf docx xlsx csv tsv epub txt text log rst adoc md markdown mdx',
+  'html htm xhtml js jsx mjs cjs ts tsx py rb go rs java kt kts scala swift',
+  'c h cc cpp hpp cs php lua r dart sh bash zsh ps1 sql vue svelte css scss',
+  'less json yaml yml toml ini xml graphql proto',
+]
+  .join(' ')
+  .split(' ');
+
+const getFileIcon = (fileType: DocumentFileType) => {
+  switch (fileType) {
+    case 'pdf':
+      return <FileText className='w-4 h-4 text-red-500' />;
+    case 'csv':
+    case 'xlsx':
+      return <FileSpreadsheet className='w-4 h-4 text-green-600' />;
+    case 'epub':
+      return <BookOpen className='w-4 h-4 text-amber-600' />;
+    case 'code':
+    case 'html':
+      return <FileCode className='w-4 h-4 text-purple-500' />;
+    default:
+      return <File className='w-4 h-4 text-blue-500' />;
+  }
+};
+
 interface DocumentUploadProps {
   sessionId?: string;
   onDocumentUploaded?: (document: DocumentSummary) => void;
@@ -45,8 +81,9 @@ export const DocumentUpload: React.FC<DocumentUploadProps> = ({
     const file = files[0];
 
     // Validate file type
-    if (!file.type.includes('pdf') && !file.type.includes('text')) {
-      toast.error('Only PDF and TXT files are supported');
+    const extension = file.name.split('.').pop()?.toLowerCase() || '';
+    if (!DOCUMENT_EXTENSIONS.includes(extension)) {
+      toast.error(`Files of type .${extension} are not supported`);
       return;
     }
 
@@ -150,7 +187,9 @@ export const DocumentUpload: React.FC<DocumentUploadProps> = ({
         <input
           ref={fileInputRef}
           type='file'
-          accept='.pdf,.txt'
+          accept={DOCUMENT_EXTENSIONS.map(extension => `.${extension}`).join(
+            ','
+          )}
           onChange={handleFileInputChange}
           className='hidden'
           disabled={disabled}
@@ -171,7 +210,8 @@ export const DocumentUpload: React.FC<DocumentUploadProps> = ({
               drop
             </div>
             <div className='text-xs text-gray-500 dark:text-gray-500'>
-              PDF or TXT files up to 10MB
+              PDF, Word, Excel, CSV, EPUB, Markdown, HTML, text or code files up
+              to 10MB
             </div>
           </div>
         )}
@@ -190,11 +230,7 @@ export const DocumentUpload: React.FC<DocumentUploadProps> = ({
                 className='flex items-center justify-between p-2 bg-gray-50 dark:bg-gray-800 rounded-lg'
               >
                 <div className='flex items-center space-x-2 flex-1 min-w-0'>
-                  {doc.fileType === 'pdf' ? (
-                    <FileText className='w-4 h-4 text-red-500' />
-                  ) : (
-                    <File className='w-4 h-4 text-blue-500' />
-                  )}
+                  {getFileIcon(doc.fileType)}
                   <div className='flex-1 min-w-0'>
                     <p className='text-sm font-medium text-gray-900 dark:text-gray-100 truncate'>
                       {doc.filename}
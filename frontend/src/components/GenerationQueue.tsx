@@ -0,0 +1,161 @@
+/*
+ * Libre WebUI
+ * Copyright (C) 2025 Kroonen AI, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at:
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import React, { useState, useEffect, useCallback } from 'react';
+import { toast } from 'react-hot-toast';
+import { generationApi } from '@/utils/api';
+import { GenerationJobInfo, GenerationQueueStatus } from '@/types';
+import {
+  Button,
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui';
+import { Loader2, Clock, XCircle, Shield } from 'lucide-react';
+
+const POLL_INTERVAL_MS = 5000;
+
+const formatElapsed = (since?: number): string => {
+  if (!since) return '';
+  const seconds = Math.max(0, Math.round((Date.now() - since) / 1000));
+  if (seconds < 60) return `${seconds}s`;
+  return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+};
+
+export const GenerationQueue: React.FC = () => {
+  const [queue, setQueue] = useState<GenerationQueueStatus | null>(null);
+
+  const loadQueue = useCallback(async () => {
+    try {
+      const response = await generationApi.getQueue();
+      if (response.success && response.data) {
+        setQueue(response.data);
+      }
+    } catch (error) {
+      console.error('Error loading generation queue:', error);
+    }
+  }, []);
+
+  // Poll while the page is open; the queue changes every few seconds
+  useEffect(() => {
+    loadQueue();
+    const interval = setInterval(loadQueue, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [loadQueue]);
+
+  const handleCancel = async (job: GenerationJobInfo) => {
+    try {
+      const response = await generationApi.cancelJob(job.messageId);
+      if (response.success) {
+        toast.success('Generation cancelled');
+        loadQueue();
+      }
+    } catch (error) {
+      console.error('Error cancelling generation:', error);
+      toast.error('Failed to cancel generation');
+    }
+  };
+
+  const renderJob = (job: GenerationJobInfo) => (
+    <div
+      key={job.messageId}
+      className='flex items-center justify-between p-3 bg-gray-50 dark:bg-dark-100 rounded-lg border border-gray-200 dark:border-dark-300'
+    >
+      <div className='flex items-center space-x-3 min-w-0'>
+        <div className='p-2 bg-primary-100 dark:bg-primary-900/20 rounded-lg'>
+          {job.status === 'running' ? (
+            <Loader2 className='h-4 w-4 text-primary-600 dark:text-primary-400 animate-spin' />
+          ) : (
+            <Clock className='h-4 w-4 text-primary-600 dark:text-primary-400' />
+          )}
+        </div>
+        <div className='min-w-0'>
+          <p className='font-medium text-gray-900 dark:text-gray-100 truncate'>
+            {job.username || job.userId}
+            {job.priority > 0 && (
+              <span className='ml-2 inline-flex items-center gap-1 text-xs text-primary-600 dark:text-primary-400 font-normal'>
+                <Shield size={12} />
+                Priority
+              </span>
+            )}
+          </p>
+          <p className='text-xs text-gray-500 dark:text-gray-500 truncate'>
+            {job.status === 'running'
+              ? `Running for ${formatElapsed(job.startedAt)}`
+              : `Position ${job.position ?? '?'} · waiting ${formatElapsed(job.queuedAt)}`}{' '}
+            · session {job.sessionId.slice(0, 8)}
+          </p>
+        </div>
+      </div>
+      <Button
+        variant='outline'
+        size='sm'
+        onClick={() => handleCancel(job)}
+        className='text-red-600 dark:text-red-400 hover:text-red-700 dark:hover:text-red-300 hover:bg-red-50 dark:hover:bg-red-900/20'
+        title='Cancel generation'
+      >
+        <XCircle size={16} />
+      </Button>
+    </div>
+  );
+
+  return (
+    <Card className='bg-white dark:bg-dark-25 border border-gray-200 dark:border-dark-200 shadow-lg'>
+      <CardHeader>
+        <CardTitle className='text-gray-900 dark:text-gray-100'>
+          Generation Queue
+        </CardTitle>
+        <CardDescription className='text-gray-600 dark:text-gray-400'>
+          {queue
+            ? `${queue.active.length} of ${queue.maxConcurrent} slots in use, ${queue.waiting.length} waiting (max ${queue.maxPerUser} per user)`
+            : 'Loading queue…'}
+        </CardDescription>
+      </CardHeader>
+      {queue && (
+        <CardContent>
+          <div className='space-y-4'>
+            <div>
+              <h3 className='text-sm font-medium text-gray-700 dark:text-gray-300 mb-2'>
+                Active
+              </h3>
+              {queue.active.length > 0 ? (
+                <div className='space-y-2'>{queue.active.map(renderJob)}</div>
+              ) : (
+                <p className='text-sm text-gray-500 dark:text-gray-500'>
+                  Nothing is generating right now
+                </p>
+              )}
+            </div>
+            <div>
+              <h3 className='text-sm font-medium text-gray-700 dark:text-gray-300 mb-2'>
+                Waiting
+              </h3>
+              {queue.waiting.length > 0 ? (
+                <div className='space-y-2'>{queue.waiting.map(renderJob)}</div>
+              ) : (
+                <p className='text-sm text-gray-500 dark:text-gray-500'>
+                  The queue is empty
+                </p>
+              )}
+            </div>
+          </div>
+        </CardContent>
+      )}
+    </Card>
+  );
+};
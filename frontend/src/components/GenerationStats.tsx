@@ -55,6 +55,20 @@ export const GenerationStats: React.FC<GenerationStatsProps> = ({
   const totalTokens = promptTokens + generatedTokens;
   const totalDuration = formatDuration(statistics.total_duration);
   const tokensPerSecond = formatTokensPerSecond(statistics.tokens_per_second);
+  const wasCancelled = statistics.done_reason === 'cancelled';
+
+  // A reply stopped before the model reported any numbers
+  if (wasCancelled && !statistics.eval_count) {
+    return (
+      <div
+        className={`text-xs text-gray-500 dark:text-dark-500 mt-2 ${className}`}
+      >
+        <span className='text-gray-400 dark:text-dark-400 bg-gray-100 dark:bg-dark-200 px-2 py-0.5 rounded-full'>
+          Stopped
+        </span>
+      </div>
+    );
+  }
 
   return (
     <div
@@ -80,6 +94,11 @@ export const GenerationStats: React.FC<GenerationStatsProps> = ({
             {statistics.model}
           </span>
         )}
+        {wasCancelled && (
+          <span className='text-gray-400 dark:text-dark-400 bg-gray-100 dark:bg-dark-200 px-2 py-0.5 rounded-full'>
+            Stopped
+          </span>
+        )}
       </div>
 
       {/* Expandable Detailed Stats */}
@@ -124,6 +124,14 @@ export const KeyboardShortcutsModal: React.FC<KeyboardShortcutsModalProps> = ({
                   ⇧+Enter
                 </kbd>
               </div>
+              <div className='flex items-center justify-between py-2'>
+                <span className='text-sm text-gray-600 dark:text-dark-500'>
+                  Search all chats
+                </span>
+                <kbd className='px-2 py-1 text-xs font-mono bg-gray-100 dark:bg-dark-200 text-gray-700 dark:text-dark-600 rounded border border-gray-300 dark:border-dark-400'>
+                  {navigator.platform.includes('Mac') ? '⌘' : 'Ctrl'}+K
+                </kbd>
+              </div>
             </div>
           </div>
         </div>
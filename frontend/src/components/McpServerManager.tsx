@@ -0,0 +1,368 @@
+/*
+ * Libre WebUI
+ * Copyright (C) 2025 Kroonen AI, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at:
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import toast from 'react-hot-toast';
+import { Plus, RefreshCw, Server, Trash2 } from 'lucide-react';
+import { Button, Input, Switch, Textarea } from '@/components/ui';
+import { mcpApi } from '@/utils/api';
+import { McpServer, McpServerInput, McpTransport } from '@/types';
+
+// Parse "KEY=value" (env) or "Name: value" (headers) lines into a map
+const parsePairs = (text: string, separator: string) =>
+  Object.fromEntries(
+    text
+      .split('\n')
+      .map(line => line.trim())
+      .filter(line => line.includes(separator))
+      .map(line => {
+        const index = line.indexOf(separator);
+        return [
+          line.slice(0, index).trim(),
+          line.slice(index + separator.length).trim(),
+        ];
+      })
+  );
+
+const emptyForm = {
+  name: '',
+  transport: 'stdio' as McpTransport,
+  command: '',
+  args: '',
+  env: '',
+  url: '',
+  headers: '',
+};
+
+export const McpServerManager: React.FC = () => {
+  const [servers, setServers] = useState<McpServer[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [showAddForm, setShowAddForm] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+  const [busyServerId, setBusyServerId] = useState<string | null>(null);
+
+  const loadServers = useCallback(async () => {
+    try {
+      const response = await mcpApi.getServers();
+      if (response.success && response.data) {
+        setServers(response.data);
+      }
+    } catch (error) {
+      console.error('Failed to load MCP servers:', error);
+      toast.error('Failed to load MCP servers');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadServers();
+  }, [loadServers]);
+
+  const replaceServer = (server: McpServer) =>
+    setServers(prev => prev.map(s => (s.id === server.id ? server : s)));
+
+  const handleAdd = async () => {
+    const input: McpServerInput =
+      form.transport === 'stdio'
+        ? {
+            name: form.name.trim(),
+            transport: 'stdio',
+            command: form.command.trim(),
+            args: form.args.split(/\s+/).filter(Boolean),
+            env: parsePairs(form.env, '='),
+          }
+        : {
+            name: form.name.trim(),
+            transport: 'http',
+            url: form.url.trim(),
+            headers: parsePairs(form.headers, ':'),
+          };
+
+    try {
+      const response = await mcpApi.addServer(input);
+      if (response.success && response.data) {
+        setServers(prev => [...prev, response.data!]);
+        setForm(emptyForm);
+        setShowAddForm(false);
+        toast.success(`Added ${response.data.name}`);
+        handleTest(response.data);
+      } else {
+        toast.error(response.error || 'Failed to add MCP server');
+      }
+    } catch (error: unknown) {
+      const message =
+        (error as { response?: { data?: { error?: string } } }).response?.data
+          ?.error || 'Failed to add MCP server';
+      toast.error(message);
+    }
+  };
+
+  const handleTest = async (server: McpServer) => {
+    setBusyServerId(server.id);
+    try {
+      const response = await mcpApi.testServer(server.id);
+      if (response.success && response.data) {
+        replaceServer({ ...server, tools: response.data });
+        toast.success(
+          `${server.name}: connected, ${response.data.length} tools available`
+        );
+      } else {
+        toast.error(response.error || `Could not connect to ${server.name}`);
+      }
+    } catch (error: unknown) {
+      const message =
+        (error as { response?: { data?: { error?: string } } }).response?.data
+          ?.error || `Could not connect to ${server.name}`;
+      toast.error(message);
+    } finally {
+      setBusyServerId(null);
+    }
+  };
+
+  const handleUpdate = async (
+    server: McpServer,
+    updates: { enabled?: boolean; disabled_tools?: string[] }
+  ) => {
+    try {
+      const response = await mcpApi.updateServer(server.id, updates);
+      if (response.success && response.data) {
+        replaceServer(response.data);
+      }
+    } catch (error) {
+      console.error('Failed to update MCP server:', error);
+      toast.error('Failed to update MCP server');
+    }
+  };
+
+  const toggleTool = (server: McpServer, toolName: string) => {
+    const disabled = server.disabled_tools.includes(toolName)
+      ? server.disabled_tools.filter(name => name !== toolName)
+      : [...server.disabled_tools, toolName];
+    handleUpdate(server, { disabled_tools: disabled });
+  };
+
+  const handleDelete = async (server: McpServer) => {
+    if (!confirm(`Remove MCP server "${server.name}"?`)) return;
+    try {
+      await mcpApi.deleteServer(server.id);
+      setServers(prev => prev.filter(s => s.id !== server.id));
+      toast.success(`Removed ${server.name}`);
+    } catch (error) {
+      console.error('Failed to remove MCP server:', error);
+      toast.error('Failed to remove MCP server');
+    }
+  };
+
+  return (
+    <div className='space-y-6'>
+      <div>
+        <div className='flex items-center justify-between mb-2'>
+          <h3 className='text-lg font-semibold text-gray-900 dark:text-gray-100'>
+            MCP Servers
+          </h3>
+          <Button
+            size='sm'
+            variant='outline'
+            onClick={() => setShowAddForm(!showAddForm)}
+          >
+            <Plus className='h-4 w-4 mr-1' />
+            Add Server
+          </Button>
+        </div>
+        <p className='text-sm text-gray-600 dark:text-gray-400'>
+          Connect Model Context Protocol servers to give tool-capable models
+          access to their tools. Tools appear to the model as
+          <code className='mx-1'>server__tool</code>.
+        </p>
+      </div>
+
+      {showAddForm && (
+        <div className='space-y-3 p-4 border border-gray-200 dark:border-dark-300 rounded-lg'>
+          <Input
+            label='Name'
+            value={form.name}
+            onChange={e => setForm({ ...form, name: e.target.value })}
+            placeholder='filesystem'
+          />
+          <div className='flex gap-2'>
+            {(['stdio', 'http'] as McpTransport[]).map(transport => (
+              <Button
+                key={transport}
+                size='sm'
+                variant={form.transport === transport ? 'primary' : 'outline'}
+                onClick={() => setForm({ ...form, transport })}
+              >
+                {transport === 'stdio' ? 'Local process (stdio)' : 'HTTP'}
+              </Button>
+            ))}
+          </div>
+          {form.transport === 'stdio' ? (
+            <>
+              <Input
+                label='Command'
+                value={form.command}
+                onChange={e => setForm({ ...form, command: e.target.value })}
+                placeholder='npx'
+              />
+              <Input
+                label='Arguments'
+                value={form.args}
+                onChange={e => setForm({ ...form, args: e.target.value })}
+                placeholder='-y @modelcontextprotocol/server-filesystem /data'
+              />
+              <Textarea
+                label='Environment (KEY=value per line)'
+                value={form.env}
+                onChange={e => setForm({ ...form, env: e.target.value })}
+                rows={2}
+              />
+            </>
+          ) : (
+            <>
+              <Input
+                label='URL'
+                value={form.url}
+                onChange={e => setForm({ ...form, url: e.target.value })}
+                placeholder='https://mcp.example.com/mcp'
+              />
+              <Textarea
+                label='Headers (Name: value per line)'
+                value={form.headers}
+                onChange={e => setForm({ ...form, headers: e.target.value })}
+                rows={2}
+              />
+            </>
+          )}
+          <div className='flex justify-end gap-2'>
+            <Button
+              size='sm'
+              variant='ghost'
+              onClick={() => setShowAddForm(false)}
+            >
+              Cancel
+            </Button>
+            <Button
+              size='sm'
+              onClick={handleAdd}
+              disabled={
+                !form.name.trim() ||
+                (form.transport === 'stdio'
+                  ? !form.command.trim()
+                  : !form.url.trim())
+              }
+            >
+              Add
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {isLoading ? (
+        <p className='text-sm text-gray-500 dark:text-gray-400'>Loading...</p>
+      ) : servers.length === 0 ? (
+        <p className='text-sm text-gray-500 dark:text-gray-400'>
+          No MCP servers configured yet.
+        </p>
+      ) : (
+        <div className='space-y-3'>
+          {servers.map(server => (
+            <div
+              key={server.id}
+              className='p-4 border border-gray-200 dark:border-dark-300 rounded-lg'
+            >
+              <div className='flex items-start justify-between gap-3'>
+                <div className='min-w-0'>
+                  <div className='flex items-center gap-2'>
+                    <Server className='h-4 w-4 text-gray-500' />
+                    <span className='font-medium text-gray-900 dark:text-white'>
+                      {server.name}
+                    </span>
+                    <span className='px-2 py-0.5 rounded-full text-xs bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-300'>
+                      {server.transport}
+                    </span>
+                  </div>
+                  <p className='text-xs text-gray-500 dark:text-gray-400 mt-1 truncate'>
+                    {server.transport === 'stdio'
+                      ? [server.command, ...(server.args || [])].join(' ')
+                      : server.url}
+                  </p>
+                </div>
+                <div className='flex items-center gap-2 shrink-0'>
+                  <Switch
+                    checked={server.enabled}
+                    onChange={enabled => handleUpdate(server, { enabled })}
+                  />
+                  <Button
+                    size='sm'
+                    variant='outline'
+                    onClick={() => handleTest(server)}
+                    loading={busyServerId === server.id}
+                    title='Connect and refresh tools'
+                  >
+                    <RefreshCw className='h-3 w-3' />
+                  </Button>
+                  <Button
+                    size='sm'
+                    variant='outline'
+                    onClick={() => handleDelete(server)}
+                    title='Remove server'
+                  >
+                    <Trash2 className='h-3 w-3' />
+                  </Button>
+                </div>
+              </div>
+
+              {server.tools && server.tools.length > 0 ? (
+                <div className='mt-3 space-y-2'>
+                  {server.tools.map(tool => (
+                    <div
+                      key={tool.name}
+                      className='flex items-center justify-between gap-3'
+                    >
+                      <div className='min-w-0'>
+                        <div className='text-sm text-gray-800 dark:text-gray-200'>
+                          {tool.name}
+                        </div>
+                        {tool.description && (
+                          <div className='text-xs text-gray-500 dark:text-gray-400 truncate'>
+                            {tool.description}
+                          </div>
+                        )}
+                      </div>
+                      <Switch
+                        checked={!server.disabled_tools.includes(tool.name)}
+                        onChange={() => toggleTool(server, tool.name)}
+                        disabled={!server.enabled}
+                      />
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <p className='mt-3 text-xs text-gray-500 dark:text-gray-400'>
+                  {server.tools
+                    ? 'This server exposes no tools.'
+                    : 'Not connected yet. Use refresh to load tools.'}
+                </p>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -32,6 +32,7 @@ interface ModelInfo {
     parameter_size?: string;
     quantization_level?: string;
   };
+  hosts?: string[];
 }
 
 export const ModelManager: React.FC = () => {
@@ -275,7 +276,7 @@ export const ModelManager: React.FC = () => {
           <div className='space-y-2'>
             {runningModels.map((model: RunningModel) => (
               <div
-                key={model.name}
+                key={`${model.host || ''}:${model.name}`}
                 className='flex items-center justify-between p-3 bg-green-50 dark:bg-green-900/20 rounded-md border border-green-200 dark:border-green-800'
               >
                 <div>
@@ -284,6 +285,7 @@ export const ModelManager: React.FC = () => {
                   </div>
                   <div className='text-sm text-green-600 dark:text-green-500'>
                     VRAM: {formatSize(model.size_vram || 0)}
+                    {model.host && <span> · {model.host}</span>}
                   </div>
                 </div>
                 <div className='text-xs text-green-600 dark:text-green-500'>
@@ -342,6 +344,12 @@ export const ModelManager: React.FC = () => {
                   <div className='text-xs text-gray-500 dark:text-dark-500 mt-1'>
                     Modified: {new Date(model.modified_at).toLocaleString()}
                   </div>
+
+                  {model.hosts && (
+                    <div className='text-xs text-gray-500 dark:text-dark-500 mt-1'>
+                      Served by: {model.hosts.join(', ')}
+                    </div>
+                  )}
                 </div>
 
                 <div className='flex gap-2'>
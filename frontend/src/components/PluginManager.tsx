@@ -261,6 +261,11 @@ export const PluginManager: React.FC<PluginManagerProps> = ({ onClose }) => {
                         <span className='inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-300'>
                           {plugin.type}
                         </span>
+                        {plugin.protocol && (
+                          <span className='inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-300'>
+                            {plugin.protocol}
+                          </span>
+                        )}
                       </div>
                       <p className='text-sm text-gray-600 dark:text-gray-400 mb-2'>
                         ID: {plugin.id}
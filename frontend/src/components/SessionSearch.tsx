@@ -0,0 +1,240 @@
+/*
+ * Libre WebUI
+ * Copyright (C) 2025 Kroonen AI, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at:
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import React, { useEffect, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Search, X, User, Bot } from 'lucide-react';
+import { ChatSearchResult } from '@/types';
+import { chatApi } from '@/utils/api';
+import { formatTimestamp, truncateText, cn } from '@/utils';
+
+interface SessionSearchProps {
+  onNavigate?: () => void;
+}
+
+// Queries shorter than this would match most messages
+const MIN_QUERY_LENGTH = 2;
+const SEARCH_DEBOUNCE_MS = 300;
+
+const HighlightedSnippet: React.FC<{
+  snippet: string;
+  highlights: [number, number][];
+}> = ({ snippet, highlights }) => {
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  highlights.forEach(([start, end], index) => {
+    if (start > cursor) parts.push(snippet.substring(cursor, start));
+    parts.push(
+      <mark
+        key={index}
+        className='bg-yellow-200 dark:bg-yellow-700/60 text-inherit rounded-sm px-0.5'
+      >
+        {snippet.substring(start, end)}
+      </mark>
+    );
+    cursor = end;
+  });
+  parts.push(snippet.substring(cursor));
+  return <>{parts}</>;
+};
+
+export const SessionSearch: React.FC<SessionSearchProps> = ({ onNavigate }) => {
+  const navigate = useNavigate();
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<ChatSearchResult[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [open, setOpen] = useState(false);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Cmd/Ctrl+K focuses the search from anywhere, including the chat input
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if ((event.metaKey || event.ctrlKey) && event.key.toLowerCase() === 'k') {
+        event.preventDefault();
+        inputRef.current?.focus();
+        inputRef.current?.select();
+        setOpen(true);
+      }
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  // Close the results when clicking elsewhere
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (
+        containerRef.current &&
+        !containerRef.current.contains(event.target as Node)
+      ) {
+        setOpen(false);
+      }
+    };
+
+    if (open) {
+      document.addEventListener('mousedown', handleClickOutside);
+      return () =>
+        document.removeEventListener('mousedown', handleClickOutside);
+    }
+  }, [open]);
+
+  useEffect(() => {
+    const trimmed = query.trim();
+    if (trimmed.length < MIN_QUERY_LENGTH) {
+      setResults([]);
+      setSearching(false);
+      return;
+    }
+
+    let cancelled = false;
+    setSearching(true);
+    const timer = setTimeout(() => {
+      chatApi
+        .searchMessages(trimmed)
+        .then(response => {
+          if (!cancelled && response.success) {
+            setResults(response.data || []);
+            setSelectedIndex(0);
+          }
+        })
+        .catch(error => {
+          console.error('Failed to search chats:', error);
+        })
+        .finally(() => {
+          if (!cancelled) setSearching(false);
+        });
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query]);
+
+  const openResult = (result: ChatSearchResult) => {
+    navigate(`/c/${result.sessionId}?message=${result.messageId}`, {
+      replace: true,
+    });
+    setOpen(false);
+    setQuery('');
+    inputRef.current?.blur();
+    onNavigate?.();
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'ArrowDown') {
+      event.preventDefault();
+      setSelectedIndex(index => Math.min(index + 1, results.length - 1));
+    } else if (event.key === 'ArrowUp') {
+      event.preventDefault();
+      setSelectedIndex(index => Math.max(index - 1, 0));
+    } else if (event.key === 'Enter' && results[selectedIndex]) {
+      event.preventDefault();
+      openResult(results[selectedIndex]);
+    } else if (event.key === 'Escape') {
+      setQuery('');
+      setOpen(false);
+      inputRef.current?.blur();
+    }
+  };
+
+  const showResults = open && query.trim().length >= MIN_QUERY_LENGTH;
+
+  return (
+    <div ref={containerRef} className='relative mb-2'>
+      <div className='relative'>
+        <Search className='absolute left-2.5 top-1/2 -translate-y-1/2 h-3.5 w-3.5 text-gray-400 dark:text-gray-500 pointer-events-none' />
+        <input
+          ref={inputRef}
+          type='text'
+          value={query}
+          onChange={e => {
+            setQuery(e.target.value);
+            setOpen(true);
+          }}
+          onFocus={() => setOpen(true)}
+          onKeyDown={handleKeyDown}
+          placeholder='Search chats...'
+          className='w-full h-8 pl-8 pr-7 text-sm rounded-lg border border-gray-200 dark:border-dark-300 bg-white dark:bg-dark-100 text-gray-900 dark:text-gray-100 placeholder-gray-500 dark:placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-primary-500/20 focus:border-primary-500'
+        />
+        {query && (
+          <button
+            type='button'
+            onClick={() => {
+              setQuery('');
+              inputRef.current?.focus();
+            }}
+            className='absolute right-2 top-1/2 -translate-y-1/2 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300'
+            title='Clear search'
+          >
+            <X className='h-3.5 w-3.5' />
+          </button>
+        )}
+      </div>
+
+      {showResults && (
+        <div className='absolute left-0 right-0 top-full mt-1 z-30 max-h-96 overflow-y-auto bg-white dark:bg-dark-100 border border-gray-200 dark:border-dark-300 rounded-lg shadow-lg'>
+          {searching && results.length === 0 ? (
+            <p className='px-3 py-2 text-xs text-gray-500 dark:text-gray-400'>
+              Searching...
+            </p>
+          ) : results.length === 0 ? (
+            <p className='px-3 py-2 text-xs text-gray-500 dark:text-gray-400'>
+              No messages found
+            </p>
+          ) : (
+            results.map((result, index) => (
+              <button
+                key={result.messageId}
+                type='button'
+                onClick={() => openResult(result)}
+                onMouseEnter={() => setSelectedIndex(index)}
+                className={cn(
+                  'w-full text-left px-3 py-2 border-b last:border-b-0 border-gray-100 dark:border-dark-200 transition-colors',
+                  index === selectedIndex
+                    ? 'bg-gray-100 dark:bg-dark-200'
+                    : 'hover:bg-gray-50 dark:hover:bg-dark-200/50'
+                )}
+              >
+                <div className='flex items-center gap-1.5 text-xs text-gray-500 dark:text-gray-400 mb-0.5'>
+                  {result.role === 'user' ? (
+                    <User className='h-3 w-3 shrink-0' />
+                  ) : (
+                    <Bot className='h-3 w-3 shrink-0' />
+                  )}
+                  <span className='font-medium text-gray-700 dark:text-gray-300 truncate'>
+                    {truncateText(result.sessionTitle, 28)}
+                  </span>
+                  <span className='ml-auto shrink-0'>
+                    {formatTimestamp(result.timestamp)}
+                  </span>
+                </div>
+                <p className='text-xs text-gray-600 dark:text-gray-400 line-clamp-3 break-words'>
+                  <HighlightedSnippet
+                    snippet={result.snippet}
+                    highlights={result.highlights}
+                  />
+                </p>
+              </button>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,227 @@
+/*
+ * Libre WebUI
+ * Copyright (C) 2025 Kroonen AI, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at:
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import React, { useEffect, useState } from 'react';
+import { Copy, Link2, Share2, Trash2, X } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { Button, Select } from '@/components/ui';
+import { ChatSession, SessionShare } from '@/types';
+import { chatApi } from '@/utils/api';
+import { formatTimestamp } from '@/utils';
+
+interface SessionShareModalProps {
+  session: ChatSession;
+  onClose: () => void;
+}
+
+const EXPIRY_OPTIONS = [
+  { value: '', label: 'Never expires' },
+  { value: '1', label: 'Expires in 1 day' },
+  { value: '7', label: 'Expires in 7 days' },
+  { value: '30', label: 'Expires in 30 days' },
+];
+
+const getApiError = (error: unknown, fallback: string): string =>
+  (error as { response?: { data?: { error?: string } } }).response?.data
+    ?.error || fallback;
+
+const shareUrl = (token: string): string =>
+  `${window.location.origin}/s/${token}`;
+
+export const SessionShareModal: React.FC<SessionShareModalProps> = ({
+  session,
+  onClose,
+}) => {
+  const [shares, setShares] = useState<SessionShare[]>([]);
+  const [expiresInDays, setExpiresInDays] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [creating, setCreating] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    chatApi
+      .getShares(session.id)
+      .then(response => {
+        if (!cancelled && response.success) {
+          setShares(response.data || []);
+        }
+      })
+      .catch(error => {
+        console.error('Failed to load share links:', error);
+        toast.error('Failed to load share links');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [session.id]);
+
+  const copyLink = async (token: string) => {
+    try {
+      await navigator.clipboard.writeText(shareUrl(token));
+      toast.success('Link copied');
+    } catch (_error) {
+      toast.error('Could not copy link');
+    }
+  };
+
+  const handleCreate = async () => {
+    setCreating(true);
+    try {
+      const response = await chatApi.createShare(
+        session.id,
+        expiresInDays ? Number(expiresInDays) : undefined
+      );
+      if (response.success && response.data) {
+        const share = response.data;
+        setShares(prev => [share, ...prev]);
+        await copyLink(share.token);
+      }
+    } catch (error: unknown) {
+      toast.error(getApiError(error, 'Failed to create share link'));
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleRevoke = async (token: string) => {
+    if (!window.confirm('Revoke this link? It stops working immediately.')) {
+      return;
+    }
+
+    try {
+      const response = await chatApi.revokeShare(session.id, token);
+      if (response.success) {
+        setShares(prev => prev.filter(share => share.token !== token));
+        toast.success('Link revoked');
+      }
+    } catch (error: unknown) {
+      toast.error(getApiError(error, 'Failed to revoke link'));
+    }
+  };
+
+  return (
+    <div
+      className='fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4'
+      onClick={onClose}
+    >
+      <div
+        className='bg-white dark:bg-dark-100 rounded-xl shadow-2xl w-full max-w-lg max-h-[80vh] overflow-hidden'
+        onClick={e => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className='flex items-center justify-between p-6 border-b border-gray-200 dark:border-dark-300'>
+          <div className='flex items-center gap-2 min-w-0'>
+            <Share2 className='h-5 w-5 shrink-0 text-gray-700 dark:text-dark-600' />
+            <h2 className='text-lg font-semibold text-gray-900 dark:text-dark-800 truncate'>
+              Share: {session.title}
+            </h2>
+          </div>
+          <Button
+            variant='ghost'
+            size='sm'
+            onClick={onClose}
+            className='h-8 w-8 p-0 hover:bg-gray-100 dark:hover:bg-dark-200'
+          >
+            <X className='h-4 w-4' />
+          </Button>
+        </div>
+
+        {/* Content */}
+        <div className='p-6 space-y-4 overflow-y-auto max-h-[60vh]'>
+          <p className='text-sm text-gray-600 dark:text-dark-500'>
+            Anyone with a link can read the conversation as it is now, without
+            logging in. Messages you send later are not shared, and neither is
+            the system prompt.
+          </p>
+
+          <div className='flex gap-2'>
+            <Select
+              value={expiresInDays}
+              onChange={e => setExpiresInDays(e.target.value)}
+              options={EXPIRY_OPTIONS}
+              disabled={creating}
+            />
+            <Button
+              size='sm'
+              onClick={handleCreate}
+              loading={creating}
+              className='shrink-0'
+            >
+              <Link2 className='h-4 w-4 mr-2' />
+              Create link
+            </Button>
+          </div>
+
+          {loading ? (
+            <p className='text-sm text-gray-500 dark:text-dark-500'>
+              Loading share links...
+            </p>
+          ) : shares.length === 0 ? (
+            <p className='text-sm text-gray-500 dark:text-dark-500'>
+              This conversation has not been shared.
+            </p>
+          ) : (
+            <div className='divide-y divide-gray-200 dark:divide-dark-300 border border-gray-200 dark:border-dark-300 rounded-lg'>
+              {shares.map(share => (
+                <div
+                  key={share.token}
+                  className='flex items-center justify-between gap-2 px-3 py-2'
+                >
+                  <div className='min-w-0'>
+                    <p className='text-xs font-mono text-gray-700 dark:text-dark-700 truncate'>
+                      {shareUrl(share.token)}
+                    </p>
+                    <p className='text-xs text-gray-500 dark:text-dark-500'>
+                      Created {formatTimestamp(share.createdAt)}
+                      {share.expiresAt
+                        ? ` • expires ${new Date(share.expiresAt).toLocaleDateString()}`
+                        : ' • never expires'}
+                    </p>
+                  </div>
+                  <div className='flex items-center gap-1 shrink-0'>
+                    <Button
+                      variant='ghost'
+                      size='sm'
+                      onClick={() => copyLink(share.token)}
+                      className='h-7 w-7 p-0'
+                      title='Copy link'
+                    >
+                      <Copy className='h-3.5 w-3.5' />
+                    </Button>
+                    <Button
+                      variant='ghost'
+                      size='sm'
+                      onClick={() => handleRevoke(share.token)}
+                      className='h-7 w-7 p-0 text-red-500 hover:text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20'
+                      title='Revoke link'
+                    >
+                      <Trash2 className='h-3.5 w-3.5' />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,223 @@
+/*
+ * Libre WebUI
+ * Copyright (C) 2025 Kroonen AI, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at:
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import React, { useEffect, useState } from 'react';
+import { FileText, RefreshCw, Trash2, X } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import { Button, Textarea } from '@/components/ui';
+import { ChatSession, ConversationSummary } from '@/types';
+import { chatApi } from '@/utils/api';
+import { formatTimestamp } from '@/utils';
+
+interface SessionSummaryModalProps {
+  session: ChatSession;
+  onClose: () => void;
+}
+
+const getApiError = (error: unknown, fallback: string): string =>
+  (error as { response?: { data?: { error?: string } } }).response?.data
+    ?.error || fallback;
+
+export const SessionSummaryModal: React.FC<SessionSummaryModalProps> = ({
+  session,
+  onClose,
+}) => {
+  const [summary, setSummary] = useState<ConversationSummary | null>(null);
+  const [content, setContent] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [regenerating, setRegenerating] = useState(false);
+
+  const applySummary = (next: ConversationSummary | null) => {
+    setSummary(next);
+    setContent(next?.content || '');
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    chatApi
+      .getSummary(session.id)
+      .then(response => {
+        if (!cancelled && response.success) {
+          applySummary(response.data || null);
+        }
+      })
+      .catch(error => {
+        console.error('Failed to load summary:', error);
+        toast.error('Failed to load summary');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [session.id]);
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const response = await chatApi.updateSummary(session.id, content);
+      if (response.success && response.data) {
+        applySummary(response.data);
+        toast.success('Summary saved');
+      }
+    } catch (error: unknown) {
+      toast.error(getApiError(error, 'Failed to save summary'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRegenerate = async () => {
+    setRegenerating(true);
+    try {
+      const response = await chatApi.regenerateSummary(session.id);
+      if (response.success) {
+        applySummary(response.data || null);
+        toast.success(
+          response.data
+            ? 'Summary regenerated'
+            : 'The whole conversation still fits; nothing to summarize'
+        );
+      }
+    } catch (error: unknown) {
+      toast.error(getApiError(error, 'Failed to regenerate summary'));
+    } finally {
+      setRegenerating(false);
+    }
+  };
+
+  const handleClear = async () => {
+    if (!window.confirm('Clear the summary of this conversation?')) return;
+
+    try {
+      const response = await chatApi.deleteSummary(session.id);
+      if (response.success) {
+        applySummary(null);
+        toast.success('Summary cleared');
+      }
+    } catch (error: unknown) {
+      toast.error(getApiError(error, 'Failed to clear summary'));
+    }
+  };
+
+  const busy = saving || regenerating;
+
+  return (
+    <div
+      className='fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4'
+      onClick={onClose}
+    >
+      <div
+        className='bg-white dark:bg-dark-100 rounded-xl shadow-2xl w-full max-w-lg max-h-[80vh] overflow-hidden'
+        onClick={e => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className='flex items-center justify-between p-6 border-b border-gray-200 dark:border-dark-300'>
+          <div className='flex items-center gap-2 min-w-0'>
+            <FileText className='h-5 w-5 shrink-0 text-gray-700 dark:text-dark-600' />
+            <h2 className='text-lg font-semibold text-gray-900 dark:text-dark-800 truncate'>
+              Summary: {session.title}
+            </h2>
+          </div>
+          <Button
+            variant='ghost'
+            size='sm'
+            onClick={onClose}
+            className='h-8 w-8 p-0 hover:bg-gray-100 dark:hover:bg-dark-200'
+          >
+            <X className='h-4 w-4' />
+          </Button>
+        </div>
+
+        {/* Content */}
+        <div className='p-6 space-y-4 overflow-y-auto max-h-[60vh]'>
+          <p className='text-sm text-gray-600 dark:text-dark-500'>
+            Earlier turns that no longer fit the model&apos;s context window are
+            folded into this summary and sent with every message. Edit it to
+            correct or pin what the model should remember.
+          </p>
+
+          {loading ? (
+            <p className='text-sm text-gray-500 dark:text-dark-500'>
+              Loading summary...
+            </p>
+          ) : (
+            <>
+              <Textarea
+                value={content}
+                onChange={e => setContent(e.target.value)}
+                placeholder='No summary yet. One is written automatically once the conversation outgrows the context window.'
+                rows={10}
+                disabled={busy}
+              />
+              {summary && (
+                <p className='text-xs text-gray-500 dark:text-dark-500'>
+                  Updated {formatTimestamp(summary.updatedAt)}
+                  {summary.edited && ' • edited by you'}
+                </p>
+              )}
+            </>
+          )}
+        </div>
+
+        {/* Actions */}
+        <div className='flex items-center justify-between gap-2 p-4 border-t border-gray-200 dark:border-dark-300'>
+          <div className='flex items-center gap-2'>
+            <Button
+              variant='outline'
+              size='sm'
+              onClick={handleRegenerate}
+              loading={regenerating}
+              disabled={loading || busy}
+            >
+              <RefreshCw className='h-4 w-4 mr-2' />
+              Regenerate
+            </Button>
+            {summary && (
+              <Button
+                variant='ghost'
+                size='sm'
+                onClick={handleClear}
+                disabled={busy}
+                className='text-red-500 hover:text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20'
+              >
+                <Trash2 className='h-4 w-4 mr-2' />
+                Clear
+              </Button>
+            )}
+          </div>
+          <Button
+            size='sm'
+            onClick={handleSave}
+            loading={saving}
+            disabled={
+              loading ||
+              busy ||
+              !content.trim() ||
+              content.trim() === summary?.content
+            }
+          >
+            Save
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
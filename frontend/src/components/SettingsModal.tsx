@@ -31,20 +31,30 @@ import {
   ExternalLink,
   Heart,
   Puzzle,
+  Server,
   Upload,
   Download,
   Trash2,
   Check,
   Sliders,
   RotateCcw,
+  KeyRound,
 } from 'lucide-react';
 import { Button, Select, Textarea } from '@/components/ui';
 import { ModelTools } from '@/components/ModelTools';
 import { BackgroundUpload } from '@/components/BackgroundUpload';
+import { McpServerManager } from '@/components/McpServerManager';
+import { ApiKeyManager } from '@/components/ApiKeyManager';
 import { useChatStore } from '@/store/chatStore';
 import { useAppStore } from '@/store/appStore';
 import { usePluginStore } from '@/store/pluginStore';
-import { preferencesApi, ollamaApi, documentsApi } from '@/utils/api';
+import { chatApi, preferencesApi, ollamaApi, documentsApi } from '@/utils/api';
+import { downloadBlob } from '@/utils';
+import {
+  ChatImportResult,
+  OllamaHostStatus,
+  SessionExportFormat,
+} from '@/types';
 import toast from 'react-hot-toast';
 // Import package.json to get version dynamically
 import packageJson from '../../../package.json';
@@ -54,8 +64,21 @@ interface SystemInfo {
   modelsCount: number;
   sessionsCount: number;
   isHealthy: boolean;
+  // Only listed when several Ollama hosts are configured
+  ollamaHosts: OllamaHostStatus[];
+  isDegraded: boolean;
 }
 
+const CHAT_IMPORT_SOURCES: Record<ChatImportResult['source'], string> = {
+  'libre-webui': 'a Libre WebUI',
+  chatgpt: 'a ChatGPT',
+  claude: 'a Claude.ai',
+  'open-webui': 'an Open WebUI',
+};
+
+// Matches the server's limit on chat import uploads
+const MAX_CHAT_IMPORT_SIZE = 64 * 1024 * 1024;
+
 interface SettingsModalProps {
   isOpen: boolean;
   onClose: () => void;
@@ -100,6 +123,8 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
     modelsCount: 0,
     sessionsCount: 0,
     isHealthy: false,
+    ollamaHosts: [],
+    isDegraded: false,
   });
 
   const [easterEggClicks, setEasterEggClicks] = useState(0);
@@ -129,9 +154,16 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
     preferences.embeddingSettings || {
       enabled: false,
       model: 'nomic-embed-text',
+      chunkingStrategy: 'auto',
+      chunkSizeUnit: 'characters',
       chunkSize: 1000,
       chunkOverlap: 200,
       similarityThreshold: 0.7,
+      keywordWeight: 1,
+      semanticWeight: 1,
+      rerankEnabled: false,
+      rerankModel: '',
+      rerankCandidates: 20,
     }
   );
   const [embeddingStatus, setEmbeddingStatus] = useState<{
@@ -158,6 +190,16 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
   );
   const importFileInputRef = useRef<HTMLInputElement>(null);
 
+  // Chat archive state
+  const [archiveFormat, setArchiveFormat] = useState<SessionExportFormat>('md');
+  const [exportingChats, setExportingChats] = useState(false);
+  const [importingChats, setImportingChats] = useState(false);
+  const [chatImportFile, setChatImportFile] = useState<File | null>(null);
+  const [chatImportPreview, setChatImportPreview] =
+    useState<ChatImportResult | null>(null);
+  const [keepImportBranches, setKeepImportBranches] = useState(true);
+  const chatImportInputRef = useRef<HTMLInputElement>(null);
+
   // Load system information
   useEffect(() => {
     if (isOpen) {
@@ -169,9 +211,16 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
         preferences.embeddingSettings || {
           enabled: false,
           model: 'nomic-embed-text',
+          chunkingStrategy: 'auto',
+          chunkSizeUnit: 'characters',
           chunkSize: 1000,
           chunkOverlap: 200,
           similarityThreshold: 0.7,
+          keywordWeight: 1,
+          semanticWeight: 1,
+          rerankEnabled: false,
+          rerankModel: '',
+          rerankCandidates: 20,
         }
       );
       loadPlugins(); // Load plugins when modal opens
@@ -183,7 +232,9 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
   const loadSystemInfo = async () => {
     try {
       const [healthResponse, versionResponse] = await Promise.all([
-        ollamaApi.checkHealth().catch(() => ({ success: false })),
+        ollamaApi
+          .checkHealth()
+          .catch(() => ({ success: false, data: undefined })),
         ollamaApi.getVersion().catch(() => ({ success: false, data: null })),
       ]);
 
@@ -195,6 +246,8 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
         modelsCount: models.length,
         sessionsCount: sessions.length,
         isHealthy: healthResponse.success,
+        ollamaHosts: healthResponse.data?.hosts || [],
+        isDegraded: healthResponse.data?.status === 'degraded',
       });
     } catch (_error) {
       console.error('Failed to load system info:', _error);
@@ -378,6 +431,95 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
     toast.success('Data exported successfully');
   };
 
+  const handleExportChats = async () => {
+    setExportingChats(true);
+    try {
+      const blob = await chatApi.exportAllSessions(archiveFormat);
+      downloadBlob(
+        blob,
+        `libre-webui-chats-${new Date().toISOString().split('T')[0]}.zip`
+      );
+      toast.success('Chats exported successfully');
+    } catch (_error) {
+      toast.error('Failed to export chats');
+    } finally {
+      setExportingChats(false);
+    }
+  };
+
+  const resetChatImport = () => {
+    setChatImportFile(null);
+    setChatImportPreview(null);
+    if (chatImportInputRef.current) {
+      chatImportInputRef.current.value = '';
+    }
+  };
+
+  // Dry run: shows what would be imported without storing anything
+  const previewChatImport = async (file: File, keepBranches: boolean) => {
+    setImportingChats(true);
+    try {
+      const result = await chatApi.importSessions(file, {
+        dryRun: true,
+        flattenBranches: !keepBranches,
+      });
+      if (!result.success || !result.data) {
+        throw new Error(result.error || 'Could not read export');
+      }
+      setChatImportFile(file);
+      setChatImportPreview(result.data);
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : 'Could not read export'
+      );
+      resetChatImport();
+    } finally {
+      setImportingChats(false);
+    }
+  };
+
+  const handleChatImportFileSelect = (
+    event: React.ChangeEvent<HTMLInputElement>
+  ) => {
+    const file = event.target.files?.[0];
+    if (file && file.size > MAX_CHAT_IMPORT_SIZE) {
+      toast.error('Chat exports must be less than 64MB');
+      resetChatImport();
+    } else if (file) {
+      previewChatImport(file, keepImportBranches);
+    }
+  };
+
+  const handleKeepImportBranchesChange = (keepBranches: boolean) => {
+    setKeepImportBranches(keepBranches);
+    if (chatImportFile) {
+      previewChatImport(chatImportFile, keepBranches);
+    }
+  };
+
+  const handleConfirmChatImport = async () => {
+    if (!chatImportFile) return;
+
+    setImportingChats(true);
+    try {
+      const result = await chatApi.importSessions(chatImportFile, {
+        flattenBranches: !keepImportBranches,
+      });
+      if (!result.success || !result.data) {
+        throw new Error(result.error || 'Import failed');
+      }
+      toast.success(
+        `Imported ${result.data.imported} chat${result.data.imported === 1 ? '' : 's'}`
+      );
+      await loadSessions();
+      resetChatImport();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Import failed');
+    } finally {
+      setImportingChats(false);
+    }
+  };
+
   const handleImportFileSelect = (
     event: React.ChangeEvent<HTMLInputElement>
   ) => {
@@ -522,6 +664,18 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
     }));
   };
 
+  // Keeps chunks about the same length when switching units
+  const handleChunkSizeUnitChange = (unit: 'characters' | 'tokens') => {
+    if (unit === embeddingSettings.chunkSizeUnit) return;
+    const scale = unit === 'tokens' ? 1 / 4 : 4;
+    setEmbeddingSettings(prev => ({
+      ...prev,
+      chunkSizeUnit: unit,
+      chunkSize: Math.round(prev.chunkSize * scale),
+      chunkOverlap: Math.round(prev.chunkOverlap * scale),
+    }));
+  };
+
   const handleSaveEmbeddingSettings = async () => {
     try {
       const response =
@@ -562,6 +716,8 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
       icon: Database,
     },
     { id: 'plugins', label: 'Plugins', icon: Puzzle },
+    { id: 'mcp', label: 'MCP Servers', icon: Server },
+    { id: 'api-keys', label: 'API Keys', icon: KeyRound },
     { id: 'system', label: 'System', icon: Monitor },
     { id: 'data', label: 'Data', icon: Database },
     { id: 'about', label: 'About', icon: Info },
@@ -654,14 +810,18 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
                 <div className='bg-white dark:bg-dark-100 rounded-lg p-4 border border-gray-200 dark:border-dark-300'>
                   <div className='flex items-center gap-2 mb-2'>
                     <div
-                      className={`w-3 h-3 rounded-full ${systemInfo.isHealthy ? 'bg-green-500' : 'bg-red-500'}`}
+                      className={`w-3 h-3 rounded-full ${!systemInfo.isHealthy ? 'bg-red-500' : systemInfo.isDegraded ? 'bg-yellow-500' : 'bg-green-500'}`}
                     />
                     <span className='text-sm font-medium text-gray-700 dark:text-gray-300'>
                       Ollama Status
                     </span>
                   </div>
                   <p className='text-lg font-semibold text-gray-900 dark:text-gray-100'>
-                    {systemInfo.isHealthy ? 'Healthy' : 'Offline'}
+                    {!systemInfo.isHealthy
+                      ? 'Offline'
+                      : systemInfo.isDegraded
+                        ? 'Degraded'
+                        : 'Healthy'}
                   </p>
                   {systemInfo.ollamaVersion && (
                     <p className='text-xs text-gray-500 dark:text-gray-400'>
@@ -707,6 +867,36 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
                 </div>
               </div>
 
+              {systemInfo.ollamaHosts.length > 1 && (
+                <div className='mb-6'>
+                  <h4 className='text-sm font-medium text-gray-700 dark:text-gray-300 mb-2'>
+                    Ollama Hosts
+                  </h4>
+                  <div className='space-y-2'>
+                    {systemInfo.ollamaHosts.map(host => (
+                      <div
+                        key={host.url}
+                        className='flex items-center justify-between bg-white dark:bg-dark-100 rounded-lg px-4 py-2 border border-gray-200 dark:border-dark-300'
+                      >
+                        <div className='flex items-center gap-2 min-w-0'>
+                          <div
+                            className={`w-2 h-2 rounded-full flex-shrink-0 ${host.healthy ? 'bg-green-500' : 'bg-red-500'}`}
+                          />
+                          <span className='text-sm text-gray-900 dark:text-gray-100 truncate'>
+                            {host.url}
+                          </span>
+                        </div>
+                        <span className='text-xs text-gray-500 dark:text-gray-400 flex-shrink-0 ml-4'>
+                          {host.healthy
+                            ? `${host.models} models · ${host.running} loaded · ${host.active} active`
+                            : host.error || 'Unreachable'}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
               <Button onClick={loadSystemInfo} variant='outline' size='sm'>
                 Refresh Status
               </Button>
@@ -743,6 +933,30 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
                   </p>
                 </div>
 
+                {/* Title Model Selection */}
+                <div className='bg-white dark:bg-dark-100 rounded-lg p-4 border border-gray-200 dark:border-dark-300'>
+                  <label className='block text-sm font-medium text-gray-700 dark:text-gray-300 mb-3'>
+                    Title Model
+                  </label>
+                  <Select
+                    value={preferences?.titleModel || ''}
+                    onChange={e =>
+                      handleUpdatePreferences({ titleModel: e.target.value })
+                    }
+                    options={[
+                      { value: '', label: 'Same as the chat model' },
+                      ...models.map(model => ({
+                        value: model.name,
+                        label: model.name,
+                      })),
+                    ]}
+                  />
+                  <p className='text-xs text-gray-500 dark:text-gray-400 mt-2'>
+                    Names new chats after the first reply. A small, fast model
+                    keeps this quick.
+                  </p>
+                </div>
+
                 {/* Current Model Info */}
                 {selectedModel && (
                   <div className='bg-white dark:bg-dark-100 rounded-lg p-4 border border-gray-200 dark:border-dark-300'>
@@ -1001,6 +1215,53 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
                       </p>
                     </div>
 
+                    {/* Chunking Strategy */}
+                    <div>
+                      <label className='block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2'>
+                        Chunking Strategy
+                      </label>
+                      <Select
+                        value={embeddingSettings.chunkingStrategy}
+                        onChange={e =>
+                          handleEmbeddingSettingsChange(
+                            'chunkingStrategy',
+                            e.target.value
+                          )
+                        }
+                        options={[
+                          { value: 'auto', label: 'Automatic (by file type)' },
+                          { value: 'paragraph', label: 'Paragraphs' },
+                          { value: 'heading', label: 'Headings and sections' },
+                          { value: 'page', label: 'Pages' },
+                          { value: 'code', label: 'Functions and classes' },
+                        ]}
+                      />
+                      <p className='text-xs text-gray-500 mt-1'>
+                        Automatic splits Markdown, HTML and Word files by
+                        heading, PDFs by page and source code by declaration.
+                        Applies to newly uploaded documents.
+                      </p>
+                    </div>
+
+                    {/* Chunk Size Unit */}
+                    <div>
+                      <label className='block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2'>
+                        Measure Chunks In
+                      </label>
+                      <Select
+                        value={embeddingSettings.chunkSizeUnit}
+                        onChange={e =>
+                          handleChunkSizeUnitChange(
+                            e.target.value as 'characters' | 'tokens'
+                          )
+                        }
+                        options={[
+                          { value: 'characters', label: 'Characters' },
+                          { value: 'tokens', label: 'Tokens (estimated)' },
+                        ]}
+                      />
+                    </div>
+
                     {/* Chunk Size */}
                     <div>
                       <label className='block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2'>
@@ -1008,9 +1269,21 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
                       </label>
                       <input
                         type='range'
-                        min='500'
-                        max='2000'
-                        step='100'
+                        min={
+                          embeddingSettings.chunkSizeUnit === 'tokens'
+                            ? '125'
+                            : '500'
+                        }
+                        max={
+                          embeddingSettings.chunkSizeUnit === 'tokens'
+                            ? '500'
+                            : '2000'
+                        }
+                        step={
+                          embeddingSettings.chunkSizeUnit === 'tokens'
+                            ? '25'
+                            : '100'
+                        }
                         value={embeddingSettings.chunkSize}
                         onChange={e =>
                           handleEmbeddingSettingsChange(
@@ -1021,7 +1294,8 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
                         className='w-full range-slider'
                       />
                       <p className='text-xs text-gray-500 mt-1'>
-                        Size of text chunks for processing
+                        Maximum size of each chunk, in{' '}
+                        {embeddingSettings.chunkSizeUnit}
                       </p>
                     </div>
 
@@ -1032,9 +1306,17 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
                       </label>
                       <input
                         type='range'
-                        min='50'
-                        max='500'
-                        step='50'
+                        min='0'
+                        max={
+                          embeddingSettings.chunkSizeUnit === 'tokens'
+                            ? '125'
+                            : '500'
+                        }
+                        step={
+                          embeddingSettings.chunkSizeUnit === 'tokens'
+                            ? '5'
+                            : '50'
+                        }
                         value={embeddingSettings.chunkOverlap}
                         onChange={e =>
                           handleEmbeddingSettingsChange(
@@ -1045,7 +1327,8 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
                         className='w-full range-slider'
                       />
                       <p className='text-xs text-gray-500 mt-1'>
-                        Character overlap between chunks
+                        Text repeated between neighbouring chunks, in{' '}
+                        {embeddingSettings.chunkSizeUnit}
                       </p>
                     </div>
 
@@ -1073,6 +1356,123 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
                         Minimum similarity score for search results
                       </p>
                     </div>
+
+                    {/* Hybrid Search Weights */}
+                    <div className='grid grid-cols-1 sm:grid-cols-2 gap-4'>
+                      <div>
+                        <label className='block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2'>
+                          Keyword Weight:{' '}
+                          {embeddingSettings.keywordWeight.toFixed(1)}
+                        </label>
+                        <input
+                          type='range'
+                          min='0'
+                          max='2'
+                          step='0.1'
+                          value={embeddingSettings.keywordWeight}
+                          onChange={e =>
+                            handleEmbeddingSettingsChange(
+                              'keywordWeight',
+                              parseFloat(e.target.value)
+                            )
+                          }
+                          className='w-full range-slider'
+                        />
+                      </div>
+                      <div>
+                        <label className='block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2'>
+                          Semantic Weight:{' '}
+                          {embeddingSettings.semanticWeight.toFixed(1)}
+                        </label>
+                        <input
+                          type='range'
+                          min='0'
+                          max='2'
+                          step='0.1'
+                          value={embeddingSettings.semanticWeight}
+                          onChange={e =>
+                            handleEmbeddingSettingsChange(
+                              'semanticWeight',
+                              parseFloat(e.target.value)
+                            )
+                          }
+                          className='w-full range-slider'
+                        />
+                      </div>
+                    </div>
+                    <p className='text-xs text-gray-500 -mt-2'>
+                      Search combines exact word matches (BM25) with embedding
+                      similarity. Raise the keyword weight for names, codes and
+                      jargon; set a weight to 0 to turn that ranking off.
+                    </p>
+
+                    {/* Reranking */}
+                    <div>
+                      <label className='flex items-center'>
+                        <input
+                          type='checkbox'
+                          checked={embeddingSettings.rerankEnabled}
+                          onChange={e =>
+                            handleEmbeddingSettingsChange(
+                              'rerankEnabled',
+                              e.target.checked
+                            )
+                          }
+                          className='mr-2'
+                        />
+                        <span className='text-sm font-medium text-gray-700 dark:text-gray-300'>
+                          Rerank results with a model
+                        </span>
+                      </label>
+                      <p className='text-xs text-gray-500 mt-1'>
+                        A local model rates how well each of the best matches
+                        answers the question. More accurate, but slower.
+                      </p>
+                    </div>
+
+                    {embeddingSettings.rerankEnabled && (
+                      <div className='grid grid-cols-1 sm:grid-cols-2 gap-4'>
+                        <div>
+                          <label className='block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2'>
+                            Rerank Model
+                          </label>
+                          <Select
+                            value={embeddingSettings.rerankModel}
+                            onChange={e =>
+                              handleEmbeddingSettingsChange(
+                                'rerankModel',
+                                e.target.value
+                              )
+                            }
+                            options={[
+                              { value: '', label: 'Default model' },
+                              ...models.map(model => ({
+                                value: model.name,
+                                label: model.name,
+                              })),
+                            ]}
+                          />
+                        </div>
+                        <div>
+                          <label className='block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2'>
+                            Candidates to Rerank
+                          </label>
+                          <input
+                            type='number'
+                            min='2'
+                            max='50'
+                            value={embeddingSettings.rerankCandidates}
+                            onChange={e =>
+                              handleEmbeddingSettingsChange(
+                                'rerankCandidates',
+                                parseInt(e.target.value)
+                              )
+                            }
+                            className='w-full px-3 py-2 border border-gray-300 dark:border-dark-300 rounded-md focus:ring-2 focus:ring-primary-500 focus:border-transparent bg-white dark:bg-dark-200 text-gray-900 dark:text-gray-100'
+                          />
+                        </div>
+                      </div>
+                    )}
                   </div>
                 )}
               </div>
@@ -1430,6 +1830,12 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
           </div>
         );
 
+      case 'mcp':
+        return <McpServerManager />;
+
+      case 'api-keys':
+        return <ApiKeyManager />;
+
       case 'data':
         return (
           <div className='space-y-6'>
@@ -1503,6 +1909,137 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
                   </div>
                 </div>
 
+                <div className='grid grid-cols-1 md:grid-cols-2 gap-4 pt-4 border-t border-gray-200 dark:border-dark-300'>
+                  <div>
+                    <h4 className='text-sm font-medium text-gray-700 dark:text-gray-300 mb-2'>
+                      Export Chats
+                    </h4>
+                    <p className='text-xs text-gray-500 dark:text-gray-400 mb-3'>
+                      Download every chat as a separate file in a zip archive.
+                    </p>
+                    <div className='flex gap-2'>
+                      <Select
+                        value={archiveFormat}
+                        onChange={e =>
+                          setArchiveFormat(
+                            e.target.value as SessionExportFormat
+                          )
+                        }
+                        options={[
+                          { value: 'md', label: 'Markdown' },
+                          { value: 'json', label: 'JSON' },
+                          { value: 'html', label: 'HTML' },
+                        ]}
+                      />
+                      <Button
+                        onClick={handleExportChats}
+                        variant='outline'
+                        size='sm'
+                        className='shrink-0'
+                        disabled={exportingChats || sessions.length === 0}
+                      >
+                        {exportingChats ? 'Exporting...' : 'Export (zip)'}
+                      </Button>
+                    </div>
+                  </div>
+
+                  <div>
+                    <h4 className='text-sm font-medium text-gray-700 dark:text-gray-300 mb-2'>
+                      Import Chats
+                    </h4>
+                    <p className='text-xs text-gray-500 dark:text-gray-400 mb-3'>
+                      Add chats from a JSON chat export of up to 64MB. Existing
+                      chats are kept.
+                    </p>
+                    <input
+                      ref={chatImportInputRef}
+                      type='file'
+                      accept='.json'
+                      onChange={handleChatImportFileSelect}
+                      className='hidden'
+                    />
+                    <Button
+                      onClick={() => chatImportInputRef.current?.click()}
+                      variant='outline'
+                      size='sm'
+                      className='w-full'
+                      disabled={importingChats}
+                    >
+                      {importingChats ? 'Reading...' : 'Import Chats'}
+                    </Button>
+                  </div>
+                </div>
+
+                {/* Chat Import Preview */}
+                {chatImportPreview && (
+                  <div className='mt-4 p-4 bg-gray-50 dark:bg-dark-100 border border-gray-200 dark:border-dark-300 rounded-lg'>
+                    <h5 className='text-sm font-medium text-gray-900 dark:text-gray-100 mb-1'>
+                      Import Preview
+                    </h5>
+                    <p className='text-xs text-gray-500 dark:text-gray-400 mb-3'>
+                      {chatImportPreview.sessions.length} chat
+                      {chatImportPreview.sessions.length === 1 ? '' : 's'} found
+                      in {CHAT_IMPORT_SOURCES[chatImportPreview.source]} export
+                      {chatImportPreview.skipped > 0 &&
+                        `, ${chatImportPreview.skipped} empty skipped`}
+                      . Nothing has been imported yet.
+                    </p>
+                    <div className='max-h-48 overflow-y-auto mb-3 divide-y divide-gray-200 dark:divide-dark-300 text-xs'>
+                      {chatImportPreview.sessions.map((session, idx) => (
+                        <div
+                          key={idx}
+                          className='flex items-center justify-between gap-2 py-1.5'
+                        >
+                          <span className='truncate text-gray-700 dark:text-gray-300'>
+                            {session.title}
+                          </span>
+                          <span className='shrink-0 text-gray-500 dark:text-gray-400'>
+                            {session.messageCount} messages
+                            {session.branchCount > 1 &&
+                              ` · ${session.branchCount} branches`}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                    <label className='flex items-center mb-4'>
+                      <input
+                        type='checkbox'
+                        checked={keepImportBranches}
+                        onChange={e =>
+                          handleKeepImportBranchesChange(e.target.checked)
+                        }
+                        className='mr-2'
+                        disabled={importingChats}
+                      />
+                      <span className='text-sm text-gray-700 dark:text-gray-300'>
+                        Keep all branches (otherwise only the last viewed one)
+                      </span>
+                    </label>
+                    <div className='flex gap-2'>
+                      <Button
+                        onClick={handleConfirmChatImport}
+                        size='sm'
+                        disabled={
+                          importingChats ||
+                          chatImportPreview.sessions.length === 0
+                        }
+                      >
+                        {importingChats
+                          ? 'Importing...'
+                          : `Import ${chatImportPreview.sessions.length} Chats`}
+                      </Button>
+                      <Button
+                        onClick={resetChatImport}
+                        variant='outline'
+                        size='sm'
+                        disabled={importingChats}
+                      >
+                        Cancel
+                      </Button>
+                    </div>
+                  </div>
+                )}
+
                 {/* Import Options Modal */}
                 {showImportOptions && (
                   <div className='mt-4 p-4 bg-gray-50 dark:bg-dark-100 border border-gray-200 dark:border-dark-300 rounded-lg'>
@@ -2271,7 +2808,7 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
                       <label className='block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2'>
                         Chunk Size
                         <span className='text-xs text-gray-500 ml-1'>
-                          (in tokens)
+                          (in {embeddingSettings.chunkSizeUnit})
                         </span>
                       </label>
                       <input
@@ -2294,7 +2831,7 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({
                       <label className='block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2'>
                         Chunk Overlap
                         <span className='text-xs text-gray-500 ml-1'>
-                          (in tokens)
+                          (in {embeddingSettings.chunkSizeUnit})
                         </span>
                       </label>
                       <input
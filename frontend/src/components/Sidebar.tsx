@@ -31,18 +31,66 @@ import {
   Shield,
   ChevronLeft,
   ChevronRight,
+  FileText,
+  Share2,
+  MoreHorizontal,
+  Pin,
+  PinOff,
+  Archive,
+  ArchiveRestore,
+  Tag,
+  FolderPlus,
+  Filter,
 } from 'lucide-react';
-import { Button, Input } from '@/components/ui';
+import { Button, Input, Select } from '@/components/ui';
 import { Logo } from '@/components/Logo';
 import { SettingsModal } from '@/components/SettingsModal';
+import { SessionSummaryModal } from '@/components/SessionSummaryModal';
+import { SessionShareModal } from '@/components/SessionShareModal';
+import { SessionSearch } from '@/components/SessionSearch';
+import {
+  SidebarFolder,
+  SESSION_DRAG_TYPE,
+  FOLDER_DRAG_TYPE,
+} from '@/components/SidebarFolder';
 import { useChatStore } from '@/store/chatStore';
 import { useAuthStore } from '@/store/authStore';
 import { useAppStore } from '@/store/appStore';
-import { ChatSession } from '@/types';
-import { formatTimestamp, truncateText, cn } from '@/utils';
-import { authApi } from '@/utils/api';
+import { ChatFolder, ChatSession, SessionExportFormat } from '@/types';
+import { formatTimestamp, truncateText, cn, downloadBlob } from '@/utils';
+import { authApi, chatApi } from '@/utils/api';
 import { toast } from 'react-hot-toast';
 
+interface SessionFilters {
+  tag: string;
+  folderId: string;
+  personaId: string;
+  model: string;
+  status: 'active' | 'archived' | 'all';
+}
+
+const DEFAULT_FILTERS: SessionFilters = {
+  tag: '',
+  folderId: '',
+  personaId: '',
+  model: '',
+  status: 'active',
+};
+
+// Flatten the folder tree into display order, keeping each folder's depth
+const flattenFolders = (
+  folders: ChatFolder[],
+  parentId?: string,
+  depth = 0
+): { folder: ChatFolder; depth: number }[] =>
+  folders
+    .filter(f => f.parentId === parentId)
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .flatMap(folder => [
+      { folder, depth },
+      ...flattenFolders(folders, folder.id, depth + 1),
+    ]);
+
 interface SidebarProps {
   isOpen: boolean;
   onClose: () => void;
@@ -64,16 +112,41 @@ export const Sidebar: React.FC<SidebarProps> = ({
     selectedModel,
     models,
     currentSession,
+    personas,
+    folders,
+    loadFolders,
+    createFolder,
+    updateFolder,
+    deleteFolder,
+    organizeSession,
   } = useChatStore();
   const { user, isAdmin, systemInfo } = useAuthStore();
-  const { backgroundImage, sidebarCompact, toggleSidebarCompact } =
-    useAppStore();
+  const {
+    backgroundImage,
+    sidebarCompact,
+    toggleSidebarCompact,
+    expandedFolders,
+    toggleFolderExpanded,
+  } = useAppStore();
 
   const [editingSessionId, setEditingSessionId] = useState<string | null>(null);
   const [editingTitle, setEditingTitle] = useState('');
   const [settingsOpen, setSettingsOpen] = useState(false);
+  const [summarySession, setSummarySession] = useState<ChatSession | null>(
+    null
+  );
+  const [shareSession, setShareSession] = useState<ChatSession | null>(null);
+  const [menuSessionId, setMenuSessionId] = useState<string | null>(null);
+  const [editingTagsSessionId, setEditingTagsSessionId] = useState<
+    string | null
+  >(null);
+  const [editingTags, setEditingTags] = useState('');
+  const [filtersOpen, setFiltersOpen] = useState(false);
+  const [filters, setFilters] = useState<SessionFilters>(DEFAULT_FILTERS);
+  const [isRootDragOver, setIsRootDragOver] = useState(false);
   const [userMenuOpen, setUserMenuOpen] = useState(false);
   const userMenuRef = useRef<HTMLDivElement>(null);
+  const sessionMenuRef = useRef<HTMLDivElement>(null);
   const sidebarRef = useRef<HTMLDivElement>(null);
 
   // Extract current session ID from URL using useParams
@@ -101,6 +174,28 @@ export const Sidebar: React.FC<SidebarProps> = ({
     }
   }, [userMenuOpen]);
 
+  // Close session menu when clicking outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (
+        sessionMenuRef.current &&
+        !sessionMenuRef.current.contains(event.target as Node)
+      ) {
+        setMenuSessionId(null);
+      }
+    };
+
+    if (menuSessionId) {
+      document.addEventListener('mousedown', handleClickOutside);
+      return () =>
+        document.removeEventListener('mousedown', handleClickOutside);
+    }
+  }, [menuSessionId]);
+
+  useEffect(() => {
+    loadFolders();
+  }, [loadFolders]);
+
   // Collapse sidebar on mobile when clicking outside
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -181,6 +276,45 @@ export const Sidebar: React.FC<SidebarProps> = ({
     }
   };
 
+  const handleExportSession = async (
+    session: ChatSession,
+    format: SessionExportFormat | 'print'
+  ) => {
+    setMenuSessionId(null);
+
+    // Open the window before awaiting so popup blockers allow it
+    const printWindow = format === 'print' ? window.open('', '_blank') : null;
+    if (format === 'print' && !printWindow) {
+      toast.error('Allow pop-ups to print this chat');
+      return;
+    }
+
+    try {
+      const blob = await chatApi.exportSession(
+        session.id,
+        format === 'print' ? 'html' : format
+      );
+
+      if (printWindow) {
+        printWindow.document.write(await blob.text());
+        printWindow.document.close();
+        printWindow.focus();
+        printWindow.print();
+        return;
+      }
+
+      const name =
+        session.title
+          .replace(/[^a-zA-Z0-9 _-]/g, '')
+          .trim()
+          .replace(/\s+/g, '-') || 'chat';
+      downloadBlob(blob, `${name}.${format}`);
+    } catch (_error) {
+      printWindow?.close();
+      toast.error('Failed to export chat');
+    }
+  };
+
   const handleStartEditing = (session: ChatSession, e: React.MouseEvent) => {
     e.stopPropagation();
     setEditingSessionId(session.id);
@@ -200,6 +334,86 @@ export const Sidebar: React.FC<SidebarProps> = ({
     setEditingTitle('');
   };
 
+  const handleStartEditingTags = (session: ChatSession) => {
+    setMenuSessionId(null);
+    setEditingTagsSessionId(session.id);
+    setEditingTags((session.tags || []).join(', '));
+  };
+
+  const handleSaveTags = async (sessionId: string) => {
+    const tags = editingTags
+      .split(',')
+      .map(tag => tag.trim())
+      .filter(Boolean);
+    await organizeSession(sessionId, { tags });
+    setEditingTagsSessionId(null);
+    setEditingTags('');
+  };
+
+  const handleCancelTags = () => {
+    setEditingTagsSessionId(null);
+    setEditingTags('');
+  };
+
+  const handleMoveSession = (sessionId: string, folderId: string | null) => {
+    setMenuSessionId(null);
+    const session = sessions.find(s => s.id === sessionId);
+    if (session && (session.folderId || null) !== folderId) {
+      organizeSession(sessionId, { folderId });
+    }
+  };
+
+  const handleMoveFolder = (folderId: string, parentId: string | null) => {
+    const folder = folders.find(f => f.id === folderId);
+    if (folder && (folder.parentId || null) !== parentId) {
+      updateFolder(folderId, { parentId });
+    }
+  };
+
+  const handleCreateFolder = async (parentId?: string) => {
+    const name = window.prompt('Folder name');
+    if (name?.trim()) {
+      await createFolder(name.trim(), parentId);
+    }
+  };
+
+  const handleDeleteFolder = async (folder: ChatFolder) => {
+    if (
+      window.confirm(
+        `Delete the folder "${folder.name}"? Its chats and subfolders will move up one level.`
+      )
+    ) {
+      await deleteFolder(folder.id);
+    }
+  };
+
+  // Drop target for moving chats and folders back to the top level
+  const handleRootDragOver = (e: React.DragEvent) => {
+    if (
+      !e.dataTransfer.types.includes(SESSION_DRAG_TYPE) &&
+      !e.dataTransfer.types.includes(FOLDER_DRAG_TYPE)
+    ) {
+      return;
+    }
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'move';
+    setIsRootDragOver(true);
+  };
+
+  const handleRootDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsRootDragOver(false);
+    const sessionId = e.dataTransfer.getData(SESSION_DRAG_TYPE);
+    if (sessionId) {
+      handleMoveSession(sessionId, null);
+      return;
+    }
+    const folderId = e.dataTransfer.getData(FOLDER_DRAG_TYPE);
+    if (folderId) {
+      handleMoveFolder(folderId, null);
+    }
+  };
+
   const handleLogout = async () => {
     try {
       await authApi.logout();
@@ -216,6 +430,383 @@ export const Sidebar: React.FC<SidebarProps> = ({
     }
   };
 
+  const folderIds = new Set(folders.map(f => f.id));
+  const flatFolders = flattenFolders(folders);
+  const rootFolders = folders
+    .filter(f => !f.parentId || !folderIds.has(f.parentId))
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  const allTags = Array.from(
+    new Set(sessions.flatMap(s => s.tags || []))
+  ).sort();
+  const sessionModels = Array.from(new Set(sessions.map(s => s.model))).sort();
+  const sessionPersonaIds = Array.from(
+    new Set(sessions.flatMap(s => (s.personaId ? [s.personaId] : [])))
+  );
+
+  const hasActiveFilter =
+    !!filters.tag ||
+    !!filters.folderId ||
+    !!filters.personaId ||
+    !!filters.model ||
+    filters.status !== 'active';
+
+  // A folder filter includes chats in its subfolders
+  const folderScope = filters.folderId
+    ? new Set([
+        filters.folderId,
+        ...flattenFolders(folders, filters.folderId).map(f => f.folder.id),
+      ])
+    : null;
+
+  const filteredSessions = sessions.filter(
+    s =>
+      (filters.status === 'all' ||
+        (filters.status === 'archived') === !!s.archived) &&
+      (!filters.tag || s.tags?.includes(filters.tag)) &&
+      (!folderScope || (!!s.folderId && folderScope.has(s.folderId))) &&
+      (!filters.personaId || s.personaId === filters.personaId) &&
+      (!filters.model || s.model === filters.model)
+  );
+
+  const activeSessions = sessions.filter(s => !s.archived);
+  const archivedCount = sessions.length - activeSessions.length;
+  const pinnedSessions = activeSessions.filter(s => s.pinned);
+  const treeSessions = activeSessions.filter(s => !s.pinned);
+  const rootSessions = treeSessions.filter(
+    s => !s.folderId || !folderIds.has(s.folderId)
+  );
+
+  const renderSession = (session: ChatSession) => {
+    const isActive = currentSessionId === session.id;
+    const isEditing =
+      editingSessionId === session.id || editingTagsSessionId === session.id;
+
+    return (
+      <div
+        key={session.id}
+        draggable={!sidebarCompact && !isEditing}
+        onDragStart={e => {
+          e.dataTransfer.setData(SESSION_DRAG_TYPE, session.id);
+          e.dataTransfer.effectAllowed = 'move';
+        }}
+        className={cn(
+          'group relative cursor-pointer transition-all duration-200 touch-manipulation',
+          sidebarCompact
+            ? 'rounded-lg p-2 flex items-center justify-center'
+            : 'rounded-lg px-2.5 py-2',
+          isActive
+            ? 'bg-gray-100 dark:bg-dark-200'
+            : 'hover:bg-gray-50 dark:hover:bg-dark-200/50'
+        )}
+        onClick={() => handleSelectSession(session)}
+        title={
+          sidebarCompact ? `${session.title} - ${session.model}` : undefined
+        }
+      >
+        {sidebarCompact ? (
+          // Compact mode: Show only avatar/indicator
+          <div className='flex items-center justify-center w-full h-8'>
+            <div
+              className={cn(
+                'w-3 h-3 rounded-full',
+                isActive ? 'bg-primary-500' : 'bg-gray-300 dark:bg-gray-600'
+              )}
+            />
+          </div>
+        ) : isEditing ? (
+          // Editing mode (only in expanded view)
+          <div
+            className='flex items-center gap-2'
+            onClick={e => e.stopPropagation()}
+          >
+            {editingTagsSessionId === session.id ? (
+              <Input
+                value={editingTags}
+                onChange={e => setEditingTags(e.target.value)}
+                onKeyDown={e => {
+                  if (e.key === 'Enter') {
+                    handleSaveTags(session.id);
+                  } else if (e.key === 'Escape') {
+                    handleCancelTags();
+                  }
+                }}
+                placeholder='Tags, separated by commas'
+                className='text-sm h-8'
+                autoFocus
+              />
+            ) : (
+              <Input
+                value={editingTitle}
+                onChange={e => setEditingTitle(e.target.value)}
+                onKeyDown={e => {
+                  if (e.key === 'Enter') {
+                    handleSaveEdit(session.id);
+                  } else if (e.key === 'Escape') {
+                    handleCancelEdit();
+                  }
+                }}
+                className='text-sm h-8'
+                autoFocus
+              />
+            )}
+            <Button
+              variant='ghost'
+              size='sm'
+              onClick={() =>
+                editingTagsSessionId === session.id
+                  ? handleSaveTags(session.id)
+                  : handleSaveEdit(session.id)
+              }
+              className='h-8 w-8 p-0 shrink-0 hover:bg-gray-100 dark:hover:bg-dark-300 active:bg-gray-200 dark:active:bg-dark-400 touch-manipulation'
+            >
+              <Check className='h-3 w-3' />
+            </Button>
+            <Button
+              variant='ghost'
+              size='sm'
+              onClick={
+                editingTagsSessionId === session.id
+                  ? handleCancelTags
+                  : handleCancelEdit
+              }
+              className='h-8 w-8 p-0 shrink-0 hover:bg-gray-100 dark:hover:bg-dark-300 active:bg-gray-200 dark:active:bg-dark-400 touch-manipulation'
+            >
+              <X className='h-3 w-3' />
+            </Button>
+          </div>
+        ) : (
+          // Expanded mode: Show full session details
+          <div className='flex items-center justify-between w-full'>
+            <div className='flex-1 min-w-0 mr-2'>
+              <h3 className='flex items-center gap-1 text-sm font-medium truncate leading-tight text-gray-900 dark:text-gray-100'>
+                {session.pinned && hasActiveFilter && (
+                  <Pin className='h-3 w-3 shrink-0 text-gray-400' />
+                )}
+                {session.archived && (
+                  <Archive className='h-3 w-3 shrink-0 text-gray-400' />
+                )}
+                <span className='truncate'>
+                  {truncateText(session.title, 32)}
+                </span>
+              </h3>
+              <div className='flex items-center gap-1.5 mt-0.5'>
+                <span
+                  className={cn(
+                    'text-xs',
+                    isActive
+                      ? 'text-gray-600 dark:text-gray-400'
+                      : 'text-gray-500 dark:text-gray-500'
+                  )}
+                >
+                  {formatTimestamp(session.updatedAt)}
+                </span>
+                <span className='text-gray-400 dark:text-gray-600'>•</span>
+                <span
+                  className={cn(
+                    'text-xs font-medium truncate',
+                    isActive
+                      ? 'text-gray-700 dark:text-gray-300'
+                      : 'text-gray-600 dark:text-gray-400'
+                  )}
+                >
+                  {session.model}
+                </span>
+              </div>
+              {session.tags && session.tags.length > 0 && (
+                <div className='flex flex-wrap items-center gap-1 mt-1'>
+                  {session.tags.slice(0, 3).map(tag => (
+                    <button
+                      key={tag}
+                      onClick={e => {
+                        e.stopPropagation();
+                        setFilters({ ...DEFAULT_FILTERS, tag });
+                        setFiltersOpen(true);
+                      }}
+                      className='px-1.5 py-0.5 rounded text-[10px] leading-none bg-primary-100 text-primary-800 dark:bg-primary-900/30 dark:text-primary-300 hover:bg-primary-200 dark:hover:bg-primary-900/50'
+                      title={`Show chats tagged "${tag}"`}
+                    >
+                      {tag}
+                    </button>
+                  ))}
+                  {session.tags.length > 3 && (
+                    <span className='text-[10px] text-gray-500'>
+                      +{session.tags.length - 3}
+                    </span>
+                  )}
+                </div>
+              )}
+            </div>
+
+            <div className='flex items-center gap-0.5 opacity-100 sm:opacity-0 sm:group-hover:opacity-100 transition-all duration-200 shrink-0'>
+              <Button
+                variant='ghost'
+                size='sm'
+                onClick={e => handleStartEditing(session, e)}
+                className='h-7 w-7 sm:h-6 sm:w-6 p-0 hover:bg-gray-200 dark:hover:bg-gray-700 active:bg-gray-300 dark:active:bg-gray-600 rounded-md touch-manipulation'
+                title='Rename chat'
+              >
+                <Edit3 className='h-3 w-3' />
+              </Button>
+              <Button
+                variant='ghost'
+                size='sm'
+                onClick={e => {
+                  e.stopPropagation();
+                  setSummarySession(session);
+                }}
+                className='h-7 w-7 sm:h-6 sm:w-6 p-0 hover:bg-gray-200 dark:hover:bg-gray-700 active:bg-gray-300 dark:active:bg-gray-600 rounded-md touch-manipulation'
+                title='Conversation summary'
+              >
+                <FileText className='h-3 w-3' />
+              </Button>
+              <Button
+                variant='ghost'
+                size='sm'
+                onClick={e => {
+                  e.stopPropagation();
+                  setShareSession(session);
+                }}
+                className='h-7 w-7 sm:h-6 sm:w-6 p-0 hover:bg-gray-200 dark:hover:bg-gray-700 active:bg-gray-300 dark:active:bg-gray-600 rounded-md touch-manipulation'
+                title='Share chat'
+              >
+                <Share2 className='h-3 w-3' />
+              </Button>
+              <div
+                className='relative'
+                ref={menuSessionId === session.id ? sessionMenuRef : undefined}
+              >
+                <Button
+                  variant='ghost'
+                  size='sm'
+                  onClick={e => {
+                    e.stopPropagation();
+                    setMenuSessionId(
+                      menuSessionId === session.id ? null : session.id
+                    );
+                  }}
+                  className='h-7 w-7 sm:h-6 sm:w-6 p-0 hover:bg-gray-200 dark:hover:bg-gray-700 active:bg-gray-300 dark:active:bg-gray-600 rounded-md touch-manipulation'
+                  title='More options'
+                >
+                  <MoreHorizontal className='h-3 w-3' />
+                </Button>
+                {menuSessionId === session.id && (
+                  <div
+                    className='absolute right-0 top-full mt-1 w-44 max-h-80 overflow-y-auto bg-white dark:bg-dark-100 border border-gray-200 dark:border-dark-300 rounded-lg shadow-lg py-1 z-50'
+                    onClick={e => e.stopPropagation()}
+                  >
+                    <button
+                      onClick={() => {
+                        setMenuSessionId(null);
+                        organizeSession(session.id, {
+                          pinned: !session.pinned,
+                        });
+                      }}
+                      className='w-full flex items-center gap-2 px-3 py-1.5 text-left text-xs text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-dark-200'
+                    >
+                      {session.pinned ? (
+                        <PinOff className='h-3 w-3' />
+                      ) : (
+                        <Pin className='h-3 w-3' />
+                      )}
+                      {session.pinned ? 'Unpin' : 'Pin'}
+                    </button>
+                    <button
+                      onClick={() => {
+                        setMenuSessionId(null);
+                        organizeSession(session.id, {
+                          archived: !session.archived,
+                        });
+                      }}
+                      className='w-full flex items-center gap-2 px-3 py-1.5 text-left text-xs text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-dark-200'
+                    >
+                      {session.archived ? (
+                        <ArchiveRestore className='h-3 w-3' />
+                      ) : (
+                        <Archive className='h-3 w-3' />
+                      )}
+                      {session.archived ? 'Unarchive' : 'Archive'}
+                    </button>
+                    <button
+                      onClick={() => handleStartEditingTags(session)}
+                      className='w-full flex items-center gap-2 px-3 py-1.5 text-left text-xs text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-dark-200'
+                    >
+                      <Tag className='h-3 w-3' />
+                      Edit tags
+                    </button>
+
+                    {(folders.length > 0 || session.folderId) && (
+                      <>
+                        <div className='border-t border-gray-100 dark:border-dark-200/50 my-1' />
+                        <p className='px-3 py-1 text-[10px] font-semibold uppercase tracking-wide text-gray-500'>
+                          Move to
+                        </p>
+                        {session.folderId && (
+                          <button
+                            onClick={() => handleMoveSession(session.id, null)}
+                            className='w-full px-3 py-1.5 text-left text-xs text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-dark-200'
+                          >
+                            Top level
+                          </button>
+                        )}
+                        {flatFolders
+                          .filter(
+                            ({ folder }) => folder.id !== session.folderId
+                          )
+                          .map(({ folder, depth }) => (
+                            <button
+                              key={folder.id}
+                              onClick={() =>
+                                handleMoveSession(session.id, folder.id)
+                              }
+                              className='w-full px-3 py-1.5 text-left text-xs text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-dark-200 truncate'
+                              style={{ paddingLeft: `${12 + depth * 10}px` }}
+                            >
+                              {folder.name}
+                            </button>
+                          ))}
+                      </>
+                    )}
+
+                    <div className='border-t border-gray-100 dark:border-dark-200/50 my-1' />
+                    <p className='px-3 py-1 text-[10px] font-semibold uppercase tracking-wide text-gray-500'>
+                      Export
+                    </p>
+                    {(
+                      [
+                        ['md', 'Markdown'],
+                        ['json', 'JSON'],
+                        ['html', 'HTML'],
+                        ['print', 'Print / PDF'],
+                      ] as const
+                    ).map(([format, label]) => (
+                      <button
+                        key={format}
+                        onClick={() => handleExportSession(session, format)}
+                        className='w-full px-3 py-1.5 text-left text-xs text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-dark-200'
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+              <Button
+                variant='ghost'
+                size='sm'
+                onClick={e => handleDeleteSession(session.id, e)}
+                className='h-7 w-7 sm:h-6 sm:w-6 p-0 text-red-500 hover:text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20 active:bg-red-100 dark:active:bg-red-900/30 rounded-md touch-manipulation'
+                title='Delete chat'
+              >
+                <Trash2 className='h-3 w-3' />
+              </Button>
+            </div>
+          </div>
+        )}
+      </div>
+    );
+  };
+
   return (
     <>
       {/* Sidebar */}
@@ -418,14 +1009,135 @@ export const Sidebar: React.FC<SidebarProps> = ({
             }}
           >
             <div className={cn('p-2.5', sidebarCompact && 'px-1')}>
+              {!sidebarCompact && sessions.length > 0 && (
+                <SessionSearch
+                  onNavigate={() => {
+                    if (window.innerWidth < 768) {
+                      toggleSidebarCompact();
+                    }
+                  }}
+                />
+              )}
               {!sidebarCompact && sessions.length > 0 && (
                 <div className='flex items-center justify-between mb-1.5 px-1'>
                   <h3 className='text-xs font-semibold text-gray-700 dark:text-gray-300 uppercase tracking-wide'>
                     Chats
                   </h3>
-                  <span className='text-xs text-gray-500 dark:text-gray-500 font-medium'>
-                    {sessions.length}
-                  </span>
+                  <div className='flex items-center gap-0.5'>
+                    <span className='text-xs text-gray-500 dark:text-gray-500 font-medium mr-1'>
+                      {hasActiveFilter
+                        ? filteredSessions.length
+                        : activeSessions.length}
+                    </span>
+                    <Button
+                      variant='ghost'
+                      size='sm'
+                      onClick={() => handleCreateFolder()}
+                      className='h-6 w-6 p-0 hover:bg-gray-200 dark:hover:bg-gray-700 rounded-md touch-manipulation'
+                      title='New folder'
+                    >
+                      <FolderPlus className='h-3 w-3' />
+                    </Button>
+                    <Button
+                      variant='ghost'
+                      size='sm'
+                      onClick={() => setFiltersOpen(!filtersOpen)}
+                      className={cn(
+                        'h-6 w-6 p-0 hover:bg-gray-200 dark:hover:bg-gray-700 rounded-md touch-manipulation',
+                        hasActiveFilter &&
+                          'text-primary-600 dark:text-primary-400'
+                      )}
+                      title='Filter chats'
+                    >
+                      <Filter className='h-3 w-3' />
+                    </Button>
+                  </div>
+                </div>
+              )}
+              {!sidebarCompact && filtersOpen && sessions.length > 0 && (
+                <div className='mb-2 space-y-1.5 rounded-lg border border-gray-200/60 dark:border-dark-200/60 p-2'>
+                  <Select
+                    value={filters.status}
+                    onChange={e =>
+                      setFilters({
+                        ...filters,
+                        status: e.target.value as SessionFilters['status'],
+                      })
+                    }
+                    options={[
+                      { value: 'active', label: 'Active chats' },
+                      { value: 'archived', label: 'Archived chats' },
+                      { value: 'all', label: 'All chats' },
+                    ]}
+                    className='px-2 py-1.5 text-xs rounded-lg'
+                  />
+                  {allTags.length > 0 && (
+                    <Select
+                      value={filters.tag}
+                      onChange={e =>
+                        setFilters({ ...filters, tag: e.target.value })
+                      }
+                      options={[
+                        { value: '', label: 'Any tag' },
+                        ...allTags.map(tag => ({ value: tag, label: tag })),
+                      ]}
+                      className='px-2 py-1.5 text-xs rounded-lg'
+                    />
+                  )}
+                  {folders.length > 0 && (
+                    <Select
+                      value={filters.folderId}
+                      onChange={e =>
+                        setFilters({ ...filters, folderId: e.target.value })
+                      }
+                      options={[
+                        { value: '', label: 'Any folder' },
+                        ...flatFolders.map(({ folder, depth }) => ({
+                          value: folder.id,
+                          label: `${'  '.repeat(depth)}${folder.name}`,
+                        })),
+                      ]}
+                      className='px-2 py-1.5 text-xs rounded-lg'
+                    />
+                  )}
+                  {sessionPersonaIds.length > 0 && (
+                    <Select
+                      value={filters.personaId}
+                      onChange={e =>
+                        setFilters({ ...filters, personaId: e.target.value })
+                      }
+                      options={[
+                        { value: '', label: 'Any persona' },
+                        ...sessionPersonaIds.map(id => ({
+                          value: id,
+                          label: personas[id]?.name || id,
+                        })),
+                      ]}
+                      className='px-2 py-1.5 text-xs rounded-lg'
+                    />
+                  )}
+                  <Select
+                    value={filters.model}
+                    onChange={e =>
+                      setFilters({ ...filters, model: e.target.value })
+                    }
+                    options={[
+                      { value: '', label: 'Any model' },
+                      ...sessionModels.map(model => ({
+                        value: model,
+                        label: model,
+                      })),
+                    ]}
+                    className='px-2 py-1.5 text-xs rounded-lg'
+                  />
+                  {hasActiveFilter && (
+                    <button
+                      onClick={() => setFilters(DEFAULT_FILTERS)}
+                      className='w-full text-xs text-primary-600 dark:text-primary-400 hover:underline'
+                    >
+                      Clear filters
+                    </button>
+                  )}
                 </div>
               )}
               {sessions.length === 0 ? (
@@ -459,148 +1171,75 @@ export const Sidebar: React.FC<SidebarProps> = ({
                     </>
                   )}
                 </div>
+              ) : sidebarCompact ? (
+                <div className='space-y-1'>
+                  {activeSessions.map(renderSession)}
+                </div>
+              ) : hasActiveFilter ? (
+                filteredSessions.length === 0 ? (
+                  <p className='px-1 py-4 text-center text-xs text-gray-500 dark:text-gray-500'>
+                    No chats match these filters
+                  </p>
+                ) : (
+                  <div className='space-y-0.5'>
+                    {filteredSessions.map(renderSession)}
+                  </div>
+                )
               ) : (
-                <div
-                  className={cn('space-y-0.5', sidebarCompact && 'space-y-1')}
-                >
-                  {sessions.map(session => {
-                    const isActive = currentSessionId === session.id;
-
-                    return (
-                      <div
-                        key={session.id}
-                        className={cn(
-                          'group relative cursor-pointer transition-all duration-200 touch-manipulation',
-                          sidebarCompact
-                            ? 'rounded-lg p-2 flex items-center justify-center'
-                            : 'rounded-lg px-2.5 py-2',
-                          isActive
-                            ? 'bg-gray-100 dark:bg-dark-200'
-                            : 'hover:bg-gray-50 dark:hover:bg-dark-200/50'
-                        )}
-                        onClick={() => handleSelectSession(session)}
-                        title={
-                          sidebarCompact
-                            ? `${session.title} - ${session.model}`
-                            : undefined
-                        }
-                      >
-                        {sidebarCompact ? (
-                          // Compact mode: Show only avatar/indicator
-                          <div className='flex items-center justify-center w-full h-8'>
-                            <div
-                              className={cn(
-                                'w-3 h-3 rounded-full',
-                                isActive
-                                  ? 'bg-primary-500'
-                                  : 'bg-gray-300 dark:bg-gray-600'
-                              )}
-                            />
-                          </div>
-                        ) : editingSessionId === session.id ? (
-                          // Editing mode (only in expanded view)
-                          <div
-                            className='flex items-center gap-2'
-                            onClick={e => e.stopPropagation()}
-                          >
-                            <Input
-                              value={editingTitle}
-                              onChange={e => setEditingTitle(e.target.value)}
-                              onKeyDown={e => {
-                                if (e.key === 'Enter') {
-                                  handleSaveEdit(session.id);
-                                } else if (e.key === 'Escape') {
-                                  handleCancelEdit();
-                                }
-                              }}
-                              className='text-sm h-8'
-                              autoFocus
-                            />
-                            <Button
-                              variant='ghost'
-                              size='sm'
-                              onClick={() => handleSaveEdit(session.id)}
-                              className='h-8 w-8 p-0 shrink-0 hover:bg-gray-100 dark:hover:bg-dark-300 active:bg-gray-200 dark:active:bg-dark-400 touch-manipulation'
-                            >
-                              <Check className='h-3 w-3' />
-                            </Button>
-                            <Button
-                              variant='ghost'
-                              size='sm'
-                              onClick={handleCancelEdit}
-                              className='h-8 w-8 p-0 shrink-0 hover:bg-gray-100 dark:hover:bg-dark-300 active:bg-gray-200 dark:active:bg-dark-400 touch-manipulation'
-                            >
-                              <X className='h-3 w-3' />
-                            </Button>
-                          </div>
-                        ) : (
-                          // Expanded mode: Show full session details
-                          <div className='flex items-center justify-between w-full'>
-                            <div className='flex-1 min-w-0 mr-2'>
-                              <h3
-                                className={cn(
-                                  'text-sm font-medium truncate leading-tight',
-                                  isActive
-                                    ? 'text-gray-900 dark:text-gray-100'
-                                    : 'text-gray-900 dark:text-gray-100'
-                                )}
-                              >
-                                {truncateText(session.title, 32)}
-                              </h3>
-                              <div className='flex items-center gap-1.5 mt-0.5'>
-                                <span
-                                  className={cn(
-                                    'text-xs',
-                                    isActive
-                                      ? 'text-gray-600 dark:text-gray-400'
-                                      : 'text-gray-500 dark:text-gray-500'
-                                  )}
-                                >
-                                  {formatTimestamp(session.updatedAt)}
-                                </span>
-                                <span className='text-gray-400 dark:text-gray-600'>
-                                  •
-                                </span>
-                                <span
-                                  className={cn(
-                                    'text-xs font-medium',
-                                    isActive
-                                      ? 'text-gray-700 dark:text-gray-300'
-                                      : 'text-gray-600 dark:text-gray-400'
-                                  )}
-                                >
-                                  {session.model}
-                                </span>
-                              </div>
-                            </div>
-
-                            <div className='flex items-center gap-0.5 opacity-100 sm:opacity-0 sm:group-hover:opacity-100 transition-all duration-200 shrink-0'>
-                              <Button
-                                variant='ghost'
-                                size='sm'
-                                onClick={e => handleStartEditing(session, e)}
-                                className='h-7 w-7 sm:h-6 sm:w-6 p-0 hover:bg-gray-200 dark:hover:bg-gray-700 active:bg-gray-300 dark:active:bg-gray-600 rounded-md touch-manipulation'
-                                title='Rename chat'
-                              >
-                                <Edit3 className='h-3 w-3' />
-                              </Button>
-                              <Button
-                                variant='ghost'
-                                size='sm'
-                                onClick={e =>
-                                  handleDeleteSession(session.id, e)
-                                }
-                                className='h-7 w-7 sm:h-6 sm:w-6 p-0 text-red-500 hover:text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20 active:bg-red-100 dark:active:bg-red-900/30 rounded-md touch-manipulation'
-                                title='Delete chat'
-                              >
-                                <Trash2 className='h-3 w-3' />
-                              </Button>
-                            </div>
-                          </div>
-                        )}
-                      </div>
-                    );
-                  })}
+                <div className='space-y-0.5'>
+                  {pinnedSessions.length > 0 && (
+                    <>
+                      <p className='flex items-center gap-1 px-1 pt-1 text-[10px] font-semibold uppercase tracking-wide text-gray-500'>
+                        <Pin className='h-3 w-3' />
+                        Pinned
+                      </p>
+                      {pinnedSessions.map(renderSession)}
+                      <div className='border-t border-gray-200/60 dark:border-dark-200/60 my-1.5' />
+                    </>
+                  )}
+                  {rootFolders.map(folder => (
+                    <SidebarFolder
+                      key={folder.id}
+                      folder={folder}
+                      folders={folders}
+                      sessions={treeSessions}
+                      expandedFolders={expandedFolders}
+                      onToggle={toggleFolderExpanded}
+                      onDropSession={handleMoveSession}
+                      onDropFolder={handleMoveFolder}
+                      onRename={(folderId, name) =>
+                        updateFolder(folderId, { name })
+                      }
+                      onDelete={handleDeleteFolder}
+                      onCreateSubfolder={handleCreateFolder}
+                      renderSession={renderSession}
+                    />
+                  ))}
+                  <div
+                    onDragOver={handleRootDragOver}
+                    onDragLeave={() => setIsRootDragOver(false)}
+                    onDrop={handleRootDrop}
+                    className={cn(
+                      'space-y-0.5 rounded-lg',
+                      folders.length > 0 && 'min-h-[2rem]',
+                      isRootDragOver &&
+                        'bg-primary-50 dark:bg-primary-900/20 ring-1 ring-primary-400'
+                    )}
+                  >
+                    {rootSessions.map(renderSession)}
+                  </div>
+                  {archivedCount > 0 && (
+                    <button
+                      onClick={() => {
+                        setFilters({ ...DEFAULT_FILTERS, status: 'archived' });
+                        setFiltersOpen(true);
+                      }}
+                      className='w-full flex items-center gap-1.5 px-2.5 py-1.5 rounded-lg text-xs text-gray-500 dark:text-gray-500 hover:bg-gray-50 dark:hover:bg-dark-200/50'
+                    >
+                      <Archive className='h-3 w-3' />
+                      {archivedCount} archived
+                    </button>
+                  )}
                 </div>
               )}
             </div>
@@ -778,6 +1417,20 @@ export const Sidebar: React.FC<SidebarProps> = ({
         isOpen={settingsOpen}
         onClose={() => setSettingsOpen(false)}
       />
+
+      {summarySession && (
+        <SessionSummaryModal
+          session={summarySession}
+          onClose={() => setSummarySession(null)}
+        />
+      )}
+
+      {shareSession && (
+        <SessionShareModal
+          session={shareSession}
+          onClose={() => setShareSession(null)}
+        />
+      )}
     </>
   );
 };
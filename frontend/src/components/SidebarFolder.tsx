@@ -0,0 +1,261 @@
+/*
+ * Libre WebUI
+ * Copyright (C) 2025 Kroonen AI, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at:
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import React, { useState } from 'react';
+import {
+  ChevronRight,
+  Folder,
+  FolderOpen,
+  FolderPlus,
+  Edit3,
+  Trash2,
+  Check,
+  X,
+} from 'lucide-react';
+import { Button, Input } from '@/components/ui';
+import { ChatFolder, ChatSession } from '@/types';
+import { cn } from '@/utils';
+
+// Drag-and-drop payload types used by the sidebar
+export const SESSION_DRAG_TYPE = 'application/x-libre-session';
+export const FOLDER_DRAG_TYPE = 'application/x-libre-folder';
+
+interface SidebarFolderProps {
+  folder: ChatFolder;
+  folders: ChatFolder[];
+  sessions: ChatSession[];
+  depth?: number;
+  expandedFolders: string[];
+  onToggle: (folderId: string) => void;
+  onDropSession: (sessionId: string, folderId: string) => void;
+  onDropFolder: (folderId: string, parentId: string) => void;
+  onRename: (folderId: string, name: string) => void;
+  onDelete: (folder: ChatFolder) => void;
+  onCreateSubfolder: (parentId: string) => void;
+  renderSession: (session: ChatSession) => React.ReactNode;
+}
+
+export const SidebarFolder: React.FC<SidebarFolderProps> = ({
+  folder,
+  folders,
+  sessions,
+  depth = 0,
+  expandedFolders,
+  onToggle,
+  onDropSession,
+  onDropFolder,
+  onRename,
+  onDelete,
+  onCreateSubfolder,
+  renderSession,
+}) => {
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [name, setName] = useState(folder.name);
+  const [isDragOver, setIsDragOver] = useState(false);
+
+  const isExpanded = expandedFolders.includes(folder.id);
+  const children = folders
+    .filter(f => f.parentId === folder.id)
+    .sort((a, b) => a.name.localeCompare(b.name));
+  const folderSessions = sessions.filter(s => s.folderId === folder.id);
+
+  const acceptsDrag = (e: React.DragEvent) =>
+    e.dataTransfer.types.includes(SESSION_DRAG_TYPE) ||
+    e.dataTransfer.types.includes(FOLDER_DRAG_TYPE);
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!acceptsDrag(e)) return;
+    e.preventDefault();
+    e.stopPropagation();
+    e.dataTransfer.dropEffect = 'move';
+    setIsDragOver(true);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setIsDragOver(false);
+
+    const sessionId = e.dataTransfer.getData(SESSION_DRAG_TYPE);
+    if (sessionId) {
+      onDropSession(sessionId, folder.id);
+      if (!isExpanded) onToggle(folder.id);
+      return;
+    }
+
+    const folderId = e.dataTransfer.getData(FOLDER_DRAG_TYPE);
+    if (folderId && folderId !== folder.id) {
+      onDropFolder(folderId, folder.id);
+    }
+  };
+
+  const handleSaveRename = () => {
+    if (name.trim() && name.trim() !== folder.name) {
+      onRename(folder.id, name.trim());
+    }
+    setIsRenaming(false);
+  };
+
+  const handleCancelRename = () => {
+    setName(folder.name);
+    setIsRenaming(false);
+  };
+
+  const FolderIcon = isExpanded ? FolderOpen : Folder;
+
+  return (
+    <div>
+      <div
+        draggable={!isRenaming}
+        onDragStart={e => {
+          e.stopPropagation();
+          e.dataTransfer.setData(FOLDER_DRAG_TYPE, folder.id);
+          e.dataTransfer.effectAllowed = 'move';
+        }}
+        onDragOver={handleDragOver}
+        onDragLeave={() => setIsDragOver(false)}
+        onDrop={handleDrop}
+        onClick={() => !isRenaming && onToggle(folder.id)}
+        className={cn(
+          'group flex items-center gap-1.5 rounded-lg px-1.5 py-1.5 cursor-pointer transition-all duration-200 touch-manipulation',
+          isDragOver
+            ? 'bg-primary-100 dark:bg-primary-900/30 ring-1 ring-primary-400'
+            : 'hover:bg-gray-50 dark:hover:bg-dark-200/50'
+        )}
+        style={{ paddingLeft: `${depth * 12 + 6}px` }}
+      >
+        <ChevronRight
+          className={cn(
+            'h-3 w-3 shrink-0 text-gray-400 transition-transform duration-200',
+            isExpanded && 'rotate-90'
+          )}
+        />
+        <FolderIcon className='h-3.5 w-3.5 shrink-0 text-gray-500 dark:text-gray-400' />
+
+        {isRenaming ? (
+          <div
+            className='flex flex-1 items-center gap-1'
+            onClick={e => e.stopPropagation()}
+          >
+            <Input
+              value={name}
+              onChange={e => setName(e.target.value)}
+              onKeyDown={e => {
+                if (e.key === 'Enter') {
+                  handleSaveRename();
+                } else if (e.key === 'Escape') {
+                  handleCancelRename();
+                }
+              }}
+              className='text-xs h-7'
+              autoFocus
+            />
+            <Button
+              variant='ghost'
+              size='sm'
+              onClick={handleSaveRename}
+              className='h-7 w-7 p-0 shrink-0'
+            >
+              <Check className='h-3 w-3' />
+            </Button>
+            <Button
+              variant='ghost'
+              size='sm'
+              onClick={handleCancelRename}
+              className='h-7 w-7 p-0 shrink-0'
+            >
+              <X className='h-3 w-3' />
+            </Button>
+          </div>
+        ) : (
+          <>
+            <span className='flex-1 min-w-0 truncate text-sm font-medium text-gray-800 dark:text-gray-200'>
+              {folder.name}
+            </span>
+            <span className='text-xs text-gray-400 dark:text-gray-500 group-hover:hidden'>
+              {folderSessions.length || ''}
+            </span>
+            <div
+              className='hidden group-hover:flex items-center gap-0.5 shrink-0'
+              onClick={e => e.stopPropagation()}
+            >
+              <Button
+                variant='ghost'
+                size='sm'
+                onClick={() => {
+                  onCreateSubfolder(folder.id);
+                  if (!isExpanded) onToggle(folder.id);
+                }}
+                className='h-6 w-6 p-0 hover:bg-gray-200 dark:hover:bg-gray-700 rounded-md'
+                title='New subfolder'
+              >
+                <FolderPlus className='h-3 w-3' />
+              </Button>
+              <Button
+                variant='ghost'
+                size='sm'
+                onClick={() => {
+                  setName(folder.name);
+                  setIsRenaming(true);
+                }}
+                className='h-6 w-6 p-0 hover:bg-gray-200 dark:hover:bg-gray-700 rounded-md'
+                title='Rename folder'
+              >
+                <Edit3 className='h-3 w-3' />
+              </Button>
+              <Button
+                variant='ghost'
+                size='sm'
+                onClick={() => onDelete(folder)}
+                className='h-6 w-6 p-0 text-red-500 hover:text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-md'
+                title='Delete folder'
+              >
+                <Trash2 className='h-3 w-3' />
+              </Button>
+            </div>
+          </>
+        )}
+      </div>
+
+      {isExpanded && (
+        <div className='space-y-0.5'>
+          {children.map(child => (
+            <SidebarFolder
+              key={child.id}
+              folder={child}
+              folders={folders}
+              sessions={sessions}
+              depth={depth + 1}
+              expandedFolders={expandedFolders}
+              onToggle={onToggle}
+              onDropSession={onDropSession}
+              onDropFolder={onDropFolder}
+              onRename={onRename}
+              onDelete={onDelete}
+              onCreateSubfolder={onCreateSubfolder}
+              renderSession={renderSession}
+            />
+          ))}
+          {folderSessions.length > 0 && (
+            <div style={{ paddingLeft: `${(depth + 1) * 12}px` }}>
+              {folderSessions.map(renderSession)}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -28,6 +28,7 @@ export { ImageUpload } from './ImageUpload';
 export { StructuredOutput } from './StructuredOutput';
 export { DocumentUpload } from './DocumentUpload';
 export { DocumentIndicator } from './DocumentIndicator';
+export { McpServerManager } from './McpServerManager';
 export { LoginForm } from './LoginForm';
 export { ProtectedRoute } from './ProtectedRoute';
 export {
@@ -37,6 +38,11 @@ export {
 export { DemoModeBanner } from './DemoModeBanner';
 export { PluginManager } from './PluginManager';
 export { GenerationStats } from './GenerationStats';
+export { ContextMeter } from './ContextMeter';
+export { SessionSummaryModal } from './SessionSummaryModal';
+export { SessionShareModal } from './SessionShareModal';
+export { SessionSearch } from './SessionSearch';
+export { SidebarFolder } from './SidebarFolder';
 export { ArtifactRenderer } from './ArtifactRenderer';
 export { ArtifactContainer } from './ArtifactContainer';
 export { ArtifactDemo } from './ArtifactDemo';
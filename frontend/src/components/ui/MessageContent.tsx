@@ -20,18 +20,63 @@ import ReactMarkdown from 'react-markdown';
 import { OptimizedSyntaxHighlighter } from '@/components/OptimizedSyntaxHighlighter';
 import { Copy, Check } from 'lucide-react';
 import { useAppStore } from '@/store/appStore';
+import { MessageCitation } from '@/types';
 import { cn } from '@/utils';
 
 interface MessageContentProps {
   content: string;
   className?: string;
+  citations?: MessageCitation[]; // Turns [1] markers into links to sources
+  onCitationClick?: (citation: MessageCitation) => void;
 }
 
+const CITATION_MARKER = /\[(\d+)\]/g;
+
 export const MessageContent: React.FC<MessageContentProps> = ({
   content,
   className,
+  citations,
+  onCitationClick,
 }) => {
   const { theme } = useAppStore();
+
+  // Replaces [n] in the text of a paragraph or list item with a button for
+  // the nth source. Code is rendered separately, so array indexes in code
+  // are left alone.
+  const withCitations = (children: React.ReactNode): React.ReactNode => {
+    if (!citations?.length || !onCitationClick) return children;
+
+    return React.Children.map(children, child => {
+      if (typeof child !== 'string') return child;
+
+      const parts: React.ReactNode[] = [];
+      let lastIndex = 0;
+      for (const match of child.matchAll(CITATION_MARKER)) {
+        const citation = citations.find(
+          candidate => candidate.index === Number(match[1])
+        );
+        if (!citation || match.index === undefined) continue;
+
+        parts.push(child.slice(lastIndex, match.index));
+        parts.push(
+          <button
+            key={match.index}
+            type='button'
+            onClick={() => onCitationClick(citation)}
+            className='mx-0.5 inline-flex items-center rounded bg-primary-100 dark:bg-primary-900/40 px-1 align-super text-[0.65rem] font-semibold leading-tight text-primary-700 dark:text-primary-300 hover:bg-primary-200 dark:hover:bg-primary-800/60 transition-colors'
+            title={citation.filename}
+          >
+            {citation.index}
+          </button>
+        );
+        lastIndex = match.index + match[0].length;
+      }
+      if (parts.length === 0) return child;
+
+      parts.push(child.slice(lastIndex));
+      return parts;
+    });
+  };
   const [copiedCode, setCopiedCode] = React.useState<string | null>(null);
 
   const copyToClipboard = async (text: string) => {
@@ -110,7 +155,7 @@ export const MessageContent: React.FC<MessageContentProps> = ({
           p({ children, ...props }) {
             return (
               <p className='mb-4 last:mb-0 leading-relaxed' {...props}>
-                {children}
+                {withCitations(children)}
               </p>
             );
           },
@@ -140,7 +185,7 @@ export const MessageContent: React.FC<MessageContentProps> = ({
                 className='text-gray-700 dark:text-dark-700 leading-relaxed'
                 {...props}
               >
-                {children}
+                {withCitations(children)}
               </li>
             );
           },
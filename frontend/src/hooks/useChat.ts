@@ -18,21 +18,42 @@
 import { useState, useCallback, useRef, useEffect } from 'react';
 import { useChatStore } from '@/store/chatStore';
 import { useAppStore } from '@/store/appStore';
-import { GenerationStatistics } from '@/types';
+import {
+  ChatMessage,
+  ChatSession,
+  ContextUsage,
+  GenerationStatistics,
+  MessageCitation,
+} from '@/types';
 import websocketService from '@/utils/websocket';
+import { chatApi } from '@/utils/api';
 import { generateId } from '@/utils';
+import { findUserAncestor } from '@/utils/messageTree';
 import toast from 'react-hot-toast';
 
 export const useChat = (sessionId: string) => {
   const [streamingMessage, setStreamingMessage] = useState<string>('');
   const [isStreaming, setIsStreaming] = useState(false);
-  const { addMessage, updateMessage, updateMessageWithStatistics } =
-    useChatStore();
+  // Position in the server's generation queue while the reply waits
+  const [queuePosition, setQueuePosition] = useState<number | null>(null);
+  const {
+    addMessage,
+    insertMessage,
+    updateMessage,
+    updateMessageWithStatistics,
+    updateMessageThinking,
+    setActiveMessage,
+    setContextUsage,
+    loadContextUsage,
+    applySessionUpdate,
+  } = useChatStore();
   const { setIsGenerating, preferences } = useAppStore();
   const streamingMessageIdRef = useRef<string | null>(null);
 
   // Buffer for streaming content to reduce state updates
   const streamingContentRef = useRef<string>('');
+  const streamingThinkingRef = useRef<string>('');
+  const thinkingUpdateTimer = useRef<NodeJS.Timeout>();
 
   // Store update batching with debounced timer approach
   const lastStoreUpdate = useRef<number>(0);
@@ -44,7 +65,15 @@ export const useChat = (sessionId: string) => {
       // Clean up WebSocket handlers when component unmounts
       websocketService.offMessage('user_message');
       websocketService.offMessage('assistant_chunk');
+      websocketService.offMessage('assistant_thinking_chunk');
       websocketService.offMessage('assistant_complete');
+      websocketService.offMessage('context_usage');
+      websocketService.offMessage('session_updated');
+      websocketService.offMessage('tool_message');
+      websocketService.offMessage('queued');
+      websocketService.offMessage('generation_started');
+      websocketService.offMessage('reconnected');
+      websocketService.offMessage('resume_unavailable');
       websocketService.offMessage('error');
     };
   }, [sessionId]);
@@ -55,7 +84,15 @@ export const useChat = (sessionId: string) => {
       // Clear handlers when no session
       websocketService.offMessage('user_message');
       websocketService.offMessage('assistant_chunk');
+      websocketService.offMessage('assistant_thinking_chunk');
       websocketService.offMessage('assistant_complete');
+      websocketService.offMessage('context_usage');
+      websocketService.offMessage('session_updated');
+      websocketService.offMessage('tool_message');
+      websocketService.offMessage('queued');
+      websocketService.offMessage('generation_started');
+      websocketService.offMessage('reconnected');
+      websocketService.offMessage('resume_unavailable');
       websocketService.offMessage('error');
       return;
     }
@@ -97,6 +134,64 @@ export const useChat = (sessionId: string) => {
       }
     });
 
+    websocketService.onMessage('queued', (data: unknown) => {
+      const { messageId, position } = data as {
+        messageId: string;
+        position: number;
+      };
+      if (messageId === streamingMessageIdRef.current) {
+        setQueuePosition(position);
+      }
+    });
+
+    websocketService.onMessage('generation_started', (data: unknown) => {
+      const { messageId } = data as { messageId: string };
+      if (messageId === streamingMessageIdRef.current) {
+        setQueuePosition(null);
+      }
+    });
+
+    // Reasoning from thinking models streams separately from the answer
+    websocketService.onMessage('assistant_thinking_chunk', (data: unknown) => {
+      const thinkingData = data as {
+        content: string;
+        total: string;
+        messageId?: string;
+      };
+      const messageId = thinkingData.messageId || streamingMessageIdRef.current;
+
+      if (messageId) {
+        streamingThinkingRef.current = thinkingData.total;
+
+        if (thinkingUpdateTimer.current) {
+          clearTimeout(thinkingUpdateTimer.current);
+        }
+        thinkingUpdateTimer.current = setTimeout(() => {
+          updateMessageThinking(
+            sessionId,
+            messageId,
+            streamingThinkingRef.current
+          );
+        }, 200);
+      }
+    });
+
+    // Estimated prompt size, sent before generation starts
+    websocketService.onMessage('context_usage', (data: unknown) => {
+      const usageData = data as ContextUsage & { sessionId?: string };
+      if (usageData.sessionId === sessionId) {
+        setContextUsage(usageData);
+      }
+    });
+
+    // Server-side session changes, e.g. the title written after the first reply
+    websocketService.onMessage('session_updated', (data: unknown) => {
+      const { sessionId: updatedSessionId, ...updates } = data as {
+        sessionId: string;
+      } & Partial<ChatSession>;
+      applySessionUpdate(updatedSessionId, updates);
+    });
+
     websocketService.onMessage('assistant_complete', (data: unknown) => {
       const completeData = data as {
         content: string;
@@ -104,6 +199,8 @@ export const useChat = (sessionId: string) => {
         timestamp: number;
         messageId?: string;
         statistics?: GenerationStatistics; // Generation statistics from Ollama
+        thinking?: string;
+        citations?: MessageCitation[];
       };
       console.log(
         'Hook: Received assistant_complete for session:',
@@ -118,6 +215,7 @@ export const useChat = (sessionId: string) => {
       setIsStreaming(false);
       setStreamingMessage('');
       setIsGenerating(false);
+      setQueuePosition(null);
 
       // Use messageId from backend if provided, otherwise fall back to current streaming ID
       const messageId = completeData.messageId || streamingMessageIdRef.current;
@@ -132,18 +230,69 @@ export const useChat = (sessionId: string) => {
           sessionId,
           messageId,
           finalContent,
-          completeData.statistics
+          completeData.statistics,
+          completeData.thinking,
+          completeData.citations
         );
       }
 
       streamingMessageIdRef.current = null;
       streamingContentRef.current = '';
+      streamingThinkingRef.current = '';
 
       // Clear any pending store update timers
       if (storeUpdateTimer.current) {
         clearTimeout(storeUpdateTimer.current);
       }
+      if (thinkingUpdateTimer.current) {
+        clearTimeout(thinkingUpdateTimer.current);
+      }
       lastStoreUpdate.current = 0;
+
+      // The reply now takes up context too
+      loadContextUsage(sessionId);
+    });
+
+    // Tool calls and results are persisted server-side; show them above the
+    // assistant message that is still streaming
+    websocketService.onMessage('tool_message', (data: unknown) => {
+      const toolData = data as {
+        message?: ChatMessage;
+        beforeMessageId?: string;
+      };
+      if (toolData.message) {
+        insertMessage(sessionId, toolData.message, toolData.beforeMessageId);
+      }
+    });
+
+    // Pick up a reply that was streaming when the connection dropped
+    websocketService.onMessage('reconnected', () => {
+      if (streamingMessageIdRef.current) {
+        websocketService.resumeStream(streamingMessageIdRef.current);
+      }
+    });
+
+    // The backend no longer has the generation; load what it saved instead
+    websocketService.onMessage('resume_unavailable', async (data: unknown) => {
+      const { messageId } = data as { messageId?: string };
+      if (!messageId || messageId !== streamingMessageIdRef.current) return;
+
+      setIsStreaming(false);
+      setStreamingMessage('');
+      setIsGenerating(false);
+      streamingMessageIdRef.current = null;
+
+      try {
+        const response = await chatApi.getSession(sessionId);
+        if (response.success && response.data) {
+          applySessionUpdate(sessionId, {
+            messages: response.data.messages,
+            activeMessageId: response.data.activeMessageId,
+          });
+        }
+      } catch (error: unknown) {
+        console.error('Failed to reload session after reconnect:', error);
+      }
     });
 
     websocketService.onMessage('error', (data: unknown) => {
@@ -155,6 +304,7 @@ export const useChat = (sessionId: string) => {
       setIsStreaming(false);
       setStreamingMessage('');
       setIsGenerating(false);
+      setQueuePosition(null);
       streamingMessageIdRef.current = null;
 
       // Handle session not found error by redirecting to home
@@ -172,6 +322,7 @@ export const useChat = (sessionId: string) => {
     // Reset streaming state when switching sessions
     setIsStreaming(false);
     setStreamingMessage('');
+    setQueuePosition(null);
     streamingMessageIdRef.current = null;
 
     // Cleanup function
@@ -179,21 +330,41 @@ export const useChat = (sessionId: string) => {
       if (storeUpdateTimer.current) {
         clearTimeout(storeUpdateTimer.current);
       }
+      if (thinkingUpdateTimer.current) {
+        clearTimeout(thinkingUpdateTimer.current);
+      }
     };
-  }, [sessionId, updateMessage, updateMessageWithStatistics, setIsGenerating]);
-
-  const sendMessage = useCallback(
-    async (
-      content: string,
-      images?: string[],
-      format?: string | Record<string, unknown>
-    ) => {
+  }, [
+    sessionId,
+    insertMessage,
+    updateMessage,
+    updateMessageWithStatistics,
+    updateMessageThinking,
+    setContextUsage,
+    loadContextUsage,
+    applySessionUpdate,
+    setIsGenerating,
+  ]);
+
+  // Stream a reply over the WebSocket. New and edited turns add a user
+  // message first; regenerated turns answer an existing one again.
+  const streamReply = useCallback(
+    async (request: {
+      content: string;
+      images?: string[];
+      format?: string | Record<string, unknown>;
+      think?: boolean;
+      parentId?: string | null;
+      regenerate?: boolean;
+    }) => {
+      const { content, images, format, think, parentId, regenerate } = request;
       if (!sessionId || !content.trim()) return;
 
       try {
         setIsGenerating(true);
         setIsStreaming(true);
         setStreamingMessage('');
+        streamingThinkingRef.current = '';
 
         // Reset batching timers for new stream
         if (storeUpdateTimer.current) {
@@ -201,12 +372,19 @@ export const useChat = (sessionId: string) => {
         }
         lastStoreUpdate.current = Date.now();
 
-        // Add user message immediately
-        addMessage(sessionId, {
-          role: 'user',
-          content: content.trim(),
-          images: images, // Store images in the message if provided
-        });
+        // Add user message immediately, sharing its ID with the backend so
+        // both sides build the same message tree
+        let userMessageId: string | undefined;
+        if (!regenerate) {
+          userMessageId = generateId();
+          addMessage(sessionId, {
+            role: 'user',
+            content: content.trim(),
+            images: images, // Store images in the message if provided
+            id: userMessageId,
+            parentId,
+          });
+        }
 
         // Create placeholder for assistant message
         const assistantMessageId = generateId();
@@ -233,6 +411,10 @@ export const useChat = (sessionId: string) => {
             format: format,
             options: preferences.generationOptions,
             assistantMessageId, // Send the message ID to backend
+            userMessageId,
+            parentId,
+            regenerate,
+            think,
           },
         });
       } catch (error: unknown) {
@@ -247,19 +429,80 @@ export const useChat = (sessionId: string) => {
     [sessionId, addMessage, setIsGenerating, preferences.generationOptions]
   );
 
+  const sendMessage = useCallback(
+    (
+      content: string,
+      images?: string[],
+      format?: string | Record<string, unknown>,
+      think?: boolean
+    ) => streamReply({ content, images, format, think }),
+    [streamReply]
+  );
+
+  // Resubmit a user message with new content as a sibling branch
+  const editMessage = useCallback(
+    (messageId: string, content: string, think?: boolean) => {
+      const session = useChatStore
+        .getState()
+        .sessions.find(s => s.id === sessionId);
+      const original = session?.messages.find(m => m.id === messageId);
+      if (!original || original.role !== 'user') return;
+
+      return streamReply({
+        content,
+        images: original.images,
+        think,
+        parentId: original.parentId ?? null,
+      });
+    },
+    [sessionId, streamReply]
+  );
+
+  // Answer the user message behind a reply again as a sibling branch
+  const regenerateMessage = useCallback(
+    (messageId: string, think?: boolean) => {
+      const session = useChatStore
+        .getState()
+        .sessions.find(s => s.id === sessionId);
+      const userMessage = session
+        ? findUserAncestor(session.messages, messageId)
+        : undefined;
+      if (!userMessage) return;
+
+      setActiveMessage(sessionId, userMessage.id);
+      return streamReply({
+        content: userMessage.content,
+        think,
+        parentId: userMessage.id,
+        regenerate: true,
+      });
+    },
+    [sessionId, setActiveMessage, streamReply]
+  );
+
+  // Ask the backend to stop generating; it saves the partial reply and
+  // reports it through assistant_complete
   const stopGeneration = useCallback(() => {
+    if (streamingMessageIdRef.current && websocketService.isConnected) {
+      websocketService.send({
+        type: 'chat_cancel',
+        data: { messageId: streamingMessageIdRef.current },
+      });
+    }
     setIsStreaming(false);
     setStreamingMessage('');
     setIsGenerating(false);
+    setQueuePosition(null);
     streamingMessageIdRef.current = null;
-    // Note: WebSocket connection doesn't have a built-in stop mechanism
-    // You might want to implement this on the backend
   }, [setIsGenerating]);
 
   return {
     sendMessage,
+    editMessage,
+    regenerateMessage,
     stopGeneration,
     isStreaming,
     streamingMessage,
+    queuePosition,
   };
 };
@@ -21,9 +21,11 @@ import { ChatMessages } from '@/components/ChatMessages';
 import { ChatInput } from '@/components/ChatInput';
 import { Logo } from '@/components/Logo';
 import { ModelSelector } from '@/components/ModelSelector';
+import { ContextMeter } from '@/components/ContextMeter';
 import { useChatStore } from '@/store/chatStore';
 import { useAppStore } from '@/store/appStore';
 import { useChat } from '@/hooks/useChat';
+import { getActiveBranch } from '@/utils/messageTree';
 // Removed unused import: Select
 
 export const ChatPage: React.FC = () => {
@@ -40,12 +42,55 @@ export const ChatPage: React.FC = () => {
     setCurrentSession,
     loadSessions,
     getCurrentPersona,
+    selectBranch,
+    reasoningBySession,
+    contextUsage,
+    loadContextUsage,
+    setContextUsage,
   } = useChatStore();
   const { setBackgroundImage } = useAppStore();
-  const { sendMessage, stopGeneration, isStreaming, streamingMessage } =
-    useChat(currentSession?.id || '');
+  const {
+    sendMessage,
+    editMessage,
+    regenerateMessage,
+    stopGeneration,
+    isStreaming,
+    streamingMessage,
+    queuePosition,
+  } = useChat(currentSession?.id || '');
   const currentPersona = getCurrentPersona();
 
+  // Refresh the context meter when the session or its model changes
+  useEffect(() => {
+    if (currentSession?.id) {
+      loadContextUsage(currentSession.id);
+    } else {
+      setContextUsage(null);
+    }
+  }, [
+    currentSession?.id,
+    currentSession?.model,
+    currentSession?.activeMessageId,
+    loadContextUsage,
+    setContextUsage,
+  ]);
+
+  // Search results link to a message with ?message=<id>; show its branch
+  const focusMessageId =
+    new URLSearchParams(location.search).get('message') || undefined;
+  useEffect(() => {
+    if (!currentSession || !focusMessageId) return;
+    const { messages, activeMessageId } = currentSession;
+    if (
+      messages.some(msg => msg.id === focusMessageId) &&
+      !getActiveBranch(messages, activeMessageId).some(
+        msg => msg.id === focusMessageId
+      )
+    ) {
+      selectBranch(currentSession.id, focusMessageId);
+    }
+  }, [currentSession, focusMessageId, selectBranch]);
+
   // Load sessions on mount
   useEffect(() => {
     if (sessions.length === 0) {
@@ -137,10 +182,26 @@ export const ChatPage: React.FC = () => {
   const handleSendMessage = (
     message: string,
     images?: string[],
-    format?: string | Record<string, unknown>
+    format?: string | Record<string, unknown>,
+    think?: boolean
   ) => {
     if (!currentSession) return;
-    sendMessage(message, images, format);
+    sendMessage(message, images, format, think);
+  };
+
+  const handleRegenerate = (messageId: string) => {
+    if (!currentSession) return;
+    regenerateMessage(messageId, reasoningBySession[currentSession.id]);
+  };
+
+  const handleEditMessage = (messageId: string, content: string) => {
+    if (!currentSession) return;
+    editMessage(messageId, content, reasoningBySession[currentSession.id]);
+  };
+
+  const handleSelectBranch = (messageId: string) => {
+    if (!currentSession) return;
+    selectBranch(currentSession.id, messageId);
   };
 
   if (!currentSession) {
@@ -234,11 +295,24 @@ export const ChatPage: React.FC = () => {
       )}
 
       <div className='flex flex-col h-full relative z-10'>
+        {/* Chat header */}
+        <div className='flex items-center justify-between gap-4 px-4 py-2 border-b border-gray-100 dark:border-dark-200'>
+          <h1 className='text-sm font-medium text-gray-700 dark:text-dark-700 truncate'>
+            {currentSession.title}
+          </h1>
+          {contextUsage && <ContextMeter usage={contextUsage} />}
+        </div>
         <ChatMessages
           messages={currentSession.messages}
+          activeMessageId={currentSession.activeMessageId}
           streamingMessage={streamingMessage}
           isStreaming={isStreaming}
+          queuePosition={queuePosition}
           className='flex-1'
+          onRegenerate={handleRegenerate}
+          onEditMessage={handleEditMessage}
+          onSelectBranch={handleSelectBranch}
+          focusMessageId={focusMessageId}
         />
         <ChatInput
           onSendMessage={handleSendMessage}
@@ -0,0 +1,114 @@
+/*
+ * Libre WebUI
+ * Copyright (C) 2025 Kroonen AI, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at:
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import React, { useEffect, useState } from 'react';
+import { useParams } from 'react-router-dom';
+import { ChatMessage } from '@/components/ChatMessage';
+import { Logo } from '@/components/Logo';
+import { useAppStore } from '@/store/appStore';
+import { SharedSession } from '@/types';
+import { chatApi } from '@/utils/api';
+
+// Read-only view of a shared conversation; rendered without the app shell
+// and without requiring a login
+export const SharedChatPage: React.FC = () => {
+  const { token } = useParams<{ token: string }>();
+  const { theme } = useAppStore();
+  const [shared, setShared] = useState<SharedSession | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    document.documentElement.classList.toggle('dark', theme.mode === 'dark');
+  }, [theme.mode]);
+
+  useEffect(() => {
+    if (!token) return;
+
+    let cancelled = false;
+    chatApi
+      .getSharedSession(token)
+      .then(response => {
+        if (cancelled) return;
+        if (response.success && response.data) {
+          setShared(response.data);
+          document.title = `${response.data.title} - Libre WebUI`;
+        } else {
+          setError(response.error || 'This share link is not available');
+        }
+      })
+      .catch((err: { response?: { data?: { error?: string } } }) => {
+        if (!cancelled) {
+          setError(
+            err.response?.data?.error || 'This share link is not available'
+          );
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [token]);
+
+  return (
+    <div className='min-h-screen bg-white dark:bg-dark-50 text-gray-900 dark:text-dark-800'>
+      <header className='border-b border-gray-200 dark:border-dark-300'>
+        <div className='max-w-4xl mx-auto px-4 py-4 flex items-center justify-between gap-4'>
+          <div className='min-w-0'>
+            <h1 className='text-lg font-semibold truncate'>
+              {shared?.title || 'Shared chat'}
+            </h1>
+            {shared && (
+              <p className='text-xs text-gray-500 dark:text-dark-500'>
+                {shared.model} • shared{' '}
+                {new Date(shared.sharedAt).toLocaleDateString()}
+                {shared.expiresAt &&
+                  ` • available until ${new Date(shared.expiresAt).toLocaleDateString()}`}
+              </p>
+            )}
+          </div>
+          {/* Full page load: the app itself lives outside this page's router */}
+          <a
+            href='/'
+            className='flex items-center gap-2 shrink-0 text-sm text-gray-600 dark:text-dark-600 hover:text-gray-900 dark:hover:text-dark-800'
+          >
+            <Logo size='sm' />
+            <span className='hidden sm:inline'>Libre WebUI</span>
+          </a>
+        </div>
+      </header>
+
+      <main className='max-w-4xl mx-auto px-4 py-6'>
+        {error ? (
+          <p className='text-center text-gray-600 dark:text-dark-500 py-16'>
+            {error}
+          </p>
+        ) : !shared ? (
+          <div className='flex justify-center py-16'>
+            <div className='w-8 h-8 border-4 border-gray-200 border-t-blue-500 rounded-full animate-spin'></div>
+          </div>
+        ) : (
+          <div className='space-y-2'>
+            {shared.messages.map(message => (
+              <ChatMessage key={message.id} message={message} readOnly />
+            ))}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default SharedChatPage;
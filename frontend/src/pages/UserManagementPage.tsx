@@ -17,6 +17,7 @@
 
 import React from 'react';
 import { UserManager } from '@/components/UserManager';
+import { GenerationQueue } from '@/components/GenerationQueue';
 
 export const UserManagementPage: React.FC = () => {
   return (
@@ -33,6 +34,10 @@ export const UserManagementPage: React.FC = () => {
         </div>
 
         <UserManager />
+
+        <div className='mt-8'>
+          <GenerationQueue />
+        </div>
       </div>
     </div>
   );
@@ -33,6 +33,8 @@ interface AppState {
   setSidebarCompact: (compact: boolean) => void;
   toggleSidebar: () => void;
   toggleSidebarCompact: () => void;
+  expandedFolders: string[];
+  toggleFolderExpanded: (folderId: string) => void;
 
   // User preferences
   preferences: UserPreferences;
@@ -87,6 +89,13 @@ export const useAppStore = create<AppState>()(
       toggleSidebar: () => set(state => ({ sidebarOpen: !state.sidebarOpen })),
       toggleSidebarCompact: () =>
         set(state => ({ sidebarCompact: !state.sidebarCompact })),
+      expandedFolders: [],
+      toggleFolderExpanded: folderId =>
+        set(state => ({
+          expandedFolders: state.expandedFolders.includes(folderId)
+            ? state.expandedFolders.filter(id => id !== folderId)
+            : [...state.expandedFolders, folderId],
+        })),
 
       // User preferences
       preferences: {
@@ -102,9 +111,16 @@ export const useAppStore = create<AppState>()(
         embeddingSettings: {
           enabled: false,
           model: 'nomic-embed-text',
+          chunkingStrategy: 'auto',
+          chunkSizeUnit: 'characters',
           chunkSize: 1000,
           chunkOverlap: 200,
           similarityThreshold: 0.3,
+          keywordWeight: 1,
+          semanticWeight: 1,
+          rerankEnabled: false,
+          rerankModel: '',
+          rerankCandidates: 20,
         },
         showUsername: false, // Default to showing "you" instead of username
         backgroundSettings: {
@@ -199,6 +215,7 @@ export const useAppStore = create<AppState>()(
         theme: state.theme,
         sidebarOpen: state.sidebarOpen,
         sidebarCompact: state.sidebarCompact,
+        expandedFolders: state.expandedFolders,
         preferences: state.preferences,
         hasSeenSettingsNotification: state.hasSeenSettingsNotification,
         backgroundImage: state.backgroundImage,
@@ -17,15 +17,20 @@
 
 import { create } from 'zustand';
 import {
+  ChatFolder,
   ChatSession,
   ChatMessage,
+  ContextUsage,
   OllamaModel,
   GenerationStatistics,
+  MessageCitation,
   Persona,
+  SessionOrganization,
 } from '@/types';
 import { chatApi, ollamaApi, preferencesApi, personaApi } from '@/utils/api';
 import { pluginApi } from '@/utils/api';
 import { generateId } from '@/utils';
+import { findLatestLeaf, getActiveBranch } from '@/utils/messageTree';
 import toast from 'react-hot-toast';
 
 // Helper function to extract error message from unknown error
@@ -57,11 +62,43 @@ interface ChatState {
   clearAllSessions: () => Promise<void>;
   clearAllState: () => void; // Clear all store state (for logout)
   updateSessionTitle: (sessionId: string, title: string) => Promise<void>;
+  // Merge changes the server made on its own, such as a generated title
+  applySessionUpdate: (
+    sessionId: string,
+    updates: Partial<ChatSession>
+  ) => void;
+  organizeSession: (
+    sessionId: string,
+    updates: Omit<SessionOrganization, 'folderId'> & {
+      folderId?: string | null;
+    }
+  ) => Promise<void>;
+
+  // Folders
+  folders: ChatFolder[];
+  loadFolders: () => Promise<void>;
+  createFolder: (
+    name: string,
+    parentId?: string
+  ) => Promise<ChatFolder | undefined>;
+  updateFolder: (
+    folderId: string,
+    updates: { name?: string; parentId?: string | null }
+  ) => Promise<void>;
+  deleteFolder: (folderId: string) => Promise<void>;
 
   // Messages
   addMessage: (
     sessionId: string,
-    message: Omit<ChatMessage, 'id' | 'timestamp'> & { id?: string }
+    message: Omit<ChatMessage, 'id' | 'timestamp' | 'parentId'> & {
+      id?: string;
+      parentId?: string | null;
+    }
+  ) => void;
+  insertMessage: (
+    sessionId: string,
+    message: ChatMessage,
+    beforeMessageId?: string
   ) => void;
   updateMessage: (
     sessionId: string,
@@ -72,9 +109,29 @@ interface ChatState {
     sessionId: string,
     messageId: string,
     content: string,
-    statistics?: GenerationStatistics
+    statistics?: GenerationStatistics,
+    thinking?: string,
+    citations?: MessageCitation[]
+  ) => void;
+  updateMessageThinking: (
+    sessionId: string,
+    messageId: string,
+    thinking: string
   ) => void;
 
+  // Branches
+  setActiveMessage: (sessionId: string, messageId: string) => void;
+  selectBranch: (sessionId: string, messageId: string) => Promise<void>;
+
+  // Context window usage of the current session
+  contextUsage: ContextUsage | null;
+  setContextUsage: (usage: ContextUsage | null) => void;
+  loadContextUsage: (sessionId: string) => Promise<void>;
+
+  // Reasoning toggle for thinking models, kept per session
+  reasoningBySession: Record<string, boolean>;
+  setSessionReasoning: (sessionId: string, enabled: boolean) => void;
+
   // Models
   models: OllamaModel[];
   loadModels: () => Promise<void>;
@@ -102,6 +159,7 @@ export const useChatStore = create<ChatState>((set, get) => ({
   // Sessions
   sessions: [],
   currentSession: null,
+  folders: [],
   setCurrentSession: session => {
     set({ currentSession: session });
   },
@@ -242,9 +300,12 @@ export const useChatStore = create<ChatState>((set, get) => ({
     set({
       sessions: [],
       currentSession: null,
+      folders: [],
       models: [],
       selectedModel: '',
       systemMessage: '',
+      reasoningBySession: {},
+      contextUsage: null,
       loading: false,
       error: null,
     });
@@ -272,10 +333,105 @@ export const useChatStore = create<ChatState>((set, get) => ({
     }
   },
 
+  organizeSession: async (sessionId, updates) => {
+    try {
+      const response = await chatApi.organizeSession(sessionId, updates);
+      if (response.success && response.data) {
+        const { folderId, tags, pinned, archived } = response.data;
+        get().applySessionUpdate(sessionId, {
+          folderId,
+          tags,
+          pinned,
+          archived,
+        });
+      }
+    } catch (error: unknown) {
+      toast.error(getErrorMessage(error, 'Failed to update chat'));
+    }
+  },
+
+  loadFolders: async () => {
+    try {
+      const response = await chatApi.getFolders();
+      if (response.success && response.data) {
+        set({ folders: response.data });
+      }
+    } catch (error: unknown) {
+      console.error('Failed to load folders:', error);
+    }
+  },
+
+  createFolder: async (name: string, parentId?: string) => {
+    try {
+      const response = await chatApi.createFolder(name, parentId);
+      if (response.success && response.data) {
+        const folder = response.data;
+        set(state => ({ folders: [...state.folders, folder] }));
+        return folder;
+      }
+    } catch (error: unknown) {
+      toast.error(getErrorMessage(error, 'Failed to create folder'));
+    }
+    return undefined;
+  },
+
+  updateFolder: async (folderId, updates) => {
+    try {
+      const response = await chatApi.updateFolder(folderId, updates);
+      if (response.success && response.data) {
+        const folder = response.data;
+        set(state => ({
+          folders: state.folders.map(f => (f.id === folderId ? folder : f)),
+        }));
+      }
+    } catch (error: unknown) {
+      toast.error(getErrorMessage(error, 'Failed to update folder'));
+    }
+  },
+
+  deleteFolder: async (folderId: string) => {
+    const folder = get().folders.find(f => f.id === folderId);
+    try {
+      const response = await chatApi.deleteFolder(folderId);
+      if (response.success) {
+        // The server moved the folder's contents up one level
+        set(state => ({
+          folders: state.folders
+            .filter(f => f.id !== folderId)
+            .map(f =>
+              f.parentId === folderId ? { ...f, parentId: folder?.parentId } : f
+            ),
+          sessions: state.sessions.map(s =>
+            s.folderId === folderId ? { ...s, folderId: folder?.parentId } : s
+          ),
+        }));
+      }
+    } catch (error: unknown) {
+      toast.error(getErrorMessage(error, 'Failed to delete folder'));
+    }
+  },
+
+  applySessionUpdate: (sessionId: string, updates: Partial<ChatSession>) => {
+    set(state => ({
+      sessions: state.sessions.map(s =>
+        s.id === sessionId ? { ...s, ...updates } : s
+      ),
+      currentSession:
+        state.currentSession?.id === sessionId
+          ? { ...state.currentSession, ...updates }
+          : state.currentSession,
+    }));
+  },
+
   // Messages
+  // Without a parentId the message continues the active branch; null
+  // starts a new root
   addMessage: (
     sessionId: string,
-    message: Omit<ChatMessage, 'id' | 'timestamp'> & { id?: string }
+    message: Omit<ChatMessage, 'id' | 'timestamp' | 'parentId'> & {
+      id?: string;
+      parentId?: string | null;
+    }
   ) => {
     const state = get();
     // Block if currentSession is not valid
@@ -301,29 +457,37 @@ export const useChatStore = create<ChatState>((set, get) => ({
       );
       return;
     }
-    const newMessage: ChatMessage = {
-      ...message,
-      id: message.id || generateId(),
-      timestamp: Date.now(),
-    };
+    const messageId = message.id || generateId();
 
     set(state => {
       // Prevent adding duplicate messages
       const session = state.sessions.find(s => s.id === sessionId);
-      if (session) {
-        const existingMessage = session.messages.find(
-          m => m.id === newMessage.id
-        );
-        if (existingMessage) {
-          return state;
-        }
+      if (!session || session.messages.some(m => m.id === messageId)) {
+        return state;
       }
 
+      const branch = getActiveBranch(session.messages, session.activeMessageId);
+      const parentId =
+        message.parentId === undefined
+          ? branch[branch.length - 1]?.id
+          : message.parentId || undefined;
+
+      const newMessage: ChatMessage = {
+        ...message,
+        id: messageId,
+        timestamp: Date.now(),
+        parentId,
+        siblingIndex: session.messages.filter(
+          m => m.parentId === parentId && m.role !== 'system'
+        ).length,
+      };
+
       const updatedSessions = state.sessions.map(session => {
         if (session.id === sessionId) {
           return {
             ...session,
             messages: [...session.messages, newMessage],
+            activeMessageId: messageId,
             updatedAt: Date.now(),
           };
         }
@@ -345,6 +509,55 @@ export const useChatStore = create<ChatState>((set, get) => ({
     });
   },
 
+  // Insert a server-created message, e.g. tool calls made while the
+  // assistant placeholder is still streaming
+  insertMessage: (
+    sessionId: string,
+    message: ChatMessage,
+    beforeMessageId?: string
+  ) => {
+    set(state => {
+      const targetSession = state.sessions.find(s => s.id === sessionId);
+      if (
+        !targetSession ||
+        targetSession.messages.some(m => m.id === message.id)
+      ) {
+        return state;
+      }
+
+      const updatedSessions = state.sessions.map(session => {
+        if (session.id !== sessionId) {
+          return session;
+        }
+
+        const messages = [...session.messages];
+        const beforeIndex = beforeMessageId
+          ? messages.findIndex(m => m.id === beforeMessageId)
+          : -1;
+        if (beforeIndex >= 0) {
+          // The message it precedes now continues from it, as on the server
+          messages.splice(beforeIndex, 1, message, {
+            ...messages[beforeIndex],
+            parentId: message.id,
+          });
+        } else {
+          messages.push(message);
+        }
+
+        return { ...session, messages, updatedAt: Date.now() };
+      });
+
+      return {
+        sessions: updatedSessions,
+        currentSession:
+          state.currentSession?.id === sessionId
+            ? updatedSessions.find(s => s.id === sessionId) ||
+              state.currentSession
+            : state.currentSession,
+      };
+    });
+  },
+
   updateMessage: (sessionId: string, messageId: string, content: string) => {
     set(state => {
       // Only update if this is for the current session
@@ -402,7 +615,9 @@ export const useChatStore = create<ChatState>((set, get) => ({
     sessionId: string,
     messageId: string,
     content: string,
-    statistics?: GenerationStatistics
+    statistics?: GenerationStatistics,
+    thinking?: string,
+    citations?: MessageCitation[]
   ) => {
     set(state => {
       // Only update if this is for the current session
@@ -414,7 +629,13 @@ export const useChatStore = create<ChatState>((set, get) => ({
         if (session.id === sessionId) {
           const updatedMessages = session.messages.map(msg => {
             if (msg.id === messageId) {
-              return { ...msg, content, statistics };
+              return {
+                ...msg,
+                content,
+                statistics,
+                thinking: thinking ?? msg.thinking,
+                citations,
+              };
             }
             return msg;
           });
@@ -441,6 +662,99 @@ export const useChatStore = create<ChatState>((set, get) => ({
     });
   },
 
+  updateMessageThinking: (
+    sessionId: string,
+    messageId: string,
+    thinking: string
+  ) => {
+    set(state => {
+      if (state.currentSession?.id !== sessionId) {
+        return state;
+      }
+
+      const updatedSessions = state.sessions.map(session => {
+        if (session.id === sessionId) {
+          return {
+            ...session,
+            messages: session.messages.map(msg =>
+              msg.id === messageId ? { ...msg, thinking } : msg
+            ),
+          };
+        }
+        return session;
+      });
+
+      return {
+        sessions: updatedSessions,
+        currentSession:
+          updatedSessions.find(s => s.id === sessionId) || state.currentSession,
+      };
+    });
+  },
+
+  setActiveMessage: (sessionId: string, messageId: string) => {
+    set(state => {
+      const updatedSessions = state.sessions.map(session =>
+        session.id === sessionId
+          ? { ...session, activeMessageId: messageId }
+          : session
+      );
+
+      return {
+        sessions: updatedSessions,
+        currentSession:
+          state.currentSession?.id === sessionId
+            ? updatedSessions.find(s => s.id === sessionId) ||
+              state.currentSession
+            : state.currentSession,
+      };
+    });
+  },
+
+  selectBranch: async (sessionId: string, messageId: string) => {
+    const session = get().sessions.find(s => s.id === sessionId);
+    if (!session) return;
+
+    // Switch locally right away, then persist the choice
+    get().setActiveMessage(
+      sessionId,
+      findLatestLeaf(session.messages, messageId)
+    );
+
+    try {
+      await chatApi.selectBranch(sessionId, messageId);
+    } catch (error: unknown) {
+      console.error('Store: selectBranch error:', error);
+      toast.error(getErrorMessage(error, 'Failed to switch branch'));
+    }
+  },
+
+  contextUsage: null,
+  setContextUsage: usage => set({ contextUsage: usage }),
+  loadContextUsage: async (sessionId: string) => {
+    try {
+      const response = await chatApi.getContextUsage(sessionId);
+      // Ignore answers for a session that is no longer open
+      if (get().currentSession?.id !== sessionId) return;
+      set({
+        contextUsage: response.success && response.data ? response.data : null,
+      });
+    } catch (error: unknown) {
+      console.error('Store: loadContextUsage error:', error);
+      set({ contextUsage: null });
+    }
+  },
+
+  reasoningBySession: {},
+  setSessionReasoning: (sessionId: string, enabled: boolean) => {
+    set(state => ({
+      reasoningBySession: {
+        ...state.reasoningBySession,
+        [sessionId]: enabled,
+      },
+    }));
+  },
+
   // Models
   models: [],
   loadModels: async () => {
@@ -25,6 +25,8 @@ export interface GenerationStatistics {
   tokens_per_second?: number; // Calculated tokens/second
   created_at?: string; // Timestamp from Ollama
   model?: string; // Model used for generation
+  thinking_duration?: number; // Time spent reasoning in milliseconds
+  done_reason?: string; // Why generation stopped, e.g. 'stop', 'length' or 'cancelled'
 }
 
 export interface Artifact {
@@ -46,15 +48,39 @@ export interface Artifact {
   updatedAt: number;
 }
 
+// Function call requested by the model during generation
+export interface ToolCall {
+  function: {
+    name: string;
+    arguments: Record<string, unknown>;
+  };
+}
+
 export interface ChatMessage {
   id: string;
-  role: 'user' | 'assistant' | 'system';
+  role: 'user' | 'assistant' | 'system' | 'tool';
   content: string;
   timestamp: number;
   model?: string;
   images?: string[]; // Base64 encoded images for multimodal support
   statistics?: GenerationStatistics; // Generation statistics from Ollama
   artifacts?: Artifact[]; // Artifacts associated with this message
+  toolCalls?: ToolCall[]; // Tools the assistant asked to run
+  toolName?: string; // Tool that produced a 'tool' role message
+  thinking?: string; // Reasoning output from thinking models
+  parentId?: string; // Previous message in this branch; unset for roots
+  siblingIndex?: number; // Position among messages sharing the same parent
+  citations?: MessageCitation[]; // Document passages given with the prompt
+}
+
+// A document passage placed in the prompt, which the reply cites as [index]
+export interface MessageCitation {
+  index: number;
+  chunkId: string;
+  documentId: string;
+  filename: string;
+  pageNumber?: number;
+  sectionPath?: string[];
 }
 
 export interface ChatSession {
@@ -65,6 +91,138 @@ export interface ChatSession {
   createdAt: number;
   updatedAt: number;
   personaId?: string;
+  activeMessageId?: string; // Last message of the branch being shown
+  summary?: ConversationSummary;
+  folderId?: string; // Sidebar folder; unset for the top level
+  tags?: string[];
+  pinned?: boolean;
+  archived?: boolean; // Hidden from the sidebar unless archived chats are shown
+}
+
+// Sidebar folder for sessions; folders nest through parentId
+export interface ChatFolder {
+  id: string;
+  name: string;
+  parentId?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Sidebar organization fields that can be changed without touching messages
+export type SessionOrganization = Pick<
+  ChatSession,
+  'folderId' | 'tags' | 'pinned' | 'archived'
+>;
+
+export type SessionExportFormat = 'md' | 'json' | 'html';
+
+// Link that shows a read-only snapshot of a session without logging in
+export interface SessionShare {
+  token: string;
+  sessionId: string;
+  title: string;
+  createdAt: number;
+  expiresAt?: number;
+}
+
+// What a share link shows
+export interface SharedSession {
+  title: string;
+  model: string;
+  messages: ChatMessage[];
+  sharedAt: number;
+  expiresAt?: number;
+}
+
+// Where imported conversations came from
+export type ChatImportSource =
+  | 'libre-webui'
+  | 'chatgpt'
+  | 'claude'
+  | 'open-webui';
+
+export interface ChatImportPreview {
+  sessionId?: string; // Set once the session has been stored
+  title: string;
+  model: string;
+  messageCount: number;
+  branchCount: number; // Leaf messages; 1 for a linear conversation
+  createdAt: number;
+}
+
+export interface ChatImportResult {
+  source: ChatImportSource;
+  dryRun: boolean;
+  imported: number; // Sessions stored; 0 on a dry run
+  skipped: number; // Conversations without any messages to import
+  sessions: ChatImportPreview[];
+}
+
+export type GenerationJobStatus = 'pending' | 'queued' | 'running' | 'done';
+
+// A generation as shown in the admin queue view
+export interface GenerationJobInfo {
+  messageId: string;
+  sessionId: string;
+  userId: string;
+  username?: string;
+  status: GenerationJobStatus;
+  priority: number;
+  createdAt: number;
+  queuedAt?: number;
+  startedAt?: number;
+  position?: number;
+}
+
+export interface GenerationQueueStatus {
+  maxConcurrent: number;
+  maxPerUser: number;
+  active: GenerationJobInfo[];
+  waiting: GenerationJobInfo[];
+}
+
+// A key for the OpenAI-compatible API; the secret itself is never listed
+export interface ApiKey {
+  id: string;
+  name: string;
+  prefix: string; // Start of the key, to tell keys apart
+  createdAt: number;
+  lastUsedAt?: number;
+}
+
+// Returned once, when the key is created
+export interface ApiKeyCreated extends ApiKey {
+  key: string;
+}
+
+// A message matching a full-text search across conversations
+export interface ChatSearchResult {
+  sessionId: string;
+  sessionTitle: string;
+  messageId: string;
+  role: ChatMessage['role'];
+  snippet: string;
+  highlights: [number, number][]; // Start and end offsets within the snippet
+  timestamp: number;
+}
+
+// Running summary of turns that no longer fit in the context window
+export interface ConversationSummary {
+  content: string;
+  coveredMessageId?: string; // Last message folded into the summary
+  edited?: boolean; // Set when the user rewrote the summary by hand
+  updatedAt: number;
+}
+
+// Estimated share of the model's context window taken by a prompt
+export interface ContextUsage {
+  usedTokens: number;
+  promptBudget: number; // Tokens available to the prompt
+  contextWindow: number; // Includes room reserved for the response
+  includedMessages: number;
+  totalMessages: number;
+  summarizedMessages: number; // Replaced by the running summary
+  truncated: boolean; // Older history did not fit
 }
 
 export interface OllamaModel {
@@ -90,6 +248,18 @@ export interface OllamaModel {
   isPersona?: boolean;
   personaName?: string;
   personaDescription?: string;
+  // Ollama hosts serving the model, when several are configured
+  hosts?: string[];
+}
+
+// One Ollama server in the pool, as of its last health check
+export interface OllamaHostStatus {
+  url: string;
+  healthy: boolean;
+  models: number;
+  running: number;
+  active: number; // Requests in flight from this server
+  error?: string;
 }
 
 export interface GenerationOptions {
@@ -143,12 +313,22 @@ export interface WebSocketMessage {
     | 'assistant_complete'
     | 'error';
   data: unknown;
+  // Set on messages belonging to a generation, used to resume it
+  stream?: { messageId: string; offset: number };
 }
 
 export interface Theme {
   mode: 'light' | 'dark';
 }
 
+// How documents are split into chunks; 'auto' picks by file type
+export type ChunkingStrategy =
+  | 'auto'
+  | 'paragraph'
+  | 'heading'
+  | 'page'
+  | 'code';
+
 export interface UserPreferences {
   theme: Theme;
   defaultModel: string;
@@ -157,11 +337,19 @@ export interface UserPreferences {
   embeddingSettings: {
     enabled: boolean;
     model: string;
+    chunkingStrategy: ChunkingStrategy;
+    chunkSizeUnit: 'characters' | 'tokens';
     chunkSize: number;
     chunkOverlap: number;
     similarityThreshold: number;
+    keywordWeight: number;
+    semanticWeight: number;
+    rerankEnabled: boolean;
+    rerankModel: string; // Empty uses the default chat model
+    rerankCandidates: number;
   };
   showUsername: boolean; // If true, show username in chat; if false, show "you"
+  titleModel?: string; // Names new chats; empty uses the chat's own model
   backgroundSettings?: {
     enabled: boolean;
     imageUrl: string;
@@ -226,6 +414,7 @@ export interface RunningModel {
   details?: Record<string, unknown>;
   expires_at?: string;
   size_vram?: number;
+  host?: string; // Set when several Ollama hosts are configured
 }
 
 // Plugin system types
@@ -235,13 +424,18 @@ export interface PluginAuthConfig {
   key_env: string; // Environment variable name
 }
 
+// Wire protocol spoken by a plugin endpoint
+export type PluginProtocol = 'openai' | 'anthropic' | 'gemini';
+
 export interface Plugin {
   id: string;
   name: string;
   type: 'completion' | 'embedding' | 'chat';
+  protocol?: PluginProtocol;
   endpoint: string;
   auth: PluginAuthConfig;
   model_map: string[];
+  context_lengths?: Record<string, number>; // Context window per model
   active?: boolean;
   created_at?: number;
   updated_at?: number;
@@ -254,11 +448,53 @@ export interface PluginStatus {
   last_used?: number;
 }
 
+// MCP (Model Context Protocol) tool server types
+export type McpTransport = 'stdio' | 'http';
+
+export interface McpToolInfo {
+  name: string;
+  description?: string;
+  inputSchema?: Record<string, unknown>;
+}
+
+export interface McpServer {
+  id: string;
+  user_id: string;
+  name: string;
+  transport: McpTransport;
+  command?: string; // stdio: executable to spawn
+  args?: string[];
+  env?: Record<string, string>; // stdio: extra environment variables
+  url?: string; // http: streamable HTTP endpoint
+  headers?: Record<string, string>; // http: extra request headers
+  enabled: boolean;
+  disabled_tools: string[];
+  tools?: McpToolInfo[]; // Tools reported by the last successful connection
+  created_at: number;
+  updated_at: number;
+}
+
+export type McpServerInput = Pick<
+  McpServer,
+  'name' | 'transport' | 'command' | 'args' | 'env' | 'url' | 'headers'
+>;
+
 // Document and RAG types
+export type DocumentFileType =
+  | 'pdf'
+  | 'txt'
+  | 'md'
+  | 'html'
+  | 'docx'
+  | 'csv'
+  | 'xlsx'
+  | 'epub'
+  | 'code';
+
 export interface DocumentSummary {
   id: string;
   filename: string;
-  fileType: 'pdf' | 'txt';
+  fileType: DocumentFileType;
   size: number;
   sessionId?: string;
   uploadedAt: number;
@@ -275,10 +511,23 @@ export interface DocumentChunk {
   chunkIndex: number;
   startChar: number;
   endChar: number;
+  pageNumber?: number;
+  sectionPath?: string[]; // Headings the chunk sits under, outermost first
   filename?: string; // Added for context in search results
   embedding?: number[]; // Vector embedding for semantic search
 }
 
+// Scores behind a search result's place, for tuning the retrieval settings
+export interface DocumentSearchResult extends DocumentChunk {
+  filename: string;
+  scores: {
+    keyword?: number; // BM25
+    semantic?: number; // Cosine similarity
+    fusion: number; // Weighted reciprocal rank fusion
+    rerank?: number; // 0 to 1, from the rerank model
+  };
+}
+
 // User and Authentication types
 export interface User {
   id: string;
@@ -18,9 +18,21 @@
 import axios from 'axios';
 import {
   ApiResponse,
+  ApiKey,
+  ApiKeyCreated,
   ChatSession,
   ChatMessage,
+  ChatFolder,
+  ChatImportResult,
+  ChatSearchResult,
+  SessionExportFormat,
+  SessionOrganization,
+  SessionShare,
+  SharedSession,
+  ContextUsage,
+  ConversationSummary,
   OllamaModel,
+  OllamaHostStatus,
   UserPreferences,
   ChatGenerationOptions,
   ModelCreatePayload,
@@ -29,12 +41,17 @@ import {
   RunningModel,
   Plugin,
   PluginStatus,
+  McpServer,
+  McpServerInput,
+  McpToolInfo,
   DocumentSummary,
   DocumentDetail,
   DocumentChunk,
+  DocumentSearchResult,
   User,
   UserCreateRequest,
   UserUpdateRequest,
+  GenerationQueueStatus,
   LoginRequest,
   LoginResponse,
   SystemInfo,
@@ -277,6 +294,219 @@ export const chatApi = {
       .then(res => res.data);
   },
 
+  // Estimated context window usage for the session's model
+  getContextUsage: (sessionId: string): Promise<ApiResponse<ContextUsage>> => {
+    if (isDemoMode()) {
+      return createDemoResponse<ContextUsage>({} as ContextUsage, false);
+    }
+    return api.get(`/chat/sessions/${sessionId}/context`).then(res => res.data);
+  },
+
+  // Full-text search over the content of every session
+  searchMessages: (
+    query: string,
+    limit?: number
+  ): Promise<ApiResponse<ChatSearchResult[]>> => {
+    if (isDemoMode()) {
+      return createDemoResponse<ChatSearchResult[]>([]);
+    }
+    return api
+      .get('/chat/search', { params: { q: query, limit } })
+      .then(res => res.data);
+  },
+
+  // Folder, tags, pinned and archived; a null folderId moves to the top level
+  organizeSession: (
+    sessionId: string,
+    updates: Omit<SessionOrganization, 'folderId'> & {
+      folderId?: string | null;
+    }
+  ): Promise<ApiResponse<ChatSession>> => {
+    if (isDemoMode()) {
+      return createDemoResponse<ChatSession>({} as ChatSession, false);
+    }
+    return api
+      .patch(`/chat/sessions/${sessionId}/organization`, updates)
+      .then(res => res.data);
+  },
+
+  getFolders: (): Promise<ApiResponse<ChatFolder[]>> => {
+    if (isDemoMode()) {
+      return createDemoResponse<ChatFolder[]>([]);
+    }
+    return api.get('/chat/folders').then(res => res.data);
+  },
+
+  createFolder: (
+    name: string,
+    parentId?: string
+  ): Promise<ApiResponse<ChatFolder>> => {
+    if (isDemoMode()) {
+      return createDemoResponse<ChatFolder>({} as ChatFolder, false);
+    }
+    return api.post('/chat/folders', { name, parentId }).then(res => res.data);
+  },
+
+  updateFolder: (
+    folderId: string,
+    updates: { name?: string; parentId?: string | null }
+  ): Promise<ApiResponse<ChatFolder>> => {
+    if (isDemoMode()) {
+      return createDemoResponse<ChatFolder>({} as ChatFolder, false);
+    }
+    return api.put(`/chat/folders/${folderId}`, updates).then(res => res.data);
+  },
+
+  deleteFolder: (folderId: string): Promise<ApiResponse> => {
+    if (isDemoMode()) {
+      return createDemoResponse(null);
+    }
+    return api.delete(`/chat/folders/${folderId}`).then(res => res.data);
+  },
+
+  exportSession: (
+    sessionId: string,
+    format: SessionExportFormat
+  ): Promise<Blob> => {
+    if (isDemoMode()) {
+      return Promise.resolve(new Blob([''], { type: 'text/plain' }));
+    }
+    return api
+      .get(`/chat/sessions/${sessionId}/export`, {
+        params: { format },
+        responseType: 'blob',
+      })
+      .then(res => res.data);
+  },
+
+  // Zip archive with one file per session
+  exportAllSessions: (format: SessionExportFormat): Promise<Blob> => {
+    if (isDemoMode()) {
+      return Promise.resolve(new Blob([''], { type: 'application/zip' }));
+    }
+    return api
+      .get('/chat/export', { params: { format }, responseType: 'blob' })
+      .then(res => res.data);
+  },
+
+  // Accepts Libre WebUI, ChatGPT, Claude.ai and Open WebUI exports
+  importSessions: (
+    file: File,
+    options: { dryRun?: boolean; flattenBranches?: boolean } = {}
+  ): Promise<ApiResponse<ChatImportResult>> => {
+    if (isDemoMode()) {
+      return createDemoResponse<ChatImportResult>(
+        {} as ChatImportResult,
+        false
+      );
+    }
+    const formData = new FormData();
+    formData.append('file', file);
+    return api
+      .post('/chat/import', formData, {
+        params: {
+          dryRun: options.dryRun || undefined,
+          branches: options.flattenBranches ? 'flatten' : undefined,
+        },
+      })
+      .then(res => res.data);
+  },
+
+  getShares: (sessionId: string): Promise<ApiResponse<SessionShare[]>> => {
+    if (isDemoMode()) {
+      return createDemoResponse<SessionShare[]>([]);
+    }
+    return api.get(`/chat/sessions/${sessionId}/share`).then(res => res.data);
+  },
+
+  // Read-only link to the branch currently shown
+  createShare: (
+    sessionId: string,
+    expiresInDays?: number
+  ): Promise<ApiResponse<SessionShare>> => {
+    if (isDemoMode()) {
+      return createDemoResponse<SessionShare>({} as SessionShare, false);
+    }
+    return api
+      .post(`/chat/sessions/${sessionId}/share`, { expiresInDays })
+      .then(res => res.data);
+  },
+
+  revokeShare: (sessionId: string, token: string): Promise<ApiResponse> => {
+    if (isDemoMode()) {
+      return createDemoResponse(null);
+    }
+    return api
+      .delete(`/chat/sessions/${sessionId}/share/${token}`)
+      .then(res => res.data);
+  },
+
+  // Public; works without being logged in
+  getSharedSession: (token: string): Promise<ApiResponse<SharedSession>> => {
+    if (isDemoMode()) {
+      return createDemoResponse<SharedSession>({} as SharedSession, false);
+    }
+    return api.get(`/shares/${token}`).then(res => res.data);
+  },
+
+  // Running summary of turns that no longer fit the context window
+  getSummary: (
+    sessionId: string
+  ): Promise<ApiResponse<ConversationSummary | null>> => {
+    if (isDemoMode()) {
+      return createDemoResponse<ConversationSummary | null>(null);
+    }
+    return api.get(`/chat/sessions/${sessionId}/summary`).then(res => res.data);
+  },
+
+  updateSummary: (
+    sessionId: string,
+    content: string
+  ): Promise<ApiResponse<ConversationSummary>> => {
+    if (isDemoMode()) {
+      return createDemoResponse<ConversationSummary>(
+        {} as ConversationSummary,
+        false
+      );
+    }
+    return api
+      .put(`/chat/sessions/${sessionId}/summary`, { content })
+      .then(res => res.data);
+  },
+
+  deleteSummary: (sessionId: string): Promise<ApiResponse> => {
+    if (isDemoMode()) {
+      return createDemoResponse(null, false);
+    }
+    return api
+      .delete(`/chat/sessions/${sessionId}/summary`)
+      .then(res => res.data);
+  },
+
+  regenerateSummary: (
+    sessionId: string
+  ): Promise<ApiResponse<ConversationSummary | null>> => {
+    if (isDemoMode()) {
+      return createDemoResponse<ConversationSummary | null>(null, false);
+    }
+    return api
+      .post(`/chat/sessions/${sessionId}/summary/regenerate`)
+      .then(res => res.data);
+  },
+
+  // Switch to the conversation branch containing a message
+  selectBranch: (
+    sessionId: string,
+    messageId: string
+  ): Promise<ApiResponse<ChatSession>> => {
+    if (isDemoMode()) {
+      return createDemoResponse<ChatSession>({} as ChatSession, false);
+    }
+    return api
+      .post(`/chat/sessions/${sessionId}/messages/${messageId}/select`)
+      .then(res => res.data);
+  },
+
   // Chat generation using new Ollama chat API
   generateChatResponse: (
     sessionId: string,
@@ -394,7 +624,9 @@ export const chatApi = {
 
 export const ollamaApi = {
   // Health check
-  checkHealth: (): Promise<ApiResponse<{ status: string }>> => {
+  checkHealth: (): Promise<
+    ApiResponse<{ status: string; hosts?: OllamaHostStatus[] }>
+  > => {
     if (isDemoMode()) {
       return createDemoResponse({ status: 'offline' }, false);
     }
@@ -771,6 +1003,70 @@ export const pluginApi = {
   },
 };
 
+export const mcpApi = {
+  getServers: (): Promise<ApiResponse<McpServer[]>> => {
+    if (isDemoMode()) {
+      return createDemoResponse<McpServer[]>([]);
+    }
+    return api.get('/mcp').then(res => res.data);
+  },
+
+  addServer: (input: McpServerInput): Promise<ApiResponse<McpServer>> => {
+    if (isDemoMode()) {
+      return createDemoResponse<McpServer>({} as McpServer, false);
+    }
+    return api.post('/mcp', input).then(res => res.data);
+  },
+
+  testServer: (id: string): Promise<ApiResponse<McpToolInfo[]>> => {
+    if (isDemoMode()) {
+      return createDemoResponse<McpToolInfo[]>([], false);
+    }
+    return api.post(`/mcp/${id}/test`).then(res => res.data);
+  },
+
+  updateServer: (
+    id: string,
+    updates: { enabled?: boolean; disabled_tools?: string[] }
+  ): Promise<ApiResponse<McpServer>> => {
+    if (isDemoMode()) {
+      return createDemoResponse<McpServer>({} as McpServer, false);
+    }
+    return api.patch(`/mcp/${id}`, updates).then(res => res.data);
+  },
+
+  deleteServer: (id: string): Promise<ApiResponse<boolean>> => {
+    if (isDemoMode()) {
+      return createDemoResponse<boolean>(false, false);
+    }
+    return api.delete(`/mcp/${id}`).then(res => res.data);
+  },
+};
+
+export const apiKeysApi = {
+  getKeys: (): Promise<ApiResponse<ApiKey[]>> => {
+    if (isDemoMode()) {
+      return createDemoResponse<ApiKey[]>([]);
+    }
+    return api.get('/api-keys').then(res => res.data);
+  },
+
+  // The response is the only time the key itself is returned
+  createKey: (name: string): Promise<ApiResponse<ApiKeyCreated>> => {
+    if (isDemoMode()) {
+      return createDemoResponse<ApiKeyCreated>({} as ApiKeyCreated, false);
+    }
+    return api.post('/api-keys', { name }).then(res => res.data);
+  },
+
+  revokeKey: (id: string): Promise<ApiResponse<void>> => {
+    if (isDemoMode()) {
+      return createDemoResponse(undefined, false);
+    }
+    return api.delete(`/api-keys/${id}`).then(res => res.data);
+  },
+};
+
 export const preferencesApi = {
   getPreferences: (): Promise<ApiResponse<UserPreferences>> =>
     api.get('/preferences').then(res => res.data),
@@ -815,9 +1111,16 @@ export const preferencesApi = {
         embeddingSettings: {
           enabled: false,
           model: 'nomic-embed-text',
+          chunkingStrategy: 'auto',
+          chunkSizeUnit: 'characters',
           chunkSize: 1000,
           chunkOverlap: 200,
           similarityThreshold: 0.7,
+          keywordWeight: 1,
+          semanticWeight: 1,
+          rerankEnabled: false,
+          rerankModel: '',
+          rerankCandidates: 20,
         },
         showUsername: false, // Default to showing "You"
       });
@@ -882,11 +1185,32 @@ export const documentsApi = {
     return api.get(`/documents/${documentId}`).then(res => res.data);
   },
 
+  getDocumentChunk: (
+    documentId: string,
+    chunkId: string
+  ): Promise<ApiResponse<DocumentChunk>> => {
+    if (isDemoMode()) {
+      return createDemoResponse({
+        id: chunkId,
+        documentId,
+        content: 'Demo passage content...',
+        chunkIndex: 0,
+        startChar: 0,
+        endChar: 23,
+        filename: 'demo-document.pdf',
+      });
+    }
+
+    return api
+      .get(`/documents/${documentId}/chunks/${chunkId}`)
+      .then(res => res.data);
+  },
+
   searchDocuments: (
     query: string,
     sessionId?: string,
     limit?: number
-  ): Promise<ApiResponse<DocumentChunk[]>> => {
+  ): Promise<ApiResponse<DocumentSearchResult[]>> => {
     if (isDemoMode()) {
       return createDemoResponse([]);
     }
@@ -1116,6 +1440,34 @@ export const usersApi = {
   },
 };
 
+// === Generation Queue API ===
+
+export const generationApi = {
+  // Active and waiting generations across all users (admin only)
+  getQueue: (): Promise<ApiResponse<GenerationQueueStatus>> => {
+    if (isDemoMode()) {
+      return createDemoResponse<GenerationQueueStatus>({
+        maxConcurrent: 4,
+        maxPerUser: 2,
+        active: [],
+        waiting: [],
+      });
+    }
+
+    return api.get('/generation/queue').then(res => res.data);
+  },
+
+  cancelJob: (messageId: string): Promise<ApiResponse<void>> => {
+    if (isDemoMode()) {
+      return createDemoResponse(undefined);
+    }
+
+    return api
+      .post(`/generation/queue/${encodeURIComponent(messageId)}/cancel`)
+      .then(res => res.data);
+  },
+};
+
 // === Persona API ===
 
 export const personaApi = {
@@ -17,6 +17,7 @@
 
 import { type ClassValue, clsx } from 'clsx';
 import { twMerge } from 'tailwind-merge';
+import { MessageCitation } from '@/types';
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
@@ -59,6 +60,28 @@ export function formatFileSize(bytes: number): string {
   return `${size.toFixed(1)} ${units[unitIndex]}`;
 }
 
+// Where in its document a cited passage is, e.g. "Leave › Sick leave, page 12"
+export function formatCitationLocation(citation: MessageCitation): string {
+  return [
+    citation.sectionPath?.join(' › '),
+    citation.pageNumber !== undefined && `page ${citation.pageNumber}`,
+  ]
+    .filter(Boolean)
+    .join(', ');
+}
+
+// Save a blob through a temporary download link
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
 export function generateId(): string {
   return Math.random().toString(36).substring(2) + Date.now().toString(36);
 }
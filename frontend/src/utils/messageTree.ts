@@ -0,0 +1,94 @@
+/*
+ * Libre WebUI
+ * Copyright (C) 2025 Kroonen AI, Inc.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at:
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { ChatMessage } from '@/types';
+
+// Messages sharing a parent with the given message, in sibling order.
+// System prompts are never offered as alternatives to a conversation turn.
+export const getSiblings = (
+  messages: ChatMessage[],
+  message: ChatMessage
+): ChatMessage[] => {
+  return messages
+    .filter(
+      msg =>
+        msg.parentId === message.parentId &&
+        (msg.role === 'system') === (message.role === 'system')
+    )
+    .sort((a, b) => (a.siblingIndex ?? 0) - (b.siblingIndex ?? 0));
+};
+
+// Follow the most recent child from a message down to a leaf
+export const findLatestLeaf = (
+  messages: ChatMessage[],
+  messageId: string
+): string => {
+  let currentId = messageId;
+
+  for (;;) {
+    const children = messages.filter(msg => msg.parentId === currentId);
+    if (children.length === 0) {
+      return currentId;
+    }
+    currentId = children.reduce((latest, child) =>
+      child.timestamp >= latest.timestamp ? child : latest
+    ).id;
+  }
+};
+
+// Messages on the active branch, root first, with system prompts that sit
+// outside the branch kept at the top
+export const getActiveBranch = (
+  messages: ChatMessage[],
+  activeMessageId?: string
+): ChatMessage[] => {
+  if (messages.length === 0) {
+    return [];
+  }
+
+  const byId = new Map(messages.map(msg => [msg.id, msg]));
+  let current: ChatMessage | undefined =
+    (activeMessageId && byId.get(activeMessageId)) ||
+    messages[messages.length - 1];
+
+  const branch: ChatMessage[] = [];
+  const seen = new Set<string>();
+  while (current && !seen.has(current.id)) {
+    seen.add(current.id);
+    branch.unshift(current);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+
+  const detachedSystem = messages.filter(
+    msg => msg.role === 'system' && !seen.has(msg.id)
+  );
+  return [...detachedSystem, ...branch];
+};
+
+// Closest user message at or above the given message
+export const findUserAncestor = (
+  messages: ChatMessage[],
+  messageId: string
+): ChatMessage | undefined => {
+  const byId = new Map(messages.map(msg => [msg.id, msg]));
+  let current = byId.get(messageId);
+
+  while (current && current.role !== 'user') {
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+  return current;
+};
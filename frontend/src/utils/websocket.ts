@@ -18,6 +18,9 @@
 import { WebSocketMessage } from '@/types';
 import { isDemoMode } from '@/utils/demoMode';
 
+// Messages after which a generation has nothing more worth resuming
+const STREAM_END_TYPES = ['assistant_complete', 'error', 'resume_unavailable'];
+
 class WebSocketService {
   private ws: WebSocket | null = null;
   private url: string;
@@ -25,6 +28,9 @@ class WebSocketService {
   private maxReconnectAttempts = 5;
   private reconnectDelay = 1000;
   private messageHandlers: Map<string, (data: unknown) => void> = new Map();
+  // Next offset to request per generation when resuming after a reconnect,
+  // kept only while the generation is open
+  private streamOffsets: Map<string, number> = new Map();
 
   constructor() {
     // For WebSocket, we need to connect to the backend server (port 3001)
@@ -68,14 +74,20 @@ class WebSocketService {
 
         this.ws.onopen = () => {
           console.log('WebSocket connected successfully');
+          const isReconnect = this.reconnectAttempts > 0;
           this.reconnectAttempts = 0;
           resolve();
+          // Let listeners resume generations that were streaming
+          if (isReconnect) {
+            this.messageHandlers.get('reconnected')?.(undefined);
+          }
         };
 
         this.ws.onmessage = event => {
           try {
             const message: WebSocketMessage = JSON.parse(event.data);
             console.log('WebSocket: Received message:', message);
+            this.trackStream(message);
             const handler = this.messageHandlers.get(message.type);
             if (handler) {
               handler(message.data);
@@ -135,6 +147,36 @@ class WebSocketService {
     this.messageHandlers.delete(type);
   }
 
+  // Ask the backend to replay what was missed of a generation and keep
+  // streaming it to this connection
+  resumeStream(messageId: string) {
+    this.send({
+      type: 'chat_resume',
+      data: {
+        messageId,
+        lastOffset: this.streamOffsets.get(messageId) || 0,
+      },
+    });
+  }
+
+  private trackStream(message: WebSocketMessage) {
+    const messageId =
+      message.stream?.messageId ??
+      (message.data as { messageId?: unknown } | undefined)?.messageId;
+    if (typeof messageId !== 'string') return;
+
+    if (STREAM_END_TYPES.includes(message.type)) {
+      this.streamOffsets.delete(messageId);
+    } else if (
+      message.stream &&
+      // Tracking starts at a generation's first message, so messages sent
+      // after its end, such as a generated title, do not bring it back
+      (message.stream.offset === 0 || this.streamOffsets.has(messageId))
+    ) {
+      this.streamOffsets.set(messageId, message.stream.offset + 1);
+    }
+  }
+
   private attemptReconnect() {
     if (isDemoMode()) {
       console.log('Demo mode active: skipping WebSocket reconnection.');
@@ -63,6 +63,7 @@ cat > "$PLUGIN_FILE" << EOF
   "id": "anthropic",
   "name": "Anthropic Claude",
   "type": "completion",
+  "protocol": "anthropic",
   "endpoint": "https://api.anthropic.com/v1/messages",
   "auth": {
     "header": "x-api-key",
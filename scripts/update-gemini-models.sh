@@ -50,6 +50,7 @@ cat > "$PLUGIN_FILE" << EOF
   "id": "gemini",
   "name": "Google Gemini",
   "type": "completion",
+  "protocol": "gemini",
   "endpoint": "https://generativelanguage.googleapis.com/v1beta/models/{model}:generateContent",
   "auth": {
     "header": "x-goog-api-key",
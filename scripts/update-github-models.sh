@@ -50,6 +50,7 @@ cat > "$PLUGIN_FILE" << EOF
   "id": "github",
   "name": "GitHub Models",
   "type": "completion",
+  "protocol": "openai",
   "endpoint": "https://models.inference.ai.azure.com/chat/completions",
   "auth": {
     "header": "Authorization",
@@ -50,6 +50,7 @@ cat > "$PLUGIN_FILE" << EOF
   "id": "groq",
   "name": "Groq",
   "type": "completion",
+  "protocol": "openai",
   "endpoint": "https://api.groq.com/openai/v1/chat/completions",
   "auth": {
     "header": "Authorization",
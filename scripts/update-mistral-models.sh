@@ -50,6 +50,7 @@ cat > "$PLUGIN_FILE" << EOF
   "id": "mistral",
   "name": "Mistral AI",
   "type": "completion",
+  "protocol": "openai",
   "endpoint": "https://api.mistral.ai/v1/chat/completions",
   "auth": {
     "header": "Authorization",
@@ -64,6 +64,7 @@ cat > "$PLUGIN_FILE" << EOF
   "id": "openai",
   "name": "OpenAI GPT",
   "type": "completion",
+  "protocol": "openai",
   "endpoint": "https://api.openai.com/v1/chat/completions",
   "auth": {
     "header": "Authorization",
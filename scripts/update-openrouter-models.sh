@@ -66,6 +66,7 @@ cat > "$PLUGIN_FILE" << EOF
   "id": "openrouter",
   "name": "OpenRouter",
   "type": "completion",
+  "protocol": "openai",
   "endpoint": "https://openrouter.ai/api/v1/chat/completions",
   "auth": {
     "header": "Authorization",